@@ -186,6 +186,19 @@ Thank you for your attention.
 Best regards,
 Prep Services FBA Team`;
 
+const AUTOPAY_FAILED_MESSAGE = (invoiceNumber, amountStr, reason, nextAttemptStr) => `Hi,
+
+We tried to charge ${amountStr} for invoice ${invoiceNumber} to the payment method saved for autopay, but the charge did not go through${reason ? ` (${reason})` : ""}.
+
+${nextAttemptStr
+    ? `We will try again on ${nextAttemptStr}. To avoid another failed charge, please update your payment method in your profile settings or pay the invoice from your dashboard.`
+    : "We will not try to charge this invoice again. Please pay it from your dashboard, or update your payment method in your profile settings."}
+
+If you have any questions, we're here to help.
+
+Best regards,
+Prep Services FBA Team`;
+
 function asDate(value) {
   if (!value) return null;
   if (value.toDate && typeof value.toDate === "function") return value.toDate();
@@ -309,6 +322,22 @@ async function tryAcquireInvoiceLock(db, docRef, lockField, sentField) {
   });
 }
 
+/** Lock a per-user invoice for a dunning email about its latest failed autopay charge. */
+async function tryAcquireDunningLock(db, docRef) {
+  const now = Date.now();
+  const lockUntil = new Date(now + PROCESSING_LOCK_MS);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) return null;
+    const data = snap.data() || {};
+    if (Number(data.dunningNotifiedAttempts || 0) >= Number(data.autopayAttempts || 0)) return null;
+    const lockedUntilDate = asDate(data.dunningProcessingUntil);
+    if (lockedUntilDate && lockedUntilDate.getTime() > now) return null;
+    tx.update(docRef, { dunningProcessingUntil: lockUntil });
+    return { id: snap.id, ...data };
+  });
+}
+
 async function clearInvoiceLock(docRef, lockField) {
   await docRef.update({
     [lockField]: admin.firestore.FieldValue.delete(),
@@ -337,6 +366,10 @@ exports.sendInvoiceReminders = functions.pubsub
     finalNoEmail: 0,
     finalSent: 0,
     finalFailed: 0,
+    dunningEligible: 0,
+    dunningNoEmail: 0,
+    dunningSent: 0,
+    dunningFailed: 0,
   };
 
   const smtpHost = process.env.SMTP_HOST;
@@ -528,7 +561,103 @@ exports.sendInvoiceReminders = functions.pubsub
     }
   }
 
+  // 4) Failed autopay charges on per-user invoices: one email per failed attempt
+  const autopayUsersSnap = await db.collection("users").where("autopayEnabled", "==", true).get();
+  for (const userDoc of autopayUsersSnap.docs) {
+    const user = userDoc.data() || {};
+    const failedSnap = await db
+      .collection(`users/${userDoc.id}/invoices`)
+      .where("autopayStatus", "in", ["failed", "exhausted"])
+      .get();
+    for (const doc of failedSnap.docs) {
+      const inv = { id: doc.id, ...doc.data() };
+      if (inv.status === "paid") continue;
+      if (Number(inv.dunningNotifiedAttempts || 0) >= Number(inv.autopayAttempts || 0)) continue;
+      runMetrics.dunningEligible += 1;
+      const to = String(user.email || "").trim();
+      if (!to) {
+        runMetrics.dunningNoEmail += 1;
+        continue;
+      }
+      try {
+        const lockedInv = await tryAcquireDunningLock(db, doc.ref);
+        if (!lockedInv) continue;
+        const owed = Number(lockedInv.grandTotal || 0) - Number(lockedInv.creditedAmount || 0) - Number(lockedInv.amountPaid || 0);
+        const amountStr = `$${Math.max(0, owed).toFixed(2)}`;
+        const nextAttempt = lockedInv.autopayStatus === "failed" ? asDate(lockedInv.autopayNextAttemptAt) : null;
+        const nextAttemptStr = nextAttempt
+          ? nextAttempt.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: TZ_NEW_JERSEY })
+          : null;
+        const subject = `Autopay Failed - Invoice ${lockedInv.invoiceNumber || lockedInv.id}`;
+        const message = AUTOPAY_FAILED_MESSAGE(lockedInv.invoiceNumber || lockedInv.id, amountStr, lockedInv.autopayLastError || "", nextAttemptStr);
+        await sendPlainEmail(transporter, smtpFromName, smtpFrom, to, subject, message);
+        await doc.ref.update({
+          dunningNotifiedAttempts: Number(lockedInv.autopayAttempts || 0),
+          dunningProcessingUntil: admin.firestore.FieldValue.delete(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        await writeEmailLog(db, {
+          to,
+          subject,
+          type: "autopay_failed",
+          invoiceNumber: lockedInv.invoiceNumber || "",
+          clientName: user.name || user.companyName || "",
+        });
+        runMetrics.dunningSent += 1;
+        console.log("Autopay failure email sent:", userDoc.id, lockedInv.id, lockedInv.invoiceNumber, to);
+      } catch (err) {
+        runMetrics.dunningFailed += 1;
+        console.error("Autopay failure email failed:", userDoc.id, inv.id, err);
+        try {
+          await clearInvoiceLock(doc.ref, "dunningProcessingUntil");
+        } catch (_) {}
+      }
+    }
+  }
+
   console.log("[Invoice automation metrics]", JSON.stringify(runMetrics));
 
   return null;
 });
+
+/**
+ * Call one of the app's cron API routes with the shared cron secret.
+ * Needs APP_URL (e.g. https://prepservicesfba.com) and CRON_SECRET set for functions.
+ */
+async function callAppCron(path) {
+  const appUrl = String(process.env.APP_URL || "").replace(/\/$/, "");
+  const secret = process.env.INVOICE_CRON_SECRET || process.env.CRON_SECRET;
+  if (!appUrl || !secret) {
+    console.error(`[App cron] APP_URL and CRON_SECRET must be set to call ${path}`);
+    return null;
+  }
+  const res = await fetch(`${appUrl}${path}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await res.text();
+  if (!res.ok) {
+    console.error(`[App cron] ${path} failed:`, res.status, body);
+    return null;
+  }
+  console.log(`[App cron] ${path}:`, body);
+  return null;
+}
+
+// Snapshot each client's billable storage daily at 00:15 New Jersey (America/New_York) time.
+exports.snapshotStorage = functions.pubsub
+  .schedule("every day 00:15")
+  .timeZone(TZ_NEW_JERSEY)
+  .onRun(() => callAppCron("/api/invoices/snapshot-storage"));
+
+// Retry failed autopay charges every 6 hours in New Jersey (America/New_York) time.
+exports.retryFailedAutopay = functions.pubsub
+  .schedule("every 6 hours")
+  .timeZone(TZ_NEW_JERSEY)
+  .onRun(() => callAppCron("/api/invoices/autopay-retry"));
+
+// Settle voided labels the carriers have approved, daily at 6 AM New Jersey (America/New_York) time.
+exports.syncLabelRefunds = functions.pubsub
+  .schedule("every day 06:00")
+  .timeZone(TZ_NEW_JERSEY)
+  .onRun(() => callAppCron("/api/shippo/label-refunds-sync"));
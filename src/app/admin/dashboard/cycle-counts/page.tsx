@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClipboardCheck, Scale } from "lucide-react";
+import { CycleCounts } from "@/components/admin/cycle-counts";
+import { useManagedUsers } from "@/hooks/use-managed-users";
+
+export default function AdminCycleCountsPage() {
+  const { managedUsers: users } = useManagedUsers();
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 shadow-xl overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-cyan-500 to-teal-600 text-white pb-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-2xl font-bold text-white flex items-center gap-2">
+                <ClipboardCheck className="h-6 w-6" />
+                Cycle Counts
+              </CardTitle>
+              <CardDescription className="text-cyan-100 mt-2">
+                Count stock on the shelf and approve variances into inventory adjustments
+              </CardDescription>
+            </div>
+            <div className="h-14 w-14 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center">
+              <Scale className="h-7 w-7 text-white" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="p-6">
+            <CycleCounts users={users} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
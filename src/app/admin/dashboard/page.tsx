@@ -48,6 +48,7 @@ import {
 } from "@/components/ui/chart";
 import { Area, AreaChart, Bar, BarChart, Pie, PieChart, CartesianGrid, XAxis, YAxis, Cell } from "recharts";
 import { cn } from "@/lib/utils";
+import { invoiceBalanceDue, isOpenInvoice } from "@/lib/invoice-payments";
 
 function toMs(v: unknown): number {
   if (!v) return 0;
@@ -447,9 +448,9 @@ export default function AdminDashboardPage() {
           try {
             const invoicesSnapshot = await getDocs(collection(db, `users/${userId}/invoices`));
             const userInvoices = invoicesSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as Invoice[];
-            const pending = userInvoices.filter((inv) => inv.status === "pending");
+            const pending = userInvoices.filter(isOpenInvoice);
             totalPending += pending.length;
-            totalPendingAmount += pending.reduce((sum, inv) => sum + (inv.grandTotal || 0), 0);
+            totalPendingAmount += pending.reduce((sum, inv) => sum + invoiceBalanceDue(inv), 0);
             userInvoices.forEach((inv) => {
               const d = invoiceDate(inv);
               if (!isDateInRange(d, dateRangeFrom, dateRangeTo)) return;
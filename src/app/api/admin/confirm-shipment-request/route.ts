@@ -0,0 +1,367 @@
+/**
+ * Admin-only API: Confirm a pending shipment request.
+ * Ships the request in one Firestore transaction: prices each line and the additional services
+ * from the client's pricing in effect on the shipping date, takes the units from inventory (lots
+ * FEFO without expired ones, bins from `binPicks` then by code, bundles from their components),
+ * records the stock movements and saves the `shipped` record and the request's `allocations`. A
+ * line without enough unreserved, unexpired stock is refused with a 409 and one with no pricing
+ * with a 400. Low-stock alerts are sent after the commit.
+ * - Auth: Firebase ID token (Authorization: Bearer <idToken>)
+ * - Body: { userId, requestId, adminRemarks?, shippingDate? (ISO), additionalServices?,
+ *   binPicks? (line index -> bin id), unitPrices? (line index -> price) }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { requireAdmin } from "@/lib/admin-api-auth";
+import { recordStockMovementAdmin } from "@/lib/stock-ledger-admin";
+import { sendLowStockAlerts, type InventoryQuantityChange } from "@/lib/low-stock-alerts-admin";
+import { addShipmentAllocation, getShipmentLineUnits, releaseReservedQuantity } from "@/lib/inventory-reservations";
+import { allocateLotsFefo, getExpiredLotQuantity, getOnHandLots } from "@/lib/inventory-lots";
+import { getOnHandBins, pickFromBins } from "@/lib/inventory-bins";
+import { loadUserPricingSet } from "@/lib/pricing-engine-admin";
+import { describePricingContext, priceAdditionalServices, priceShipmentLine, shippedPricingContext } from "@/lib/pricing-engine";
+import { toDate } from "@/lib/date-utils";
+import type { InventoryBinQuantity, InventoryLot, ShipmentAllocation } from "@/types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type CustomProductPricing = Record<number, { unitPrice: number; packOf: number; packOfPrice: number }>;
+
+function removeUndefined(obj: any): any {
+  if (obj === null || obj === undefined) return null;
+  if (obj instanceof Date) return obj;
+  // Preserve Firestore Timestamp objects
+  if (typeof obj === "object" && typeof obj.toDate === "function") return obj;
+  if (Array.isArray(obj)) return obj.map(removeUndefined);
+  if (typeof obj === "object") {
+    const cleaned: Record<string, any> = {};
+    for (const key of Object.keys(obj)) {
+      if (obj[key] !== undefined) cleaned[key] = removeUndefined(obj[key]);
+    }
+    return cleaned;
+  }
+  return obj;
+}
+
+function toNumber(value: unknown): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+}
+
+function serviceForRequest(req: any): string {
+  if (req.shipmentType === "box") return "Box Forwarding";
+  if (req.shipmentType === "pallet") {
+    return req.palletSubType === "existing_inventory" ? "Pallet Existing Inventory" : "Pallet Forwarding";
+  }
+  return req.service || "FBA/WFS/TFS";
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const userId = String(body?.userId || "").trim();
+  const requestId = String(body?.requestId || "").trim();
+  const adminRemarks = typeof body?.adminRemarks === "string" ? body.adminRemarks : "";
+  const shippingDate = body?.shippingDate ? new Date(body.shippingDate) : null;
+  const services = body?.additionalServices || {};
+  const customProductPricing: CustomProductPricing | undefined = services.customProductPricing || undefined;
+  const binPicks: Record<string, string> =
+    body?.binPicks && typeof body.binPicks === "object" ? body.binPicks : {};
+  const adminUnitPrices: Record<string, unknown> =
+    body?.unitPrices && typeof body.unitPrices === "object" ? body.unitPrices : {};
+
+  if (!userId || !requestId) {
+    return NextResponse.json({ error: "Missing userId or requestId" }, { status: 400 });
+  }
+  if (shippingDate && Number.isNaN(shippingDate.getTime())) {
+    return NextResponse.json({ error: "Invalid shippingDate" }, { status: 400 });
+  }
+
+  try {
+    const db = adminDb();
+    const pricing = await loadUserPricingSet(db, userId);
+    const requestRef = db.doc(`users/${userId}/shipmentRequests/${requestId}`);
+
+    const result = await db.runTransaction(async (tx: any) => {
+      // All reads first: the request, then every referenced inventory doc.
+      const requestSnap = await tx.get(requestRef);
+      if (!requestSnap.exists) {
+        return { ok: false as const, status: 404, error: "Shipment request not found." };
+      }
+      const req = requestSnap.data() || {};
+      if (req.status !== "pending") {
+        return { ok: false as const, status: 409, error: `Shipment request is already ${req.status || "processed"}.` };
+      }
+      const shipments: any[] = Array.isArray(req.shipments) ? req.shipments : [];
+      if (shipments.length === 0) {
+        return { ok: false as const, status: 400, error: "Shipment request has no products." };
+      }
+
+      const isCustomProduct =
+        String(req.productType || "").toLowerCase() === "custom" &&
+        String(req.shipmentType || "").toLowerCase() === "product";
+      const shipDate = shippingDate || (typeof req.date === "string" ? new Date(req.date) : req.date);
+      // Priced at the rates in effect on the shipping date
+      const pricingContext = { ...shippedPricingContext(req), date: toDate(shipDate) };
+      const adminAdditionalServices = priceAdditionalServices(pricing, services, pricingContext.date);
+
+      const productIds = Array.from(
+        new Set(shipments.flatMap((s) => getShipmentLineUnits(s).map((part) => part.productId)).filter(Boolean))
+      );
+      const inventorySnaps = await Promise.all(
+        productIds.map((id) => tx.get(db.doc(`users/${userId}/inventory/${id}`)))
+      );
+
+      // Units this request reserved on submission; the rest of an item's reservation belongs to other requests.
+      const reserved = new Map<string, number>();
+      for (const r of Array.isArray(req.reservations) ? req.reservations : []) {
+        reserved.set(String(r.productId), (reserved.get(String(r.productId)) ?? 0) + toNumber(r.quantity));
+      }
+
+      const now = new Date();
+      const inventoryById = new Map<
+        string,
+        {
+          ref: any;
+          data: any;
+          remaining: number;
+          available: number;
+          expired: number;
+          lots: InventoryLot[];
+          bins: InventoryBinQuantity[];
+        }
+      >();
+      for (const snap of inventorySnaps) {
+        if (!snap.exists) {
+          return { ok: false as const, status: 404, error: `Product ${snap.id} not found in inventory.` };
+        }
+        const data = snap.data() || {};
+        const reservedElsewhere = releaseReservedQuantity(data.reservedQuantity, reserved.get(snap.id) ?? 0);
+        const lots = getOnHandLots({ quantity: toNumber(data.quantity), lots: Array.isArray(data.lots) ? data.lots : [] });
+        inventoryById.set(snap.id, {
+          ref: snap.ref,
+          data,
+          remaining: toNumber(data.quantity),
+          available: toNumber(data.quantity) - reservedElsewhere,
+          expired: getExpiredLotQuantity(lots, now),
+          lots,
+          bins: getOnHandBins({ quantity: toNumber(data.quantity), bins: Array.isArray(data.bins) ? data.bins : [] }),
+        });
+      }
+
+      // Work out each line against a running balance so repeated products are decremented once per line.
+      const lines = [];
+      for (let index = 0; index < shipments.length; index++) {
+        const shipment = shipments[index];
+        const bundle = shipment.bundle && Array.isArray(shipment.bundle.components) ? shipment.bundle : undefined;
+        const custom = isCustomProduct ? customProductPricing?.[index] : undefined;
+        const packOf = custom?.packOf || toNumber(shipment.packOf) || 1;
+        const boxes = toNumber(shipment.quantity);
+        const units = boxes * packOf;
+        const parts = getShipmentLineUnits({ ...shipment, packOf });
+        if (parts.length === 0) {
+          return { ok: false as const, status: 400, error: `Line ${index + 1} is missing its product.` };
+        }
+        const picks = [];
+        for (const part of parts) {
+          const inv = inventoryById.get(part.productId);
+          if (!inv) {
+            return { ok: false as const, status: 400, error: `Line ${index + 1} is missing its product.` };
+          }
+          const sellable = inv.available - inv.expired;
+          if (part.units > sellable) {
+            return {
+              ok: false as const,
+              status: 409,
+              error: `Not enough stock for ${inv.data.productName || part.productId}${bundle ? ` (bundle ${bundle.name})` : ""}. Available: ${Math.max(0, sellable)}, Requested: ${part.units}.${inv.expired > 0 ? ` ${inv.expired} expired unit(s) cannot be shipped.` : ""}`,
+            };
+          }
+          inv.remaining -= part.units;
+          inv.available -= part.units;
+          const picked = allocateLotsFefo(inv.lots, part.units, { excludeExpiredAt: now });
+          inv.lots = picked.remaining;
+          // A bin chosen on the confirm screen only applies to single-product lines.
+          const binned = pickFromBins(inv.bins, part.units, bundle ? undefined : binPicks[String(index)] || undefined);
+          inv.bins = binned.remaining;
+          picks.push({ productId: part.productId, inv, units: part.units, lots: picked.allocations, bins: binned.picks });
+        }
+        let unitPrice: number;
+        let packOfPrice = 0;
+        const adminUnitPrice = toNumber(adminUnitPrices[String(index)]);
+        if (isCustomProduct) {
+          unitPrice = custom && custom.unitPrice > 0 ? custom.unitPrice : toNumber(shipment.unitPrice);
+          packOfPrice = custom ? custom.packOfPrice || 0 : 0;
+        } else if (pricingContext.palletSubType === "existing_inventory" && adminUnitPrice > 0) {
+          unitPrice = adminUnitPrice;
+        } else {
+          const priced = priceShipmentLine(pricing, pricingContext, { quantity: boxes, packOf });
+          if (!priced) {
+            return {
+              ok: false as const,
+              status: 400,
+              error: `Line ${index + 1}: no ${describePricingContext(pricingContext)} pricing is set up for this client and quantity.`,
+            };
+          }
+          unitPrice = priced.unitPrice;
+          packOfPrice = priced.packOfPrice;
+        }
+        lines.push({
+          shipment,
+          bundle,
+          picks,
+          packOf,
+          boxes,
+          units,
+          productName: bundle ? bundle.name : picks[0].inv.data.productName || "Unknown Item",
+          remainingAfter: bundle ? undefined : picks[0].inv.remaining,
+          unitPrice,
+          packOfPrice,
+        });
+      }
+
+      // Writes.
+      const referencePath = requestRef.path;
+
+      const stockChanges: InventoryQuantityChange[] = [];
+      for (const [productId, inv] of Array.from(inventoryById.entries())) {
+        const quantityBefore = toNumber(inv.data.quantity);
+        const update: Record<string, unknown> = {
+          quantity: inv.remaining,
+          status: inv.remaining > 0 ? "In Stock" : "Out of Stock",
+        };
+        if (Array.isArray(inv.data.lots) && inv.data.lots.length > 0) {
+          update.lots = inv.lots;
+        }
+        if (Array.isArray(inv.data.bins) && inv.data.bins.length > 0) {
+          update.bins = inv.bins;
+        }
+        if (reserved.has(productId)) {
+          update.reservedQuantity = releaseReservedQuantity(inv.data.reservedQuantity, reserved.get(productId) ?? 0);
+        }
+        tx.update(inv.ref, update);
+        stockChanges.push({
+          productId,
+          productName: inv.data.productName || "Unknown Item",
+          quantityBefore,
+          quantityAfter: inv.remaining,
+          reorderPoint: toNumber(inv.data.reorderPoint) || null,
+        });
+        recordStockMovementAdmin(tx, userId, {
+          productId,
+          productName: inv.data.productName || "Unknown Item",
+          type: "ship",
+          quantityBefore,
+          quantityAfter: inv.remaining,
+          referencePath,
+          createdBy: auth.uid,
+          createdByName: auth.name,
+        });
+      }
+
+      const allocations = new Map<string, ShipmentAllocation>();
+      for (const line of lines) {
+        for (const pick of line.picks) {
+          addShipmentAllocation(allocations, pick.productId, pick.units, pick.lots, pick.bins);
+        }
+      }
+
+      const shippedRef = db.collection(`users/${userId}/shipped`).doc();
+      tx.update(requestRef, {
+        status: "confirmed",
+        shippedId: shippedRef.id,
+        allocations: removeUndefined(Array.from(allocations.values())),
+        confirmedBy: auth.uid,
+        confirmedAt: now,
+        adminRemarks,
+        adminAdditionalServices,
+      });
+
+      const totalBoxes = lines.reduce((sum, l) => sum + l.boxes, 0);
+      const totalUnits = lines.reduce((sum, l) => sum + l.units, 0);
+      // Unit price is per-box for custom products (weighted by boxes), otherwise weighted by units.
+      const unitPrice = isCustomProduct && customProductPricing
+        ? lines.reduce((sum, l) => sum + l.unitPrice * l.boxes, 0) / totalBoxes || 0
+        : lines.reduce((sum, l) => sum + l.unitPrice * l.units, 0) / totalUnits || 0;
+      const last = lines[lines.length - 1];
+
+      const shippedDoc: Record<string, any> = {
+        productName: lines[0].productName || "Multiple Products",
+        date: shipDate,
+        createdAt: now,
+        shippedQty: totalUnits,
+        boxesShipped: totalBoxes,
+        unitsForPricing: totalBoxes,
+        remainingQty: last.remainingAfter,
+        packOf: lines[0].packOf,
+        unitPrice,
+        packOfPrice: lines[0].packOfPrice,
+        service: serviceForRequest(req),
+        productType: req.productType || "Standard",
+        shipmentType: req.shipmentType || "product",
+        remarks: adminRemarks,
+        labelUrl: req.labelUrl || "",
+        customDimensions: req.customDimensions || undefined,
+        customProductPricing: isCustomProduct && customProductPricing ? customProductPricing : undefined,
+        additionalServices: adminAdditionalServices,
+        additionalServicesTotal: adminAdditionalServices.total,
+        items: lines.map((l) => {
+          const lots = l.bundle ? [] : l.picks[0].lots;
+          const bins = l.bundle ? [] : l.picks[0].bins;
+          return {
+            productId: l.bundle ? undefined : l.shipment.productId,
+            productName: l.productName,
+            boxesShipped: l.boxes,
+            shippedQty: l.units,
+            packOf: l.packOf,
+            unitPrice: l.unitPrice,
+            packOfPrice: l.packOfPrice,
+            remainingQty: l.remainingAfter,
+            lots: lots.length > 0 ? lots : undefined,
+            bins: bins.length > 0 ? bins : undefined,
+            bundle: l.bundle
+              ? {
+                  bundleId: l.bundle.bundleId,
+                  name: l.bundle.name,
+                  sku: l.bundle.sku,
+                  components: l.bundle.components,
+                }
+              : undefined,
+          };
+        }),
+        totalBoxes,
+        totalUnits,
+        totalSkus: lines.length,
+        requestedBy: req.requestedBy,
+        confirmedBy: auth.uid,
+        confirmedAt: now,
+      };
+      if (req.palletSubType) shippedDoc.palletSubType = req.palletSubType;
+      tx.set(shippedRef, removeUndefined(shippedDoc));
+
+      return {
+        ok: true as const,
+        shippedId: shippedRef.id,
+        inventory: Array.from(inventoryById.entries()).map(([productId, inv]) => ({
+          productId,
+          quantity: inv.remaining,
+        })),
+        stockChanges,
+      };
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    await sendLowStockAlerts(userId, result.stockChanges, "a shipment");
+    return NextResponse.json({ success: true, shippedId: result.shippedId, inventory: result.inventory });
+  } catch (error: any) {
+    console.error("Error confirming shipment request:", error);
+    return NextResponse.json({ error: error?.message || "Failed to confirm shipment request." }, { status: 500 });
+  }
+}
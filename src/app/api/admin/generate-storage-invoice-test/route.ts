@@ -2,63 +2,25 @@
  * Admin-only API: Generate a test storage invoice for a single user + month.
  * - Auth: Firebase ID token (Authorization: Bearer <idToken>)
  * - No CRON secret required
+ * - Body: { userId, month? (YYYY-MM) }; cubic-feet and pallet-position storage default to the previous month
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { adminAuth, adminDb } from "@/lib/firebase-admin";
-import { format } from "date-fns";
+import { adminDb } from "@/lib/firebase-admin";
+import {
+  calculateVolumeStorageChargeAdmin,
+  getStoragePricingForMonth,
+} from "@/lib/storage-billing-admin";
+import { isVolumeStorageType } from "@/lib/storage-billing";
+import { billablePallets, countProductBaseUnits, type StorageUsageSource } from "@/lib/storage-snapshots";
+import { getBillingSnapshotAdmin } from "@/lib/storage-snapshots-admin";
+import { requireAdmin } from "@/lib/admin-api-auth";
+import { format, subMonths } from "date-fns";
 import { generateInvoiceNumber } from "@/lib/invoice-utils";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-function normalizeRole(v: any): string {
-  return String(v || "").trim().toLowerCase().replace(/[\s-]+/g, "_");
-}
-
-function isAdminLikeUserDoc(data: any): boolean {
-  if (!data) return false;
-  if (data.isAdmin === true || data.admin === true || data.is_admin === true) return true;
-  if (data.isSubAdmin === true || data.is_sub_admin === true) return true;
-  const role = normalizeRole(data.role || data.userRole || data.userType);
-  if (role === "admin" || role === "sub_admin" || role === "subadmin") return true;
-  const roles = Array.isArray(data.roles) ? data.roles.map(normalizeRole) : [];
-  if (roles.includes("admin") || roles.includes("sub_admin") || roles.includes("subadmin")) return true;
-  if (Array.isArray(data.features)) {
-    if (data.features.includes("admin_dashboard") || data.features.includes("manage_invoices") || data.features.includes("manage_users")) return true;
-  } else if (data.features && typeof data.features === "object") {
-    if (data.features.admin_dashboard === true || data.features.manage_invoices === true || data.features.manage_users === true) return true;
-  }
-  return false;
-}
-
-async function requireAdmin(request: NextRequest) {
-  const header = request.headers.get("authorization") || "";
-  if (!header.startsWith("Bearer ")) {
-    return { ok: false as const, status: 401, error: "Unauthorized" };
-  }
-
-  const token = header.slice("Bearer ".length).trim();
-  if (!token) return { ok: false as const, status: 401, error: "Unauthorized" };
-
-  try {
-    const decoded = await adminAuth().verifyIdToken(token);
-    const uid = decoded?.uid;
-    if (!uid) return { ok: false as const, status: 401, error: "Unauthorized" };
-
-    const db = adminDb();
-    const snap = await db.collection("users").doc(uid).get();
-    const data = snap.exists ? snap.data() : null;
-    if (!isAdminLikeUserDoc(data)) {
-      return { ok: false as const, status: 403, error: "Forbidden" };
-    }
-
-    return { ok: true as const, uid };
-  } catch {
-    return { ok: false as const, status: 401, error: "Unauthorized" };
-  }
-}
-
 export async function POST(request: NextRequest) {
   const auth = await requireAdmin(request);
   if (!auth.ok) {
@@ -87,10 +49,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User is not approved" }, { status: 400 });
     }
 
-    // Month parsing
+    const storageType = userData.storageType;
+    if (!storageType) {
+      return NextResponse.json({ error: "User has no storageType" }, { status: 400 });
+    }
+    const isVolume = isVolumeStorageType(storageType);
+
+    // Month parsing (volume storage is billed in arrears, as in the cron job)
     const now = new Date();
-    let invoiceMonthBase = format(now, "yyyy-MM");
     let monthDate = new Date(now.getFullYear(), now.getMonth(), 1);
+    if (isVolume) monthDate = subMonths(monthDate, 1);
+    let invoiceMonthBase = format(monthDate, "yyyy-MM");
     if (monthParam && /^\d{4}-\d{2}$/.test(monthParam)) {
       const [y, m] = monthParam.split("-").map((v: string) => Number(v));
       if (Number.isFinite(y) && Number.isFinite(m) && m >= 1 && m <= 12) {
@@ -103,42 +72,10 @@ export async function POST(request: NextRequest) {
     const firstDayOfMonth = new Date(monthDate.getFullYear(), monthDate.getMonth(), 1);
     const lastDayOfMonth = new Date(monthDate.getFullYear(), monthDate.getMonth() + 1, 0);
 
-    const storageType = userData.storageType;
-    if (!storageType) {
-      return NextResponse.json({ error: "User has no storageType" }, { status: 400 });
-    }
-
-    const storagePricingSnapshot = await db
-      .collection(`users/${userId}/storagePricing`)
-      .get();
-
-    if (storagePricingSnapshot.empty) {
+    const storagePricing = await getStoragePricingForMonth(db, userId, firstDayOfMonth, lastDayOfMonth);
+    if (!storagePricing) {
       return NextResponse.json({ error: "No storage pricing configured" }, { status: 400 });
     }
-
-    const toMs = (v: any): number => {
-      if (!v) return 0;
-      if (typeof v === "string") {
-        const t = new Date(v).getTime();
-        return Number.isNaN(t) ? 0 : t;
-      }
-      if (typeof v === "object" && typeof v.toDate === "function") {
-        return v.toDate().getTime();
-      }
-      if (typeof v === "object" && typeof v.seconds === "number") return v.seconds * 1000;
-      if (v instanceof Date) return v.getTime();
-      return 0;
-    };
-
-    const latestPricingDoc = [...storagePricingSnapshot.docs].sort((a, b) => {
-      const ad: any = a.data();
-      const bd: any = b.data();
-      const at = Math.max(toMs(ad.updatedAt), toMs(ad.createdAt));
-      const bt = Math.max(toMs(bd.updatedAt), toMs(bd.createdAt));
-      return bt - at;
-    })[0];
-
-    const storagePricing = latestPricingDoc.data();
     const price = storagePricing.price;
     if (!price || price <= 0) {
       return NextResponse.json({ error: "Invalid storage price" }, { status: 400 });
@@ -146,35 +83,20 @@ export async function POST(request: NextRequest) {
 
     let totalAmount = 0;
     let itemCount = 0;
+    let palletCount = 0;
+    let averageUsage = 0;
+    let unmeasuredItems: string[] = [];
+    let usageSource: StorageUsageSource | undefined;
+    let snapshotDate: string | undefined;
     const invoiceItems: any[] = [];
 
     if (storageType === "product_base") {
-      // Count "In Stock" items excluding items added in target month (first month free)
-      const inventorySnapshot = await db
-        .collection(`users/${userId}/inventory`)
-        .where("status", "==", "In Stock")
-        .get();
-
-      for (const inventoryDoc of inventorySnapshot.docs) {
-        const inventoryData = inventoryDoc.data();
-        const dateAdded = inventoryData.dateAdded;
-        let itemDateAdded: Date;
-        if (dateAdded && typeof dateAdded === "object" && "seconds" in dateAdded) {
-          itemDateAdded = new Date(dateAdded.seconds * 1000);
-        } else if (typeof dateAdded === "string") {
-          itemDateAdded = new Date(dateAdded);
-        } else {
-          itemDateAdded = new Date();
-        }
-
-        if (itemDateAdded >= firstDayOfMonth && itemDateAdded <= lastDayOfMonth) {
-          continue;
-        }
-
-        const quantity = inventoryData.quantity || 0;
-        itemCount += quantity;
-      }
-
+      // Product Base Storage: "In Stock" units on the month's first day, excluding items added this month (first month free).
+      // Billed from that day's snapshot so re-runs give the same count.
+      const { snapshot, source } = await getBillingSnapshotAdmin(db, userId, firstDayOfMonth, storageType);
+      usageSource = source;
+      snapshotDate = snapshot.date;
+      itemCount = countProductBaseUnits(snapshot, firstDayOfMonth, lastDayOfMonth);
       totalAmount = itemCount * price;
 
       invoiceItems.push({
@@ -187,7 +109,10 @@ export async function POST(request: NextRequest) {
         amount: totalAmount,
       });
     } else if (storageType === "pallet_base") {
-      const palletCount = storagePricing.palletCount || 1;
+      const { snapshot, source } = await getBillingSnapshotAdmin(db, userId, firstDayOfMonth, storageType);
+      usageSource = source;
+      snapshotDate = snapshot.date;
+      palletCount = billablePallets(snapshot, storagePricing.palletCount);
       totalAmount = palletCount * price;
       itemCount = palletCount;
 
@@ -200,6 +125,22 @@ export async function POST(request: NextRequest) {
         unitPrice: price,
         amount: totalAmount,
       });
+    } else if (isVolume) {
+      const charge = await calculateVolumeStorageChargeAdmin(
+        db,
+        userId,
+        storageType,
+        price,
+        firstDayOfMonth,
+        lastDayOfMonth,
+        invoiceMonthBase
+      );
+      invoiceItems.push(...charge.items);
+      totalAmount = charge.totalAmount;
+      itemCount = charge.lines.length;
+      averageUsage = charge.totalAverageUsage;
+      unmeasuredItems = charge.unmeasured;
+      usageSource = charge.usageSource;
     } else {
       return NextResponse.json({ error: `Unsupported storageType: ${storageType}` }, { status: 400 });
     }
@@ -234,7 +175,14 @@ export async function POST(request: NextRequest) {
       autoGeneratedAt: new Date(),
       storageType,
       itemCount,
-      ...(storageType === "pallet_base" && { palletCount: storagePricing.palletCount || 1 }),
+      ...(storageType === "pallet_base" && { palletCount }),
+      ...(usageSource && { usageSource }),
+      ...(snapshotDate && { snapshotDate }),
+      ...(isVolume && {
+        averageUsage,
+        billingPeriod: { start: format(firstDayOfMonth, "yyyy-MM-dd"), end: format(lastDayOfMonth, "yyyy-MM-dd") },
+        ...(unmeasuredItems.length > 0 && { unmeasuredItems }),
+      }),
       isTest: true,
       testRunAt: new Date(),
       testOfInvoiceMonth: invoiceMonthBase,
@@ -247,6 +195,7 @@ export async function POST(request: NextRequest) {
       success: true,
       invoiceNumber,
       invoiceMonth: invoiceMonthForDoc,
+      ...(unmeasuredItems.length > 0 && { unmeasuredItems }),
     });
   } catch (error: any) {
     console.error("Admin storage test invoice generation failed:", error);
@@ -0,0 +1,66 @@
+/**
+ * Admin-only API: Attach existing prep pricing rules to quantity tiers.
+ * - Auth: Firebase ID token (Authorization: Bearer <idToken>)
+ * - Body: { userId? } to migrate one client; all clients otherwise.
+ *
+ * Rules saved before tier tables existed only carry a package name and range label. Each one
+ * without a `tierId` gets the id of the default tier it matches (Starter, Standard, Small
+ * Business, Premium). Rules that match none are left alone and counted as unmatched. Running
+ * it again only touches rules still missing a tier.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { requireAdmin } from "@/lib/admin-api-auth";
+import { legacyTierId } from "@/lib/pricing-tiers";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const BATCH_LIMIT = 400;
+
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const onlyUserId = String(body?.userId || "").trim();
+
+  try {
+    const db = adminDb();
+    const userIds = onlyUserId ? [onlyUserId] : (await db.collection("users").get()).docs.map((d: any) => d.id);
+
+    let migrated = 0;
+    let unmatched = 0;
+    let batch = db.batch();
+    let pending = 0;
+
+    for (const userId of userIds) {
+      const rules = await db.collection(`users/${userId}/pricing`).get();
+      for (const ruleDoc of rules.docs) {
+        const rule = ruleDoc.data() || {};
+        if (rule.tierId) continue;
+        const tierId = legacyTierId(rule);
+        if (!tierId) {
+          unmatched++;
+          continue;
+        }
+        batch.update(ruleDoc.ref, { tierId });
+        migrated++;
+        if (++pending >= BATCH_LIMIT) {
+          await batch.commit();
+          batch = db.batch();
+          pending = 0;
+        }
+      }
+    }
+    if (pending > 0) await batch.commit();
+
+    return NextResponse.json({ success: true, usersScanned: userIds.length, migrated, unmatched });
+  } catch (error: any) {
+    console.error("Error migrating pricing tiers:", error);
+    return NextResponse.json({ error: error?.message || "Failed to migrate pricing rules." }, { status: 500 });
+  }
+}
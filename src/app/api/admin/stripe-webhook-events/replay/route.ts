@@ -0,0 +1,59 @@
+/**
+ * Admin-only API: Replay a Stripe webhook event.
+ * - Auth: Firebase ID token (Authorization: Bearer <idToken>)
+ * - Body: { eventId }
+ *
+ * The event is fetched again from Stripe and handled exactly as a delivery would be. Only events
+ * whose handling failed, or whose handler stopped without finishing, can be replayed; handlers
+ * skip anything already applied, so a replay never charges, credits or buys a label twice.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { requireAdmin } from "@/lib/admin-api-auth";
+import { getStripe } from "@/lib/stripe";
+import { processStripeEventOnceAdmin } from "@/lib/stripe-webhook-admin";
+import { isReplayableWebhookEvent, STRIPE_WEBHOOK_EVENTS_COLLECTION } from "@/lib/stripe-webhook-events";
+import type { StripeWebhookEvent } from "@/types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const eventId = String(body?.eventId || "").trim();
+    if (!eventId) {
+      return NextResponse.json({ error: "Missing eventId" }, { status: 400 });
+    }
+
+    const storedSnap = await adminDb().collection(STRIPE_WEBHOOK_EVENTS_COLLECTION).doc(eventId).get();
+    if (!storedSnap.exists) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    if (!isReplayableWebhookEvent(storedSnap.data() as StripeWebhookEvent)) {
+      return NextResponse.json(
+        { error: "Event cannot be replayed", details: "Only failed or stalled events can be replayed." },
+        { status: 409 }
+      );
+    }
+
+    const event = await getStripe().events.retrieve(eventId);
+    const { outcome, error } = await processStripeEventOnceAdmin(event, auth.uid);
+    if (outcome === "failed") {
+      return NextResponse.json({ error: "Replay failed", details: error }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, outcome });
+  } catch (error: any) {
+    console.error("Error replaying Stripe event:", error);
+    return NextResponse.json(
+      { error: "Failed to replay event", details: error.message || "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
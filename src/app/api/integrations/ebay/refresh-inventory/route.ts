@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminAuth, adminDb } from "@/lib/firebase-admin";
 import { getValidEbayToken, getEbayApiBaseUrl } from "@/lib/ebay-api";
+import { setInventoryQuantityWithLedger } from "@/lib/stock-ledger-admin";
+import { sendLowStockAlerts, type InventoryQuantityChange } from "@/lib/low-stock-alerts-admin";
 import { XMLParser } from "fast-xml-parser";
 
 export const dynamic = "force-dynamic";
@@ -123,17 +125,27 @@ export async function POST(request: NextRequest) {
     }
 
     let updated = 0;
-    const invRef = db.collection("users").doc(uid).collection("inventory");
+    const changes: InventoryQuantityChange[] = [];
     for (const row of selectedListings) {
       const key = row.id || row.offerId || row.listingId || "";
       if (!key) continue;
       const q = quantityByKey[key] ?? quantityByKey[row.offerId!] ?? quantityByKey[row.listingId!];
       if (q === undefined) continue;
       const docId = `ebay_${connId}_${key}`.replace(/\s/g, "_");
-      const status = q > 0 ? "In Stock" : "Out of Stock";
-      await invRef.doc(docId).set({ quantity: q, status }, { merge: true });
-      updated++;
+      try {
+        const change = await setInventoryQuantityWithLedger(`users/${uid}/inventory/${docId}`, q, {
+          type: "integration_sync",
+          createdBy: "system:ebay",
+          reason: "eBay inventory refresh",
+          referencePath: `users/${uid}/ebayConnections/${connId}`,
+        });
+        changes.push({ productId: docId, ...change });
+        updated++;
+      } catch (e) {
+        console.warn("[ebay refresh-inventory] skipped listing", docId, e);
+      }
     }
+    await sendLowStockAlerts(uid, changes, "an eBay inventory refresh");
     return { updated };
   }
 
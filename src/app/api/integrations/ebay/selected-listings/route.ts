@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminAuth, adminDb, adminFieldValue } from "@/lib/firebase-admin";
 import { getValidEbayToken, getEbayApiBaseUrl } from "@/lib/ebay-api";
+import { setInventoryQuantityWithLedger } from "@/lib/stock-ledger-admin";
+import { sendLowStockAlerts, type InventoryQuantityChange } from "@/lib/low-stock-alerts-admin";
 
 export const dynamic = "force-dynamic";
 
@@ -196,6 +198,7 @@ export async function POST(request: NextRequest) {
     const invRef = adminDb().collection("users").doc(uid).collection("inventory");
     const lookupRef = adminDb().collection("ebayInventoryLookup");
     const selectedIds = new Set(selectedListingsMap.keys());
+    const changes: InventoryQuantityChange[] = [];
 
     for (const row of selectedListingsMap.values()) {
       const quantity = typeof row.quantity === "number" ? row.quantity : 0;
@@ -204,20 +207,23 @@ export async function POST(request: NextRequest) {
       const docId = `ebay_${connId}_${row.id}`.replace(/\s/g, "_");
       const inventoryPath = `users/${uid}/inventory/${docId}`;
 
-      await invRef.doc(docId).set(
+      const change = await setInventoryQuantityWithLedger(
+        inventoryPath,
+        quantity,
+        { type: "integration_sync", createdBy: "system:ebay", reason: "eBay listing selection saved" },
         {
           productName: row.title || row.id,
           sku: row.sku || row.id,
-          quantity,
+          // Listing status (not quantity) decides availability for eBay rows
           status,
           dateAdded: FieldValue.serverTimestamp(),
           source: EBAY_INVENTORY_SOURCE,
           ebayConnectionId: connId,
           ...(row.offerId ? { ebayOfferId: row.offerId } : {}),
           ...(row.listingId ? { ebayListingId: row.listingId } : {}),
-        },
-        { merge: true }
+        }
       );
+      changes.push({ productId: docId, ...change });
 
       const lookupId = `${uid}_${connId}_${row.id}`.replace(/\s/g, "_");
       await lookupRef.doc(lookupId).set(
@@ -233,6 +239,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await sendLowStockAlerts(uid, changes, "an eBay sync");
+
     // Remove inventory docs and lookups for this connection that are no longer selected
     const prefix = `ebay_${connId}_`;
     const existingEbay = await invRef.where("source", "==", EBAY_INVENTORY_SOURCE).where("ebayConnectionId", "==", connId).get();
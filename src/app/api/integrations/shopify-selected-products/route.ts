@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminAuth, adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import { setInventoryQuantityWithLedger } from "@/lib/stock-ledger-admin";
+import { sendLowStockAlerts, type InventoryQuantityChange } from "@/lib/low-stock-alerts-admin";
 import type { ShopifySelectedVariant } from "@/types";
 
 export const dynamic = "force-dynamic";
@@ -119,16 +121,14 @@ export async function PUT(request: NextRequest) {
       }
 
       const productPathsMap: Record<string, { paths: string[]; lookupIds: string[] }> = {};
+      const changes: InventoryQuantityChange[] = [];
       for (const v of selectedVariants) {
         const info = variantQtyMap[v.variantId] ?? { quantity: 0, sku: null, inventoryItemId: null };
         const quantity = info.quantity;
-        const status = quantity > 0 ? "In Stock" : "Out of Stock";
         const docId = `shopify_${shop.replace(/\./g, "_")}_${v.variantId}`;
         const inventoryPath = `users/${uid}/inventory/${docId}`;
         const docData: Record<string, unknown> = {
           productName: v.title,
-          quantity,
-          status,
           dateAdded: FieldValue.serverTimestamp(),
           source: "shopify",
           shopifyVariantId: v.variantId,
@@ -138,7 +138,13 @@ export async function PUT(request: NextRequest) {
         if (info.inventoryItemId) docData.shopifyInventoryItemId = info.inventoryItemId;
         if (v.sku != null && v.sku !== "") docData.sku = v.sku;
         else if (info.sku) docData.sku = info.sku;
-        await invRef.doc(docId).set(docData, { merge: true });
+        const change = await setInventoryQuantityWithLedger(
+          inventoryPath,
+          quantity,
+          { type: "integration_sync", createdBy: "system:shopify", reason: "Shopify product selection saved" },
+          docData
+        );
+        changes.push({ productId: docId, ...change });
         // Lookup for inventory_levels webhook
         if (info.inventoryItemId) {
           const lookupId = `${shop.replace(/\./g, "_")}_${info.inventoryItemId}`;
@@ -159,6 +165,7 @@ export async function PUT(request: NextRequest) {
         const plId = `${shop.replace(/\./g, "_")}_${productId}`;
         await productLookupRef.doc(plId).set({ userId: uid, paths, lookupIds, shop }, { merge: true });
       }
+      await sendLowStockAlerts(uid, changes, "a Shopify sync");
     }
 
     const toRemove = await invRef.where("source", "==", "shopify").where("shop", "==", shop).get();
@@ -1,21 +1,56 @@
+/**
+ * API Route: Generate Daily Invoices
+ * Invoices every client's shipments that are not on an invoice yet, one invoice per client.
+ * - Auth: cron secret (Authorization: Bearer <secret> or ?secret=), or an admin's Firebase ID token
+ * - Body (POST) / query (GET): { dryRun?, shipmentIds?, excludeShipmentIds? }
+ *   dryRun returns what would be invoiced per client without writing anything. shipmentIds limits
+ *   the run to those shipments (the ones an admin reviewed); excludeShipmentIds leaves shipments
+ *   for a later run.
+ */
+
 import { NextRequest, NextResponse } from "next/server";
 import { format } from "date-fns";
 
 import { adminDb } from "@/lib/firebase-admin";
+import { requireAdmin } from "@/lib/admin-api-auth";
 import { generateInvoiceNumber } from "@/lib/invoice-utils";
+import { chargeGeneratedInvoiceAdmin } from "@/lib/autopay-admin";
 import type { ShippedItem } from "@/types";
 import { normalizeShipmentItems } from "@/lib/shipment-utils";
+import { loadUserPricingSet } from "@/lib/pricing-engine-admin";
+import { isAdminPricedShipment, priceShipmentLine, pricesMatch, shippedPricingContext } from "@/lib/pricing-engine";
 
 const CRON_SECRET = process.env.INVOICE_CRON_SECRET;
 
-function isAuthorized(request: NextRequest): boolean {
+async function isAuthorized(request: NextRequest): Promise<boolean> {
   if (!CRON_SECRET) return true;
   const header = request.headers.get("authorization");
   if (header === `Bearer ${CRON_SECRET}`) return true;
 
   const url = new URL(request.url);
   const secretParam = url.searchParams.get("secret");
-  return secretParam === CRON_SECRET;
+  if (secretParam === CRON_SECRET) return true;
+
+  // Admins run the review screen with their own session
+  return (await requireAdmin(request)).ok;
+}
+
+type RunOptions = {
+  dryRun: boolean;
+  shipmentIds: Set<string> | null;
+  excludeShipmentIds: Set<string>;
+};
+
+async function readRunOptions(request: NextRequest): Promise<RunOptions> {
+  const url = new URL(request.url);
+  const body = request.method === "POST" ? await request.json().catch(() => ({})) : {};
+  const isSet = (value: unknown) => ["1", "true", "yes"].includes(String(value ?? "").toLowerCase());
+  const idSet = (value: unknown) => (Array.isArray(value) ? new Set(value.map(String)) : null);
+  return {
+    dryRun: isSet(body?.dryRun) || isSet(url.searchParams.get("dryRun")),
+    shipmentIds: idSet(body?.shipmentIds),
+    excludeShipmentIds: idSet(body?.excludeShipmentIds) ?? new Set<string>(),
+  };
 }
 
 function resolveDate(value: any): Date | null {
@@ -57,11 +92,12 @@ export async function POST(request: NextRequest) {
 }
 
 async function handleRequest(request: NextRequest) {
-  if (!isAuthorized(request)) {
+  if (!(await isAuthorized(request))) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   try {
+    const options = await readRunOptions(request);
     const db = adminDb();
     const usersSnapshot = await db.collection("users").get();
     const results: Array<Record<string, unknown>> = [];
@@ -114,6 +150,15 @@ async function handleRequest(request: NextRequest) {
         continue;
       }
 
+      // An approved review only invoices the shipments that were reviewed
+      const reviewedShipments: Array<ShippedItem & { id: string }> = options.shipmentIds
+        ? uninvoicedShipments.filter((shipment: ShippedItem & { id: string }) => options.shipmentIds!.has(shipment.id))
+        : uninvoicedShipments;
+      if (reviewedShipments.length === 0) {
+        results.push({ userId, status: "skipped_not_selected" });
+        continue;
+      }
+
       // Fetch inventory to get SKU information
       const inventorySnapshot = await db
         .collection(`users/${userId}/inventory`)
@@ -124,8 +169,11 @@ async function handleRequest(request: NextRequest) {
         inventoryMap.set(doc.id, data);
       });
 
-      // Build invoice items from all uninvoiced shipments
-      const allItems: Array<{
+      // Line prices are recomputed from the client's pricing in effect on each shipment's date
+      // rather than taken from the record
+      const pricing = await loadUserPricingSet(db, userId);
+
+      type InvoiceLine = {
         quantity: number;
         productName: string;
         sku?: string;
@@ -134,6 +182,18 @@ async function handleRequest(request: NextRequest) {
         unitPrice: number;
         amount: number;
         shipmentId: string;
+      };
+
+      // Build invoice items from all uninvoiced shipments
+      const allItems: InvoiceLine[] = [];
+      // Every reviewed shipment with its lines, excluded ones included, for the dry-run preview
+      const shipmentPreviews: Array<{
+        id: string;
+        shipDate: string;
+        excluded: boolean;
+        items: InvoiceLine[];
+        amount: number;
+        additionalServices: Record<string, unknown> | null;
       }> = [];
       
       // Aggregate additional services across all shipments
@@ -144,13 +204,35 @@ async function handleRequest(request: NextRequest) {
       let pricePerItem = 0;
       let pricePerLabel = 0;
 
-      uninvoicedShipments.forEach((shipment) => {
+      reviewedShipments.forEach((shipment) => {
         const shipDate = formatShipDate(shipment.date, "N/A");
+        const excluded = options.excludeShipmentIds.has(shipment.id);
+        const shipmentLines: InvoiceLine[] = [];
         const normalizedItems = normalizeShipmentItems(shipment);
+        const pricingContext = shippedPricingContext(shipment as any);
+        // Custom products and manually priced pallets keep the price the admin set on confirmation.
+        const keepStoredPrice =
+          isAdminPricedShipment(pricingContext) ||
+          !!(shipment as any).customProductPricing ||
+          pricingContext.palletSubType === "existing_inventory";
 
         normalizedItems.forEach((product) => {
           const quantity = Number(product.boxesShipped || 0);
-          const unitPrice = Number(product.unitPrice || 0);
+          let unitPrice = Number(product.unitPrice || 0);
+          if (!keepStoredPrice) {
+            const priced = priceShipmentLine(pricing, pricingContext, { quantity, packOf: product.packOf });
+            if (priced && !pricesMatch(priced.unitPrice, unitPrice)) {
+              console.warn("[Daily invoice] stored unit price differs from pricing; using pricing:", {
+                userId,
+                shipmentId: shipment.id,
+                stored: unitPrice,
+                priced: priced.unitPrice,
+              });
+              unitPrice = priced.unitPrice;
+            } else if (!priced) {
+              console.warn("[Daily invoice] no pricing applies; using stored unit price:", { userId, shipmentId: shipment.id });
+            }
+          }
           const amount = quantity * unitPrice;
 
           if (quantity <= 0) {
@@ -165,16 +247,7 @@ async function handleRequest(request: NextRequest) {
           }
 
           // Build item object, only including sku if it's defined
-          const item: {
-            quantity: number;
-            productName: string;
-            sku?: string;
-            shipDate: string;
-            packaging: string;
-            unitPrice: number;
-            amount: number;
-            shipmentId: string;
-          } = {
+          const item: InvoiceLine = {
             quantity,
             productName: product.productName || "Unknown Item",
             shipDate,
@@ -189,9 +262,20 @@ async function handleRequest(request: NextRequest) {
             item.sku = sku;
           }
 
-          allItems.push(item);
+          shipmentLines.push(item);
+        });
+
+        shipmentPreviews.push({
+          id: shipment.id,
+          shipDate,
+          excluded,
+          items: shipmentLines,
+          amount: shipmentLines.reduce((sum, line) => sum + line.amount, 0),
+          additionalServices: (shipment.additionalServices as any) || null,
         });
-        
+        if (excluded) return;
+        allItems.push(...shipmentLines);
+
         // Aggregate additional services
         if (shipment.additionalServices) {
           const services = shipment.additionalServices as any;
@@ -205,22 +289,47 @@ async function handleRequest(request: NextRequest) {
       });
 
       const items = allItems.filter((item) => item.quantity > 0);
-
-      if (items.length === 0) {
-        results.push({ userId, status: "skipped_no_billable_items" });
-        continue;
-      }
-
       const productSubtotal = items.reduce((sum, item) => sum + item.amount, 0);
-      
+
       // Calculate additional services total
       const additionalServicesTotal = 
         (totalBubbleWrapFeet * pricePerFoot) +
         (totalStickerRemovalItems * pricePerItem) +
         (totalWarningLabels * pricePerLabel);
-      
+      const additionalServices =
+        additionalServicesTotal > 0
+          ? {
+              bubbleWrapFeet: totalBubbleWrapFeet,
+              stickerRemovalItems: totalStickerRemovalItems,
+              warningLabels: totalWarningLabels,
+              pricePerFoot,
+              pricePerItem,
+              pricePerLabel,
+              total: additionalServicesTotal,
+            }
+          : null;
+
       const subtotal = productSubtotal + additionalServicesTotal;
-      
+
+      if (options.dryRun) {
+        results.push({
+          userId,
+          status: "preview",
+          clientName: userData.name || userData.companyName || userData.email || "Client",
+          shipments: shipmentPreviews,
+          items,
+          additionalServices,
+          subtotal: productSubtotal,
+          grandTotal: subtotal,
+        });
+        continue;
+      }
+
+      if (items.length === 0) {
+        results.push({ userId, status: "skipped_no_billable_items" });
+        continue;
+      }
+
       if (subtotal <= 0) {
         results.push({ userId, status: "skipped_zero_total" });
         continue;
@@ -254,33 +363,28 @@ async function handleRequest(request: NextRequest) {
       };
       
       // Include additional services if any
-      if (additionalServicesTotal > 0) {
-        invoiceDoc.additionalServices = {
-          bubbleWrapFeet: totalBubbleWrapFeet,
-          stickerRemovalItems: totalStickerRemovalItems,
-          warningLabels: totalWarningLabels,
-          pricePerFoot,
-          pricePerItem,
-          pricePerLabel,
-          total: additionalServicesTotal,
-        };
+      if (additionalServices) {
+        invoiceDoc.additionalServices = additionalServices;
       }
 
-      await invoicesRef.add(invoiceDoc);
+      const invoiceRef = await invoicesRef.add(invoiceDoc);
+      const autopay = await chargeGeneratedInvoiceAdmin(userId, invoiceRef.id, userData);
 
       results.push({
         userId,
         status: "invoice_created",
         invoiceNumber,
-        shipmentsProcessed: uninvoicedShipments.length,
+        shipmentsProcessed: shipmentPreviews.filter((shipment) => !shipment.excluded).length,
         itemsProcessed: items.length,
         total: subtotal,
+        ...(autopay && { autopay }),
       });
     }
 
     return NextResponse.json({
       success: true,
       invoiceDate: formattedDate,
+      dryRun: options.dryRun,
       results,
     });
   } catch (error: any) {
@@ -2,12 +2,26 @@
  * API Route: Generate Monthly Storage Invoices
  * Generates storage invoices for all users with storage pricing configured
  * Should be called monthly (e.g., on the 1st of each month)
+ *
+ * Usage comes from the daily storage snapshots (see /api/invoices/snapshot-storage), so running
+ * a month again with `force` bills the same amounts. Product and pallet storage use the snapshot
+ * of the month's first day. Cubic-feet and pallet-position storage is billed in arrears: without
+ * `month` it covers the previous month, prorated by day from the snapshots, or from the stock
+ * movement ledger for a month the snapshots do not cover.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { adminAuth, adminDb } from "@/lib/firebase-admin";
-import { format } from "date-fns";
+import {
+  calculateVolumeStorageChargeAdmin,
+  getStoragePricingForMonth,
+} from "@/lib/storage-billing-admin";
+import { isVolumeStorageType } from "@/lib/storage-billing";
+import { billablePallets, countProductBaseUnits, type StorageUsageSource } from "@/lib/storage-snapshots";
+import { getBillingSnapshotAdmin } from "@/lib/storage-snapshots-admin";
+import { format, subMonths } from "date-fns";
 import { generateInvoiceNumber } from "@/lib/invoice-utils";
+import { chargeGeneratedInvoiceAdmin } from "@/lib/autopay-admin";
 
 const CRON_SECRET = process.env.INVOICE_CRON_SECRET || process.env.CRON_SECRET;
 
@@ -93,11 +107,13 @@ async function handleRequest(request: NextRequest) {
     const now = new Date();
     let monthDate = now;
     let invoiceMonthBase = format(now, "yyyy-MM");
+    let hasMonthParam = false;
     if (monthParam && /^\d{4}-\d{2}$/.test(monthParam)) {
       const [y, m] = monthParam.split("-").map((v) => Number(v));
       if (Number.isFinite(y) && Number.isFinite(m) && m >= 1 && m <= 12) {
         monthDate = new Date(y, m - 1, 1);
         invoiceMonthBase = monthParam;
+        hasMonthParam = true;
       }
     }
 
@@ -105,6 +121,15 @@ async function handleRequest(request: NextRequest) {
       ? `${invoiceMonthBase}-test-${format(now, "yyyyMMdd-HHmmss")}`
       : invoiceMonthBase;
 
+    // Volume storage needs a finished month of movements
+    const volumeMonthDate = hasMonthParam ? monthDate : subMonths(new Date(now.getFullYear(), now.getMonth(), 1), 1);
+    const volumeInvoiceMonthBase = format(volumeMonthDate, "yyyy-MM");
+    const volumeInvoiceMonthForDoc = isTest
+      ? `${volumeInvoiceMonthBase}-test-${format(now, "yyyyMMdd-HHmmss")}`
+      : volumeInvoiceMonthBase;
+    const volumeFirstDayOfMonth = new Date(volumeMonthDate.getFullYear(), volumeMonthDate.getMonth(), 1);
+    const volumeLastDayOfMonth = new Date(volumeMonthDate.getFullYear(), volumeMonthDate.getMonth() + 1, 0);
+
     const usersSnapshot = userIdParam
       ? await db.collection("users").where("__name__", "==", userIdParam).get()
       : await db.collection("users").get();
@@ -130,40 +155,18 @@ async function handleRequest(request: NextRequest) {
         continue;
       }
 
-      // Get user's storage pricing
-      const storagePricingSnapshot = await db
-        .collection(`users/${userId}/storagePricing`)
-        .get();
+      const isVolume = isVolumeStorageType(storageType);
+      const periodStart = isVolume ? volumeFirstDayOfMonth : firstDayOfMonth;
+      const periodEnd = isVolume ? volumeLastDayOfMonth : lastDayOfMonth;
+      const userInvoiceMonthBase = isVolume ? volumeInvoiceMonthBase : invoiceMonthBase;
+      const userInvoiceMonth = isVolume ? volumeInvoiceMonthForDoc : invoiceMonthForDoc;
 
-      if (storagePricingSnapshot.empty) {
+      // Get user's storage pricing
+      const storagePricing = await getStoragePricingForMonth(db, userId, periodStart, periodEnd);
+      if (!storagePricing) {
         results.push({ userId, status: "skipped_no_storage_pricing" });
         continue;
       }
-
-      const toMs = (v: any): number => {
-        if (!v) return 0;
-        if (typeof v === "string") {
-          const t = new Date(v).getTime();
-          return Number.isNaN(t) ? 0 : t;
-        }
-        if (typeof v === "object" && typeof v.toDate === "function") {
-          return v.toDate().getTime();
-        }
-        if (typeof v === "object" && typeof v.seconds === "number") return v.seconds * 1000;
-        if (v instanceof Date) return v.getTime();
-        return 0;
-      };
-
-      // Pick the latest pricing doc; .limit(1) is non-deterministic and can pick old prices.
-      const latestPricingDoc = [...storagePricingSnapshot.docs].sort((a, b) => {
-        const ad: any = a.data();
-        const bd: any = b.data();
-        const at = Math.max(toMs(ad.updatedAt), toMs(ad.createdAt));
-        const bt = Math.max(toMs(bd.updatedAt), toMs(bd.createdAt));
-        return bt - at;
-      })[0];
-
-      const storagePricing = latestPricingDoc.data();
       const price = storagePricing.price;
 
       if (!price || price <= 0) {
@@ -176,53 +179,31 @@ async function handleRequest(request: NextRequest) {
         const existingInvoicesSnapshot = await db
           .collection(`users/${userId}/invoices`)
           .where("type", "==", "storage")
-          .where("invoiceMonth", "==", invoiceMonthForDoc)
+          .where("invoiceMonth", "==", userInvoiceMonth)
           .get();
 
         if (!existingInvoicesSnapshot.empty) {
-          results.push({ userId, status: "skipped_invoice_exists", invoiceMonth: invoiceMonthForDoc });
+          results.push({ userId, status: "skipped_invoice_exists", invoiceMonth: userInvoiceMonth });
           continue;
         }
       }
 
       let totalAmount = 0;
       let itemCount = 0;
+      let palletCount = 0;
+      let averageUsage = 0;
+      let unmeasuredItems: string[] = [];
+      let usageSource: StorageUsageSource | undefined;
+      let snapshotDate: string | undefined;
       const invoiceItems: any[] = [];
 
       if (storageType === "product_base") {
-        // Product Base Storage: Count "In Stock" items, exclude items added this month (first month free)
-        const inventorySnapshot = await db
-          .collection(`users/${userId}/inventory`)
-          .where("status", "==", "In Stock")
-          .get();
-
-        for (const inventoryDoc of inventorySnapshot.docs) {
-          const inventoryData = inventoryDoc.data();
-          const dateAdded = inventoryData.dateAdded;
-
-          // Check if item was added this month (first month free)
-          let itemDateAdded: Date;
-          if (dateAdded && typeof dateAdded === "object" && "seconds" in dateAdded) {
-            itemDateAdded = new Date(dateAdded.seconds * 1000);
-          } else if (typeof dateAdded === "string") {
-            itemDateAdded = new Date(dateAdded);
-          } else {
-            itemDateAdded = new Date();
-          }
-
-          // Skip items added this month (first month free)
-          if (
-            itemDateAdded >= firstDayOfMonth &&
-            itemDateAdded <= lastDayOfMonth
-          ) {
-            continue;
-          }
-
-          // Count this item
-          const quantity = inventoryData.quantity || 0;
-          itemCount += quantity;
-        }
-
+        // Product Base Storage: "In Stock" units on the month's first day, excluding items added this month (first month free).
+        // Billed from that day's snapshot so re-runs give the same count.
+        const { snapshot, source } = await getBillingSnapshotAdmin(db, userId, periodStart, storageType);
+        usageSource = source;
+        snapshotDate = snapshot.date;
+        itemCount = countProductBaseUnits(snapshot, periodStart, periodEnd);
         totalAmount = itemCount * price;
 
         invoiceItems.push({
@@ -236,7 +217,10 @@ async function handleRequest(request: NextRequest) {
         });
       } else if (storageType === "pallet_base") {
         // Pallet Base Storage: Number of pallets × price per pallet
-        const palletCount = storagePricing.palletCount || 1;
+        const { snapshot, source } = await getBillingSnapshotAdmin(db, userId, periodStart, storageType);
+        usageSource = source;
+        snapshotDate = snapshot.date;
+        palletCount = billablePallets(snapshot, storagePricing.palletCount);
         totalAmount = palletCount * price;
         itemCount = palletCount;
 
@@ -249,6 +233,23 @@ async function handleRequest(request: NextRequest) {
           unitPrice: price,
           amount: totalAmount,
         });
+      } else if (isVolume) {
+        // Cubic feet / pallet positions: average daily usage × monthly price, per product
+        const charge = await calculateVolumeStorageChargeAdmin(
+          db,
+          userId,
+          storageType,
+          price,
+          periodStart,
+          periodEnd,
+          userInvoiceMonthBase
+        );
+        invoiceItems.push(...charge.items);
+        totalAmount = charge.totalAmount;
+        itemCount = charge.lines.length;
+        averageUsage = charge.totalAverageUsage;
+        unmeasuredItems = charge.unmeasured;
+        usageSource = charge.usageSource;
       }
 
       // Only create invoice if there's an amount
@@ -279,16 +280,24 @@ async function handleRequest(request: NextRequest) {
         createdAt: new Date(),
         userId,
         type: "storage",
-        invoiceMonth: invoiceMonthForDoc,
+        invoiceMonth: userInvoiceMonth,
         autoGenerated: true,
         autoGeneratedAt: new Date(),
         storageType,
         itemCount,
-        ...(storageType === "pallet_base" && { palletCount: storagePricing.palletCount || 1 }),
-        ...(isTest && { isTest: true, testRunAt: new Date(), testOfInvoiceMonth: invoiceMonthBase }),
+        ...(storageType === "pallet_base" && { palletCount }),
+        ...(usageSource && { usageSource }),
+        ...(snapshotDate && { snapshotDate }),
+        ...(isVolume && {
+          averageUsage,
+          billingPeriod: { start: format(periodStart, "yyyy-MM-dd"), end: format(periodEnd, "yyyy-MM-dd") },
+          ...(unmeasuredItems.length > 0 && { unmeasuredItems }),
+        }),
+        ...(isTest && { isTest: true, testRunAt: new Date(), testOfInvoiceMonth: userInvoiceMonthBase }),
       };
 
-      await db.collection(`users/${userId}/invoices`).add(invoiceDoc);
+      const invoiceRef = await db.collection(`users/${userId}/invoices`).add(invoiceDoc);
+      const autopay = isTest ? null : await chargeGeneratedInvoiceAdmin(userId, invoiceRef.id, userData);
 
       results.push({
         userId,
@@ -297,7 +306,9 @@ async function handleRequest(request: NextRequest) {
         storageType,
         itemCount,
         total: totalAmount,
-        invoiceMonth: invoiceMonthForDoc,
+        invoiceMonth: userInvoiceMonth,
+        ...(autopay && { autopay }),
+        ...(unmeasuredItems.length > 0 && { unmeasuredItems }),
         ...(isTest && { isTest: true }),
       });
     }
@@ -0,0 +1,48 @@
+/**
+ * API Route: Pay Invoice From Wallet
+ * Pays a warehouse invoice from the client's wallet balance.
+ * - Auth: Firebase ID token; clients pay their own invoices, admins any client's
+ * - Body: { invoiceId, userId? (admins only, defaults to the caller), amount? (dollars, defaults to as much of the balance due as the wallet covers) }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/admin-api-auth";
+import { payInvoiceFromWalletAdmin } from "@/lib/invoice-payments-admin";
+import { roundMoney } from "@/lib/invoice-utils";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const invoiceId = String(body?.invoiceId || "");
+  const userId = String(body?.userId || auth.uid);
+  const amount = body?.amount === undefined || body?.amount === null ? undefined : roundMoney(Number(body.amount));
+
+  if (!invoiceId) {
+    return NextResponse.json({ error: "Missing invoiceId" }, { status: 400 });
+  }
+  if (userId !== auth.uid && !auth.isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (amount !== undefined && !Number.isFinite(amount)) {
+    return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
+  }
+
+  try {
+    const result = await payInvoiceFromWalletAdmin(userId, invoiceId, amount, auth.uid);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    // Validation failures (insufficient balance, nothing due) come back as plain errors
+    console.error("Error paying invoice from wallet:", error);
+    return NextResponse.json(
+      { error: "Wallet payment failed", details: error.message || "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * API Route: Daily Storage Snapshots
+ * Records each client's billable storage footprint for today (New Jersey time) at
+ * users/{uid}/storageSnapshots/{yyyy-MM-dd}. Scheduled daily by the snapshotStorage function
+ * (functions/index.js); storage invoices are billed from these.
+ * - Auth: cron secret (Authorization: Bearer <secret> or ?secret=); refused when no secret is configured
+ * - Query: userId? to snapshot one client; force=1 to replace today's snapshot
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { captureStorageSnapshotAdmin } from "@/lib/storage-snapshots-admin";
+
+const CRON_SECRET = process.env.INVOICE_CRON_SECRET || process.env.CRON_SECRET;
+
+function isAuthorized(request: NextRequest): boolean {
+  // force=1 overwrites the snapshots invoices are billed from, so never run unauthenticated
+  if (!CRON_SECRET) return false;
+  const header = request.headers.get("authorization");
+  if (header === `Bearer ${CRON_SECRET}`) return true;
+
+  const url = new URL(request.url);
+  const secretParam = url.searchParams.get("secret");
+  return secretParam === CRON_SECRET;
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Handle both GET (for testing) and POST (for cron)
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const db = adminDb();
+    const url = new URL(request.url);
+    const userIdParam = url.searchParams.get("userId") || undefined;
+    const force = ["1", "true", "yes"].includes((url.searchParams.get("force") || "").toLowerCase());
+
+    const usersSnapshot = userIdParam
+      ? await db.collection("users").where("__name__", "==", userIdParam).get()
+      : await db.collection("users").get();
+    const results: Array<Record<string, unknown>> = [];
+
+    for (const userDoc of usersSnapshot.docs) {
+      const userId = userDoc.id;
+      const userData = userDoc.data() || {};
+
+      // Same clients the storage invoice job bills
+      if (userData.status === "deleted" || (userData.status && userData.status !== "approved")) {
+        results.push({ userId, status: "skipped_user_not_approved" });
+        continue;
+      }
+      if (!userData.storageType) {
+        results.push({ userId, status: "skipped_no_storage_type" });
+        continue;
+      }
+
+      try {
+        const { snapshot, created } = await captureStorageSnapshotAdmin(db, userId, {
+          storageType: userData.storageType,
+          force,
+        });
+        results.push({
+          userId,
+          status: created ? "snapshot_created" : "skipped_snapshot_exists",
+          date: snapshot.date,
+          totalUnits: snapshot.totalUnits,
+        });
+      } catch (error: any) {
+        console.error("Storage snapshot failed for user:", userId, error);
+        results.push({ userId, status: "failed", error: error?.message || "Unknown error" });
+      }
+    }
+
+    return NextResponse.json({ success: true, results });
+  } catch (error: any) {
+    console.error("Daily storage snapshot failed:", error);
+    return NextResponse.json(
+      {
+        error: "Daily storage snapshot failed",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
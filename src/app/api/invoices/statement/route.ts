@@ -0,0 +1,52 @@
+/**
+ * API Route: Account Statement
+ * Running-balance statement with aging for one client over a date range.
+ * - Auth: Firebase ID token; clients get their own statement, admins any client's
+ * - Query: start, end (yyyy-MM-dd); userId (admins only, defaults to the caller)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase-admin";
+import { requireUser } from "@/lib/admin-api-auth";
+import { loadAccountStatementAdmin } from "@/lib/account-statements-admin";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const url = new URL(request.url);
+  const start = url.searchParams.get("start") || "";
+  const end = url.searchParams.get("end") || "";
+  const userId = url.searchParams.get("userId") || auth.uid;
+
+  if (!DAY_PATTERN.test(start) || !DAY_PATTERN.test(end) || start > end) {
+    return NextResponse.json({ error: "Invalid date range. Use start and end as yyyy-MM-dd." }, { status: 400 });
+  }
+  if (userId !== auth.uid && !auth.isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const statement = await loadAccountStatementAdmin(adminDb(), userId, start, end);
+    if (!statement) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, statement });
+  } catch (error: any) {
+    console.error("Account statement failed:", error);
+    return NextResponse.json(
+      {
+        error: "Account statement failed",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Price a shipment request (and optionally additional services or container handling) from the
+ * client's configured pricing.
+ * - Auth: Firebase ID token (Authorization: Bearer <idToken>); admins may quote for any userId.
+ * - Body: { userId?, shipmentType, palletSubType?, service?, productType?, date? (ISO), lines: [{ quantity, packOf? }],
+ *           additionalServices?: { bubbleWrapFeet?, stickerRemovalItems?, warningLabels? },
+ *           container?: { containerSize, quantity } }
+ *
+ * Prices are the ones in effect on `date` (the shipment date), today when omitted. Lines that
+ * cannot be priced come back as null; `adminPriced` is true for custom products,
+ * which are priced by the admin at confirmation instead.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+import { isAdminLikeUserDoc } from "@/lib/admin-api-auth";
+import { loadUserPricingSet } from "@/lib/pricing-engine-admin";
+import {
+  isAdminPricedShipment,
+  priceAdditionalServices,
+  priceContainerHandling,
+  priceShipmentLine,
+  type ShipmentPricingContext,
+} from "@/lib/pricing-engine";
+import { toDate } from "@/lib/date-utils";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const SHIPMENT_TYPES = ["product", "box", "pallet"] as const;
+
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : "";
+  if (!token) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let callerUid: string;
+  let isAdmin = false;
+  try {
+    const decoded = await adminAuth().verifyIdToken(token);
+    callerUid = decoded.uid;
+    if (!callerUid) throw new Error("No uid");
+    const userDoc = await adminDb().collection("users").doc(callerUid).get();
+    isAdmin = isAdminLikeUserDoc(userDoc.data());
+  } catch {
+    return NextResponse.json({ error: "Invalid or expired token" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const userId = String(body?.userId || "").trim() || callerUid;
+  if (userId !== callerUid && !isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const shipmentType = SHIPMENT_TYPES.find((t) => t === body?.shipmentType);
+  const lines: { quantity: number; packOf?: number }[] = Array.isArray(body?.lines) ? body.lines : [];
+  if (lines.length > 0 && !shipmentType) {
+    return NextResponse.json({ error: "shipmentType must be product, box or pallet." }, { status: 400 });
+  }
+
+  try {
+    const pricing = await loadUserPricingSet(adminDb(), userId);
+    const context: ShipmentPricingContext = {
+      shipmentType: shipmentType || "product",
+      palletSubType: body?.palletSubType === "existing_inventory" ? "existing_inventory" : body?.palletSubType === "forwarding" ? "forwarding" : undefined,
+      service: typeof body?.service === "string" ? body.service : undefined,
+      productType: typeof body?.productType === "string" ? body.productType : undefined,
+      date: typeof body?.date === "string" ? toDate(body.date) : undefined,
+    };
+
+    return NextResponse.json({
+      adminPriced: isAdminPricedShipment(context),
+      lines: lines.map((line) => priceShipmentLine(pricing, context, { quantity: Number(line?.quantity), packOf: Number(line?.packOf) })),
+      additionalServices: body?.additionalServices ? priceAdditionalServices(pricing, body.additionalServices, context.date) : undefined,
+      container: body?.container?.containerSize
+        ? priceContainerHandling(pricing, String(body.container.containerSize), Number(body.container.quantity), context.date)
+        : undefined,
+    });
+  } catch (error: any) {
+    console.error("[pricing/quote]", error);
+    return NextResponse.json({ error: error?.message || "Failed to price request." }, { status: 500 });
+  }
+}
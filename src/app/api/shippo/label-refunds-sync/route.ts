@@ -0,0 +1,54 @@
+/**
+ * API Route: Sync Label Refunds
+ * Checks every voided label still waiting on its carrier and refunds the client once Shippo
+ * reports the refund approved. Scheduled daily by the syncLabelRefunds function (functions/index.js).
+ * - Auth: cron secret (Authorization: Bearer <secret> or ?secret=); refused when no secret is configured
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { syncPendingLabelRefundsAdmin } from "@/lib/shippo-labels-admin";
+
+const CRON_SECRET = process.env.INVOICE_CRON_SECRET || process.env.CRON_SECRET;
+
+function isAuthorized(request: NextRequest): boolean {
+  // This route pays money back, so it never runs unauthenticated
+  if (!CRON_SECRET) return false;
+  const header = request.headers.get("authorization");
+  if (header === `Bearer ${CRON_SECRET}`) return true;
+
+  const url = new URL(request.url);
+  const secretParam = url.searchParams.get("secret");
+  return secretParam === CRON_SECRET;
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Handle both GET (for testing) and POST (for cron)
+export async function GET(request: NextRequest) {
+  return handleRequest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleRequest(request);
+}
+
+async function handleRequest(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await syncPendingLabelRefundsAdmin();
+    return NextResponse.json({ success: true, results });
+  } catch (error: any) {
+    console.error("Label refund sync failed:", error);
+    return NextResponse.json(
+      {
+        error: "Label refund sync failed",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
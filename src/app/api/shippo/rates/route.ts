@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { LABEL_RATE_MARKUP } from '@/lib/shippo-labels-admin';
 
 const SHIPPO_API_BASE = 'https://api.goshippo.com';
 
@@ -147,7 +148,7 @@ export async function POST(request: NextRequest) {
     const rates = Array.isArray(ratesData.results) ? ratesData.results : ratesData;
 
     // Format rates for frontend and add 15 cents admin markup
-    const ADMIN_MARKUP = 0.15; // 15 cents admin profit
+    const ADMIN_MARKUP = LABEL_RATE_MARKUP; // 15 cents admin profit
     const formattedRates = rates.map((rate: any) => {
       const baseAmount = parseFloat(rate.amount) || 0;
       const markedUpAmount = (baseAmount + ADMIN_MARKUP).toFixed(2);
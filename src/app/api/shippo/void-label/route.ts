@@ -0,0 +1,43 @@
+/**
+ * API Route: Void Label
+ * Asks Shippo to refund a purchased label. The label moves to `refund_pending`; the client's card
+ * is refunded (or their wallet credited) once the carrier approves, which can take a few weeks.
+ * - Auth: Firebase ID token; clients void their own labels, admins any client's
+ * - Body: { labelPurchaseId, userId? (admins only, defaults to the caller) }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/admin-api-auth";
+import { requestLabelRefundAdmin } from "@/lib/shippo-labels-admin";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const labelPurchaseId = String(body?.labelPurchaseId || "");
+  const userId = String(body?.userId || auth.uid);
+
+  if (!labelPurchaseId) {
+    return NextResponse.json({ error: "Missing labelPurchaseId" }, { status: 400 });
+  }
+  if (userId !== auth.uid && !auth.isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const status = await requestLabelRefundAdmin(userId, labelPurchaseId, auth.uid);
+    return NextResponse.json({ success: true, status });
+  } catch (error: any) {
+    console.error("Error voiding label:", error);
+    return NextResponse.json(
+      { error: "Failed to void label", details: error.message || "Unknown error" },
+      { status: 400 }
+    );
+  }
+}
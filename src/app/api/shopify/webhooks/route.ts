@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createHmac, timingSafeEqual } from "crypto";
 import { adminDb } from "@/lib/firebase-admin";
+import { setInventoryQuantityWithLedger } from "@/lib/stock-ledger-admin";
+import { sendLowStockAlerts } from "@/lib/low-stock-alerts-admin";
+import { deductShopifyOrderBundles } from "@/lib/bundles-admin";
 
 export const dynamic = "force-dynamic";
 
@@ -29,6 +32,7 @@ export async function GET() {
 /**
  * POST: Shopify webhooks (e.g. inventory_levels/update).
  * Verify X-Shopify-Hmac-Sha256, then update PSF inventory for matching docs.
+ * orders/create also takes bundle SKUs on the order out of their component items.
  * Register this URL in Shopify admin: https://your-domain.com/api/shopify/webhooks
  */
 export async function POST(request: NextRequest) {
@@ -129,7 +133,6 @@ export async function POST(request: NextRequest) {
       }
 
       const lookupRef = db.collection("shopifyInventoryLookup");
-      const status = available > 0 ? "In Stock" : "Out of Stock";
 
       const lookupId = `${shopKey}_${idStr}`;
       let lookupSnap = await lookupRef.doc(lookupId).get();
@@ -151,7 +154,14 @@ export async function POST(request: NextRequest) {
         const lookup = lookupSnap.data()!;
         const path = lookup.inventoryPath as string;
         if (path) {
-          await db.doc(path).update({ quantity: available, status });
+          const change = await setInventoryQuantityWithLedger(path, available, {
+            type: "integration_sync",
+            createdBy: "system:shopify",
+            reason: "Shopify inventory_levels/update",
+            referencePath: `shopifyInventoryLookup/${lookupSnap.id}`,
+          });
+          const [, ownerId, , productId] = path.split("/");
+          await sendLowStockAlerts(ownerId, [{ productId, ...change }], "a Shopify inventory update");
           console.log("[Shopify webhooks] inventory_levels/update OK", {
             shop: shopNorm,
             shopifyInventoryItemId: idStr,
@@ -279,6 +289,13 @@ export async function POST(request: NextRequest) {
       const orderData = stripUndefined(orderDataRaw) as Record<string, unknown>;
       await db.collection("users").doc(userId).collection("shopifyOrders").doc(orderId).set(orderData, { merge: true });
       console.log("[Shopify webhooks] orders saved", { shop: shopNorm, orderId, userId });
+      if (topic === "orders/create" && lineItems) {
+        const bundleChanges = await deductShopifyOrderBundles(userId, orderId, name, lineItems);
+        if (bundleChanges.length > 0) {
+          console.log("[Shopify webhooks] orders bundle components deducted", { shop: shopNorm, orderId, components: bundleChanges.length });
+          await sendLowStockAlerts(userId, bundleChanges, "a Shopify order");
+        }
+      }
     } catch (err: unknown) {
       console.error("[Shopify webhooks orders]", err);
       return NextResponse.json({ error: "Update failed" }, { status: 500 });
@@ -0,0 +1,102 @@
+/**
+ * API Route: Create Invoice Payment
+ * Starts a Stripe card or ACH payment against a warehouse invoice; the webhook records it on the
+ * invoice once it succeeds.
+ * - Auth: Firebase ID token; clients pay their own invoices, admins any client's
+ * - Body: { invoiceId, userId? (admins only, defaults to the caller), amount? (dollars, defaults to the balance due) }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getStripe } from "@/lib/stripe";
+import { adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import { requireUser } from "@/lib/admin-api-auth";
+import { invoiceBalanceDue, invoicePaymentsPath, MIN_INVOICE_PAYMENT } from "@/lib/invoice-payments";
+import { INVOICE_PAYMENT_PURPOSE } from "@/lib/invoice-payments-admin";
+import { roundMoney } from "@/lib/invoice-utils";
+import type { Invoice, InvoicePaymentAttempt } from "@/types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const invoiceId = String(body?.invoiceId || "");
+    const userId = String(body?.userId || auth.uid);
+
+    if (!invoiceId) {
+      return NextResponse.json({ error: "Missing invoiceId" }, { status: 400 });
+    }
+    if (userId !== auth.uid && !auth.isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const db = adminDb();
+    const invoiceSnap = await db.collection(`users/${userId}/invoices`).doc(invoiceId).get();
+    if (!invoiceSnap.exists) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+    const invoice = { ...invoiceSnap.data(), id: invoiceSnap.id } as Invoice;
+
+    const balanceDue = invoiceBalanceDue(invoice);
+    if (balanceDue <= 0) {
+      return NextResponse.json({ error: "Invoice has nothing left to pay" }, { status: 400 });
+    }
+    const amount = body?.amount === undefined || body?.amount === null ? balanceDue : roundMoney(Number(body.amount));
+    if (!Number.isFinite(amount) || amount < MIN_INVOICE_PAYMENT || amount > balanceDue) {
+      return NextResponse.json(
+        {
+          error: "Invalid amount",
+          details: `Pay between $${MIN_INVOICE_PAYMENT.toFixed(2)} and $${balanceDue.toFixed(2)}.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const stripe = getStripe();
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: Math.round(amount * 100),
+      currency: "usd",
+      payment_method_types: ["card", "us_bank_account"],
+      description: `Invoice ${invoice.invoiceNumber}`,
+      metadata: {
+        purpose: INVOICE_PAYMENT_PURPOSE,
+        userId,
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+      },
+    });
+
+    const attempt: Omit<InvoicePaymentAttempt, "id" | "createdAt"> = {
+      invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      amount,
+      status: "pending",
+      stripePaymentIntentId: paymentIntent.id,
+    };
+    await db
+      .collection(invoicePaymentsPath(userId))
+      .doc(paymentIntent.id)
+      .set({ ...attempt, createdAt: adminFieldValue().serverTimestamp() });
+
+    return NextResponse.json({
+      clientSecret: paymentIntent.client_secret,
+      paymentIntentId: paymentIntent.id,
+      amount,
+    });
+  } catch (error: any) {
+    console.error("Error creating invoice payment:", error);
+    return NextResponse.json(
+      {
+        error: error?.type === "StripeInvalidRequestError" ? "Invalid payment request" : "Failed to create invoice payment",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
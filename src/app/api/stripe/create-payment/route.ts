@@ -1,34 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStripe } from '@/lib/stripe';
 import { adminDb, adminFieldValue } from '@/lib/firebase-admin';
+import { requireUser } from '@/lib/admin-api-auth';
+import { getLabelRateChargeCentsAdmin } from '@/lib/shippo-labels-admin';
 import type { LabelPurchase } from '@/types';
 
 export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
   try {
     const body = await request.json();
+    // The label is charged at the rate's price from Shippo; any amount sent is ignored
     const {
-      userId,
-      amount, // Amount in cents
-      currency = 'usd',
       fromAddress,
       toAddress,
       parcel,
       selectedRate,
       shippedItemId,
     } = body;
+    const userId = auth.uid;
+    const currency = 'usd';
 
     // Validate required fields
-    if (!userId || !amount || !fromAddress || !toAddress || !parcel || !selectedRate) {
+    if (!fromAddress || !toAddress || !parcel || !selectedRate?.objectId) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
+    if (!selectedRate.shipmentId) {
+      return NextResponse.json(
+        { error: 'Shipment ID not found' },
+        { status: 400 }
+      );
+    }
 
-    // Validate amount (must be positive)
-    if (amount <= 0) {
+    let amount: number; // Amount in cents
+    try {
+      amount = await getLabelRateChargeCentsAdmin(selectedRate.objectId, selectedRate.shipmentId);
+    } catch (rateError: any) {
+      console.error('Error pricing label rate:', rateError);
       return NextResponse.json(
-        { error: 'Amount must be greater than 0' },
+        { error: 'Could not confirm the label price', details: rateError.message || 'Unknown error' },
         { status: 400 }
       );
     }
@@ -40,8 +56,8 @@ export async function POST(request: NextRequest) {
     let paymentIntent;
     try {
       paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount), // Ensure it's an integer (cents)
-        currency: currency.toLowerCase(),
+        amount,
+        currency,
         metadata: {
           userId,
           fromAddress: JSON.stringify(fromAddress),
@@ -0,0 +1,108 @@
+/**
+ * API Route: Saved Payment Method
+ * The card or bank account a client keeps on file for autopay.
+ * - Auth: Firebase ID token; acts on the caller's own account
+ * - POST: start a Stripe SetupIntent (creating the Stripe customer if needed) -> { clientSecret }
+ * - PUT: { paymentMethodId } save the confirmed method as the default, replacing the previous one
+ * - DELETE: remove the saved method and turn autopay off
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getStripe } from "@/lib/stripe";
+import { adminDb } from "@/lib/firebase-admin";
+import { requireUser } from "@/lib/admin-api-auth";
+import { ensureStripeCustomerAdmin, savedPaymentMethodFromStripe } from "@/lib/autopay-admin";
+import type { UserProfile } from "@/types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function errorResponse(error: any, message: string) {
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    {
+      error: message,
+      details: error?.message || "Unknown error",
+    },
+    { status: 500 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const customerId = await ensureStripeCustomerAdmin(auth.uid);
+    const setupIntent = await getStripe().setupIntents.create({
+      customer: customerId,
+      payment_method_types: ["card", "us_bank_account"],
+      usage: "off_session",
+      metadata: { userId: auth.uid },
+    });
+    return NextResponse.json({ clientSecret: setupIntent.client_secret });
+  } catch (error: any) {
+    return errorResponse(error, "Failed to start payment method setup");
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const paymentMethodId = String(body?.paymentMethodId || "");
+    if (!paymentMethodId) {
+      return NextResponse.json({ error: "Missing paymentMethodId" }, { status: 400 });
+    }
+
+    const userRef = adminDb().collection("users").doc(auth.uid);
+    const user = ((await userRef.get()).data() || {}) as UserProfile;
+    const stripe = getStripe();
+    const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId);
+    const owner = typeof paymentMethod.customer === "string" ? paymentMethod.customer : paymentMethod.customer?.id;
+    if (!user.stripeCustomerId || owner !== user.stripeCustomerId) {
+      return NextResponse.json({ error: "Payment method does not belong to this account" }, { status: 403 });
+    }
+
+    await stripe.customers.update(user.stripeCustomerId, {
+      invoice_settings: { default_payment_method: paymentMethod.id },
+    });
+    const previousId = user.defaultPaymentMethod?.id;
+    if (previousId && previousId !== paymentMethod.id) {
+      await stripe.paymentMethods.detach(previousId).catch((error: any) => {
+        console.error("Failed to detach previous payment method:", error);
+      });
+    }
+
+    const saved = savedPaymentMethodFromStripe(paymentMethod);
+    await userRef.update({ defaultPaymentMethod: saved });
+    return NextResponse.json({ success: true, paymentMethod: saved });
+  } catch (error: any) {
+    return errorResponse(error, "Failed to save payment method");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const userRef = adminDb().collection("users").doc(auth.uid);
+    const user = ((await userRef.get()).data() || {}) as UserProfile;
+    if (user.defaultPaymentMethod?.id) {
+      await getStripe().paymentMethods.detach(user.defaultPaymentMethod.id);
+    }
+    await userRef.update({ defaultPaymentMethod: null, autopayEnabled: false });
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return errorResponse(error, "Failed to remove payment method");
+  }
+}
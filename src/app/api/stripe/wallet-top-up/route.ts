@@ -0,0 +1,61 @@
+/**
+ * API Route: Wallet Top-Up
+ * Starts a Stripe card or ACH payment that adds funds to the caller's wallet; the webhook credits
+ * the wallet once it succeeds.
+ * - Auth: Firebase ID token
+ * - Body: { amount (dollars) }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getStripe } from "@/lib/stripe";
+import { requireUser } from "@/lib/admin-api-auth";
+import { roundMoney } from "@/lib/invoice-utils";
+import { MIN_WALLET_TOP_UP } from "@/lib/wallet";
+import { WALLET_TOP_UP_PURPOSE } from "@/lib/wallet-admin";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const amount = roundMoney(Number(body?.amount));
+    if (!Number.isFinite(amount) || amount < MIN_WALLET_TOP_UP) {
+      return NextResponse.json(
+        { error: "Invalid amount", details: `Top up at least $${MIN_WALLET_TOP_UP.toFixed(2)}.` },
+        { status: 400 }
+      );
+    }
+
+    const paymentIntent = await getStripe().paymentIntents.create({
+      amount: Math.round(amount * 100),
+      currency: "usd",
+      payment_method_types: ["card", "us_bank_account"],
+      description: "Wallet top-up",
+      metadata: {
+        purpose: WALLET_TOP_UP_PURPOSE,
+        userId: auth.uid,
+      },
+    });
+
+    return NextResponse.json({
+      clientSecret: paymentIntent.client_secret,
+      paymentIntentId: paymentIntent.id,
+      amount,
+    });
+  } catch (error: any) {
+    console.error("Error creating wallet top-up:", error);
+    return NextResponse.json(
+      {
+        error: error?.type === "StripeInvalidRequestError" ? "Invalid payment request" : "Failed to create wallet top-up",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
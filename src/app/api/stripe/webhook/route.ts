@@ -1,80 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStripe } from '@/lib/stripe';
-import { adminDb, adminFieldValue } from '@/lib/firebase-admin';
 import Stripe from 'stripe';
-
-const SHIPPO_API_BASE = 'https://api.goshippo.com';
-
-async function purchaseLabelFromShippo({
-  rateId,
-  shipmentId,
-  labelPurchaseId,
-  userId,
-}: {
-  rateId: string;
-  shipmentId: string;
-  labelPurchaseId: string;
-  userId: string;
-}) {
-  try {
-    if (!process.env.SHIPPO_API_KEY) {
-      throw new Error('Shippo API key not configured');
-    }
-
-    // Purchase label from Shippo
-    const transactionResponse = await fetch(`${SHIPPO_API_BASE}/transactions/`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `ShippoToken ${process.env.SHIPPO_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        rate: rateId,
-        async: false,
-      }),
-    });
-
-    if (!transactionResponse.ok) {
-      const errorData = await transactionResponse.json();
-      console.error('Shippo label purchase error:', errorData);
-      
-      // Update label purchase record with error
-      const labelPurchaseRef = adminDb()
-        .collection(`users/${userId}/labelPurchases`)
-        .doc(labelPurchaseId);
-      await labelPurchaseRef.update({
-        status: 'label_failed',
-        errorMessage: errorData.detail || errorData.message || 'Failed to purchase label',
-      });
-      return;
-    }
-
-    const transaction = await transactionResponse.json();
-
-    // Update label purchase record with Shippo transaction details
-    const labelPurchaseRef = adminDb()
-      .collection(`users/${userId}/labelPurchases`)
-      .doc(labelPurchaseId);
-    await labelPurchaseRef.update({
-      status: 'label_purchased',
-      shippoTransactionId: transaction.object_id,
-      trackingNumber: transaction.tracking_number || null,
-      labelUrl: transaction.label_url || null,
-      labelPurchasedAt: adminFieldValue().serverTimestamp(),
-    });
-
-    console.log(`Label purchased successfully: ${transaction.object_id}`);
-  } catch (error: any) {
-    console.error('Error purchasing label:', error);
-    const labelPurchaseRef = adminDb()
-      .collection(`users/${userId}/labelPurchases`)
-      .doc(labelPurchaseId);
-    await labelPurchaseRef.update({
-      status: 'label_failed',
-      errorMessage: error.message || 'Error purchasing label',
-    });
-  }
-}
+import { processStripeEventOnceAdmin } from '@/lib/stripe-webhook-admin';
 
 // Disable body parsing, need raw body for webhook signature verification
 export const runtime = 'nodejs';
@@ -116,44 +43,10 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  let result: Awaited<ReturnType<typeof processStripeEventOnceAdmin>>;
   try {
-    // Handle the event
-    switch (event.type) {
-      case 'payment_intent.succeeded': {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        await handlePaymentSuccess(paymentIntent);
-        break;
-      }
-
-      case 'payment_intent.payment_failed': {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        await handlePaymentFailure(paymentIntent);
-        break;
-      }
-
-      case 'payment_intent.canceled': {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        await handlePaymentCanceled(paymentIntent);
-        break;
-      }
-
-      case 'charge.succeeded': {
-        const charge = event.data.object as Stripe.Charge;
-        // Additional confirmation, but payment_intent.succeeded is primary
-        break;
-      }
-
-      case 'charge.failed': {
-        const charge = event.data.object as Stripe.Charge;
-        // Additional confirmation, but payment_intent.payment_failed is primary
-        break;
-      }
-
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
-    }
-
-    return NextResponse.json({ received: true });
+    // Handle the event once, however often Stripe delivers it
+    result = await processStripeEventOnceAdmin(event);
   } catch (error: any) {
     console.error('Error processing webhook:', error);
     return NextResponse.json(
@@ -161,144 +54,19 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
-  const paymentIntentId = paymentIntent.id;
-  const userId = paymentIntent.metadata?.userId;
-
-  if (!userId) {
-    console.error('No userId in payment intent metadata');
-    return;
-  }
-
-  // Find the label purchase record
-  const labelPurchasesRef = adminDb().collection(`users/${userId}/labelPurchases`);
-  const snapshot = await labelPurchasesRef
-    .where('stripePaymentIntentId', '==', paymentIntentId)
-    .get();
-
-  if (snapshot.empty) {
-    console.error(`No label purchase found for payment intent: ${paymentIntentId}`);
-    return;
-  }
-
-  const labelPurchaseDoc = snapshot.docs[0];
-  const labelPurchaseRef = labelPurchaseDoc.ref;
-
-  // Update label purchase with payment success
-  await labelPurchaseRef.update({
-    paymentStatus: 'succeeded',
-    status: 'payment_succeeded',
-    stripeChargeId: paymentIntent.latest_charge as string,
-    paymentCompletedAt: new Date(),
-  });
-
-  const labelPurchaseData = labelPurchaseDoc.data();
-  const selectedRate = labelPurchaseData.selectedRate;
-
-  // Purchase label from Shippo
-  if (selectedRate?.objectId) {
-    try {
-      // Get shipment ID from metadata or from the rate
-      const shipmentId = paymentIntent.metadata?.shipmentId || selectedRate.shipmentId;
-      
-      if (!shipmentId) {
-        console.error('No shipment ID found for label purchase');
-        await labelPurchaseRef.update({
-          status: 'label_failed',
-          errorMessage: 'Shipment ID not found',
-        });
-        return;
-      }
-
-      // Purchase label from Shippo directly
-      await purchaseLabelFromShippo({
-        rateId: selectedRate.objectId,
-        shipmentId: shipmentId,
-        labelPurchaseId: labelPurchaseDoc.id,
-        userId: userId,
-      });
-    } catch (error: any) {
-      console.error('Error purchasing label:', error);
-      await labelPurchaseRef.update({
-        status: 'label_failed',
-        errorMessage: error.message || 'Error purchasing label',
-      });
-    }
-  } else {
-    console.error('No rate ID found in label purchase data');
-    await labelPurchaseRef.update({
-      status: 'label_failed',
-      errorMessage: 'Rate ID not found',
-    });
-  }
-}
-
-async function handlePaymentFailure(paymentIntent: Stripe.PaymentIntent) {
-  const paymentIntentId = paymentIntent.id;
-  const userId = paymentIntent.metadata?.userId;
 
-  if (!userId) {
-    console.error('No userId in payment intent metadata');
-    return;
+  switch (result.outcome) {
+    case 'duplicate':
+      return NextResponse.json({ received: true, duplicate: true });
+    case 'in_progress':
+      // Another delivery is handling it; a non-2xx makes Stripe check back later
+      return NextResponse.json({ error: 'Event is already being processed' }, { status: 409 });
+    case 'failed':
+      return NextResponse.json(
+        { error: 'Webhook processing failed', details: result.error },
+        { status: 500 }
+      );
+    default:
+      return NextResponse.json({ received: true });
   }
-
-  // Find the label purchase record
-  const labelPurchasesRef = adminDb().collection(`users/${userId}/labelPurchases`);
-  const snapshot = await labelPurchasesRef
-    .where('stripePaymentIntentId', '==', paymentIntentId)
-    .get();
-
-  if (snapshot.empty) {
-    console.error(`No label purchase found for payment intent: ${paymentIntentId}`);
-    return;
-  }
-
-  const labelPurchaseDoc = snapshot.docs[0];
-  const labelPurchaseRef = labelPurchaseDoc.ref;
-
-  // Update label purchase with payment failure
-  await labelPurchaseRef.update({
-    paymentStatus: 'failed',
-    status: 'payment_pending', // Keep as pending so user can retry
-    errorMessage: paymentIntent.last_payment_error?.message || 'Payment failed',
-  });
-
-  console.log(`Payment failed for label purchase: ${labelPurchaseDoc.id}`);
 }
-
-async function handlePaymentCanceled(paymentIntent: Stripe.PaymentIntent) {
-  const paymentIntentId = paymentIntent.id;
-  const userId = paymentIntent.metadata?.userId;
-
-  if (!userId) {
-    console.error('No userId in payment intent metadata');
-    return;
-  }
-
-  // Find the label purchase record
-  const labelPurchasesRef = adminDb().collection(`users/${userId}/labelPurchases`);
-  const snapshot = await labelPurchasesRef
-    .where('stripePaymentIntentId', '==', paymentIntentId)
-    .get();
-
-  if (snapshot.empty) {
-    console.error(`No label purchase found for payment intent: ${paymentIntentId}`);
-    return;
-  }
-
-  const labelPurchaseDoc = snapshot.docs[0];
-  const labelPurchaseRef = labelPurchaseDoc.ref;
-
-  // Update label purchase with payment canceled
-  await labelPurchaseRef.update({
-    paymentStatus: 'canceled',
-    status: 'payment_pending', // Keep as pending so user can retry
-    errorMessage: 'Payment was canceled',
-  });
-
-  console.log(`Payment canceled for label purchase: ${labelPurchaseDoc.id}`);
-}
-
-
@@ -0,0 +1,124 @@
+/**
+ * API Route: Pay Label From Wallet
+ * Buys a shipping label with the caller's wallet balance instead of a card payment. The price is
+ * looked up from Shippo for the selected rate, taken off the wallet first and given back if Shippo
+ * cannot sell the label.
+ * - Auth: Firebase ID token
+ * - Body: same as /api/stripe/create-payment ({ currency?, fromAddress, toAddress, parcel, selectedRate, shippedItemId? });
+ *   any `amount` sent is ignored
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import { requireUser } from "@/lib/admin-api-auth";
+import { getLabelRateChargeCentsAdmin, purchaseLabelFromShippo } from "@/lib/shippo-labels-admin";
+import { recordWalletTransactionAdmin, refundLabelToWalletAdmin } from "@/lib/wallet-admin";
+import type { LabelPurchase } from "@/types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { currency = "usd", fromAddress, toAddress, parcel, selectedRate, shippedItemId } = body || {};
+  const userId = auth.uid;
+
+  if (!fromAddress || !toAddress || !parcel || !selectedRate?.objectId) {
+    return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+  }
+  if (String(currency).toLowerCase() !== "usd") {
+    return NextResponse.json({ error: "Wallet payments are in USD only" }, { status: 400 });
+  }
+  const shipmentId = selectedRate.shipmentId;
+  if (!shipmentId) {
+    return NextResponse.json({ error: "Shipment ID not found" }, { status: 400 });
+  }
+
+  let amountCents: number;
+  try {
+    amountCents = await getLabelRateChargeCentsAdmin(selectedRate.objectId, shipmentId);
+  } catch (error: any) {
+    console.error("Error pricing label rate:", error);
+    return NextResponse.json(
+      { error: "Could not confirm the label price", details: error.message || "Unknown error" },
+      { status: 400 }
+    );
+  }
+
+  const db = adminDb();
+  const userRef = db.collection("users").doc(userId);
+  const labelPurchaseRef = db.collection(`users/${userId}/labelPurchases`).doc();
+
+  try {
+    await db.runTransaction(async (transaction: any) => {
+      const userSnap = await transaction.get(userRef);
+      if (!userSnap.exists) throw new Error("User not found.");
+
+      const { transactionId } = recordWalletTransactionAdmin(transaction, userId, userSnap.data() || {}, {
+        type: "label_purchase",
+        amount: -amountCents / 100,
+        description: `${selectedRate.provider || "Shipping"} label${selectedRate.serviceLevel ? ` (${selectedRate.serviceLevel})` : ""}`,
+        labelPurchaseId: labelPurchaseRef.id,
+        createdBy: userId,
+      });
+      const labelPurchaseData: Omit<LabelPurchase, "id" | "createdAt"> = {
+        userId,
+        purchasedBy: userId,
+        fromAddress,
+        toAddress,
+        parcel,
+        selectedRate,
+        stripePaymentIntentId: "",
+        paymentMethod: "wallet",
+        walletTransactionId: transactionId,
+        paymentStatus: "succeeded",
+        paymentAmount: amountCents,
+        paymentCurrency: "usd",
+        status: "payment_succeeded",
+        ...(shippedItemId && { shippedItemId }),
+      };
+      transaction.set(labelPurchaseRef, {
+        ...labelPurchaseData,
+        paymentCompletedAt: new Date(),
+        createdAt: adminFieldValue().serverTimestamp(),
+      });
+    });
+  } catch (error: any) {
+    console.error("Error paying label from wallet:", error);
+    return NextResponse.json(
+      { error: "Wallet payment failed", details: error.message || "Unknown error" },
+      { status: 400 }
+    );
+  }
+
+  const purchased = await purchaseLabelFromShippo({
+    rateId: selectedRate.objectId,
+    shipmentId,
+    labelPurchaseId: labelPurchaseRef.id,
+    userId,
+  });
+  if (!purchased) {
+    try {
+      await refundLabelToWalletAdmin(userId, labelPurchaseRef.id);
+    } catch (refundError) {
+      // The label is marked failed; the refund can be retried from the purchase record
+      console.error("Error refunding label to wallet:", refundError);
+    }
+    const failedSnap = await labelPurchaseRef.get();
+    return NextResponse.json(
+      {
+        error: "Label purchase failed",
+        details: `${failedSnap.data()?.errorMessage || "Shippo could not sell this label"}. Your wallet has been refunded.`,
+        labelPurchaseId: labelPurchaseRef.id,
+      },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({ success: true, labelPurchaseId: labelPurchaseRef.id });
+}
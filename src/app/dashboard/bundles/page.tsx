@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Boxes, Layers, Pencil, Plus, Trash2 } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import { bundlesPath, deleteBundle, getBundleAvailability, getLimitingComponent } from "@/lib/bundles";
+import type { InventoryItem, ProductBundle } from "@/types";
+import { BundleFormDialog } from "@/components/dashboard/bundle-form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+export default function BundlesPage() {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ProductBundle | null>(null);
+  const [deleting, setDeleting] = useState<ProductBundle | null>(null);
+
+  const { data: bundles, loading } = useCollection<ProductBundle>(userProfile ? bundlesPath(userProfile.uid) : "");
+  const { data: inventory } = useCollection<InventoryItem>(userProfile ? `users/${userProfile.uid}/inventory` : "");
+
+  const sorted = useMemo(() => [...bundles].sort((a, b) => a.name.localeCompare(b.name)), [bundles]);
+
+  const openForm = (bundle: ProductBundle | null) => {
+    setEditing(bundle);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!userProfile || !deleting) return;
+    try {
+      await deleteBundle(db, userProfile.uid, deleting.id);
+      toast({ title: "Success", description: `Bundle ${deleting.name} deleted.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to delete bundle." });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 shadow-xl overflow-hidden rounded-xl border-border/50">
+        <CardHeader className="bg-gradient-to-r from-violet-500 to-purple-600 text-white pb-5">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl font-bold text-white flex items-center gap-2">
+                <Layers className="h-6 w-6" />
+                Bundles
+              </CardTitle>
+              <CardDescription className="text-violet-100 mt-1.5">
+                Kits built from your inventory; stock is taken from the component items
+              </CardDescription>
+            </div>
+            <div className="h-14 w-14 rounded-xl bg-white/20 backdrop-blur-sm flex items-center justify-center shrink-0">
+              <Boxes className="h-7 w-7 text-white" />
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Your Bundles ({sorted.length})</CardTitle>
+            <CardDescription>
+              Availability is how many complete bundles the unreserved component stock can make.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Bundle
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : sorted.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No bundles yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bundle</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Components</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sorted.map((bundle) => {
+                    const available = getBundleAvailability(bundle, inventory);
+                    const limiting = getLimitingComponent(bundle, inventory);
+                    return (
+                      <TableRow key={bundle.id}>
+                        <TableCell className="font-medium">{bundle.name}</TableCell>
+                        <TableCell className="font-mono text-xs">{bundle.sku}</TableCell>
+                        <TableCell>
+                          <ul className="text-sm">
+                            {bundle.components.map((c) => {
+                              const item = inventory.find((i) => i.id === c.productId);
+                              return (
+                                <li key={c.productId} className={item ? undefined : "text-destructive"}>
+                                  {c.quantity} × {item?.productName || c.productName}
+                                  {!item && " (removed)"}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant={available > 0 ? "default" : "destructive"}>{available}</Badge>
+                          {limiting && bundle.components.length > 1 && (
+                            <p className="mt-1 text-xs text-muted-foreground">Limited by {limiting.productName}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="icon" onClick={() => openForm(bundle)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setDeleting(bundle)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BundleFormDialog open={formOpen} onOpenChange={setFormOpen} inventory={inventory} bundles={bundles} bundle={editing} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete bundle?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Shopify orders for SKU {deleting?.sku} will no longer take stock from its components. Pending shipment
+              requests that include it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
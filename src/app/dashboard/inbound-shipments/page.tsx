@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { PackagePlus, Truck, AlertTriangle, Loader2 } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import {
+  acknowledgeInboundShipment,
+  cancelInboundShipment,
+  getExpectedUnits,
+  inboundShipmentsPath,
+  needsClientAcknowledgement,
+} from "@/lib/inbound-shipments";
+import type { InboundShipment, InventoryItem } from "@/types";
+import { InboundShipmentForm } from "@/components/dashboard/inbound-shipment-form";
+import { InboundShipmentDetails, InboundStatusBadge, formatInboundDate } from "@/components/dashboard/inbound-shipment-details";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+function createdMs(shipment: InboundShipment): number {
+  const value = shipment.createdAt;
+  if (!value) return 0;
+  return typeof value === "string" ? new Date(value).getTime() : value.seconds * 1000;
+}
+
+export default function InboundShipmentsPage() {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: shipments, loading } = useCollection<InboundShipment>(
+    userProfile ? inboundShipmentsPath(userProfile.uid) : ""
+  );
+  const { data: inventory } = useCollection<InventoryItem>(
+    userProfile ? `users/${userProfile.uid}/inventory` : ""
+  );
+
+  const sorted = useMemo(() => [...shipments].sort((a, b) => createdMs(b) - createdMs(a)), [shipments]);
+  const viewing = sorted.find((s) => s.id === viewingId) || null;
+  const awaitingReview = sorted.filter((s) => s.status === "received" && needsClientAcknowledgement(s)).length;
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({ title: "Success", description: success });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Something went wrong." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 shadow-xl overflow-hidden rounded-xl border-border/50">
+        <CardHeader className="bg-gradient-to-r from-sky-500 to-blue-600 text-white pb-5">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl font-bold text-white flex items-center gap-2">
+                <PackagePlus className="h-6 w-6" />
+                Inbound Shipments
+              </CardTitle>
+              <CardDescription className="text-sky-100 mt-1.5">
+                Declare deliveries to the warehouse and follow them carton by carton
+              </CardDescription>
+            </div>
+            <div className="h-14 w-14 rounded-xl bg-white/20 backdrop-blur-sm flex items-center justify-center shrink-0">
+              <Truck className="h-7 w-7 text-white" />
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Your Notices ({sorted.length})</CardTitle>
+            <CardDescription>
+              Units are added to your inventory once every carton has been received and checked.
+            </CardDescription>
+          </div>
+          <InboundShipmentForm inventory={inventory} />
+        </CardHeader>
+        <CardContent>
+          {awaitingReview > 0 && (
+            <div className="mb-4 flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {awaitingReview} shipment{awaitingReview === 1 ? " has" : "s have"} receiving discrepancies waiting for your review.
+            </div>
+          )}
+          {loading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : sorted.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No inbound shipments yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Carrier</TableHead>
+                    <TableHead className="hidden sm:table-cell">Expected</TableHead>
+                    <TableHead className="text-right">Cartons</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Units</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sorted.map((s) => (
+                    <TableRow key={s.id}>
+                      <TableCell className="font-mono text-xs">{s.reference}</TableCell>
+                      <TableCell>{s.carrier}</TableCell>
+                      <TableCell className="hidden sm:table-cell">{s.expectedArrivalDate || "—"}</TableCell>
+                      <TableCell className="text-right">{s.cartons.length}</TableCell>
+                      <TableCell className="text-right hidden sm:table-cell">{getExpectedUnits(s)}</TableCell>
+                      <TableCell>
+                        <InboundStatusBadge status={s.status} />
+                        {s.status === "received" && needsClientAcknowledgement(s) && (
+                          <AlertTriangle className="ml-1 inline h-4 w-4 text-amber-600" />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewingId(s.id)}>
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {viewing && userProfile && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono">{viewing.reference}</DialogTitle>
+                <DialogDescription>Submitted {formatInboundDate(viewing.createdAt)}</DialogDescription>
+              </DialogHeader>
+              <InboundShipmentDetails shipment={viewing} />
+              <DialogFooter>
+                {viewing.status === "submitted" && (
+                  <Button
+                    variant="destructive"
+                    disabled={isSaving}
+                    onClick={() => run(() => cancelInboundShipment(db, userProfile.uid, viewing.id), "Inbound shipment cancelled.")}
+                  >
+                    Cancel Shipment
+                  </Button>
+                )}
+                {viewing.status === "received" && needsClientAcknowledgement(viewing) && (
+                  <Button
+                    disabled={isSaving}
+                    onClick={() =>
+                      run(
+                        () => acknowledgeInboundShipment(db, userProfile.uid, viewing.id),
+                        "Thanks. The warehouse can now add the received units to your inventory."
+                      )
+                    }
+                  >
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Acknowledge Discrepancies
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
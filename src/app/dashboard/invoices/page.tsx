@@ -1,15 +1,22 @@
 "use client";
 
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useCollection } from "@/hooks/use-collection";
-import type { Invoice } from "@/types";
+import type { CreditNote, Invoice } from "@/types";
+import { accountCreditBalance, creditNotesPath } from "@/lib/credit-notes";
+import { invoiceBalanceDue, isOpenInvoice } from "@/lib/invoice-payments";
+import { walletBalance } from "@/lib/wallet";
 import { InvoicesSection } from "@/components/dashboard/invoices-section";
+import { AccountStatementDialog } from "@/components/dashboard/account-statement-dialog";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Receipt, DollarSign, Info, Mail } from "lucide-react";
+import { Receipt, DollarSign, Info, Mail, FileText } from "lucide-react";
 
 export default function InvoicesPage() {
   const { userProfile } = useAuth();
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
 
   const {
     data: invoices,
@@ -18,10 +25,22 @@ export default function InvoicesPage() {
     userProfile ? `users/${userProfile.uid}/invoices` : ""
   );
 
-  const pendingInvoices = invoices.filter(inv => inv.status === 'pending');
+  const {
+    data: creditNotes,
+    loading: creditNotesLoading
+  } = useCollection<CreditNote>(
+    userProfile ? creditNotesPath(userProfile.uid) : ""
+  );
+
+  const pendingInvoices = invoices.filter(isOpenInvoice);
   const paidInvoices = invoices.filter(inv => inv.status === 'paid');
   const totalAmount = invoices.reduce((sum, inv) => sum + (inv.grandTotal || 0), 0);
-  const pendingAmount = pendingInvoices.reduce((sum, inv) => sum + (inv.grandTotal || 0), 0);
+  const pendingAmount = Math.max(
+    0,
+    pendingInvoices.reduce((sum, inv) => sum + invoiceBalanceDue(inv), 0) -
+      walletBalance(userProfile) -
+      accountCreditBalance(creditNotes)
+  );
 
   return (
     <div className="space-y-6">
@@ -62,7 +81,7 @@ export default function InvoicesPage() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-green-900">${pendingAmount.toFixed(2)}</div>
-            <p className="text-xs text-green-700 mt-1">Pending invoices total</p>
+            <p className="text-xs text-green-700 mt-1">Pending invoices less credits</p>
           </CardContent>
         </Card>
       </div>
@@ -106,17 +125,29 @@ export default function InvoicesPage() {
                 View and manage all your invoices ({invoices.length} total)
               </CardDescription>
             </div>
-            <div className="h-14 w-14 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center">
-              <DollarSign className="h-7 w-7 text-white" />
+            <div className="flex items-center gap-3">
+              <Button variant="secondary" size="sm" onClick={() => setIsStatementOpen(true)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Statement
+              </Button>
+              <div className="h-14 w-14 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center">
+                <DollarSign className="h-7 w-7 text-white" />
+              </div>
             </div>
           </div>
         </CardHeader>
         <CardContent className="p-0">
           <div className="p-6">
-            <InvoicesSection invoices={invoices} loading={invoicesLoading} />
+            <InvoicesSection
+              invoices={invoices}
+              creditNotes={creditNotes}
+              loading={invoicesLoading || creditNotesLoading}
+            />
           </div>
         </CardContent>
       </Card>
+
+      <AccountStatementDialog open={isStatementOpen} onOpenChange={setIsStatementOpen} />
     </div>
   );
 }
@@ -30,6 +30,7 @@ import { useMemo, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { hasRole } from "@/lib/permissions";
 import { cn } from "@/lib/utils";
+import { invoiceBalanceDue } from "@/lib/invoice-payments";
 import { useDashboardNav } from "@/contexts/dashboard-nav-context";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import {
@@ -189,8 +190,7 @@ export default function DashboardPage() {
   }, [inventoryData]);
 
   const totalPendingAmount = useMemo(() => {
-    const pendingInvoices = invoices.filter((inv) => inv.status === "pending");
-    return pendingInvoices.reduce((sum, inv) => sum + (inv.grandTotal || 0), 0);
+    return invoices.reduce((sum, inv) => sum + invoiceBalanceDue(inv), 0);
   }, [invoices]);
 
   const pendingFulfillmentCount = useMemo(() => {
@@ -8,12 +8,26 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Download, Package, MapPin, Calendar, Truck, ExternalLink, Filter } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Download, Package, MapPin, Calendar, Truck, ExternalLink, Filter, Ban } from "lucide-react";
 import type { LabelPurchase } from "@/types";
 import { format } from "date-fns";
 
 export default function PurchasedLabelsPage() {
   const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const [voidingLabel, setVoidingLabel] = useState<LabelPurchase | null>(null);
+  const [isVoiding, setIsVoiding] = useState(false);
   const { data: labels, loading } = useCollection<LabelPurchase>(
     userProfile?.uid ? `users/${userProfile.uid}/labelPurchases` : ""
   );
@@ -101,6 +115,10 @@ export default function PurchasedLabelsPage() {
         return <Badge className="bg-yellow-500">Pending</Badge>;
       case "label_failed":
         return <Badge variant="destructive">Label Failed</Badge>;
+      case "refund_pending":
+        return <Badge className="bg-amber-500 text-white">Refund Pending</Badge>;
+      case "refunded":
+        return <Badge variant="secondary">Voided</Badge>;
       case "payment_failed":
         return <Badge variant="destructive">Payment Failed</Badge>;
       default:
@@ -161,6 +179,32 @@ export default function PurchasedLabelsPage() {
       };
     }
 
+    const refundTo = label.paymentMethod === "wallet" ? "your wallet" : "your card";
+
+    if (status === "refund_pending") {
+      return {
+        tone: "info",
+        title: "Void requested",
+        message: `The carrier is reviewing the refund, which can take a few weeks. Once approved, the label price goes back to ${refundTo}.`,
+      };
+    }
+
+    if (status === "refunded") {
+      return {
+        tone: "info",
+        title: "Label voided",
+        message: `The label price was refunded to ${refundTo}.`,
+      };
+    }
+
+    if (status === "label_purchased" && label.refundError) {
+      return {
+        tone: "warning",
+        title: "Void not approved",
+        message: sanitizeErrorMessage(label.refundError),
+      };
+    }
+
     if (status === "payment_pending" && paymentStatus === "pending") {
       return {
         tone: "info",
@@ -181,6 +225,43 @@ export default function PurchasedLabelsPage() {
     }
   };
 
+  const handleVoidLabel = async () => {
+    if (!voidingLabel?.id || !user) return;
+
+    setIsVoiding(true);
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch("/api/shippo/void-label", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ labelPurchaseId: voidingLabel.id }),
+      });
+      const payload = await response.json().catch(() => ({} as any));
+      if (!response.ok) {
+        throw new Error(payload?.details || payload?.error || "Failed to void label");
+      }
+      toast({
+        title: payload.status === "refunded" ? "Label Voided" : "Void Requested",
+        description:
+          payload.status === "refunded"
+            ? "The label price has been refunded."
+            : "You will be refunded once the carrier approves.",
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to void label. Please try again.",
+      });
+    } finally {
+      setIsVoiding(false);
+      setVoidingLabel(null);
+    }
+  };
+
   const handleTrackShipment = (trackingNumber: string, provider: string) => {
     // Open tracking in new tab based on provider
     let trackingUrl = "";
@@ -414,6 +495,18 @@ export default function PurchasedLabelsPage() {
                       Track
                     </Button>
                   )}
+                  {label.status === "label_purchased" && label.shippoTransactionId && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setVoidingLabel(label)}
+                      disabled={isVoiding}
+                      className="flex-1"
+                    >
+                      <Ban className="h-4 w-4 mr-2" />
+                      Void
+                    </Button>
+                  )}
                 </div>
 
                 {(() => {
@@ -440,6 +533,34 @@ export default function PurchasedLabelsPage() {
           ))}
         </div>
       )}
+
+      <AlertDialog open={!!voidingLabel} onOpenChange={(open) => !open && !isVoiding && setVoidingLabel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void this label?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {voidingLabel?.selectedRate?.provider || "carrier"} label
+              {voidingLabel?.trackingNumber ? ` ${voidingLabel.trackingNumber}` : ""} can no longer be used once voided.
+              The ${voidingLabel?.paymentAmount ? (voidingLabel.paymentAmount / 100).toFixed(2) : "0.00"} is refunded to{" "}
+              {voidingLabel?.paymentMethod === "wallet" ? "your wallet" : "your card"} after the carrier approves, which
+              can take a few weeks.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isVoiding}>Keep Label</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleVoidLabel();
+              }}
+              disabled={isVoiding}
+            >
+              {isVoiding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Void Label
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
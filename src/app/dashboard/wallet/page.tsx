@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { WalletLedger } from "@/components/dashboard/wallet-ledger";
+import { WalletTopUpDialog } from "@/components/dashboard/wallet-top-up-dialog";
+import { walletBalance } from "@/lib/wallet";
+import { History, Plus, Wallet } from "lucide-react";
+
+export default function WalletPage() {
+  const { userProfile } = useAuth();
+  const [isTopUpOpen, setIsTopUpOpen] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 border-green-200/50 bg-gradient-to-br from-green-50 to-green-100/50 shadow-lg">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium text-green-900">Wallet Balance</CardTitle>
+          <div className="h-10 w-10 rounded-full bg-green-500 flex items-center justify-center shadow-md">
+            <Wallet className="h-5 w-5 text-white" />
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="text-3xl font-bold text-green-900">${walletBalance(userProfile).toFixed(2)}</div>
+            <p className="text-xs text-green-700 mt-1">
+              Used for labels and invoices; overpayments and credit notes are added here
+            </p>
+          </div>
+          <Button onClick={() => setIsTopUpOpen(true)} disabled={!userProfile}>
+            <Plus className="h-4 w-4 mr-2" />
+            Top Up
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Wallet Transactions
+          </CardTitle>
+          <CardDescription>Every top-up, payment, refund and credit on your wallet</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WalletLedger userId={userProfile?.uid || ""} />
+        </CardContent>
+      </Card>
+
+      <WalletTopUpDialog open={isTopUpOpen} onOpenChange={setIsTopUpOpen} />
+    </div>
+  );
+}
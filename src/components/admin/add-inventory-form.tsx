@@ -3,30 +3,66 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-import { addDoc, collection } from "firebase/firestore";
-import { useState, useEffect } from "react";
+import { collection, doc, writeBatch } from "firebase/firestore";
+import { useState, useEffect, useMemo } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { DatePicker } from "@/components/ui/date-picker";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { createLot } from "@/lib/inventory-lots";
+import { binsForUser, putAway } from "@/lib/inventory-bins";
+import { buildIdentifierFields, findIdentifierConflicts, validateIdentifier } from "@/lib/product-identifiers";
+import { getPackagingUnits, normalizePackaging, PACKAGING_UNIT_LABELS, toUnits } from "@/lib/packaging";
+import { normalizeDimensions } from "@/lib/storage-billing";
+import { useCollection } from "@/hooks/use-collection";
+import { BinSelect } from "@/components/admin/bin-select";
+import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
-import type { InventoryItem } from "@/types";
+import type { BinLocation, InventoryItem, PackagingUnit } from "@/types";
 
 const baseFormSchema = z.object({
   productName: z.string().min(1, "Product name is required."),
   quantity: z.coerce.number().int().positive("Quantity must be a positive number."),
   dateAdded: z.date({ required_error: "A date is required." }),
   status: z.enum(["In Stock", "Out of Stock"], { required_error: "You need to select a status." }),
+  lotNumber: z.string().optional(),
+  expirationDate: z.string().optional(),
+  sku: z.string().optional(),
+  upc: z.string().optional().refine((v) => !validateIdentifier("upc", v), { message: "Enter a valid UPC/EAN (8, 12, 13 or 14 digits)." }),
+  asin: z.string().optional().refine((v) => !validateIdentifier("asin", v), { message: "ASIN must be 10 letters or digits." }),
+  fnsku: z.string().optional().refine((v) => !validateIdentifier("fnsku", v), { message: "FNSKU must be 10 letters or digits." }),
+  unitsPerCase: z.coerce.number().int().min(0, "Units per case must be non-negative.").optional(),
+  casesPerPallet: z.coerce.number().int().min(0, "Cases per pallet must be non-negative.").optional(),
+  length: z.coerce.number().min(0, "Length must be non-negative.").optional(),
+  width: z.coerce.number().min(0, "Width must be non-negative.").optional(),
+  height: z.coerce.number().min(0, "Height must be non-negative.").optional(),
+  dimensionUnit: z.enum(["in", "cm"]),
 });
 
-export function AddInventoryForm({ userId, inventory = [] }: { userId: string; inventory?: InventoryItem[] }) {
+export function AddInventoryForm({
+  userId,
+  inventory = [],
+  userLocations,
+}: {
+  userId: string;
+  inventory?: InventoryItem[];
+  userLocations?: string[];
+}) {
   const { toast } = useToast();
+  const { userProfile: adminProfile } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [putAwayBinId, setPutAwayBinId] = useState("");
+  const [receiveUnit, setReceiveUnit] = useState<PackagingUnit>("unit");
+  const { data: binDocs } = useCollection<BinLocation>("bins");
+  const bins = useMemo(() => binsForUser(binDocs, { locations: userLocations }), [binDocs, userLocations]);
 
   const form = useForm<z.infer<typeof baseFormSchema>>({
     resolver: zodResolver(baseFormSchema),
@@ -34,9 +70,31 @@ export function AddInventoryForm({ userId, inventory = [] }: { userId: string; i
       productName: "",
       quantity: 1,
       status: "In Stock",
+      lotNumber: "",
+      expirationDate: "",
+      sku: "",
+      upc: "",
+      asin: "",
+      fnsku: "",
+      unitsPerCase: undefined,
+      casesPerPallet: undefined,
+      length: undefined,
+      width: undefined,
+      height: undefined,
+      dimensionUnit: "in",
     },
   });
 
+  const watchedUnitsPerCase = form.watch("unitsPerCase");
+  const watchedCasesPerPallet = form.watch("casesPerPallet");
+  const packaging = normalizePackaging({ unitsPerCase: watchedUnitsPerCase, casesPerPallet: watchedCasesPerPallet });
+  const receiveUnits = getPackagingUnits({ packaging: packaging ?? undefined });
+
+  // Fall back to units when the level being received in is no longer configured
+  useEffect(() => {
+    if (!receiveUnits.includes(receiveUnit)) setReceiveUnit("unit");
+  }, [receiveUnits, receiveUnit]);
+
   // Custom validation function for duplicate product names
   const validateProductName = (name: string): boolean => {
     if (!name || !name.trim()) return true; // Let base schema handle empty validation
@@ -72,16 +130,50 @@ export function AddInventoryForm({ userId, inventory = [] }: { userId: string; i
       return;
     }
 
+    const conflicts = findIdentifierConflicts(inventory, values);
+    if (conflicts.length > 0) {
+      toast({ variant: "destructive", title: "Duplicate identifier", description: conflicts.join(" ") });
+      return;
+    }
+
     setIsLoading(true);
     try {
-      await addDoc(collection(db, `users/${userId}/inventory`), {
-        ...values,
+      const { lotNumber, expirationDate, sku, upc, asin, fnsku, unitsPerCase, casesPerPallet, length, width, height, dimensionUnit, ...itemValues } = values;
+      const itemPackaging = normalizePackaging({ unitsPerCase, casesPerPallet });
+      const dimensions = normalizeDimensions({ length, width, height, unit: dimensionUnit });
+      // Stock is stored in units whatever level it was received in
+      const quantity = toUnits(values.quantity, receiveUnit, { packaging: itemPackaging ?? undefined });
+      const lot = createLot(lotNumber, expirationDate, quantity);
+      const putAwayBin = bins.find((b) => b.id === putAwayBinId);
+      const itemRef = doc(collection(db, `users/${userId}/inventory`));
+      const batch = writeBatch(db);
+      batch.set(itemRef, {
+        ...itemValues,
+        quantity,
+        ...buildIdentifierFields({ sku, upc, asin, fnsku }),
+        ...(itemPackaging ? { packaging: itemPackaging } : {}),
+        ...(dimensions ? { dimensions } : {}),
+        ...(lot ? { lots: [lot] } : {}),
+        ...(putAwayBin ? { bins: putAway([], putAwayBin, quantity) } : {}),
+      });
+      recordStockMovement(batch, db, userId, {
+        productId: itemRef.id,
+        productName: values.productName,
+        type: "receive",
+        quantityBefore: 0,
+        quantityAfter: quantity,
+        reason: receiveUnit === "unit" ? "Added by admin" : `Added by admin (${values.quantity} ${PACKAGING_UNIT_LABELS[receiveUnit].many})`,
+        createdBy: adminProfile?.uid || "admin",
+        createdByName: adminProfile?.name || "Admin",
       });
+      await batch.commit();
       toast({
         title: "Success",
         description: "Inventory item added successfully.",
       });
       form.reset();
+      setPutAwayBinId("");
+      setReceiveUnit("unit");
       form.setValue('quantity', 1);
       form.setValue('status', 'In Stock');
 
@@ -141,14 +233,189 @@ export function AddInventoryForm({ userId, inventory = [] }: { userId: string; i
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Quantity</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input type="number" {...field} />
+                      </FormControl>
+                      {receiveUnits.length > 1 && (
+                        <Select value={receiveUnit} onValueChange={(v) => setReceiveUnit(v as PackagingUnit)}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {receiveUnits.map((unit) => (
+                              <SelectItem key={unit} value={unit} className="capitalize">
+                                {PACKAGING_UNIT_LABELS[unit].many}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {receiveUnit !== "unit" && (
+                      <p className="text-xs text-muted-foreground">
+                        = {toUnits(Number(field.value) || 0, receiveUnit, { packaging: packaging ?? undefined })} units
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              <FormField
+                control={form.control}
+                name="sku"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SKU (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., TSHIRT-BLK-M" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="upc"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>UPC/EAN (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 012345678905" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="asin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ASIN (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., B0XXXXXXXX" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fnsku"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>FNSKU (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., X00XXXXXXX" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="unitsPerCase"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Units per Case (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} placeholder="e.g., 24" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="casesPerPallet"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cases per Pallet (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} placeholder="e.g., 40" {...field} value={field.value ?? ""} disabled={!packaging} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+              {(["length", "width", "height"] as const).map((dimension) => (
+                <FormField
+                  key={dimension}
+                  control={form.control}
+                  name={dimension}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="capitalize">Unit {dimension} (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" placeholder="0" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="dimensionUnit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dimension Unit</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="in">Inches</SelectItem>
+                        <SelectItem value="cm">Centimeters</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="lotNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lot / Batch Number (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., LOT-2024-01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expirationDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expiration Date (Optional)</FormLabel>
                     <FormControl>
-                      <Input type="number" {...field} />
+                      <Input type="date" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
+            {bins.length > 0 && (
+              <div className="space-y-2">
+                <Label>Put Away To Bin (Optional)</Label>
+                <BinSelect bins={bins} value={putAwayBinId} onChange={setPutAwayBinId} noneLabel="Leave unassigned" />
+              </div>
+            )}
             <FormField
               control={form.control}
               name="dateAdded"
@@ -15,20 +15,35 @@ import { DatePicker } from "@/components/ui/date-picker";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { doc, updateDoc, deleteDoc, addDoc, collection, getDoc } from "firebase/firestore";
+import { doc, deleteDoc, deleteField, addDoc, collection, runTransaction } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { describePackagedQuantity, formatPackagingCount, getPackagingUnits, normalizePackaging, PACKAGING_UNIT_LABELS, toUnits } from "@/lib/packaging";
+import { normalizeDimensions } from "@/lib/storage-billing";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, Edit, Package, Eye, EyeOff, Search, Filter, X, Download, History, RotateCcw, Calendar, Plus, Truck, FileText, List, Bell, ClipboardList } from "lucide-react";
+import { Trash2, Edit, Package, Eye, EyeOff, Search, Filter, X, Download, History, RotateCcw, Calendar, Plus, Truck, FileText, List, Bell, ClipboardList, Scale, CalendarClock } from "lucide-react";
 import { AddInventoryForm } from "@/components/admin/add-inventory-form";
 import { ShipInventoryForm } from "@/components/admin/ship-inventory-form";
 import { ShipmentRequestsManagement } from "@/components/admin/shipment-requests-management";
 import { InventoryRequestsManagement } from "@/components/admin/inventory-requests-management";
 import { ProductReturnsManagement } from "@/components/admin/product-returns-management";
 import { DisposeRequestsManagement } from "@/components/admin/dispose-requests-management";
+import { InboundShipmentsManagement } from "@/components/admin/inbound-shipments-management";
+import { StockLedgerReconciliation } from "@/components/admin/stock-ledger-reconciliation";
+import { ExpiringLotsReport } from "@/components/admin/expiring-lots-report";
+import { ScanInput } from "@/components/admin/scan-input";
+import {
+  PRODUCT_IDENTIFIER_FIELDS,
+  buildIdentifierFields,
+  findIdentifierConflicts,
+  findInventoryByCode,
+  identifiersInclude,
+  validateIdentifier,
+} from "@/lib/product-identifiers";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format } from "date-fns";
-import type { InventoryItem, ShippedItem, UserProfile, RestockHistory, RecycledShippedItem, RecycledRestockHistory, RecycledInventoryItem, DeleteLog, EditLog } from "@/types";
+import type { InventoryItem, PackagingUnit, ShippedItem, UserProfile, RestockHistory, RecycledShippedItem, RecycledRestockHistory, RecycledInventoryItem, DeleteLog, EditLog } from "@/types";
 import { arrayToCSV, downloadCSV, formatDateForCSV, type InventoryCSVRow, type ShippedCSVRow } from "@/lib/csv-utils";
 import { useAuth } from "@/hooks/use-auth";
 import { useCollection } from "@/hooks/use-collection";
@@ -49,8 +64,34 @@ interface AdminInventoryManagementProps {
 const editProductSchema = z.object({
   productName: z.string().min(1, "Product name is required"),
   quantity: z.number().min(0, "Quantity must be non-negative"),
+  sku: z.string().optional(),
+  upc: z.string().optional().refine((v) => !validateIdentifier("upc", v), { message: "Enter a valid UPC/EAN (8, 12, 13 or 14 digits)." }),
+  asin: z.string().optional().refine((v) => !validateIdentifier("asin", v), { message: "ASIN must be 10 letters or digits." }),
+  fnsku: z.string().optional().refine((v) => !validateIdentifier("fnsku", v), { message: "FNSKU must be 10 letters or digits." }),
+  unitsPerCase: z.number().int().min(0, "Units per case must be non-negative").optional(),
+  casesPerPallet: z.number().int().min(0, "Cases per pallet must be non-negative").optional(),
+  length: z.number().min(0, "Length must be non-negative").optional(),
+  width: z.number().min(0, "Width must be non-negative").optional(),
+  height: z.number().min(0, "Height must be non-negative").optional(),
+  dimensionUnit: z.enum(["in", "cm"]).optional(),
 });
 
+/** Identifier updates for an edit: changed values are written, cleared ones are removed. */
+function identifierUpdates(values: z.infer<typeof editProductSchema>): Record<string, unknown> {
+  const fields = buildIdentifierFields(values);
+  return Object.fromEntries(PRODUCT_IDENTIFIER_FIELDS.map((field) => [field, fields[field] ?? deleteField()]));
+}
+
+/** Packaging update for an edit: removed when no case pack is given. */
+function packagingUpdate(values: z.infer<typeof editProductSchema>): Record<string, unknown> {
+  return { packaging: normalizePackaging(values) ?? deleteField() };
+}
+
+/** Dimensions update for an edit: removed unless length, width and height are all given. */
+function dimensionsUpdate(values: z.infer<typeof editProductSchema>): Record<string, unknown> {
+  return { dimensions: normalizeDimensions({ ...values, unit: values.dimensionUnit }) ?? deleteField() };
+}
+
 const restockSchema = z.object({
   quantity: z.number().min(1, "Quantity must be at least 1"),
   restockDate: z.date({ required_error: "A restock date is required." }),
@@ -207,13 +248,15 @@ export function AdminInventoryManagement({
   console.log("Loading:", loading);
   const [editingProduct, setEditingProduct] = useState<InventoryItem | null>(null);
   const [restockingProduct, setRestockingProduct] = useState<InventoryItem | null>(null);
+  const [restockUnit, setRestockUnit] = useState<PackagingUnit>("unit");
   const [recyclingProduct, setRecyclingProduct] = useState<InventoryItem | null>(null);
   const [deletingProduct, setDeletingProduct] = useState<InventoryItem | null>(null);
   const [editingProductWithLog, setEditingProductWithLog] = useState<InventoryItem | null>(null);
   // Single state to track active section
   const [activeSection, setActiveSection] = useState<string>("current-inventory");
-  // User Requests tab (shipment | inventory | return | dispose)
-  const [userRequestsTab, setUserRequestsTab] = useState<"shipment" | "inventory" | "return" | "dispose">(
+  const [scannedItemId, setScannedItemId] = useState<string | null>(null);
+  // User Requests tab (shipment | inventory | return | dispose | inbound)
+  const [userRequestsTab, setUserRequestsTab] = useState<"shipment" | "inventory" | "return" | "dispose" | "inbound">(
     initialRequestTab ? notificationTypeToTabValue(initialRequestTab) : "shipment"
   );
   // Dispose requests dedicated section sub-tab (requests | log)
@@ -300,6 +343,10 @@ export function AdminInventoryManagement({
     defaultValues: {
       productName: "",
       quantity: 0,
+      sku: "",
+      upc: "",
+      asin: "",
+      fnsku: "",
     },
   });
 
@@ -335,12 +382,25 @@ export function AdminInventoryManagement({
 
   const handleEditProduct = (product: InventoryItem) => {
     setEditingProduct(product);
-    editForm.setValue("productName", product.productName);
-    editForm.setValue("quantity", product.quantity);
+    editForm.reset({
+      productName: product.productName,
+      quantity: product.quantity,
+      sku: product.sku || "",
+      upc: product.upc || "",
+      asin: product.asin || "",
+      fnsku: product.fnsku || "",
+      unitsPerCase: product.packaging?.unitsPerCase,
+      casesPerPallet: product.packaging?.casesPerPallet,
+      length: product.dimensions?.length,
+      width: product.dimensions?.width,
+      height: product.dimensions?.height,
+      dimensionUnit: product.dimensions?.unit ?? "in",
+    });
   };
 
   const handleRestockProduct = (product: InventoryItem) => {
     setRestockingProduct(product);
+    setRestockUnit("unit");
     restockForm.setValue("quantity", 1);
     restockForm.setValue("restockDate", new Date());
   };
@@ -358,6 +418,20 @@ export function AdminInventoryManagement({
 
   const handleEditProductWithLog = (product: InventoryItem) => {
     setEditingProductWithLog(product);
+    editForm.reset({
+      productName: product.productName,
+      quantity: product.quantity,
+      sku: product.sku || "",
+      upc: product.upc || "",
+      asin: product.asin || "",
+      fnsku: product.fnsku || "",
+      unitsPerCase: product.packaging?.unitsPerCase,
+      casesPerPallet: product.packaging?.casesPerPallet,
+      length: product.dimensions?.length,
+      width: product.dimensions?.width,
+      height: product.dimensions?.height,
+      dimensionUnit: product.dimensions?.unit ?? "in",
+    });
     editLogForm.setValue("reason", "");
   };
 
@@ -374,13 +448,35 @@ export function AdminInventoryManagement({
 
   const onEditSubmit = async (values: z.infer<typeof editProductSchema>) => {
     if (!editingProduct || !selectedUser) return;
+    const conflicts = findIdentifierConflicts(inventory, values, editingProduct.id);
+    if (conflicts.length > 0) {
+      toast({ variant: "destructive", title: "Duplicate identifier", description: conflicts.join(" ") });
+      return;
+    }
 
     try {
       const productRef = doc(db, `users/${selectedUser.uid}/inventory`, editingProduct.id);
-      await updateDoc(productRef, {
-        productName: values.productName,
-        quantity: values.quantity,
-        status: values.quantity > 0 ? "In Stock" : "Out of Stock",
+      await runTransaction(db, async (transaction) => {
+        const productDoc = await transaction.get(productRef);
+        if (!productDoc.exists()) throw new Error("Product not found");
+        transaction.update(productRef, {
+          productName: values.productName,
+          quantity: values.quantity,
+          status: values.quantity > 0 ? "In Stock" : "Out of Stock",
+          ...identifierUpdates(values),
+          ...packagingUpdate(values),
+          ...dimensionsUpdate(values),
+        });
+        recordStockMovement(transaction, db, selectedUser.uid, {
+          productId: editingProduct.id,
+          productName: values.productName,
+          type: "adjust",
+          quantityBefore: Number(productDoc.data().quantity) || 0,
+          quantityAfter: values.quantity,
+          reason: "Admin quantity edit",
+          createdBy: adminUser?.uid || "admin",
+          createdByName: adminUser?.name || "Admin",
+        });
       });
       await syncShopifyInventoryIfNeeded(editingProduct as any, values.quantity, selectedUser.uid);
       if (values.productName && (editingProduct as any).productName !== values.productName) {
@@ -406,13 +502,29 @@ export function AdminInventoryManagement({
 
     try {
       const productRef = doc(db, `users/${selectedUser.uid}/inventory`, restockingProduct.id);
-      const previousQuantity = restockingProduct.quantity;
-      const newQuantity = previousQuantity + values.quantity;
-      
+      const unitsAdded = toUnits(values.quantity, restockUnit, restockingProduct);
+
       // Update the product quantity
-      await updateDoc(productRef, {
-        quantity: newQuantity,
-        status: "In Stock",
+      const { previousQuantity, newQuantity } = await runTransaction(db, async (transaction) => {
+        const productDoc = await transaction.get(productRef);
+        if (!productDoc.exists()) throw new Error("Product not found");
+        const quantityBefore = Number(productDoc.data().quantity) || 0;
+        const quantityAfter = quantityBefore + unitsAdded;
+        transaction.update(productRef, {
+          quantity: quantityAfter,
+          status: "In Stock",
+        });
+        recordStockMovement(transaction, db, selectedUser.uid, {
+          productId: restockingProduct.id,
+          productName: restockingProduct.productName,
+          type: "receive",
+          quantityBefore,
+          quantityAfter,
+          reason: restockUnit === "unit" ? "Admin restock" : `Admin restock (${formatPackagingCount(values.quantity, restockUnit)})`,
+          createdBy: adminUser.uid,
+          createdByName: adminUser.name || "Admin",
+        });
+        return { previousQuantity: quantityBefore, newQuantity: quantityAfter };
       });
       await syncShopifyInventoryIfNeeded(restockingProduct as any, newQuantity, selectedUser.uid);
       await syncEbayInventoryIfNeeded(restockingProduct as any, newQuantity, selectedUser.uid);
@@ -422,7 +534,7 @@ export function AdminInventoryManagement({
       await addDoc(restockHistoryRef, {
         productName: restockingProduct.productName,
         previousQuantity: previousQuantity,
-        restockedQuantity: values.quantity,
+        restockedQuantity: unitsAdded,
         newQuantity: newQuantity,
         restockedBy: adminUser.name || "Admin",
         restockedAt: values.restockDate, // Use selected date instead of new Date()
@@ -430,7 +542,7 @@ export function AdminInventoryManagement({
 
       toast({
         title: "Success",
-        description: `Product restocked! Previous: ${previousQuantity}, Added: ${values.quantity}, New Total: ${newQuantity}`,
+        description: `Product restocked! Previous: ${previousQuantity}, Added: ${unitsAdded}, New Total: ${newQuantity}`,
       });
       setRestockingProduct(null);
       restockForm.reset();
@@ -478,7 +590,21 @@ export function AdminInventoryManagement({
 
       // Delete the product
       const productRef = doc(db, `users/${selectedUser.uid}/inventory`, deletingProduct.id);
-      await deleteDoc(productRef);
+      await runTransaction(db, async (transaction) => {
+        const productDoc = await transaction.get(productRef);
+        if (!productDoc.exists()) return;
+        transaction.delete(productRef);
+        recordStockMovement(transaction, db, selectedUser.uid, {
+          productId: deletingProduct.id,
+          productName: deletingProduct.productName,
+          type: "adjust",
+          quantityBefore: Number(productDoc.data().quantity) || 0,
+          quantityAfter: 0,
+          reason: `Product deleted: ${values.reason}`,
+          createdBy: adminUser.uid,
+          createdByName: adminUser.name || "Admin",
+        });
+      });
       await syncShopifyInventoryIfNeeded(deletingProduct as any, 0, selectedUser.uid);
 
       toast({
@@ -498,29 +624,48 @@ export function AdminInventoryManagement({
 
   const onEditWithLogSubmit = async (values: z.infer<typeof editLogSchema>) => {
     if (!editingProductWithLog || !selectedUser || !adminUser) return;
+    const conflicts = findIdentifierConflicts(inventory, editForm.getValues(), editingProductWithLog.id);
+    if (conflicts.length > 0) {
+      toast({ variant: "destructive", title: "Duplicate identifier", description: conflicts.join(" ") });
+      return;
+    }
 
     try {
       // Get current product data
       const productRef = doc(db, `users/${selectedUser.uid}/inventory`, editingProductWithLog.id);
-      const productDoc = await getDoc(productRef);
-      
-      if (!productDoc.exists()) {
-        throw new Error("Product not found");
-      }
+      const newQty = editForm.getValues("quantity");
+      const newStatus = newQty > 0 ? "In Stock" : "Out of Stock";
 
-      const currentData = productDoc.data() as Omit<InventoryItem, 'id'>;
+      // Update the product
+      const currentData = await runTransaction(db, async (transaction) => {
+        const productDoc = await transaction.get(productRef);
+        if (!productDoc.exists()) {
+          throw new Error("Product not found");
+        }
+        const data = productDoc.data() as Omit<InventoryItem, 'id'>;
+        transaction.update(productRef, {
+          productName: editForm.getValues("productName"),
+          quantity: newQty,
+          status: newStatus,
+          ...identifierUpdates(editForm.getValues()),
+          ...packagingUpdate(editForm.getValues()),
+          ...dimensionsUpdate(editForm.getValues()),
+        });
+        recordStockMovement(transaction, db, selectedUser.uid, {
+          productId: editingProductWithLog.id,
+          productName: editForm.getValues("productName"),
+          type: "adjust",
+          quantityBefore: Number(data.quantity) || 0,
+          quantityAfter: newQty,
+          reason: values.reason,
+          createdBy: adminUser.uid,
+          createdByName: adminUser.name || "Admin",
+        });
+        return data;
+      });
       const previousProductName = currentData.productName;
       const previousQuantity = currentData.quantity;
       const previousStatus = currentData.status;
-
-      // Update the product
-      const newQty = editForm.getValues("quantity");
-      const newStatus = newQty > 0 ? "In Stock" : "Out of Stock";
-      await updateDoc(productRef, {
-        productName: editForm.getValues("productName"),
-        quantity: newQty,
-        status: newStatus,
-      });
       await syncShopifyInventoryIfNeeded(editingProductWithLog as any, newQty, selectedUser.uid);
       if (previousProductName !== editForm.getValues("productName")) {
         await syncShopifyProductTitleIfNeeded(editingProductWithLog as any, editForm.getValues("productName"), selectedUser.uid);
@@ -731,17 +876,36 @@ export function AdminInventoryManagement({
     try {
       if (recycleQuantity >= inventoryItem.quantity) {
         // Recycle entire item
-        const recycledRef = collection(db, `users/${selectedUser.uid}/recycledInventory`);
-        await addDoc(recycledRef, {
-          ...inventoryItem,
-          recycledAt: new Date(),
-          recycledBy: adminUser.name || "Admin",
-          remarks: remarks || "",
-        });
-
-        // Delete from original collection
+        const recycledRef = doc(collection(db, `users/${selectedUser.uid}/recycledInventory`));
         const inventoryRef = doc(db, `users/${selectedUser.uid}/inventory`, inventoryItem.id);
-        await deleteDoc(inventoryRef);
+        await runTransaction(db, async (transaction) => {
+          const inventoryDoc = await transaction.get(inventoryRef);
+          if (!inventoryDoc.exists()) throw new Error("Product not found");
+          const currentQuantity = Number(inventoryDoc.data().quantity) || 0;
+          if (currentQuantity > recycleQuantity) {
+            throw new Error(`Stock for "${inventoryItem.productName}" changed to ${currentQuantity}. Please try again.`);
+          }
+          transaction.set(recycledRef, {
+            ...inventoryItem,
+            quantity: currentQuantity,
+            recycledAt: new Date(),
+            recycledBy: adminUser.name || "Admin",
+            remarks: remarks || "",
+          });
+
+          // Delete from original collection
+          transaction.delete(inventoryRef);
+          recordStockMovement(transaction, db, selectedUser.uid, {
+            productId: inventoryItem.id,
+            productName: inventoryItem.productName,
+            type: "dispose",
+            quantityBefore: currentQuantity,
+            quantityAfter: 0,
+            reason: remarks || "Moved to recycle bin",
+            createdBy: adminUser.uid,
+            createdByName: adminUser.name || "Admin",
+          });
+        });
         await syncShopifyInventoryIfNeeded(inventoryItem as any, 0, selectedUser.uid);
 
         toast({
@@ -750,14 +914,32 @@ export function AdminInventoryManagement({
         });
       } else {
         // Partial recycle - update original item and add to recycled
-        const newQuantity = inventoryItem.quantity - recycleQuantity;
-        const newStatus = newQuantity > 0 ? "In Stock" : "Out of Stock";
-
-        // Update original inventory
         const inventoryRef = doc(db, `users/${selectedUser.uid}/inventory`, inventoryItem.id);
-        await updateDoc(inventoryRef, {
-          quantity: newQuantity,
-          status: newStatus,
+        const newQuantity = await runTransaction(db, async (transaction) => {
+          const inventoryDoc = await transaction.get(inventoryRef);
+          if (!inventoryDoc.exists()) throw new Error("Product not found");
+          const currentQuantity = Number(inventoryDoc.data().quantity) || 0;
+          if (recycleQuantity > currentQuantity) {
+            throw new Error(`Only ${currentQuantity} units of "${inventoryItem.productName}" are in stock.`);
+          }
+          const quantityAfter = currentQuantity - recycleQuantity;
+
+          // Update original inventory
+          transaction.update(inventoryRef, {
+            quantity: quantityAfter,
+            status: quantityAfter > 0 ? "In Stock" : "Out of Stock",
+          });
+          recordStockMovement(transaction, db, selectedUser.uid, {
+            productId: inventoryItem.id,
+            productName: inventoryItem.productName,
+            type: "dispose",
+            quantityBefore: currentQuantity,
+            quantityAfter,
+            reason: remarks || "Moved to recycle bin",
+            createdBy: adminUser.uid,
+            createdByName: adminUser.name || "Admin",
+          });
+          return quantityAfter;
         });
         await syncShopifyInventoryIfNeeded(inventoryItem as any, newQuantity, selectedUser.uid);
 
@@ -1203,7 +1385,8 @@ export function AdminInventoryManagement({
   // Filtered inventory data
   const filteredInventory = useMemo(() => {
     let filtered = inventory.filter((item) => {
-      const matchesSearch = item.productName.toLowerCase().includes(inventorySearch.toLowerCase());
+      const matchesSearch =
+        item.productName.toLowerCase().includes(inventorySearch.toLowerCase()) || identifiersInclude(item, inventorySearch);
       const matchesStatus = inventoryStatusFilter === "all" || item.status === inventoryStatusFilter;
       const matchesDate = matchesDateFilter(item.dateAdded, inventoryDateFilter);
       const matchesDatePicker = matchesDatePickerFilter(item.dateAdded, inventoryFromDate, inventoryToDate);
@@ -1257,6 +1440,28 @@ export function AdminInventoryManagement({
   const paginatedInventory = filteredInventory.slice(inventoryStartIndex, inventoryEndIndex);
   const resetInventoryPagination = () => setInventoryPage(1);
 
+  // Barcode scan: open Current Inventory filtered down to the matching item and highlight it
+  const handleScan = (code: string) => {
+    const match = findInventoryByCode(inventory, code);
+    if (!match) {
+      setScannedItemId(null);
+      toast({
+        variant: "destructive",
+        title: "No match",
+        description: `No product in ${selectedUser?.name || "this user"}'s inventory has code ${code}.`,
+      });
+      return;
+    }
+    setActiveSection("current-inventory");
+    setInventoryStatusFilter("all");
+    setInventoryDateFilter("all");
+    setInventoryFromDate(undefined);
+    setInventoryToDate(undefined);
+    setInventorySearch(code);
+    resetInventoryPagination();
+    setScannedItemId(match.id);
+  };
+
   // Filtered shipped data
   const filteredShipped = useMemo(() => {
     const filtered = shipped.filter((item) => {
@@ -1336,9 +1541,10 @@ export function AdminInventoryManagement({
                 Email: {selectedUser.email} | Phone: {selectedUser.phone || "Not provided"}
               </CardDescription>
             </div>
+            <ScanInput onScan={handleScan} className="max-w-md" />
             
             {/* Section Navigation Cards */}
-            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3 mt-2">
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-5 gap-3 mt-2">
               {/* Add Inventory Card */}
               <div
                 onClick={() => setActiveSection("add-inventory")}
@@ -1563,6 +1769,62 @@ export function AdminInventoryManagement({
                 </div>
               </div>
 
+              {/* Stock Ledger Card */}
+              <div
+                onClick={() => setActiveSection("stock-ledger")}
+                className={`relative cursor-pointer rounded-xl border-2 transition-all duration-300 p-4 ${
+                  activeSection === "stock-ledger"
+                    ? "border-teal-500 bg-gradient-to-br from-teal-50 to-teal-100 shadow-lg scale-105 ring-2 ring-teal-200"
+                    : "border-gray-200 bg-white hover:border-teal-300 hover:shadow-md"
+                }`}
+              >
+                <div className="flex flex-col items-center gap-2 text-center">
+                  <div className={`p-3 rounded-lg ${
+                    activeSection === "stock-ledger" ? "bg-teal-500 text-white" : "bg-gray-100 text-gray-600"
+                  } transition-colors`}>
+                    <Scale className="h-6 w-6" />
+                  </div>
+                  <div>
+                    <p className={`font-semibold text-xs ${
+                      activeSection === "stock-ledger" ? "text-teal-900" : "text-gray-700"
+                    }`}>
+                      Stock Ledger
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Movements · Drift
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Expiring Soon Card */}
+              <div
+                onClick={() => setActiveSection("expiring-lots")}
+                className={`relative cursor-pointer rounded-xl border-2 transition-all duration-300 p-4 ${
+                  activeSection === "expiring-lots"
+                    ? "border-rose-500 bg-gradient-to-br from-rose-50 to-rose-100 shadow-lg scale-105 ring-2 ring-rose-200"
+                    : "border-gray-200 bg-white hover:border-rose-300 hover:shadow-md"
+                }`}
+              >
+                <div className="flex flex-col items-center gap-2 text-center">
+                  <div className={`p-3 rounded-lg ${
+                    activeSection === "expiring-lots" ? "bg-rose-500 text-white" : "bg-gray-100 text-gray-600"
+                  } transition-colors`}>
+                    <CalendarClock className="h-6 w-6" />
+                  </div>
+                  <div>
+                    <p className={`font-semibold text-xs ${
+                      activeSection === "expiring-lots" ? "text-rose-900" : "text-gray-700"
+                    }`}>
+                      Expiring Soon
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Lots · Expiry
+                    </p>
+                  </div>
+                </div>
+              </div>
+
               {/* User Requests (Notifications) Card */}
               <div
                 onClick={() => setActiveSection("user-requests")}
@@ -1605,12 +1867,13 @@ export function AdminInventoryManagement({
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs value={userRequestsTab} onValueChange={(v) => setUserRequestsTab(v as "shipment" | "inventory" | "return" | "dispose")} className="w-full">
-              <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4">
+            <Tabs value={userRequestsTab} onValueChange={(v) => setUserRequestsTab(v as "shipment" | "inventory" | "return" | "dispose" | "inbound")} className="w-full">
+              <TabsList className="grid w-full grid-cols-3 sm:grid-cols-5">
                 <TabsTrigger value="shipment">Shipment</TabsTrigger>
                 <TabsTrigger value="inventory">Inventory</TabsTrigger>
                 <TabsTrigger value="return">Returns</TabsTrigger>
                 <TabsTrigger value="dispose">Dispose</TabsTrigger>
+                <TabsTrigger value="inbound">Inbound</TabsTrigger>
               </TabsList>
               <TabsContent value="shipment" className="mt-4">
                 <ShipmentRequestsManagement selectedUser={selectedUser} inventory={inventory} initialRequestId={initialRequestId} />
@@ -1624,11 +1887,24 @@ export function AdminInventoryManagement({
               <TabsContent value="dispose" className="mt-4">
                 <DisposeRequestsManagement selectedUser={selectedUser} inventory={inventory} initialRequestId={initialRequestId} />
               </TabsContent>
+              <TabsContent value="inbound" className="mt-4">
+                <InboundShipmentsManagement selectedUser={selectedUser} />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
       )}
 
+      {/* Stock Ledger (movements + reconciliation) */}
+      {activeSection === "stock-ledger" && (
+        <StockLedgerReconciliation selectedUser={selectedUser} inventory={inventory} />
+      )}
+
+      {/* Expiring Soon (lot expiry report) */}
+      {activeSection === "expiring-lots" && (
+        <ExpiringLotsReport selectedUser={selectedUser} inventory={inventory} />
+      )}
+
       {/* Current Inventory */}
       {activeSection === "current-inventory" && (
       <Card>
@@ -1750,7 +2026,7 @@ export function AdminInventoryManagement({
                 const isEbayListing = item.source === "ebay";
                 const isLowStock = !isEbayListing && item.quantity < 5;
                 return (
-                <Card key={item.id} className={`hover:shadow-md transition-shadow flex flex-col h-full ${isLowStock ? 'border-red-500 border-2 bg-red-50 dark:bg-red-950/20' : ''}`}>
+                <Card key={item.id} className={`hover:shadow-md transition-shadow flex flex-col h-full ${isLowStock ? 'border-red-500 border-2 bg-red-50 dark:bg-red-950/20' : ''} ${scannedItemId === item.id ? 'ring-2 ring-primary ring-offset-2' : ''}`}>
                   <CardContent className="p-4 flex flex-col flex-1">
                     <div className="flex items-start justify-between gap-2 mb-3">
                       <h3 className={`font-semibold text-base leading-tight flex-1 min-w-0 ${isLowStock ? 'text-red-700 dark:text-red-400' : ''}`}>{item.productName}</h3>
@@ -1767,6 +2043,14 @@ export function AdminInventoryManagement({
                         <Calendar className="h-4 w-4 shrink-0" />
                         <span className="truncate">Added: {formatDate(item.dateAdded)}</span>
                       </div>
+                      {(item.sku || item.upc || item.asin || item.fnsku) && (
+                        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs font-mono text-muted-foreground">
+                          {item.sku && <span>SKU: {item.sku}</span>}
+                          {item.upc && <span>UPC: {item.upc}</span>}
+                          {item.asin && <span>ASIN: {item.asin}</span>}
+                          {item.fnsku && <span>FNSKU: {item.fnsku}</span>}
+                        </div>
+                      )}
                       {isEbayListing && (
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <span>Source: eBay · Restock syncs to eBay</span>
@@ -2757,6 +3041,9 @@ export function AdminInventoryManagement({
               <div className="bg-muted/50 p-3 rounded-lg">
                 <p className="text-sm">
                   <strong>Current Quantity:</strong> {restockingProduct?.quantity}
+                  {restockingProduct && describePackagedQuantity(restockingProduct.quantity, restockingProduct) && (
+                    <span className="text-muted-foreground"> ({describePackagedQuantity(restockingProduct.quantity, restockingProduct)})</span>
+                  )}
                 </p>
                 <p className="text-sm">
                   <strong>Product:</strong> {restockingProduct?.productName}
@@ -2768,14 +3055,35 @@ export function AdminInventoryManagement({
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Quantity to Add</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="number" 
-                        placeholder="Enter quantity to add" 
-                        {...field}
-                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                      />
-                    </FormControl>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          placeholder="Enter quantity to add" 
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      {restockingProduct && getPackagingUnits(restockingProduct).length > 1 && (
+                        <Select value={restockUnit} onValueChange={(v) => setRestockUnit(v as PackagingUnit)}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getPackagingUnits(restockingProduct).map((unit) => (
+                              <SelectItem key={unit} value={unit} className="capitalize">
+                                {PACKAGING_UNIT_LABELS[unit].many}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {restockingProduct && restockUnit !== "unit" && (
+                      <p className="text-xs text-muted-foreground">
+                        = {toUnits(field.value || 0, restockUnit, restockingProduct)} units
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -3012,6 +3320,139 @@ export function AdminInventoryManagement({
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={editForm.control}
+                    name="sku"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SKU</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter SKU" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="upc"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>UPC/EAN</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Scan or enter UPC/EAN" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="asin"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>ASIN</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter ASIN" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="fnsku"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>FNSKU</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Scan or enter FNSKU" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="unitsPerCase"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Units per Case</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            placeholder="e.g. 24"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={editForm.control}
+                    name="casesPerPallet"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cases per Pallet</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            placeholder="e.g. 40"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {(["length", "width", "height"] as const).map((dimension) => (
+                    <FormField
+                      key={dimension}
+                      control={editForm.control}
+                      name={dimension}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="capitalize">Unit {dimension}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder="0"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <FormField
+                    control={editForm.control}
+                    name="dimensionUnit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dimension Unit</FormLabel>
+                        <Select value={field.value ?? "in"} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="in">Inches</SelectItem>
+                            <SelectItem value="cm">Centimeters</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
                 {/* Reason for Edit */}
@@ -34,6 +34,7 @@ import {
   RotateCcw,
   Package,
   Boxes,
+  ClipboardCheck,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useManagedUsers } from "@/hooks/use-managed-users";
@@ -245,6 +246,13 @@ export function AdminSidebar() {
       color: "text-violet-600",
       requiredFeature: "manage_inventory_admin" as const,
     },
+    {
+      title: "Cycle Counts",
+      url: "/admin/dashboard/cycle-counts",
+      icon: ClipboardCheck,
+      color: "text-cyan-600",
+      requiredFeature: "manage_inventory_admin" as const,
+    },
     {
       title: "Notification",
       url: "/admin/dashboard/notifications",
@@ -6,6 +6,7 @@ import { db } from "@/lib/firebase";
 import { formatUserDisplayName } from "@/lib/format-user-display";
 import { useCollection } from "@/hooks/use-collection";
 import { createLocation, removeLocation } from "@/lib/locations";
+import { BinManagement } from "@/components/admin/bin-management";
 import type { Location as LocationType, UserProfile } from "@/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -326,6 +327,8 @@ export function AssignLocationTab() {
         </CardContent>
       </Card>
 
+      <BinManagement locations={activeLocations} users={assignableUsers} />
+
       <AlertDialog open={!!confirmRemoveId} onOpenChange={(open) => !open && setConfirmRemoveId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
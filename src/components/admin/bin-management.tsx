@@ -0,0 +1,328 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { doc, runTransaction } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { formatUserDisplayName } from "@/lib/format-user-display";
+import { useCollection } from "@/hooks/use-collection";
+import { createBin, formatBinCode, removeBin } from "@/lib/locations";
+import { binsForUser, getOnHandBins, getUnassignedQuantity, pickFromBins, putAway } from "@/lib/inventory-bins";
+import { BinSelect } from "@/components/admin/bin-select";
+import type { BinLocation, InventoryItem, Location as LocationType, UserProfile } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRightLeft, Grid3X3, Loader2, Plus, Trash2 } from "lucide-react";
+
+export function BinManagement({
+  locations,
+  users,
+}: {
+  locations: LocationType[];
+  users: UserProfile[];
+}) {
+  const { toast } = useToast();
+  const { data: allBins, loading: binsLoading } = useCollection<BinLocation>("bins");
+
+  // New bin form
+  const [binLocationId, setBinLocationId] = useState("");
+  const [zone, setZone] = useState("");
+  const [aisle, setAisle] = useState("");
+  const [shelf, setShelf] = useState("");
+  const [binName, setBinName] = useState("");
+  const [addingBin, setAddingBin] = useState(false);
+  const [removingBinId, setRemovingBinId] = useState<string | null>(null);
+
+  // Put away / move form
+  const [moveUserId, setMoveUserId] = useState("");
+  const [moveProductId, setMoveProductId] = useState("");
+  const [fromBinId, setFromBinId] = useState("");
+  const [toBinId, setToBinId] = useState("");
+  const [moveQuantity, setMoveQuantity] = useState<number>(0);
+  const [moving, setMoving] = useState(false);
+
+  const { data: moveInventory } = useCollection<InventoryItem>(moveUserId ? `users/${moveUserId}/inventory` : "");
+
+  const locationNames = useMemo(() => new Map(locations.map((l) => [l.id, l.name])), [locations]);
+  const activeBins = useMemo(() => binsForUser(allBins, null), [allBins]);
+  const moveUser = users.find((u) => u.uid === moveUserId);
+  const moveUserBins = useMemo(() => binsForUser(allBins, moveUser), [allBins, moveUser]);
+  const moveProduct = moveInventory.find((item) => item.id === moveProductId);
+  const sourceAvailable = moveProduct
+    ? fromBinId
+      ? getOnHandBins(moveProduct).find((b) => b.binId === fromBinId)?.quantity ?? 0
+      : getUnassignedQuantity(moveProduct)
+    : 0;
+
+  const handleAddBin = async () => {
+    if (!binLocationId) {
+      toast({ variant: "destructive", title: "Error", description: "Select a location for the bin." });
+      return;
+    }
+    if (!binName.trim()) {
+      toast({ variant: "destructive", title: "Error", description: "Enter a bin name." });
+      return;
+    }
+    const code = formatBinCode({ zone, aisle, shelf, bin: binName });
+    if (activeBins.some((b) => b.locationId === binLocationId && b.code === code)) {
+      toast({ variant: "destructive", title: "Error", description: `Bin ${code} already exists at this location.` });
+      return;
+    }
+    setAddingBin(true);
+    try {
+      await createBin(binLocationId, { zone, aisle, shelf, bin: binName });
+      setBinName("");
+      toast({ title: "Success", description: `Bin ${code} added.` });
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    } finally {
+      setAddingBin(false);
+    }
+  };
+
+  const handleRemoveBin = async (id: string) => {
+    setRemovingBinId(id);
+    try {
+      await removeBin(id);
+      toast({ title: "Success", description: "Bin removed." });
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    } finally {
+      setRemovingBinId(null);
+    }
+  };
+
+  const handleMoveStock = async () => {
+    const target = moveUserBins.find((b) => b.id === toBinId);
+    if (!moveUserId || !moveProductId || !target) {
+      toast({ variant: "destructive", title: "Error", description: "Select a user, a product and a destination bin." });
+      return;
+    }
+    if (fromBinId === toBinId) {
+      toast({ variant: "destructive", title: "Error", description: "Source and destination bins are the same." });
+      return;
+    }
+    if (!moveQuantity || moveQuantity <= 0) {
+      toast({ variant: "destructive", title: "Error", description: "Enter a quantity greater than 0." });
+      return;
+    }
+    setMoving(true);
+    try {
+      await runTransaction(db, async (transaction) => {
+        const itemRef = doc(db, `users/${moveUserId}/inventory`, moveProductId);
+        const snap = await transaction.get(itemRef);
+        if (!snap.exists()) {
+          throw new Error("Product no longer exists in this user's inventory.");
+        }
+        const item = snap.data() as InventoryItem;
+        const onHand = getOnHandBins(item);
+        const available = fromBinId
+          ? onHand.find((b) => b.binId === fromBinId)?.quantity ?? 0
+          : getUnassignedQuantity(item);
+        if (moveQuantity > available) {
+          throw new Error(`Only ${available} units available to move.`);
+        }
+        // The source bin holds at least moveQuantity, so preferring it picks from that bin only
+        const remaining = fromBinId ? pickFromBins(onHand, moveQuantity, fromBinId).remaining : onHand;
+        transaction.update(itemRef, { bins: putAway(remaining, target, moveQuantity) });
+      });
+      toast({ title: "Success", description: `Moved ${moveQuantity} units to ${target.code}.` });
+      setMoveQuantity(0);
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="overflow-hidden rounded-2xl border-2 shadow-sm">
+        <CardHeader className="border-b bg-muted/20 pb-6">
+          <CardTitle className="flex items-center gap-3 text-xl">
+            <span className="flex h-10 w-10 items-center justify-center rounded-xl bg-amber-500/15 text-amber-600 dark:text-amber-400">
+              <Grid3X3 className="h-5 w-5" />
+            </span>
+            Bins
+          </CardTitle>
+          <CardDescription className="text-base">
+            Shelf and bin positions inside each location. Stock can be put away to a bin on receipt and is picked from
+            bins when shipments are confirmed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5 pt-6">
+          {locations.length === 0 ? (
+            <p className="rounded-xl border-2 border-dashed border-muted-foreground/30 bg-muted/10 py-6 text-center text-sm text-muted-foreground">
+              Add at least one location first.
+            </p>
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-6 items-end">
+              <div className="space-y-1 sm:col-span-2">
+                <Label className="text-sm font-semibold">Location</Label>
+                <Select value={binLocationId} onValueChange={setBinLocationId}>
+                  <SelectTrigger className="rounded-xl border-2 h-11">
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((loc) => (
+                      <SelectItem key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input placeholder="Zone" value={zone} onChange={(e) => setZone(e.target.value)} className="rounded-xl border-2 h-11" />
+              <Input placeholder="Aisle" value={aisle} onChange={(e) => setAisle(e.target.value)} className="rounded-xl border-2 h-11" />
+              <Input placeholder="Shelf" value={shelf} onChange={(e) => setShelf(e.target.value)} className="rounded-xl border-2 h-11" />
+              <Input
+                placeholder="Bin *"
+                value={binName}
+                onChange={(e) => setBinName(e.target.value)}
+                className="rounded-xl border-2 h-11"
+                onKeyDown={(e) => e.key === "Enter" && handleAddBin()}
+              />
+              <Button onClick={handleAddBin} disabled={addingBin} className="rounded-xl h-11 px-5 sm:col-span-6 sm:w-fit">
+                {addingBin ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                <span className="ml-2">Add bin</span>
+              </Button>
+            </div>
+          )}
+          {binsLoading ? (
+            <div className="flex items-center gap-2 rounded-xl border-2 border-dashed border-muted-foreground/30 bg-muted/20 py-6 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading bins…
+            </div>
+          ) : activeBins.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              {activeBins.map((bin) => (
+                <div
+                  key={bin.id}
+                  className="flex items-center gap-2 rounded-xl border-2 border-border/60 bg-card px-4 py-2.5 shadow-sm"
+                >
+                  <span className="font-mono font-medium text-foreground">{bin.code}</span>
+                  <span className="text-xs text-muted-foreground">{locationNames.get(bin.locationId) || "Unknown location"}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-lg text-destructive hover:bg-destructive/10 hover:text-destructive"
+                    onClick={() => handleRemoveBin(bin.id)}
+                    disabled={removingBinId === bin.id}
+                  >
+                    {removingBinId === bin.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="overflow-hidden rounded-2xl border-2 shadow-sm">
+        <CardHeader className="border-b bg-muted/20 pb-6">
+          <CardTitle className="flex items-center gap-3 text-xl">
+            <span className="flex h-10 w-10 items-center justify-center rounded-xl bg-sky-500/15 text-sky-600 dark:text-sky-400">
+              <ArrowRightLeft className="h-5 w-5" />
+            </span>
+            Put away / move stock
+          </CardTitle>
+          <CardDescription className="text-base">
+            Put unassigned units into a bin or move units between bins. The item&apos;s total quantity does not change.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5 pt-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-sm font-semibold">User</Label>
+              <Select
+                value={moveUserId}
+                onValueChange={(v) => {
+                  setMoveUserId(v);
+                  setMoveProductId("");
+                  setFromBinId("");
+                  setToBinId("");
+                }}
+              >
+                <SelectTrigger className="rounded-xl border-2 h-11">
+                  <SelectValue placeholder="Select user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((u) => (
+                    <SelectItem key={u.uid} value={u.uid!}>
+                      {formatUserDisplayName(u, { showEmail: false })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-semibold">Product</Label>
+              <Select
+                value={moveProductId}
+                onValueChange={(v) => {
+                  setMoveProductId(v);
+                  setFromBinId("");
+                }}
+                disabled={!moveUserId}
+              >
+                <SelectTrigger className="rounded-xl border-2 h-11">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {moveInventory.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.productName} {item.sku ? `(${item.sku})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-semibold">From</Label>
+              <BinSelect
+                bins={[]}
+                stock={moveProduct ? getOnHandBins(moveProduct) : []}
+                value={fromBinId}
+                onChange={setFromBinId}
+                noneLabel={`Unassigned${moveProduct ? ` (${getUnassignedQuantity(moveProduct)})` : ""}`}
+                className="rounded-xl border-2 h-11"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-semibold">To bin</Label>
+              <BinSelect
+                bins={moveUserBins}
+                value={toBinId}
+                onChange={setToBinId}
+                noneLabel="Select bin"
+                className="rounded-xl border-2 h-11"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-semibold">Quantity</Label>
+              <Input
+                type="number"
+                min={1}
+                max={sourceAvailable}
+                value={moveQuantity || ""}
+                onChange={(e) => setMoveQuantity(parseInt(e.target.value) || 0)}
+                className="rounded-xl border-2 h-11"
+              />
+              {moveProduct && <p className="text-xs text-muted-foreground">Available to move: {sourceAvailable}</p>}
+            </div>
+          </div>
+          <Button
+            onClick={handleMoveStock}
+            disabled={moving || !moveProductId || !toBinId || moveQuantity <= 0}
+            className="rounded-xl h-11 px-6 font-semibold"
+          >
+            {moving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Move stock
+          </Button>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
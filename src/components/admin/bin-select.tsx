@@ -0,0 +1,46 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BinLocation, InventoryBinQuantity } from "@/types";
+
+const NONE = "__none__";
+
+/**
+ * Bin picker used when putting stock away or picking it. Pass `stock` to show how many
+ * units of the item each bin holds (and to list only bins that hold some).
+ */
+export function BinSelect({
+  bins,
+  value,
+  onChange,
+  noneLabel = "No bin",
+  stock,
+  className,
+}: {
+  bins: BinLocation[];
+  value: string;
+  onChange: (binId: string) => void;
+  noneLabel?: string;
+  stock?: InventoryBinQuantity[];
+  className?: string;
+}) {
+  const options = stock
+    ? stock.map((s) => ({ id: s.binId, label: `${s.code} (${s.quantity})` }))
+    : bins.map((b) => ({ id: b.id, label: b.code }));
+
+  return (
+    <Select value={value || NONE} onValueChange={(v) => onChange(v === NONE ? "" : v)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={noneLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{noneLabel}</SelectItem>
+        {options.map((o) => (
+          <SelectItem key={o.id} value={o.id}>
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { collection, doc, query, runTransaction, where } from "firebase/firestore";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  applyCreditToInvoice,
+  buildCreditNoteLines,
+  creditableAmount,
+  creditableLines,
+  creditNotesPath,
+} from "@/lib/credit-notes";
+import { invoiceBalanceDue } from "@/lib/invoice-payments";
+import { generateCreditNoteNumber, roundMoney } from "@/lib/invoice-utils";
+import { buildWalletTransaction, walletBalance, walletTransactionsPath } from "@/lib/wallet";
+import type { CreditNote, Invoice, UserProfile } from "@/types";
+
+function money(value: number): string {
+  return `$${(Number(value) || 0).toFixed(2)}`;
+}
+
+/**
+ * Issues a credit note against an invoice, for everything left on it or for chosen amounts per
+ * line. The invoice itself is not edited beyond its credited amount and, once cleared, its status.
+ * Credit beyond the balance due goes to the client's wallet.
+ */
+export function CreditNoteDialog({
+  invoice,
+  open,
+  onOpenChange,
+  onIssued,
+}: {
+  invoice: Invoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onIssued?: () => void;
+}) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const [kind, setKind] = useState<"full" | "partial">("full");
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [isIssuing, setIsIssuing] = useState(false);
+
+  const path = invoice?.userId ? creditNotesPath(invoice.userId) : "";
+  const notesQuery = useMemo(
+    () => (path && invoice?.id ? query(collection(db, path), where("invoiceId", "==", invoice.id)) : undefined),
+    [path, invoice?.id]
+  );
+  const { data: existingNotes, loading: notesLoading } = useCollection<CreditNote>(path, notesQuery);
+
+  useEffect(() => {
+    if (!open) return;
+    setKind("full");
+    setAmounts({});
+    setReason("");
+  }, [open]);
+
+  const lines = useMemo(() => (invoice ? creditableLines(invoice, existingNotes) : []), [invoice, existingNotes]);
+
+  const noteLines = useMemo(() => {
+    if (!invoice) return [];
+    const requested: Record<string, number> = {};
+    for (const line of lines) {
+      requested[line.key] = kind === "full" ? line.remaining : parseFloat(amounts[line.key] || "") || 0;
+    }
+    return buildCreditNoteLines(invoice, lines, requested);
+  }, [invoice, lines, kind, amounts]);
+
+  const total = roundMoney(noteLines.reduce((sum, line) => sum + line.amount, 0));
+  const outcome = invoice ? applyCreditToInvoice(invoice, total) : null;
+
+  const handleIssue = async () => {
+    if (!invoice || !outcome) return;
+    if (!reason.trim()) {
+      toast({ variant: "destructive", title: "Reason required", description: "Explain why the invoice is being credited." });
+      return;
+    }
+
+    setIsIssuing(true);
+    try {
+      const userRef = doc(db, "users", invoice.userId);
+      const invoiceRef = doc(db, `users/${invoice.userId}/invoices/${invoice.id}`);
+      const noteRef = doc(collection(db, creditNotesPath(invoice.userId)));
+      const walletEntryRef = doc(collection(db, walletTransactionsPath(invoice.userId)));
+      const creditNoteNumber = generateCreditNoteNumber();
+
+      await runTransaction(db, async (transaction) => {
+        const [userSnap, snap] = await Promise.all([transaction.get(userRef), transaction.get(invoiceRef)]);
+        if (!snap.exists()) throw new Error("Invoice not found.");
+        const current = snap.data() as Invoice;
+        if (total > creditableAmount(current) + 0.001) {
+          throw new Error("The invoice was credited meanwhile. Reopen the dialog and try again.");
+        }
+        const applied = applyCreditToInvoice(current, total);
+
+        const toWallet = applied.unappliedAmount > 0 && userSnap.exists();
+        if (toWallet) {
+          const { entry, balanceAfter } = buildWalletTransaction(
+            walletBalance(userSnap.data() as UserProfile),
+            {
+              type: "credit_note",
+              amount: applied.unappliedAmount,
+              description: `${creditNoteNumber} against ${invoice.invoiceNumber}`,
+              invoiceId: invoice.id,
+              invoiceNumber: invoice.invoiceNumber,
+              creditNoteId: noteRef.id,
+              createdBy: user?.uid || "admin",
+            },
+            new Date()
+          );
+          transaction.set(walletEntryRef, entry);
+          transaction.update(userRef, { walletBalance: balanceAfter });
+        }
+
+        transaction.set(noteRef, {
+          creditNoteNumber,
+          date: format(new Date(), "yyyy-MM-dd"),
+          userId: invoice.userId,
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          soldTo: invoice.soldTo,
+          kind,
+          reason: reason.trim(),
+          lines: noteLines,
+          total,
+          appliedAmount: applied.appliedAmount,
+          unappliedAmount: applied.unappliedAmount,
+          ...(toWallet ? { walletTransactionId: walletEntryRef.id } : {}),
+          createdAt: new Date(),
+          createdBy: user?.uid || "admin",
+          createdByName: userProfile?.name || "",
+        });
+        transaction.update(invoiceRef, {
+          creditedAmount: applied.creditedAmount,
+          status: applied.status,
+          ...(applied.status !== current.status ? { settledByCredit: true } : {}),
+          updatedAt: new Date(),
+        });
+      });
+
+      toast({ title: "Credit Note Issued", description: `${creditNoteNumber} for ${money(total)}.` });
+      onIssued?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("Error issuing credit note:", error);
+      toast({ variant: "destructive", title: "Error", description: error?.message || "Failed to issue credit note." });
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue Credit Note</DialogTitle>
+          <DialogDescription>
+            Credit all or part of {invoice?.invoiceNumber || "this invoice"}. An open invoice&apos;s balance is
+            reduced; credit on a paid invoice goes to the client&apos;s wallet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {invoice && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 rounded-lg bg-muted/40 p-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Invoice Total</p>
+                <p className="font-semibold">{money(invoice.grandTotal)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Already Credited</p>
+                <p className="font-semibold">{money(invoice.creditedAmount || 0)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Balance Due</p>
+                <p className="font-semibold">{money(invoiceBalanceDue(invoice))}</p>
+              </div>
+            </div>
+
+            <Tabs value={kind} onValueChange={(value) => setKind(value as "full" | "partial")}>
+              <TabsList className="grid grid-cols-2 w-full">
+                <TabsTrigger value="full">Full Credit</TabsTrigger>
+                <TabsTrigger value="partial">Per Line</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {notesLoading ? (
+              <p className="text-sm text-muted-foreground">Loading earlier credit notes...</p>
+            ) : (
+              <div className="space-y-2">
+                {lines.map((line) => (
+                  <div key={line.key} className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{line.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.quantity !== undefined && line.unitPrice !== undefined
+                          ? `${line.quantity} × ${money(line.unitPrice)} = `
+                          : ""}
+                        {money(line.amount)}
+                        {line.credited > 0 ? ` · ${money(line.credited)} credited` : ""}
+                      </p>
+                    </div>
+                    {kind === "full" ? (
+                      <span className="shrink-0 font-semibold">{money(line.remaining)}</span>
+                    ) : (
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={line.remaining}
+                        disabled={line.remaining <= 0}
+                        placeholder={`Max ${line.remaining.toFixed(2)}`}
+                        value={amounts[line.key] || ""}
+                        onChange={(e) => setAmounts((prev) => ({ ...prev, [line.key]: e.target.value }))}
+                        className="w-32 shrink-0"
+                      />
+                    )}
+                  </div>
+                ))}
+                {noteLines
+                  .filter((line) => line.amount < 0)
+                  .map((line) => (
+                    <div key={line.lineKey} className="flex justify-between px-2 text-sm text-muted-foreground">
+                      <span>{line.description}</span>
+                      <span>{money(line.amount)}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="credit-note-reason">Reason</Label>
+              <Textarea
+                id="credit-note-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Overcharged for 20 units of FNSKU labeling"
+              />
+            </div>
+
+            {outcome && (
+              <div className="rounded-lg border p-3 text-sm space-y-1">
+                <div className="flex justify-between font-semibold">
+                  <span>Credit Total</span>
+                  <span>{money(total)}</span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Applied to balance due</span>
+                  <span>{money(outcome.appliedAmount)}</span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Added to wallet</span>
+                  <span>{money(outcome.unappliedAmount)}</span>
+                </div>
+                {outcome.status !== invoice.status && (
+                  <p className="text-xs text-muted-foreground">The invoice will be marked as paid.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isIssuing}>
+            Cancel
+          </Button>
+          <Button onClick={handleIssue} disabled={!invoice || notesLoading || isIssuing || total <= 0}>
+            {isIssuing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Issue Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,465 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import { formatUserDisplayName } from "@/lib/format-user-display";
+import {
+  approveCycleCountVariances,
+  createCycleCountSession,
+  getCountVariance,
+  saveCycleCounts,
+  setCycleCountStatus,
+} from "@/lib/cycle-counts";
+import { normalizeIdentifier } from "@/lib/product-identifiers";
+import { ScanInput } from "@/components/admin/scan-input";
+import type { CycleCountSession, CycleCountStatus, UserProfile } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, CheckCircle2, ClipboardCheck, Loader2, Plus, Save, Send, XCircle } from "lucide-react";
+
+type LocationDoc = { id: string; name?: string; active?: boolean };
+
+const STATUS_LABELS: Record<CycleCountStatus, string> = {
+  counting: "Counting",
+  review: "In Review",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+function statusBadge(status: CycleCountStatus) {
+  if (status === "completed") return <Badge className="bg-green-600 hover:bg-green-600">{STATUS_LABELS[status]}</Badge>;
+  if (status === "cancelled") return <Badge variant="destructive">{STATUS_LABELS[status]}</Badge>;
+  if (status === "review") return <Badge className="bg-amber-500 hover:bg-amber-500">{STATUS_LABELS[status]}</Badge>;
+  return <Badge variant="secondary">{STATUS_LABELS[status]}</Badge>;
+}
+
+function sessionTime(value: CycleCountSession["createdAt"] | undefined): number {
+  if (!value) return 0;
+  if (typeof value === "string") return new Date(value).getTime();
+  return value.seconds * 1000;
+}
+
+function varianceCell(variance: number | null) {
+  if (variance === null) return <span className="text-muted-foreground">—</span>;
+  if (variance === 0) return <span className="text-green-700">0</span>;
+  return <span className={variance > 0 ? "font-semibold text-blue-700" : "font-semibold text-red-700"}>{variance > 0 ? `+${variance}` : variance}</span>;
+}
+
+export function CycleCounts({ users }: { users: UserProfile[] }) {
+  const { toast } = useToast();
+  const { userProfile: adminProfile } = useAuth();
+  const { data: sessions, loading } = useCollection<CycleCountSession>("cycleCounts");
+  const { data: locationDocs } = useCollection<LocationDoc>("locations");
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+
+  // New session form
+  const [scope, setScope] = useState<"client" | "location">("client");
+  const [userId, setUserId] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [blind, setBlind] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const locations = useMemo(() => locationDocs.filter((l) => l.active !== false), [locationDocs]);
+  const userIds = useMemo(() => new Set(users.map((u) => u.uid)), [users]);
+  const visibleSessions = useMemo(
+    () =>
+      sessions
+        .filter((s) => (s.scope === "client" ? !!s.userId && userIds.has(s.userId) : s.lines.some((l) => userIds.has(l.userId))))
+        .sort((a, b) => sessionTime(b.createdAt) - sessionTime(a.createdAt)),
+    [sessions, userIds]
+  );
+  const openSession = sessions.find((s) => s.id === openSessionId) || null;
+
+  const handleCreate = async () => {
+    if (!adminProfile) return;
+    const targetUsers =
+      scope === "client"
+        ? users.filter((u) => u.uid === userId)
+        : users.filter((u) => u.locations?.includes(locationId));
+    if (targetUsers.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: scope === "client" ? "Select a client." : "No clients are assigned to this location.",
+      });
+      return;
+    }
+    const label =
+      scope === "client"
+        ? formatUserDisplayName(targetUsers[0], { showEmail: false })
+        : locations.find((l) => l.id === locationId)?.name || "Location";
+    setCreating(true);
+    try {
+      const id = await createCycleCountSession(db, {
+        name: `${label} — ${format(new Date(), "MMM dd, yyyy")}`,
+        scope,
+        users: targetUsers,
+        locationId: scope === "location" ? locationId : undefined,
+        blind,
+        createdBy: adminProfile.uid,
+        createdByName: adminProfile.name || "Admin",
+      });
+      toast({ title: "Success", description: "Cycle count started." });
+      setOpenSessionId(id);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to start cycle count." });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (openSession) {
+    return <CycleCountSessionView session={openSession} onBack={() => setOpenSessionId(null)} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            New Cycle Count
+          </CardTitle>
+          <CardDescription>
+            Snapshot system quantities for a client or for every client at a location, then count the shelves.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(v) => setScope(v as "client" | "location")} className="flex gap-6">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="client" id="cc-scope-client" />
+              <Label htmlFor="cc-scope-client" className="font-normal">By client</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="location" id="cc-scope-location" />
+              <Label htmlFor="cc-scope-location" className="font-normal">By location</Label>
+            </div>
+          </RadioGroup>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {scope === "client" ? (
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.filter((u) => u.uid).map((u) => (
+                    <SelectItem key={u.uid} value={u.uid!}>
+                      {formatUserDisplayName(u, { showEmail: false })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex items-center space-x-2">
+              <Checkbox id="cc-blind" checked={blind} onCheckedChange={(v) => setBlind(v === true)} />
+              <Label htmlFor="cc-blind" className="font-normal">
+                Blind count (hide system quantities until submitted)
+              </Label>
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={creating || (scope === "client" ? !userId : !locationId)}>
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ClipboardCheck className="h-4 w-4 mr-2" />}
+            Start Count
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Count Sessions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+            </div>
+          ) : visibleSessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No cycle counts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Counted</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleSessions.map((s) => {
+                  const counted = s.lines.filter((l) => l.countedQuantity !== null).length;
+                  return (
+                    <TableRow key={s.id}>
+                      <TableCell className="font-medium">
+                        {s.name}
+                        {s.blind && <Badge variant="outline" className="ml-2">Blind</Badge>}
+                      </TableCell>
+                      <TableCell className="capitalize">{s.scope}</TableCell>
+                      <TableCell>
+                        {counted} / {s.lines.length}
+                      </TableCell>
+                      <TableCell>{statusBadge(s.status)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {sessionTime(s.createdAt) ? format(new Date(sessionTime(s.createdAt)), "MMM dd, yyyy") : "—"}
+                        {s.createdByName ? ` · ${s.createdByName}` : ""}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setOpenSessionId(s.id)}>
+                          Open
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CycleCountSessionView({ session, onBack }: { session: CycleCountSession; onBack: () => void }) {
+  const { toast } = useToast();
+  const { userProfile: adminProfile } = useAuth();
+  // Unsaved counts keyed by line index; "" clears a saved count
+  const [draft, setDraft] = useState<Record<number, string>>({});
+  const [approved, setApproved] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [focusedLine, setFocusedLine] = useState<number | null>(null);
+
+  const isCounting = session.status === "counting";
+  const isReview = session.status === "review";
+  const showSystem = !isCounting || !session.blind;
+  const multiClient = session.scope === "location";
+
+  // Pre-select every variance line once the session reaches review
+  useEffect(() => {
+    if (!isReview) return;
+    setApproved(
+      new Set(session.lines.map((line, index) => (getCountVariance(line) ? index : -1)).filter((index) => index >= 0))
+    );
+  }, [isReview, session.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const dirty = Object.keys(draft).length > 0;
+  const countedLines = session.lines.filter((l) => l.countedQuantity !== null).length;
+  const varianceLines = session.lines.filter((l) => getCountVariance(l)).length;
+
+  const displayedCount = (index: number) => {
+    if (index in draft) return draft[index];
+    const counted = session.lines[index].countedQuantity;
+    return counted === null ? "" : String(counted);
+  };
+
+  const persistDraft = async () => {
+    if (!dirty) return;
+    const counts: Record<number, number | null> = {};
+    for (const [index, value] of Object.entries(draft)) {
+      counts[Number(index)] = value.trim() === "" ? null : Math.max(0, parseInt(value) || 0);
+    }
+    await saveCycleCounts(db, session.id, counts);
+    setDraft({});
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: "Success", description: success });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Something went wrong." });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleScan = (code: string) => {
+    const needle = normalizeIdentifier(code);
+    const index = session.lines.findIndex((l) => normalizeIdentifier(l.sku) === needle || l.productId === code);
+    if (index < 0) {
+      toast({ variant: "destructive", title: "Not in this count", description: `No line matches ${code}.` });
+      return;
+    }
+    setFocusedLine(index);
+    document.getElementById(`cc-line-${index}`)?.focus();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <Button variant="ghost" size="sm" onClick={onBack} className="mb-2 -ml-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All counts
+            </Button>
+            <CardTitle className="flex items-center gap-2">
+              {session.name} {statusBadge(session.status)}
+            </CardTitle>
+            <CardDescription>
+              {countedLines} of {session.lines.length} lines counted
+              {showSystem ? ` · ${varianceLines} with variance` : ""}
+              {session.blind && isCounting ? " · blind count" : ""}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {isCounting && (
+              <>
+                <Button variant="outline" onClick={() => run(persistDraft, "Counts saved.")} disabled={busy || !dirty}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Counts
+                </Button>
+                <Button
+                  onClick={() =>
+                    run(async () => {
+                      await persistDraft();
+                      await setCycleCountStatus(db, session.id, "review");
+                    }, "Submitted for review.")
+                  }
+                  disabled={busy}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  Submit for Review
+                </Button>
+              </>
+            )}
+            {isReview && (
+              <>
+                <Button variant="outline" onClick={() => run(() => setCycleCountStatus(db, session.id, "counting"), "Reopened for counting.")} disabled={busy}>
+                  Reopen Counting
+                </Button>
+                <Button
+                  onClick={() =>
+                    run(async () => {
+                      const { adjusted } = await approveCycleCountVariances(db, session.id, Array.from(approved), {
+                        uid: adminProfile?.uid || "admin",
+                        name: adminProfile?.name || undefined,
+                      });
+                      toast({ title: "Inventory adjusted", description: `${adjusted} item(s) adjusted.` });
+                    }, "Cycle count completed.")
+                  }
+                  disabled={busy}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Approve {approved.size} Variance{approved.size === 1 ? "" : "s"}
+                </Button>
+              </>
+            )}
+            {(isCounting || isReview) && (
+              <Button variant="destructive" onClick={() => run(() => setCycleCountStatus(db, session.id, "cancelled"), "Cycle count cancelled.")} disabled={busy}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isCounting && <ScanInput onScan={handleScan} placeholder="Scan SKU to jump to its line" className="max-w-md" />}
+        {isReview && session.lines.some((l) => l.countedQuantity === null) && (
+          <p className="text-sm text-amber-700">Uncounted lines are left unchanged.</p>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {isReview && <TableHead className="w-10" />}
+              {multiClient && <TableHead>Client</TableHead>}
+              <TableHead>Product</TableHead>
+              <TableHead>Bin</TableHead>
+              {showSystem && <TableHead className="text-right">System</TableHead>}
+              <TableHead className="w-32">Counted</TableHead>
+              {showSystem && <TableHead className="text-right">Variance</TableHead>}
+              {session.status === "completed" && <TableHead>Result</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {session.lines.map((line, index) => {
+              const variance = getCountVariance(line);
+              return (
+                <TableRow key={`${line.userId}-${line.productId}`} className={focusedLine === index ? "bg-primary/5" : undefined}>
+                  {isReview && (
+                    <TableCell>
+                      {variance ? (
+                        <Checkbox
+                          checked={approved.has(index)}
+                          onCheckedChange={(checked) =>
+                            setApproved((prev) => {
+                              const next = new Set(prev);
+                              if (checked === true) next.add(index);
+                              else next.delete(index);
+                              return next;
+                            })
+                          }
+                        />
+                      ) : null}
+                    </TableCell>
+                  )}
+                  {multiClient && <TableCell>{line.userName || line.userId}</TableCell>}
+                  <TableCell className="font-medium">
+                    {line.productName}
+                    {line.sku && <span className="block text-xs font-mono text-muted-foreground">{line.sku}</span>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{line.binCodes?.join(", ") || "—"}</TableCell>
+                  {showSystem && <TableCell className="text-right">{line.systemQuantity}</TableCell>}
+                  <TableCell>
+                    {isCounting ? (
+                      <Input
+                        id={`cc-line-${index}`}
+                        type="number"
+                        min={0}
+                        value={displayedCount(index)}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, [index]: e.target.value }))}
+                        onFocus={() => setFocusedLine(index)}
+                        className="h-8"
+                      />
+                    ) : (
+                      line.countedQuantity ?? "—"
+                    )}
+                  </TableCell>
+                  {showSystem && <TableCell className="text-right">{varianceCell(variance)}</TableCell>}
+                  {session.status === "completed" && (
+                    <TableCell>
+                      {line.resolution === "approved" ? (
+                        <Badge className="bg-green-600 hover:bg-green-600">Adjusted</Badge>
+                      ) : line.resolution === "dismissed" ? (
+                        <Badge variant="outline">Dismissed</Badge>
+                      ) : null}
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+type PreviewLine = {
+  quantity: number;
+  productName: string;
+  sku?: string;
+  unitPrice: number;
+  amount: number;
+};
+
+type ShipmentPreview = {
+  id: string;
+  shipDate: string;
+  excluded: boolean;
+  items: PreviewLine[];
+  amount: number;
+};
+
+type ClientPreview = {
+  userId: string;
+  clientName: string;
+  shipments: ShipmentPreview[];
+  additionalServices: { total: number } | null;
+  subtotal: number;
+  grandTotal: number;
+};
+
+function money(value: number): string {
+  return `$${(Number(value) || 0).toFixed(2)}`;
+}
+
+/**
+ * Dry run of the daily invoice job for review. Admins can leave shipments out, then approve:
+ * only the shipments shown here are invoiced, even if new ones were shipped meanwhile.
+ */
+export function DailyInvoiceReviewDialog({
+  open,
+  onOpenChange,
+  onGenerated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerated?: () => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [previews, setPreviews] = useState<ClientPreview[]>([]);
+  const [reviewedIds, setReviewedIds] = useState<string[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+
+  const runDailyInvoices = async (body: Record<string, unknown>) => {
+    const idToken = user ? await user.getIdToken() : "";
+    if (!idToken) throw new Error("Please re-login and try again.");
+    const res = await fetch("/api/invoices/generate-daily", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+      body: JSON.stringify(body),
+    });
+    const payload = await res.json().catch(() => ({} as any));
+    if (!res.ok) throw new Error(payload?.details || payload?.error || "Daily invoice run failed.");
+    return payload;
+  };
+
+  const loadPreview = async (nextExcluded: Set<string>, shipmentIds: string[] | null) => {
+    setIsLoading(true);
+    try {
+      const payload = await runDailyInvoices({
+        dryRun: true,
+        ...(shipmentIds ? { shipmentIds } : {}),
+        excludeShipmentIds: Array.from(nextExcluded),
+      });
+      const clients = ((payload?.results || []) as any[]).filter((r) => r.status === "preview") as ClientPreview[];
+      setPreviews(clients);
+      if (!shipmentIds) setReviewedIds(clients.flatMap((c) => c.shipments.map((s) => s.id)));
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to load the preview." });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setPreviews([]);
+    setReviewedIds([]);
+    setExcluded(new Set());
+    loadPreview(new Set(), null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const toggleShipment = (shipmentId: string, include: boolean) => {
+    const next = new Set(excluded);
+    if (include) next.delete(shipmentId);
+    else next.add(shipmentId);
+    setExcluded(next);
+    loadPreview(next, reviewedIds);
+  };
+
+  const billableClients = previews.filter((c) => c.grandTotal > 0);
+  const batchTotal = billableClients.reduce((sum, c) => sum + c.grandTotal, 0);
+
+  const handleApprove = async () => {
+    setIsApproving(true);
+    try {
+      const payload = await runDailyInvoices({ shipmentIds: reviewedIds, excludeShipmentIds: Array.from(excluded) });
+      const created = ((payload?.results || []) as any[]).filter((r) => r.status === "invoice_created").length;
+      toast({ title: "Invoices Generated", description: `Created ${created} invoice${created === 1 ? "" : "s"}.` });
+      onGenerated?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to generate invoices." });
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Daily Invoices</DialogTitle>
+          <DialogDescription>
+            Shipments not yet invoiced, priced as the daily job would. Nothing is saved until you approve; excluded
+            shipments stay uninvoiced for a later run.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && previews.length === 0 ? (
+          <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Building preview...
+          </div>
+        ) : previews.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No shipments waiting to be invoiced.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span>
+                {billableClients.length} invoice{billableClients.length === 1 ? "" : "s"} · {excluded.size} shipment
+                {excluded.size === 1 ? "" : "s"} excluded
+              </span>
+              <span className="font-semibold">Batch total: {money(batchTotal)}</span>
+            </div>
+            {previews.map((client) => (
+              <div key={client.userId} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold">{client.clientName}</p>
+                  {client.grandTotal > 0 ? (
+                    <span className="font-semibold">{money(client.grandTotal)}</span>
+                  ) : (
+                    <Badge variant="outline">Skipped</Badge>
+                  )}
+                </div>
+                {client.shipments.map((shipment) => (
+                  <div key={shipment.id} className="flex items-start gap-3 rounded-md bg-muted/50 p-2 text-sm">
+                    <Checkbox
+                      checked={!shipment.excluded}
+                      disabled={isLoading || isApproving}
+                      onCheckedChange={(checked) => toggleShipment(shipment.id, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <div className={`flex-1 space-y-0.5 ${shipment.excluded ? "opacity-50 line-through" : ""}`}>
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium">Shipped {shipment.shipDate}</span>
+                        <span>{money(shipment.amount)}</span>
+                      </div>
+                      {shipment.items.map((line, index) => (
+                        <p key={index} className="text-xs text-muted-foreground">
+                          {line.quantity} × {line.productName}
+                          {line.sku ? ` (${line.sku})` : ""} @ {money(line.unitPrice)}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {client.additionalServices && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Additional services</span>
+                    <span>{money(client.additionalServices.total)}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => loadPreview(excluded, reviewedIds.length > 0 ? reviewedIds : null)}
+            disabled={isLoading || isApproving}
+            className="sm:mr-auto"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApproving}>
+            Cancel
+          </Button>
+          <Button onClick={handleApprove} disabled={isLoading || isApproving || billableClients.length === 0}>
+            {isApproving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Approve & Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
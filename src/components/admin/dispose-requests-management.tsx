@@ -5,6 +5,7 @@ import type { DisposeRequest, UserProfile, InventoryItem } from "@/types";
 import { useCollection } from "@/hooks/use-collection";
 import { useAuth } from "@/hooks/use-auth";
 import { db } from "@/lib/firebase";
+import { recordStockMovement } from "@/lib/stock-ledger";
 import { doc, updateDoc, collection, addDoc, runTransaction, Timestamp, serverTimestamp } from "firebase/firestore";
 import { format } from "date-fns";
 import {
@@ -121,21 +122,28 @@ export function DisposeRequestsManagement({
       const recycledCol = collection(db, `users/${userId}/recycledInventory`);
       const inventoryRef = doc(db, `users/${userId}/inventory`, invItem.id);
 
-      await runTransaction(db, async (tx) => {
+      const newQtyAfterDispose = await runTransaction(db, async (tx) => {
+        const inventoryDoc = await tx.get(inventoryRef);
+        if (!inventoryDoc.exists()) throw new Error("This product may have been removed from inventory.");
+        const currentQuantity = Number(inventoryDoc.data().quantity) || 0;
+        if (request.quantity > currentQuantity) {
+          throw new Error(`Available: ${currentQuantity}. Requested: ${request.quantity}.`);
+        }
         const now = Timestamp.now();
         const adminName = adminProfile.name || "Admin";
         const newRecycledRef = doc(recycledCol);
 
-        if (request.quantity >= invItem.quantity) {
+        if (request.quantity >= currentQuantity) {
           tx.set(newRecycledRef, {
             ...invItem,
+            quantity: currentQuantity,
             recycledAt: now,
             recycledBy: adminName,
             remarks: request.reason || "",
           });
           tx.delete(inventoryRef);
         } else {
-          const newQty = invItem.quantity - request.quantity;
+          const newQty = currentQuantity - request.quantity;
           const newStatus = newQty > 0 ? "In Stock" : "Out of Stock";
           tx.update(inventoryRef, { quantity: newQty, status: newStatus });
           tx.set(newRecycledRef, {
@@ -148,14 +156,25 @@ export function DisposeRequestsManagement({
             remarks: request.reason || "",
           });
         }
+        recordStockMovement(tx, db, selectedUser.uid, {
+          productId: invItem.id,
+          productName: invItem.productName,
+          type: "dispose",
+          quantityBefore: currentQuantity,
+          quantityAfter: currentQuantity - request.quantity,
+          reason: request.reason || undefined,
+          referencePath: requestRef.path,
+          createdBy: adminProfile.uid,
+          createdByName: adminName,
+        });
         tx.update(requestRef, {
           status: "approved",
           approvedBy: adminProfile.uid,
           approvedAt: now,
         });
+        return currentQuantity - request.quantity;
       });
 
-      const newQtyAfterDispose = request.quantity >= invItem.quantity ? 0 : invItem.quantity - request.quantity;
       const shopifyItem = invItem as InventoryItem & { source?: string; shop?: string; shopifyVariantId?: string; shopifyInventoryItemId?: string };
       if (shopifyItem.source === "shopify" && shopifyItem.shop && shopifyItem.shopifyVariantId && authUser && userId) {
         try {
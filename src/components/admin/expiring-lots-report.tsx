@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, CheckCircle2, Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getExpiringLots, type ExpiringLotRow } from "@/lib/inventory-lots";
+import { arrayToCSV, downloadCSV } from "@/lib/csv-utils";
+import type { InventoryItem, UserProfile } from "@/types";
+
+const WINDOW_OPTIONS = [30, 60, 90, 180];
+
+function expiryBadge(row: ExpiringLotRow) {
+  if (row.daysUntilExpiry < 0) {
+    return <Badge variant="destructive">Expired {Math.abs(row.daysUntilExpiry)}d ago</Badge>;
+  }
+  if (row.daysUntilExpiry === 0) {
+    return <Badge variant="destructive">Expires today</Badge>;
+  }
+  if (row.daysUntilExpiry <= 30) {
+    return <Badge className="bg-amber-500 hover:bg-amber-500">{row.daysUntilExpiry}d left</Badge>;
+  }
+  return <Badge variant="secondary">{row.daysUntilExpiry}d left</Badge>;
+}
+
+export function ExpiringLotsReport({
+  selectedUser,
+  inventory,
+}: {
+  selectedUser: UserProfile;
+  inventory: InventoryItem[];
+}) {
+  const [windowDays, setWindowDays] = useState<number>(60);
+
+  const rows = useMemo(() => getExpiringLots(inventory, windowDays), [inventory, windowDays]);
+  const expiredUnits = rows.filter((r) => r.daysUntilExpiry < 0).reduce((sum, r) => sum + r.lot.quantity, 0);
+  const expiringUnits = rows.filter((r) => r.daysUntilExpiry >= 0).reduce((sum, r) => sum + r.lot.quantity, 0);
+
+  const handleExportCsv = () => {
+    const csvRows = rows.map((r) => ({
+      Product: r.item.productName,
+      SKU: r.item.sku || "",
+      Lot: r.lot.lotNumber || "",
+      "Expiration Date": r.lot.expirationDate || "",
+      Quantity: r.lot.quantity,
+      "Days Until Expiry": r.daysUntilExpiry,
+    }));
+    const csv = arrayToCSV(csvRows, ["Product", "SKU", "Lot", "Expiration Date", "Quantity", "Days Until Expiry"]);
+    downloadCSV(csv, `expiring-lots-${(selectedUser.name || selectedUser.uid).replace(/\s+/g, "-")}-${format(new Date(), "yyyy-MM-dd")}.csv`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Expiring Soon — {selectedUser.name}
+            </CardTitle>
+            <CardDescription>
+              On-hand lots that are expired or expire within the selected window. Shipments pick the earliest-expiring
+              lot first.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(windowDays)} onValueChange={(v) => setWindowDays(Number(v))}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WINDOW_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Next {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={rows.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rows.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle2 className="h-4 w-4" />
+            No lots expire in the next {windowDays} days.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span>
+                Expired: <strong className="text-red-600">{expiredUnits}</strong> units
+              </span>
+              <span>
+                Expiring: <strong className="text-amber-600">{expiringUnits}</strong> units
+              </span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Expiration</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={`${row.item.id}-${row.lot.lotNumber || "nolot"}-${row.lot.expirationDate}-${index}`}>
+                    <TableCell className="font-medium">{row.item.productName}</TableCell>
+                    <TableCell>{row.item.sku || "N/A"}</TableCell>
+                    <TableCell>{row.lot.lotNumber || "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(row.lot.expirationDate!), "MMM dd, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right">{row.lot.quantity}</TableCell>
+                    <TableCell>{expiryBadge(row)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { FNSKU_LABEL_FORMATS, generateFnskuLabelsPDF, type FnskuLabelFormat } from "@/lib/fnsku-label-generator";
+import type { InventoryItem, ShipmentProductItem } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Loader2, Printer } from "lucide-react";
+
+type LabelLine = { productId?: string; productName: string; quantity: number };
+
+/**
+ * Print FNSKU labels for a confirmed shipment. Quantities start at the units shipped per line
+ * (from the shipped record when the request has one, otherwise quantity × pack of).
+ */
+export function FnskuLabelsDialog({
+  userId,
+  request,
+  inventory,
+  onClose,
+}: {
+  userId: string;
+  request: { id: string; shippedId?: string; shipments: { productId?: string; quantity: number; packOf?: number }[] };
+  inventory: InventoryItem[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<LabelLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [format, setFormat] = useState<FnskuLabelFormat>("avery-30");
+  const [startPosition, setStartPosition] = useState(1);
+
+  useEffect(() => {
+    let cancelled = false;
+    const toLine = (productId: string | undefined, productName: string, units: number): LabelLine => ({
+      productId,
+      productName,
+      quantity: Math.max(0, Math.floor(units)),
+    });
+
+    (async () => {
+      let shippedItems: ShipmentProductItem[] | null = null;
+      if (request.shippedId) {
+        try {
+          const snap = await getDoc(doc(db, `users/${userId}/shipped`, request.shippedId));
+          const items = snap.exists() ? snap.data().items : null;
+          if (Array.isArray(items) && items.length > 0) shippedItems = items as ShipmentProductItem[];
+        } catch (error) {
+          console.error("Error loading shipped record for labels:", error);
+        }
+      }
+      const next = shippedItems
+        ? shippedItems.map((item) => toLine(item.productId, item.productName, item.shippedQty))
+        : request.shipments.map((s) => toLine(s.productId, "Unknown Product", (Number(s.quantity) || 0) * (Number(s.packOf) || 1)));
+      if (!cancelled) {
+        setLines(next);
+        setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Load once per request; later snapshots of the same request must not reset edited quantities
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, request.id, request.shippedId]);
+
+  // FNSKU and name come from the live inventory item so a code added meanwhile is picked up
+  const rows = lines.map((line) => {
+    const item = inventory.find((i) => i.id === line.productId);
+    return { ...line, productName: item?.productName || line.productName, fnsku: item?.fnsku || "" };
+  });
+  const printable = rows.filter((r) => r.fnsku && r.quantity > 0);
+  const missingFnsku = rows.filter((r) => !r.fnsku && r.quantity > 0);
+  const totalLabels = printable.reduce((sum, r) => sum + r.quantity, 0);
+
+  const handleGenerate = () => {
+    try {
+      generateFnskuLabelsPDF(
+        printable.map((r) => ({ fnsku: r.fnsku, productName: r.productName, quantity: r.quantity })),
+        format,
+        `FNSKU-Labels-${request.id}.pdf`,
+        { startPosition }
+      );
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to generate labels." });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>FNSKU Labels</DialogTitle>
+          <DialogDescription>One Code 128 label per unit. Adjust quantities before printing if needed.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 py-6 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading shipment lines…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>FNSKU</TableHead>
+                  <TableHead className="w-28">Labels</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={`${row.productId || "line"}-${index}`}>
+                    <TableCell className="font-medium">{row.productName}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {row.fnsku || <span className="text-destructive">Missing</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={row.quantity}
+                        disabled={!row.fnsku}
+                        onChange={(e) => {
+                          const quantity = Math.max(0, parseInt(e.target.value) || 0);
+                          setLines((prev) => prev.map((l, i) => (i === index ? { ...l, quantity } : l)));
+                        }}
+                        className="h-8"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {missingFnsku.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  {missingFnsku.map((r) => r.productName).join(", ")} {missingFnsku.length === 1 ? "has" : "have"} no FNSKU
+                  and will be skipped. Add it from the product&apos;s Edit dialog in Current Inventory.
+                </span>
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Label Format</Label>
+                <Select value={format} onValueChange={(v) => setFormat(v as FnskuLabelFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FNSKU_LABEL_FORMATS) as FnskuLabelFormat[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {FNSKU_LABEL_FORMATS[key].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{FNSKU_LABEL_FORMATS[format].description}</p>
+              </div>
+              {format === "avery-30" && (
+                <div className="space-y-1">
+                  <Label>Start at Label Position</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={startPosition}
+                    onChange={(e) => setStartPosition(Math.min(30, Math.max(1, parseInt(e.target.value) || 1)))}
+                  />
+                  <p className="text-xs text-muted-foreground">Skip labels already used on a partial sheet (1–30).</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={loading || totalLabels === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Generate {totalLabels} Label{totalLabels === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
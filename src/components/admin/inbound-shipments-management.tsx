@@ -0,0 +1,375 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import {
+  closeInboundShipment,
+  finishInboundReceiving,
+  getExpectedUnits,
+  getInboundDiscrepancies,
+  inboundShipmentsPath,
+  markInboundCartonMissing,
+  needsClientAcknowledgement,
+  receiveInboundCarton,
+} from "@/lib/inbound-shipments";
+import { normalizeIdentifier } from "@/lib/product-identifiers";
+import type { InboundShipment, UserProfile } from "@/types";
+import { InboundShipmentDetails, InboundStatusBadge, formatInboundDate } from "@/components/dashboard/inbound-shipment-details";
+import { ScanInput } from "@/components/admin/scan-input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, CheckCircle2, Loader2, PackageCheck, PackageX } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+function createdMs(shipment: InboundShipment): number {
+  const value = shipment.createdAt;
+  if (!value) return 0;
+  return typeof value === "string" ? new Date(value).getTime() : value.seconds * 1000;
+}
+
+export function InboundShipmentsManagement({ selectedUser }: { selectedUser: UserProfile }) {
+  const { data: shipments, loading } = useCollection<InboundShipment>(
+    selectedUser?.uid ? inboundShipmentsPath(selectedUser.uid) : ""
+  );
+  const [filter, setFilter] = useState<"open" | "all">("open");
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () =>
+      shipments
+        .filter((s) => filter === "all" || (s.status !== "closed" && s.status !== "cancelled"))
+        .sort((a, b) => createdMs(b) - createdMs(a)),
+    [shipments, filter]
+  );
+  const openShipment = shipments.find((s) => s.id === openId) || null;
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={filter} onValueChange={(v) => setFilter(v as "open" | "all")}>
+        <TabsList>
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="all">All</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : visible.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">No inbound shipments.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reference</TableHead>
+              <TableHead>Carrier</TableHead>
+              <TableHead>Expected</TableHead>
+              <TableHead className="text-right">Cartons</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map((s) => {
+              const done = s.cartons.filter((c) => c.status !== "expected").length;
+              return (
+                <TableRow key={s.id}>
+                  <TableCell className="font-mono text-xs">{s.reference}</TableCell>
+                  <TableCell>{s.carrier}</TableCell>
+                  <TableCell>{s.expectedArrivalDate || "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {done} / {s.cartons.length}
+                  </TableCell>
+                  <TableCell className="text-right">{getExpectedUnits(s)}</TableCell>
+                  <TableCell>
+                    <InboundStatusBadge status={s.status} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setOpenId(s.id)}>
+                      {s.status === "submitted" || s.status === "receiving" ? "Receive" : "View"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {openShipment && (
+        <ReceiveInboundDialog userId={selectedUser.uid} shipment={openShipment} onClose={() => setOpenId(null)} />
+      )}
+    </div>
+  );
+}
+
+type CountDraft = { receivedQuantity: string; damagedQuantity: string };
+
+function ReceiveInboundDialog({
+  userId,
+  shipment,
+  onClose,
+}: {
+  userId: string;
+  shipment: InboundShipment;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { userProfile: adminProfile } = useAuth();
+  const [cartonIndex, setCartonIndex] = useState(() => {
+    const next = shipment.cartons.findIndex((c) => c.status === "expected");
+    return next >= 0 ? next : 0;
+  });
+  const [counts, setCounts] = useState<CountDraft[]>([]);
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const isReceiving = shipment.status === "submitted" || shipment.status === "receiving";
+  const carton = shipment.cartons[cartonIndex];
+  const adminName = adminProfile?.name || "Admin";
+
+  // Start from the saved counts, or from the expected quantities for a carton not received yet
+  useEffect(() => {
+    if (!carton) return;
+    setCounts(
+      carton.lines.map((line) => ({
+        receivedQuantity: String(carton.status === "received" ? line.receivedQuantity ?? 0 : line.expectedQuantity),
+        damagedQuantity: String(carton.status === "received" ? line.damagedQuantity ?? 0 : 0),
+      }))
+    );
+    setNotes(carton.notes || "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cartonIndex, shipment.id]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: "Success", description: success });
+      return true;
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Something went wrong." });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const goToNextCarton = () => {
+    const next = shipment.cartons.findIndex((c, i) => i !== cartonIndex && c.status === "expected");
+    if (next >= 0) setCartonIndex(next);
+  };
+
+  const handleReceive = async () => {
+    const ok = await run(
+      () =>
+        receiveInboundCarton(
+          db,
+          userId,
+          shipment.id,
+          cartonIndex,
+          counts.map((c) => ({
+            receivedQuantity: parseInt(c.receivedQuantity) || 0,
+            damagedQuantity: parseInt(c.damagedQuantity) || 0,
+          })),
+          adminName,
+          notes
+        ),
+      `Carton #${cartonIndex + 1} received.`
+    );
+    if (ok) goToNextCarton();
+  };
+
+  const handleScan = (code: string) => {
+    const needle = normalizeIdentifier(code);
+    const index = shipment.cartons.findIndex((c) => c.trackingNumber && normalizeIdentifier(c.trackingNumber) === needle);
+    if (index < 0) {
+      toast({ variant: "destructive", title: "Unknown carton", description: `No carton on this notice has tracking ${code}.` });
+      return;
+    }
+    setCartonIndex(index);
+  };
+
+  const discrepancies = getInboundDiscrepancies(shipment);
+  const pendingCartons = shipment.cartons.filter((c) => c.status === "expected").length;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="font-mono">{shipment.reference}</span>
+            <InboundStatusBadge status={shipment.status} />
+          </DialogTitle>
+          <DialogDescription>
+            {shipment.carrier} · submitted {formatInboundDate(shipment.createdAt)}
+            {shipment.expectedArrivalDate ? ` · expected ${shipment.expectedArrivalDate}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isReceiving && carton ? (
+          <div className="space-y-4">
+            <ScanInput onScan={handleScan} placeholder="Scan carton tracking number" className="max-w-md" />
+            <div className="flex flex-wrap gap-2">
+              {shipment.cartons.map((c, i) => (
+                <Button
+                  key={i}
+                  type="button"
+                  size="sm"
+                  variant={i === cartonIndex ? "default" : "outline"}
+                  onClick={() => setCartonIndex(i)}
+                  className={cn(c.status === "received" && i !== cartonIndex && "border-green-500 text-green-700", c.status === "missing" && i !== cartonIndex && "border-red-500 text-red-700")}
+                >
+                  #{i + 1}
+                  {c.status === "received" && <CheckCircle2 className="h-3 w-3 ml-1" />}
+                  {c.status === "missing" && <PackageX className="h-3 w-3 ml-1" />}
+                </Button>
+              ))}
+            </div>
+
+            <div className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">
+                  Carton #{cartonIndex + 1}
+                  {carton.trackingNumber && <span className="ml-2 font-mono text-xs text-muted-foreground">{carton.trackingNumber}</span>}
+                </p>
+                {carton.status !== "expected" && (
+                  <Badge variant="outline" className="capitalize">
+                    {carton.status}
+                    {carton.receivedByName ? ` · ${carton.receivedByName}` : ""}
+                  </Badge>
+                )}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="w-28">Received</TableHead>
+                    <TableHead className="w-28">Damaged</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {carton.lines.map((line, i) => {
+                    const received = parseInt(counts[i]?.receivedQuantity ?? "") || 0;
+                    return (
+                      <TableRow key={i}>
+                        <TableCell>
+                          {line.productName}
+                          {line.sku && <span className="block text-xs font-mono text-muted-foreground">{line.sku}</span>}
+                          {!line.productId && <span className="block text-xs text-blue-600">New product</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={counts[i]?.receivedQuantity ?? ""}
+                            onChange={(e) => setCounts((prev) => prev.map((c, j) => (j === i ? { ...c, receivedQuantity: e.target.value } : c)))}
+                            className={cn("h-8", received !== line.expectedQuantity && "border-amber-500")}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={counts[i]?.damagedQuantity ?? ""}
+                            onChange={(e) => setCounts((prev) => prev.map((c, j) => (j === i ? { ...c, damagedQuantity: e.target.value } : c)))}
+                            className="h-8"
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <div className="space-y-1">
+                <Label htmlFor="carton-notes">Notes</Label>
+                <Textarea id="carton-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Condition of the carton, photos taken, etc. (optional)" />
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button
+                  variant="outline"
+                  disabled={busy}
+                  onClick={async () => {
+                    const ok = await run(
+                      () => markInboundCartonMissing(db, userId, shipment.id, cartonIndex, adminName),
+                      `Carton #${cartonIndex + 1} marked missing.`
+                    );
+                    if (ok) goToNextCarton();
+                  }}
+                >
+                  <PackageX className="h-4 w-4 mr-2" />
+                  Mark Missing
+                </Button>
+                <Button disabled={busy} onClick={handleReceive}>
+                  {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PackageCheck className="h-4 w-4 mr-2" />}
+                  {carton.status === "received" ? "Update Carton" : "Receive Carton"}
+                </Button>
+              </div>
+            </div>
+
+            {discrepancies.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4" />
+                {discrepancies.length} discrepanc{discrepancies.length === 1 ? "y" : "ies"} so far. The client reviews them after receiving is finished.
+              </p>
+            )}
+          </div>
+        ) : (
+          <InboundShipmentDetails shipment={shipment} />
+        )}
+
+        <DialogFooter className="gap-2">
+          {isReceiving && (
+            <Button
+              variant="secondary"
+              disabled={busy || shipment.status !== "receiving" || pendingCartons > 0}
+              title={pendingCartons > 0 ? `${pendingCartons} carton(s) not processed yet` : undefined}
+              onClick={() =>
+                run(
+                  () => finishInboundReceiving(db, userId, shipment.id),
+                  discrepancies.length > 0 ? "Receiving finished. Waiting for the client to acknowledge discrepancies." : "Receiving finished."
+                )
+              }
+            >
+              Finish Receiving
+            </Button>
+          )}
+          {shipment.status === "received" && (
+            <Button
+              disabled={busy || needsClientAcknowledgement(shipment)}
+              title={needsClientAcknowledgement(shipment) ? "Waiting for the client to acknowledge discrepancies" : undefined}
+              className="bg-green-600 hover:bg-green-700"
+              onClick={() =>
+                run(async () => {
+                  const { created, restocked } = await closeInboundShipment(db, userId, shipment.id, {
+                    uid: adminProfile?.uid || "admin",
+                    name: adminProfile?.name || undefined,
+                  });
+                  toast({ title: "Inventory updated", description: `${restocked} item(s) restocked, ${created} new item(s) created.` });
+                }, "Inbound shipment closed.")
+              }
+            >
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Add to Inventory
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,7 +23,7 @@ export function InventoryManager({ user }: { user: UserProfile }) {
           <TabsTrigger value="ship">Shipped Inventory</TabsTrigger>
         </TabsList>
         <TabsContent value="add">
-          <AddInventoryForm userId={user.uid} />
+          <AddInventoryForm userId={user.uid} userLocations={user.locations} />
         </TabsContent>
         <TabsContent value="ship">
           {inventoryLoading ? (
@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from "react";
 import React from "react";
-import type { UserProfile } from "@/types";
+import type { BinLocation, UserContainerHandlingPricing, UserProfile } from "@/types";
 
 // Define InventoryRequest locally since it's not exported from @/types
 interface InventoryRequest {
@@ -60,9 +60,14 @@ import { DatePicker } from "@/components/ui/date-picker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { db, storage } from "@/lib/firebase";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { addLot, createLot } from "@/lib/inventory-lots";
+import { binsForUser, putAway } from "@/lib/inventory-bins";
+import { priceContainerHandling } from "@/lib/pricing-engine";
+import { BinSelect } from "@/components/admin/bin-select";
 import { doc, updateDoc, addDoc, collection, Timestamp, runTransaction, query, where, getDocs } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { Check, X, Eye, Loader2, Upload, Image as ImageIcon } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import imageCompression from "browser-image-compression";
@@ -100,6 +105,8 @@ export function InventoryRequestsManagement({
   const { data: requests, loading, error } = useCollection<InventoryRequest>(
     isValidUserId ? `users/${userId}/inventoryRequests` : ""
   );
+  const { data: allBins } = useCollection<BinLocation>("bins");
+  const userBins = useMemo(() => binsForUser(allBins, selectedUser), [allBins, selectedUser]);
 
   // Auto-open a request when coming from Notifications
   const [didAutoOpen, setDidAutoOpen] = useState(false);
@@ -177,7 +184,7 @@ export function InventoryRequestsManagement({
   const approvedCount = requests.filter(req => req.status === "approved").length;
   const rejectedCount = requests.filter(req => req.status === "rejected").length;
 
-  const handleApprove = async (request: InventoryRequest, receivingDate: Date, status: "In Stock" | "Out of Stock", remarks?: string, editedQuantity?: number, editedProductName?: string, editedSku?: string, imageUrls?: string[]) => {
+  const handleApprove = async (request: InventoryRequest, receivingDate: Date, status: "In Stock" | "Out of Stock", remarks?: string, editedQuantity?: number, editedProductName?: string, editedSku?: string, imageUrls?: string[], putAwayBinId?: string) => {
     if (!selectedUser || !adminProfile) return;
 
     setIsProcessing(true);
@@ -200,6 +207,12 @@ export function InventoryRequestsManagement({
       
       // Normalize imageUrls - handle both old single imageUrl and new imageUrls array
       const finalImageUrls = imageUrls && imageUrls.length > 0 ? imageUrls : [];
+
+      // Lot/expiry entered by the user at request time covers the approved quantity
+      const receivedLot = request.inventoryType === "product"
+        ? createLot(request.lotNumber, request.expirationDate, finalQuantity)
+        : null;
+      const putAwayBin = putAwayBinId ? userBins.find((b) => b.id === putAwayBinId) : undefined;
       
       await runTransaction(db, async (transaction) => {
         // STEP 1: ALL READS FIRST (before any writes)
@@ -258,6 +271,18 @@ export function InventoryRequestsManagement({
             approvedAt,
             remarks: remarksToSave,
             imageUrls: finalImageUrls,
+            ...(receivedLot ? { lots: addLot(existingData.lots, receivedLot) } : {}),
+            ...(putAwayBin ? { bins: putAway(existingData.bins, putAwayBin, finalQuantity) } : {}),
+          });
+          recordStockMovement(transaction, db, selectedUser.uid, {
+            productId: existingProductRef!.id,
+            productName: existingData.productName || finalProductName,
+            type: "receive",
+            quantityBefore: currentQuantity,
+            quantityAfter: newQuantity,
+            referencePath: requestRef.path,
+            createdBy: adminProfile.uid,
+            createdByName: adminProfile.name || "Admin",
           });
         } else {
           // For new product/box/pallet OR restock with product not found: Create new inventory item
@@ -284,8 +309,25 @@ export function InventoryRequestsManagement({
           if (request.inventoryType === "product" && finalSku) {
             finalData.sku = finalSku;
           }
+          if (receivedLot) {
+            finalData.lots = [receivedLot];
+          }
+          if (putAwayBin) {
+            finalData.bins = putAway([], putAwayBin, finalQuantity);
+          }
           
-          transaction.set(doc(inventoryRef), finalData);
+          const newItemRef = doc(inventoryRef);
+          transaction.set(newItemRef, finalData);
+          recordStockMovement(transaction, db, selectedUser.uid, {
+            productId: newItemRef.id,
+            productName: finalProductName,
+            type: "receive",
+            quantityBefore: 0,
+            quantityAfter: finalQuantity,
+            referencePath: requestRef.path,
+            createdBy: adminProfile.uid,
+            createdByName: adminProfile.name || "Admin",
+          });
         }
       });
 
@@ -302,17 +344,15 @@ export function InventoryRequestsManagement({
             );
             const containerPricingSnapshot = await getDocs(containerPricingQuery);
             
-            if (!containerPricingSnapshot.empty) {
-              const latestPricing = containerPricingSnapshot.docs
-                .sort((a, b) => {
-                  const aUpdated = a.data().updatedAt?.seconds || 0;
-                  const bUpdated = b.data().updatedAt?.seconds || 0;
-                  return bUpdated - aUpdated;
-                })[0];
-              
-              const pricing = latestPricing.data();
-              const unitPrice = pricing.price;
-              const totalAmount = unitPrice * finalQuantity;
+            const containerPrice = priceContainerHandling(
+              { containerHandling: containerPricingSnapshot.docs.map((d) => d.data() as UserContainerHandlingPricing) },
+              containerSize,
+              finalQuantity,
+              receivingDate
+            );
+
+            if (containerPrice) {
+              const { unitPrice, totalPrice: totalAmount } = containerPrice;
               
               // Generate invoice number
               const today = new Date();
@@ -614,6 +654,7 @@ export function InventoryRequestsManagement({
           request={selectedRequest}
           onApprove={handleApprove}
           onReject={handleReject}
+          bins={userBins}
           onClose={() => setSelectedRequest(null)}
           isProcessing={isProcessing}
         />
@@ -626,12 +667,14 @@ function ReviewRequestDialog({
   request,
   onApprove,
   onReject,
+  bins,
   onClose,
   isProcessing,
 }: {
   request: InventoryRequest;
-  onApprove: (request: InventoryRequest, receivingDate: Date, status: "In Stock" | "Out of Stock", remarks?: string, editedQuantity?: number, editedProductName?: string, editedSku?: string, imageUrls?: string[]) => void;
+  onApprove: (request: InventoryRequest, receivingDate: Date, status: "In Stock" | "Out of Stock", remarks?: string, editedQuantity?: number, editedProductName?: string, editedSku?: string, imageUrls?: string[], putAwayBinId?: string) => void;
   onReject: (request: InventoryRequest, reason: string) => void;
+  bins: BinLocation[];
   onClose: () => void;
   isProcessing: boolean;
 }) {
@@ -649,6 +692,7 @@ function ReviewRequestDialog({
   const [imagePreviews, setImagePreviews] = useState<{ file: File; preview: string }[]>([]);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [uploadedImageUrls, setUploadedImageUrls] = useState<string[]>([]);
+  const [putAwayBinId, setPutAwayBinId] = useState("");
 
   const compressImage = async (file: File): Promise<File> => {
     const options = {
@@ -806,8 +850,8 @@ function ReviewRequestDialog({
       imageUrls = uploaded;
     }
 
-    // Pass remarks, edited quantity, edited product name, edited SKU, and image URLs
-    onApprove(request, receivingDate, status, remarks, editedQuantity, editedProductName, editedSku, imageUrls.length > 0 ? imageUrls : undefined);
+    // Pass remarks, edited quantity, edited product name, edited SKU, image URLs and put-away bin
+    onApprove(request, receivingDate, status, remarks, editedQuantity, editedProductName, editedSku, imageUrls.length > 0 ? imageUrls : undefined, putAwayBinId || undefined);
   };
 
   const handleRejectClick = () => {
@@ -852,6 +896,20 @@ function ReviewRequestDialog({
               <Label>Add Date (User Submitted)</Label>
               <p className="text-sm font-medium">{formatDate(request.addDate)}</p>
             </div>
+            {(request.lotNumber || request.expirationDate) && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Lot / Batch</Label>
+                  <p className="text-sm font-medium">{request.lotNumber || "—"}</p>
+                </div>
+                <div>
+                  <Label>Expiration Date</Label>
+                  <p className="text-sm font-medium">
+                    {request.expirationDate ? format(parseISO(request.expirationDate), "MMM dd, yyyy") : "—"}
+                  </p>
+                </div>
+              </div>
+            )}
             {(request as any).remarks && (request as any).remarks.trim() && (
               <div>
                 <Label>User Remarks</Label>
@@ -975,6 +1033,12 @@ function ReviewRequestDialog({
                   </SelectContent>
                 </Select>
               </div>
+              {bins.length > 0 && (
+                <div>
+                  <Label>Put Away To Bin (Optional)</Label>
+                  <BinSelect bins={bins} value={putAwayBinId} onChange={setPutAwayBinId} noneLabel="Leave unassigned" />
+                </div>
+              )}
               <div>
                 <Label>Admin Remarks (Optional)</Label>
                 <Textarea
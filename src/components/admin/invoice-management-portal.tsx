@@ -15,9 +15,13 @@ import {
 import { db } from "@/lib/firebase";
 import { useCollection } from "@/hooks/use-collection";
 import { useAuth } from "@/hooks/use-auth";
+import { useManagedUsers } from "@/hooks/use-managed-users";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { generateQuoteInvoicePdfBlob } from "@/lib/quote-invoice-generator";
+import { getDiscountAmount, getEffectiveTotal, getGrandTotalWithLateFee } from "@/lib/external-invoice-totals";
+import { formatUserDisplayName } from "@/lib/format-user-display";
+import { AccountStatementDialog } from "@/components/dashboard/account-statement-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -282,30 +286,6 @@ const isOverdueInvoice = (invoice: ExternalInvoice) => {
   return (invoice.status === "sent" || invoice.status === "partially_paid") && dueDateInput < todayNJ;
 };
 
-const getDiscountAmount = (invoice: ExternalInvoice): number => {
-  if (!invoice.discountType || invoice.discountValue == null) return 0;
-  // Calculate discount based on grand total (invoice + late fee) if late fee exists
-  const invoiceTotal = Number(invoice.total ?? 0);
-  const lateFee = Number(invoice.lateFee ?? 0);
-  const baseTotal = lateFee > 0 ? invoiceTotal + lateFee : invoiceTotal;
-  if (invoice.discountType === "percentage") {
-    return Number((baseTotal * (invoice.discountValue / 100)).toFixed(2));
-  }
-  return Math.min(Number(invoice.discountValue), baseTotal);
-};
-
-const getEffectiveTotal = (invoice: ExternalInvoice): number => {
-  const total = Number(invoice.total ?? 0);
-  const discount = getDiscountAmount(invoice);
-  return Number((total - discount).toFixed(2));
-};
-
-const getGrandTotalWithLateFee = (invoice: ExternalInvoice): number => {
-  const effectiveTotal = getEffectiveTotal(invoice);
-  const lateFee = Number(invoice.lateFee ?? 0);
-  return Number((effectiveTotal + lateFee).toFixed(2));
-};
-
 /** True when invoice is fully paid — workflow (overdue, late fee, reminders) must not run. */
 const isFullyPaidInvoice = (invoice: ExternalInvoice): boolean => {
   if (invoice.status === "paid" || invoice.status === "cancelled" || invoice.status === "disputed") return true;
@@ -427,6 +407,16 @@ export function InvoiceManagementPortal() {
   const [cancelledViewFilter, setCancelledViewFilter] = useState<"all" | "cancelled" | "deleted">("all");
 
   const [testOverdueDialogOpen, setTestOverdueDialogOpen] = useState(false);
+  const [statementDialogOpen, setStatementDialogOpen] = useState(false);
+  const { managedUsers } = useManagedUsers();
+  const statementClients = useMemo(
+    () =>
+      managedUsers
+        .filter((u) => u.uid)
+        .map((u) => ({ uid: u.uid, name: formatUserDisplayName(u, { showEmail: true }) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [managedUsers]
+  );
   const [testOverdueInvoiceId, setTestOverdueInvoiceId] = useState<string>("");
   const [isTestingOverdue, setIsTestingOverdue] = useState(false);
 
@@ -2490,9 +2480,15 @@ Prep Services FBA Team`;
               Invoice Management
             </h1>
           </div>
-          <p className="text-fuchsia-800/80 dark:text-fuchsia-200/80 ml-12">
-            Create, send, and track invoices for external customers
-          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-fuchsia-800/80 dark:text-fuchsia-200/80 ml-12">
+              Create, send, and track invoices for external customers
+            </p>
+            <Button variant="outline" size="sm" className="ml-12 sm:ml-0" onClick={() => setStatementDialogOpen(true)}>
+              <FileText className="h-4 w-4 mr-1" />
+              Client Statement
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -4306,6 +4302,12 @@ Prep Services FBA Team`;
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <AccountStatementDialog
+        open={statementDialogOpen}
+        onOpenChange={setStatementDialogOpen}
+        clients={statementClients}
+      />
     </div>
   );
 }
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Search, Download, CheckCircle, Clock, X, Eye, Receipt, User, Users } from "lucide-react";
+import { Search, Download, CheckCircle, Clock, X, Eye, Receipt, User, Users, FileMinus, Webhook } from "lucide-react";
 import { generateInvoicePDF } from "@/lib/invoice-generator";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -21,6 +21,14 @@ import { DollarSign } from "lucide-react";
 import { Label } from "@/components/ui/label";
 import { hasRole } from "@/lib/permissions";
 import { formatUserDisplayName } from "@/lib/format-user-display";
+import { isVolumeStorageType, storagePriceLabel, storageTypeLabel } from "@/lib/storage-billing";
+import { StorageSnapshotsTable } from "@/components/dashboard/storage-snapshots-table";
+import { DailyInvoiceReviewDialog } from "@/components/admin/daily-invoice-review-dialog";
+import { CreditNoteDialog } from "@/components/admin/credit-note-dialog";
+import { InvoiceCreditNotes } from "@/components/dashboard/invoice-credit-notes";
+import { WalletLedger } from "@/components/dashboard/wallet-ledger";
+import { StripeWebhookEvents } from "@/components/admin/stripe-webhook-events";
+import { invoiceBalanceDue, isOpenInvoice } from "@/lib/invoice-payments";
 
 interface InvoiceManagementProps {
   users: UserProfile[];
@@ -60,7 +68,7 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
     }
   }, [initialTab]);
   const [currentPage, setCurrentPage] = useState(1);
-  const [mainTab, setMainTab] = useState<"invoices" | "commissions">("invoices");
+  const [mainTab, setMainTab] = useState<"invoices" | "commissions" | "webhooks">("invoices");
   const [commissionTab, setCommissionTab] = useState<"pending" | "paid">("pending");
   const [commissions, setCommissions] = useState<Commission[]>([]);
   const [commissionsLoading, setCommissionsLoading] = useState(false);
@@ -73,6 +81,10 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
   const [storageTestMonth, setStorageTestMonth] = useState<string>(new Date().toISOString().slice(0, 7)); // YYYY-MM
   const [isGeneratingStorageTest, setIsGeneratingStorageTest] = useState(false);
 
+  // Dry run of the daily invoice job, approved from a review screen
+  const [isDailyReviewOpen, setIsDailyReviewOpen] = useState(false);
+  const [creditNoteInvoice, setCreditNoteInvoice] = useState<Invoice | null>(null);
+
   // Discount editor (admin-only, for already generated invoices)
   const [isDiscountDialogOpen, setIsDiscountDialogOpen] = useState(false);
   const [discountInvoice, setDiscountInvoice] = useState<Invoice | null>(null);
@@ -232,11 +244,11 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
   // Calculate summary for each user
   const userSummaries: UserInvoiceSummary[] = users.map(user => {
     const invoices = userInvoices[user.uid] || [];
-    const pendingCount = invoices.filter(inv => inv.status === 'pending').length;
+    const pendingCount = invoices.filter(isOpenInvoice).length;
     const paidCount = invoices.filter(inv => inv.status === 'paid').length;
     const totalAmount = invoices
-      .filter(inv => inv.status === 'pending')
-      .reduce((sum, inv) => sum + inv.grandTotal, 0);
+      .filter(isOpenInvoice)
+      .reduce((sum, inv) => sum + invoiceBalanceDue(inv), 0);
     
     return {
       user,
@@ -356,7 +368,7 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
     });
   };
 
-  const filteredPendingInvoices = getFilteredInvoices(selectedUserInvoices.filter(inv => inv.status === 'pending'));
+  const filteredPendingInvoices = getFilteredInvoices(selectedUserInvoices.filter(isOpenInvoice));
   const filteredPaidInvoices = getFilteredInvoices(selectedUserInvoices.filter(inv => inv.status === 'paid'));
 
   // Get current tab invoices
@@ -541,10 +553,11 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
       
       await updateDoc(doc(db, `users/${invoice.userId}/invoices/${invoiceId}`), {
         status: 'paid',
+        paidAt: new Date(),
       });
       
       // Create commission if user was referred by an agent
-      if (user && invoice.status === 'pending') {
+      if (user && isOpenInvoice(invoice)) {
         try {
           // Ensure invoice has id field
           const invoiceWithId = { ...invoice, id: invoice.id || invoiceId };
@@ -624,9 +637,13 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
 
   return (
     <div className="space-y-6">
-      {/* Main Tabs: Invoices and Commissions */}
-      <Tabs value={mainTab} onValueChange={(value) => setMainTab(value as "invoices" | "commissions")} className="w-full">
-        <TabsList className="grid grid-cols-2 w-full mb-6">
+      {/* Main Tabs: Invoices, Commissions and Stripe webhook deliveries */}
+      <Tabs
+        value={mainTab}
+        onValueChange={(value) => setMainTab(value as "invoices" | "commissions" | "webhooks")}
+        className="w-full"
+      >
+        <TabsList className="grid grid-cols-3 w-full mb-6">
           <TabsTrigger value="invoices" className="flex items-center gap-2">
             <Receipt className="h-4 w-4" />
             Invoices
@@ -638,6 +655,10 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
               <Badge variant="secondary" className="ml-1">{pendingCommissions.length}</Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="webhooks" className="flex items-center gap-2">
+            <Webhook className="h-4 w-4" />
+            Webhooks
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="invoices" className="space-y-6">
@@ -668,6 +689,15 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                     <Receipt className="h-4 w-4 mr-2" />
                     Generate Storage Invoice (Test)
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9"
+                    onClick={() => setIsDailyReviewOpen(true)}
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    Review Daily Invoices
+                  </Button>
                 </div>
           </div>
         </CardHeader>
@@ -923,11 +953,20 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 mb-1.5 sm:mb-2 flex-wrap">
                                   <h4 className="font-semibold text-xs sm:text-base truncate">{invoice.invoiceNumber}</h4>
-                                  <Badge variant="secondary" className="text-[9px] sm:text-xs shrink-0">Pending</Badge>
+                                  <Badge variant="secondary" className="text-[9px] sm:text-xs shrink-0">
+                                    {invoice.status === 'partially_paid' ? 'Partially Paid' : 'Pending'}
+                                  </Badge>
                                 </div>
                                 <div className="text-xs sm:text-sm text-muted-foreground space-y-0.5 sm:space-y-1">
                                   <p>Date: {invoice.date}</p>
                                   <p className="font-semibold text-sm sm:text-lg">Total: ${invoice.grandTotal.toFixed(2)}</p>
+                                  {((invoice.creditedAmount || 0) > 0 || (invoice.amountPaid || 0) > 0) && (
+                                    <p>
+                                      {(invoice.creditedAmount || 0) > 0 && `Credited: -$${(invoice.creditedAmount || 0).toFixed(2)} · `}
+                                      {(invoice.amountPaid || 0) > 0 && `Paid: -$${(invoice.amountPaid || 0).toFixed(2)} · `}
+                                      Balance due: ${invoiceBalanceDue(invoice).toFixed(2)}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                               <div className="grid grid-cols-2 gap-2 w-full">
@@ -958,6 +997,15 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                                   <DollarSign className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                                   Discount
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="col-span-2 w-full text-xs sm:text-sm h-8 sm:h-9"
+                                  onClick={() => setCreditNoteInvoice(invoice)}
+                                >
+                                  <FileMinus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                                  Credit Note
+                                </Button>
                                 <Button
                                   variant="default"
                                   size="sm"
@@ -1056,6 +1104,15 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                                   <DollarSign className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                                   Discount
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="col-span-2 w-full text-xs sm:text-sm h-8 sm:h-9"
+                                  onClick={() => setCreditNoteInvoice(invoice)}
+                                >
+                                  <FileMinus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                                  Credit Note
+                                </Button>
                               </div>
                             </div>
                           ))}
@@ -1109,6 +1166,12 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                   <p className="text-xs sm:text-sm text-muted-foreground">This user has no invoices yet.</p>
                 </div>
               )}
+
+              {/* Wallet */}
+              <div className="p-3 sm:p-4 border rounded-lg space-y-3">
+                <h4 className="font-semibold text-xs sm:text-sm">Wallet Transactions</h4>
+                <WalletLedger userId={selectedUser.uid} />
+              </div>
             </div>
           )}
         </DialogContent>
@@ -1138,6 +1201,12 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                 const invoiceMonth = (selectedInvoice as any).invoiceMonth as string | undefined;
                 const palletCount = (selectedInvoice as any).palletCount as number | undefined;
                 const itemCount = (selectedInvoice as any).itemCount as number | undefined;
+                const averageUsage = (selectedInvoice as any).averageUsage as number | undefined;
+                const billingPeriod = (selectedInvoice as any).billingPeriod as { start: string; end: string } | undefined;
+                const unmeasuredItems = ((selectedInvoice as any).unmeasuredItems || []) as string[];
+                const usageSource = (selectedInvoice as any).usageSource as string | undefined;
+                const snapshotDate = (selectedInvoice as any).snapshotDate as string | undefined;
+                const snapshotRange = snapshotDate ? { start: snapshotDate, end: snapshotDate } : billingPeriod;
 
                 const firstItem = selectedInvoice.items?.[0] as any;
                 const unitPrice = Number(firstItem?.unitPrice || 0);
@@ -1148,13 +1217,38 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs sm:text-sm">
                       <div>
                         <p className="text-muted-foreground">Storage Type</p>
-                        <p className="font-medium">{storageType || "-"}</p>
+                        <p className="font-medium">{storageTypeLabel(storageType)}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground">Invoice Month</p>
                         <p className="font-medium">{invoiceMonth || "-"}</p>
                       </div>
-                      {storageType === "pallet_base" ? (
+                      {isVolumeStorageType(storageType) ? (
+                        <>
+                          <div>
+                            <p className="text-muted-foreground">
+                              {storageType === "cubic_feet" ? "Average Cubic Feet" : "Average Pallet Positions"}
+                            </p>
+                            <p className="font-medium">{typeof averageUsage === "number" ? averageUsage : "-"}</p>
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">{storagePriceLabel(storageType)}</p>
+                            <p className="font-medium">${unitPrice.toFixed(2)}</p>
+                          </div>
+                          {billingPeriod && (
+                            <div>
+                              <p className="text-muted-foreground">Billing Period</p>
+                              <p className="font-medium">{billingPeriod.start} to {billingPeriod.end}</p>
+                            </div>
+                          )}
+                          {unmeasuredItems.length > 0 && (
+                            <div className="sm:col-span-2">
+                              <p className="text-muted-foreground">Not Billed (missing dimensions or pallet setup)</p>
+                              <p className="font-medium">{unmeasuredItems.join(", ")}</p>
+                            </div>
+                          )}
+                        </>
+                      ) : storageType === "pallet_base" ? (
                         <>
                           <div>
                             <p className="text-muted-foreground">Pallet Count</p>
@@ -1178,6 +1272,17 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                         </>
                       )}
                     </div>
+                    {usageSource === "snapshots" && snapshotRange && (
+                      <div className="mt-3 space-y-1">
+                        <p className="text-xs sm:text-sm text-muted-foreground">Billed from daily storage snapshots</p>
+                        <StorageSnapshotsTable
+                          userId={(selectedInvoice as any).userId}
+                          start={snapshotRange.start}
+                          end={snapshotRange.end}
+                          storageType={storageType}
+                        />
+                      </div>
+                    )}
                   </div>
                 );
               })()}
@@ -1195,7 +1300,7 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                 <div className="sm:col-span-2">
                   <p className="text-xs sm:text-sm text-muted-foreground">Status</p>
                   <Badge variant={selectedInvoice.status === 'paid' ? 'default' : 'secondary'} className="text-xs sm:text-sm mt-1">
-                    {selectedInvoice.status.toUpperCase()}
+                    {selectedInvoice.status.replace('_', ' ').toUpperCase()}
                   </Badge>
                 </div>
               </div>
@@ -1221,7 +1326,6 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                   const isStorageInvoice = (selectedInvoice as any).type === 'storage';
                   const isContainerHandling = (selectedInvoice as any).isContainerHandling || (selectedInvoice as any).type === 'container_handling';
                   const storageType = (selectedInvoice as any).storageType as string | undefined;
-                  const isProductBaseStorage = storageType === 'product_base';
                   
                   // Use explicit grid template columns for better control
                   const gridTemplateCols = isStorageInvoice 
@@ -1242,7 +1346,7 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                             <div>Packaging</div>
                           </>
                         )}
-                        <div>{isStorageInvoice ? (isProductBaseStorage ? 'Price per Item' : 'Price per Pallet') : 'Unit Price'}</div>
+                        <div>{isStorageInvoice ? storagePriceLabel(storageType) : 'Unit Price'}</div>
                         <div>Amount</div>
                       </div>
                       {selectedInvoice.items.map((item, idx) => {
@@ -1298,7 +1402,7 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                             const invoiceType = (selectedInvoice as any).type;
                             const storageType = (selectedInvoice as any).storageType;
                             if (invoiceType === 'storage') {
-                              return storageType === 'product_base' ? 'Price per Item' : 'Price per Pallet';
+                              return storagePriceLabel(storageType);
                             }
                             return 'Unit Price';
                           })()}: ${Number((item as any).unitPrice || 0).toFixed(2)}
@@ -1402,9 +1506,31 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
                     <span>Grand Total:</span>
                     <span>${selectedInvoice.grandTotal.toFixed(2)}</span>
                   </div>
+                  {((selectedInvoice.creditedAmount || 0) > 0 || (selectedInvoice.amountPaid || 0) > 0) && (
+                    <>
+                      {(selectedInvoice.creditedAmount || 0) > 0 && (
+                        <div className="flex justify-between text-xs sm:text-sm">
+                          <span>Credit Notes:</span>
+                          <span className="font-semibold">-${(selectedInvoice.creditedAmount || 0).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {(selectedInvoice.payments || []).map((payment) => (
+                        <div key={payment.id} className="flex justify-between text-xs sm:text-sm">
+                          <span>Payment {payment.date} ({payment.method}{payment.reference ? ` · ${payment.reference}` : ""}):</span>
+                          <span className="font-semibold">-${payment.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between font-semibold text-sm sm:text-base">
+                        <span>Balance Due:</span>
+                        <span>${invoiceBalanceDue(selectedInvoice).toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
+              <InvoiceCreditNotes userId={selectedInvoice.userId} invoiceId={selectedInvoice.id} />
+
               {/* Action Buttons */}
               <div className="flex justify-end gap-2 pt-3 sm:pt-4 border-t">
                 <Button
@@ -1755,6 +1881,10 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="webhooks" className="space-y-6">
+          <StripeWebhookEvents />
+        </TabsContent>
       </Tabs>
 
       {/* Generate Storage Invoice (Test) */}
@@ -1813,6 +1943,21 @@ export function InvoiceManagement({ users, initialTab }: InvoiceManagementProps)
           </div>
         </DialogContent>
       </Dialog>
+
+      <DailyInvoiceReviewDialog
+        open={isDailyReviewOpen}
+        onOpenChange={setIsDailyReviewOpen}
+        onGenerated={loadInvoices}
+      />
+
+      <CreditNoteDialog
+        invoice={creditNoteInvoice}
+        open={!!creditNoteInvoice}
+        onOpenChange={(open) => {
+          if (!open) setCreditNoteInvoice(null);
+        }}
+        onIssued={loadInvoices}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useMemo, useEffect } from "react";
+import { format } from "date-fns";
 import { useCollection } from "@/hooks/use-collection";
-import type { UserProfile, UserPricing, ServiceType, PackageType, QuantityRange, ProductType, UserStoragePricing, StorageType, UserBoxForwardingPricing, UserPalletForwardingPricing, UserContainerHandlingPricing, ContainerSize, UserAdditionalServicesPricing } from "@/types";
+import type { UserProfile, UserPricing, ServiceType, ProductType, TieredService, UserStoragePricing, StorageType, UserBoxForwardingPricing, UserPalletForwardingPricing, UserContainerHandlingPricing, ContainerSize, UserAdditionalServicesPricing } from "@/types";
 import {
   Card,
   CardContent,
@@ -22,8 +23,15 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
 import { formatUserDisplayName } from "@/lib/format-user-display";
+import { formatTierRange, getServiceTiers, ruleTierId, TIERED_SERVICES } from "@/lib/pricing-tiers";
+import { buildPricingHistory, effectiveFromForDay, pricingInEffect, startsOnDay } from "@/lib/pricing-history";
+import { STORAGE_TYPE_LABELS } from "@/lib/storage-billing";
+import { usePricingTiers } from "@/hooks/use-pricing-tiers";
+import { useAuth } from "@/hooks/use-auth";
+import { PricingTiersDialog } from "@/components/admin/pricing-tiers-dialog";
+import { PricingHistoryTimeline } from "@/components/dashboard/pricing-history-timeline";
 import { collection, addDoc, updateDoc, doc, Timestamp, writeBatch } from "firebase/firestore";
-import { Users, ChevronsUpDown, Search, X, Loader2, Save } from "lucide-react";
+import { Users, ChevronsUpDown, Search, X, Loader2, Save, Layers, RefreshCw } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -33,43 +41,36 @@ interface PricingManagementProps {
   users: UserProfile[];
 }
 
-// Pre-defined combinations for pricing
-// FBA/WFS/TFS: 8 rows (4 packages Ã— 2 product types)
-// Premium (1001+), Small Business (501+), Standard (50+), Starter (<50)
-const FBA_PACKAGES = [
-  { package: "Premium" as PackageType, quantityRange: "1001+" as QuantityRange },
-  { package: "Small Business" as PackageType, quantityRange: "501-1000" as QuantityRange },
-  { package: "Standard" as PackageType, quantityRange: "50-500" as QuantityRange },
-  { package: "Starter" as PackageType, quantityRange: "<50" as QuantityRange },
-];
-// FBM: 8 rows (4 packages Ã— 2 product types)
-// Premium (101+), Small Business (50+), Standard (25+), Starter (<25)
-const FBM_PACKAGES = [
-  { package: "Premium" as PackageType, quantityRange: "101+" as QuantityRange },
-  { package: "Small Business" as PackageType, quantityRange: "50+" as QuantityRange },
-  { package: "Standard" as PackageType, quantityRange: "25+" as QuantityRange },
-  { package: "Starter" as PackageType, quantityRange: "<25" as QuantityRange },
-];
+// Rows are one per quantity tier (see pricing-tiers) and product type, highest tier first
 const PRODUCT_TYPES: ProductType[] = ["Standard", "Large"]; // Removed Custom
 
 interface PricingRow {
   service: ServiceType;
-  package: PackageType;
-  quantityRange: QuantityRange;
+  tierId: string;
+  package: string;
+  quantityRange: string;
   productType: ProductType;
   rate: string;
   packOf: string;
-  pricingId?: string; // For existing pricing rules
+  savedRate?: string; // Rule in effect on the selected date, to skip unchanged rows
+  savedPackOf?: string;
+  pricingId?: string; // Rule starting on the selected date, updated in place
 }
 
 export function PricingManagement({ users }: PricingManagementProps) {
   const { toast } = useToast();
+  const { user: authUser } = useAuth();
+  const [tiersDialogService, setTiersDialogService] = useState<TieredService | null>(null);
+  const [isMigratingTiers, setIsMigratingTiers] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string>("");
   const [userDialogOpen, setUserDialogOpen] = useState(false);
   const [userSearchQuery, setUserSearchQuery] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [pricingRows, setPricingRows] = useState<PricingRow[]>([]);
   const [activeTab, setActiveTab] = useState<string>("FBA/WFS/TFS");
+  // Day new rates take effect; the form shows and saves the rates in effect on it
+  const [effectiveDate, setEffectiveDate] = useState<string>(() => format(new Date(), "yyyy-MM-dd"));
+  const effectiveFrom = useMemo(() => effectiveFromForDay(effectiveDate), [effectiveDate]);
   const [storagePrice, setStoragePrice] = useState<string>("");
   const [palletCount, setPalletCount] = useState<string>("");
   const [storagePricingId, setStoragePricingId] = useState<string | null>(null);
@@ -115,6 +116,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
   const { data: pricingList, loading: pricingLoading } = useCollection<UserPricing>(
     selectedUser ? `users/${selectedUser.uid}/pricing` : ""
   );
+  const { tierTables, globalTables, clientTables, loading: tiersLoading } = usePricingTiers(selectedUser?.uid);
 
   // Fetch storage pricing for selected user
   const { data: storagePricingList, loading: storagePricingLoading } = useCollection<UserStoragePricing>(
@@ -141,77 +143,67 @@ export function PricingManagement({ users }: PricingManagementProps) {
     selectedUser ? `users/${selectedUser.uid}/additionalServicesPricing` : ""
   );
   
-  // Get the most recent storage pricing document
-  const latestStoragePricing = useMemo(() => {
-    if (!storagePricingList || storagePricingList.length === 0) return null;
-    // Sort by updatedAt descending to get the most recent
-    const sorted = [...storagePricingList].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' 
-        ? new Date(a.updatedAt).getTime() 
-        : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' 
-        ? new Date(b.updatedAt).getTime() 
-        : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    });
-    return sorted[0];
-  }, [storagePricingList]);
+  // Storage pricing in effect on the selected effective date
+  const latestStoragePricing = useMemo(() => pricingInEffect(storagePricingList, effectiveFrom), [storagePricingList, effectiveFrom]);
+
+  const pricingHistory = useMemo(
+    () =>
+      buildPricingHistory({
+        prep: pricingList,
+        storage: storagePricingList,
+        boxForwarding: boxForwardingPricingList,
+        palletForwarding: palletForwardingPricingList,
+        containerHandling: containerHandlingPricingList,
+        additionalServices: additionalServicesPricingList,
+      }),
+    [pricingList, storagePricingList, boxForwardingPricingList, palletForwardingPricingList, containerHandlingPricingList, additionalServicesPricingList]
+  );
 
   // Initialize pricing rows with all combinations
   useEffect(() => {
     if (!selectedUser) return;
 
-    // Generate all combinations
+    // Generate all combinations: every tier of each service × product type
     const allCombinations: PricingRow[] = [];
-    
-    // FBA/WFS/TFS service: 8 rows (4 packages Ã— 2 product types)
-    FBA_PACKAGES.forEach((pkgInfo) => {
-      PRODUCT_TYPES.forEach((productType) => {
-        allCombinations.push({
-          service: "FBA/WFS/TFS",
-          package: pkgInfo.package,
-          quantityRange: pkgInfo.quantityRange,
-          productType,
-          rate: "",
-          packOf: "",
-        });
-      });
-    });
-    
-    // FBM service: 8 rows (4 packages Ã— 2 product types)
-    FBM_PACKAGES.forEach((pkgInfo) => {
-      PRODUCT_TYPES.forEach((productType) => {
-        allCombinations.push({
-          service: "FBM",
-          package: pkgInfo.package,
-          quantityRange: pkgInfo.quantityRange,
-          productType,
-          rate: "",
-          packOf: "",
+    TIERED_SERVICES.forEach((service) => {
+      const tiers = getServiceTiers(tierTables, service);
+      tiers
+        .map((tier, index) => ({ tier, quantityRange: formatTierRange(tiers, index) }))
+        .reverse()
+        .forEach(({ tier, quantityRange }) => {
+          PRODUCT_TYPES.forEach((productType) => {
+            allCombinations.push({
+              service,
+              tierId: tier.id,
+              package: tier.name,
+              quantityRange,
+              productType,
+              rate: "",
+              packOf: "",
+            });
+          });
         });
-      });
     });
 
-    // If we have existing pricing, populate the rows
+    // If we have existing pricing, populate the rows with the rules in effect on the selected date
     if (pricingList && pricingList.length > 0) {
       allCombinations.forEach((row) => {
-        const existing = pricingList.find(
-          (p) =>
-            p.service === row.service &&
-            p.package === row.package &&
-            p.quantityRange === row.quantityRange &&
-            p.productType === row.productType
+        const existing = pricingInEffect(
+          pricingList.filter((p) => p.service === row.service && ruleTierId(p) === row.tierId && p.productType === row.productType),
+          effectiveFrom
         );
         if (existing) {
           row.rate = existing.rate.toString();
           row.packOf = existing.packOf.toString();
-          row.pricingId = existing.id;
+          row.savedRate = row.rate;
+          row.savedPackOf = row.packOf;
+          row.pricingId = startsOnDay(existing, effectiveFrom) ? existing.id : undefined;
         }
       });
     }
 
     setPricingRows(allCombinations);
-  }, [selectedUser, pricingList]);
+  }, [selectedUser, pricingList, tierTables, effectiveFrom]);
 
   // Initialize storage pricing when user changes
   useEffect(() => {
@@ -224,43 +216,19 @@ export function PricingManagement({ users }: PricingManagementProps) {
     if (latestStoragePricing) {
       setStoragePrice(latestStoragePricing.price.toString());
       setPalletCount(latestStoragePricing.palletCount?.toString() || "1");
-      setStoragePricingId(latestStoragePricing.id);
+      setStoragePricingId(startsOnDay(latestStoragePricing, effectiveFrom) ? latestStoragePricing.id : null);
     } else {
       setStoragePrice("");
       setPalletCount("1");
       setStoragePricingId(null);
     }
-  }, [selectedUser, latestStoragePricing]);
-
-  // Get the most recent box forwarding pricing document
-  const latestBoxForwardingPricing = useMemo(() => {
-    if (!boxForwardingPricingList || boxForwardingPricingList.length === 0) return null;
-    const sorted = [...boxForwardingPricingList].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' 
-        ? new Date(a.updatedAt).getTime() 
-        : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' 
-        ? new Date(b.updatedAt).getTime() 
-        : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    });
-    return sorted[0];
-  }, [boxForwardingPricingList]);
-
-  // Get the most recent pallet forwarding pricing document
-  const latestPalletForwardingPricing = useMemo(() => {
-    if (!palletForwardingPricingList || palletForwardingPricingList.length === 0) return null;
-    const sorted = [...palletForwardingPricingList].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' 
-        ? new Date(a.updatedAt).getTime() 
-        : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' 
-        ? new Date(b.updatedAt).getTime() 
-        : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    });
-    return sorted[0];
-  }, [palletForwardingPricingList]);
+  }, [selectedUser, latestStoragePricing, effectiveFrom]);
+
+  // Box forwarding pricing in effect on the selected effective date
+  const latestBoxForwardingPricing = useMemo(() => pricingInEffect(boxForwardingPricingList, effectiveFrom), [boxForwardingPricingList, effectiveFrom]);
+
+  // Pallet forwarding pricing in effect on the selected effective date
+  const latestPalletForwardingPricing = useMemo(() => pricingInEffect(palletForwardingPricingList, effectiveFrom), [palletForwardingPricingList, effectiveFrom]);
 
   // Initialize box forwarding pricing when user changes or data loads
   useEffect(() => {
@@ -284,13 +252,13 @@ export function PricingManagement({ users }: PricingManagementProps) {
         : (typeof priceValue === 'string' ? parseFloat(priceValue).toFixed(2) : '0.00');
       
       setBoxForwardingPrice(priceString);
-      setBoxForwardingPricingId(latestBoxForwardingPricing.id);
+      setBoxForwardingPricingId(startsOnDay(latestBoxForwardingPricing, effectiveFrom) ? latestBoxForwardingPricing.id : null);
     } else {
       // Only clear if there's no data
       setBoxForwardingPrice("");
       setBoxForwardingPricingId(null);
     }
-  }, [selectedUser?.uid, latestBoxForwardingPricing, boxForwardingPricingLoading]);
+  }, [selectedUser?.uid, latestBoxForwardingPricing, boxForwardingPricingLoading, effectiveFrom]);
 
   // Initialize pallet forwarding pricing when user changes or data loads
   useEffect(() => {
@@ -305,23 +273,23 @@ export function PricingManagement({ users }: PricingManagementProps) {
     
     if (latestPalletForwardingPricing) {
       setPalletForwardingPrice(latestPalletForwardingPricing.price.toString());
-      setPalletForwardingPricingId(latestPalletForwardingPricing.id);
+      setPalletForwardingPricingId(startsOnDay(latestPalletForwardingPricing, effectiveFrom) ? latestPalletForwardingPricing.id : null);
     } else {
       setPalletForwardingPrice("");
       setPalletForwardingPricingId(null);
     }
-  }, [selectedUser, latestPalletForwardingPricing, palletForwardingPricingLoading]);
+  }, [selectedUser, latestPalletForwardingPricing, palletForwardingPricingLoading, effectiveFrom]);
 
   // Get container handling pricing for 20ft and 40ft
-  const container20ftPricing = useMemo(() => {
-    if (!containerHandlingPricingList || containerHandlingPricingList.length === 0) return null;
-    return containerHandlingPricingList.find(p => p.containerSize === '20 feet');
-  }, [containerHandlingPricingList]);
+  const container20ftPricing = useMemo(
+    () => pricingInEffect(containerHandlingPricingList.filter((p) => p.containerSize === '20 feet'), effectiveFrom),
+    [containerHandlingPricingList, effectiveFrom]
+  );
 
-  const container40ftPricing = useMemo(() => {
-    if (!containerHandlingPricingList || containerHandlingPricingList.length === 0) return null;
-    return containerHandlingPricingList.find(p => p.containerSize === '40 feet');
-  }, [containerHandlingPricingList]);
+  const container40ftPricing = useMemo(
+    () => pricingInEffect(containerHandlingPricingList.filter((p) => p.containerSize === '40 feet'), effectiveFrom),
+    [containerHandlingPricingList, effectiveFrom]
+  );
 
   // Initialize container handling pricing when user changes
   useEffect(() => {
@@ -329,7 +297,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
     
     if (container20ftPricing) {
       setContainer20ftPrice(container20ftPricing.price.toString());
-      setContainer20ftPricingId(container20ftPricing.id);
+      setContainer20ftPricingId(startsOnDay(container20ftPricing, effectiveFrom) ? container20ftPricing.id : null);
     } else {
       setContainer20ftPrice("");
       setContainer20ftPricingId(null);
@@ -337,27 +305,15 @@ export function PricingManagement({ users }: PricingManagementProps) {
     
     if (container40ftPricing) {
       setContainer40ftPrice(container40ftPricing.price.toString());
-      setContainer40ftPricingId(container40ftPricing.id);
+      setContainer40ftPricingId(startsOnDay(container40ftPricing, effectiveFrom) ? container40ftPricing.id : null);
     } else {
       setContainer40ftPrice("");
       setContainer40ftPricingId(null);
     }
-  }, [selectedUser, container20ftPricing, container40ftPricing]);
-
-  // Get the most recent additional services pricing
-  const latestAdditionalServicesPricing = useMemo(() => {
-    if (!additionalServicesPricingList || additionalServicesPricingList.length === 0) return null;
-    const sorted = [...additionalServicesPricingList].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' 
-        ? new Date(a.updatedAt).getTime() 
-        : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' 
-        ? new Date(b.updatedAt).getTime() 
-        : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    });
-    return sorted[0];
-  }, [additionalServicesPricingList]);
+  }, [selectedUser, container20ftPricing, container40ftPricing, effectiveFrom]);
+
+  // Additional services pricing in effect on the selected effective date
+  const latestAdditionalServicesPricing = useMemo(() => pricingInEffect(additionalServicesPricingList, effectiveFrom), [additionalServicesPricingList, effectiveFrom]);
 
   // Initialize additional services pricing when user changes
   useEffect(() => {
@@ -367,14 +323,14 @@ export function PricingManagement({ users }: PricingManagementProps) {
       setBubbleWrapPrice(latestAdditionalServicesPricing.bubbleWrapPrice.toString());
       setStickerRemovalPrice(latestAdditionalServicesPricing.stickerRemovalPrice.toString());
       setWarningLabelPrice(latestAdditionalServicesPricing.warningLabelPrice.toString());
-      setAdditionalServicesPricingId(latestAdditionalServicesPricing.id);
+      setAdditionalServicesPricingId(startsOnDay(latestAdditionalServicesPricing, effectiveFrom) ? latestAdditionalServicesPricing.id : null);
     } else {
       setBubbleWrapPrice("");
       setStickerRemovalPrice("");
       setWarningLabelPrice("");
       setAdditionalServicesPricingId(null);
     }
-  }, [selectedUser, latestAdditionalServicesPricing]);
+  }, [selectedUser, latestAdditionalServicesPricing, effectiveFrom]);
 
   const handleUserSelect = (user: UserProfile) => {
     setSelectedUserId(user.uid);
@@ -395,6 +351,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
     try {
       const batch = writeBatch(db);
       const now = Timestamp.now();
+      const effectiveFromTimestamp = Timestamp.fromDate(effectiveFrom);
 
       // Process all rows
       for (const row of pricingRows) {
@@ -405,15 +362,19 @@ export function PricingManagement({ users }: PricingManagementProps) {
         const packOf = parseFloat(row.packOf || "0");
 
         if (isNaN(rate) || rate < 0) continue;
+        // Unchanged rates need no new entry
+        if (!row.pricingId && row.rate === row.savedRate && (row.packOf || "0") === (row.savedPackOf || "0")) continue;
 
         const pricingData: any = {
           userId: selectedUser.uid,
           service: row.service,
+          tierId: row.tierId,
           package: row.package,
           quantityRange: row.quantityRange,
           productType: row.productType,
           rate,
           packOf: isNaN(packOf) ? 0 : packOf,
+          effectiveFrom: effectiveFromTimestamp,
           updatedAt: now,
         };
         
@@ -425,11 +386,11 @@ export function PricingManagement({ users }: PricingManagementProps) {
         });
 
         if (row.pricingId) {
-          // Update existing
+          // Correct the rule that starts on the same date
           const pricingRef = doc(db, `users/${selectedUser.uid}/pricing`, row.pricingId);
           batch.update(pricingRef, pricingData);
         } else {
-          // Create new
+          // New rule from the effective date; earlier rules stay for older shipments
           const pricingRef = doc(collection(db, `users/${selectedUser.uid}/pricing`));
           batch.set(pricingRef, {
             ...pricingData,
@@ -455,6 +416,55 @@ export function PricingManagement({ users }: PricingManagementProps) {
     }
   };
 
+  const handleMigrateTiers = async () => {
+    if (!authUser) return;
+    setIsMigratingTiers(true);
+    try {
+      const res = await fetch("/api/admin/migrate-pricing-tiers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${await authUser.getIdToken()}` },
+        body: JSON.stringify({}),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof result.error === "string" ? result.error : "Failed to migrate pricing rules.");
+      }
+      toast({
+        title: "Success",
+        description: `Attached ${result.migrated} existing rate(s) to tiers${result.unmatched ? `; ${result.unmatched} matched no tier` : ""}.`,
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to migrate pricing rules." });
+    } finally {
+      setIsMigratingTiers(false);
+    }
+  };
+
+  const renderTierToolbar = (service: TieredService) => {
+    const hasOverride = clientTables.some((t) => t.service === service);
+    return (
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {tiersLoading
+            ? "Loading tiers..."
+            : hasOverride
+              ? `Custom tiers for ${selectedUser?.name || "this client"}`
+              : "Default tiers"}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleMigrateTiers} disabled={isMigratingTiers}>
+            {isMigratingTiers ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Migrate Existing Rates
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setTiersDialogService(service)}>
+            <Layers className="mr-2 h-4 w-4" />
+            Edit Tiers
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   const handleSaveStorageType = async () => {
     if (!selectedUser || !adminSelectedStorageType) {
       toast({
@@ -518,6 +528,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
       const pricingData = {
         userId: selectedUser.uid,
         price,
+        effectiveFrom: Timestamp.fromDate(effectiveFrom),
         updatedAt: now,
       };
 
@@ -580,6 +591,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
       const pricingData = {
         userId: selectedUser.uid,
         price,
+        effectiveFrom: Timestamp.fromDate(effectiveFrom),
         updatedAt: now,
       };
 
@@ -639,6 +651,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
         userId: selectedUser.uid,
         containerSize,
         price,
+        effectiveFrom: Timestamp.fromDate(effectiveFrom),
         updatedAt: now,
       };
 
@@ -704,6 +717,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
         bubbleWrapPrice: bubbleWrap,
         stickerRemovalPrice: stickerRemoval,
         warningLabelPrice: warningLabel,
+        effectiveFrom: Timestamp.fromDate(effectiveFrom),
         updatedAt: now,
       };
 
@@ -787,6 +801,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
         userId: selectedUser.uid,
         storageType: storageTypeToUse,
         price,
+        effectiveFrom: Timestamp.fromDate(effectiveFrom),
         updatedAt: now,
       };
 
@@ -916,7 +931,19 @@ export function PricingManagement({ users }: PricingManagementProps) {
                 <ChevronsUpDown className="h-4 w-4 opacity-50" />
               </Button>
             </div>
+            <div className="w-48">
+              <Label htmlFor="pricing-effective-date" className="text-sm font-medium mb-2 block">Effective From</Label>
+              <Input
+                id="pricing-effective-date"
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => e.target.value && setEffectiveDate(e.target.value)}
+              />
+            </div>
           </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Rates saved here apply to shipments from this date on; earlier shipments keep the rates in effect when they shipped. Saving again on the same date corrects that entry.
+          </p>
         </CardContent>
       </Card>
 
@@ -999,10 +1026,17 @@ export function PricingManagement({ users }: PricingManagementProps) {
                     >
                       Additional Services
                     </TabsTrigger>
+                    <TabsTrigger 
+                      value="History" 
+                      className="data-[state=active]:bg-slate-700 data-[state=active]:text-white whitespace-nowrap px-4 py-2"
+                    >
+                      History
+                    </TabsTrigger>
                   </TabsList>
                 </div>
                 
                 <TabsContent value="FBA/WFS/TFS" className="mt-4">
+                  {renderTierToolbar("FBA/WFS/TFS")}
                   <div className="overflow-x-auto">
                     <table className="w-full border-collapse">
                       <thead>
@@ -1021,12 +1055,11 @@ export function PricingManagement({ users }: PricingManagementProps) {
                             const globalIndex = pricingRows.findIndex(
                               (r) =>
                                 r.service === row.service &&
-                                r.package === row.package &&
-                                r.quantityRange === row.quantityRange &&
+                                r.tierId === row.tierId &&
                                 r.productType === row.productType
                             );
                             return (
-                              <tr key={`${row.service}-${row.package}-${row.quantityRange}-${row.productType}`} className="border-b hover:bg-muted/50">
+                              <tr key={`${row.service}-${row.tierId}-${row.productType}`} className="border-b hover:bg-muted/50">
                                 <td className="p-2 text-sm">{row.package}</td>
                                 <td className="p-2 text-sm">{row.quantityRange}</td>
                                 <td className="p-2 text-sm">
@@ -1093,6 +1126,7 @@ export function PricingManagement({ users }: PricingManagementProps) {
                 </TabsContent>
 
                 <TabsContent value="FBM" className="mt-4">
+                  {renderTierToolbar("FBM")}
                   <div className="overflow-x-auto">
                     <table className="w-full border-collapse">
                       <thead>
@@ -1111,12 +1145,11 @@ export function PricingManagement({ users }: PricingManagementProps) {
                             const globalIndex = pricingRows.findIndex(
                               (r) =>
                                 r.service === row.service &&
-                                r.package === row.package &&
-                                r.quantityRange === row.quantityRange &&
+                                r.tierId === row.tierId &&
                                 r.productType === row.productType
                             );
                             return (
-                              <tr key={`${row.service}-${row.package}-${row.quantityRange}-${row.productType}`} className="border-b hover:bg-muted/50">
+                              <tr key={`${row.service}-${row.tierId}-${row.productType}`} className="border-b hover:bg-muted/50">
                                 <td className="p-2 text-sm">{row.package}</td>
                                 <td className="p-2 text-sm">{row.quantityRange}</td>
                                 <td className="p-2 text-sm">
@@ -1204,8 +1237,11 @@ export function PricingManagement({ users }: PricingManagementProps) {
                                   <SelectValue placeholder="Select storage type" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  <SelectItem value="product_base">Product Base Storage</SelectItem>
-                                  <SelectItem value="pallet_base">Pallet Base Storage</SelectItem>
+                                  {(Object.keys(STORAGE_TYPE_LABELS) as StorageType[]).map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                      {STORAGE_TYPE_LABELS[type]}
+                                    </SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
                               <Button
@@ -1229,6 +1265,10 @@ export function PricingManagement({ users }: PricingManagementProps) {
                                 ? "Product Base: Charged per item in inventory (first month free for new items)"
                                 : adminSelectedStorageType === "pallet_base"
                                 ? "Pallet Base: Monthly charge = Number of Pallets × Price per Pallet"
+                                : adminSelectedStorageType === "cubic_feet"
+                                ? "Cubic Feet: Charged for the average cubic feet stored each day of the month (needs item dimensions)"
+                                : adminSelectedStorageType === "pallet_positions"
+                                ? "Pallet Positions: Charged for the average pallet positions occupied each day of the month"
                                 : "Assign a storage type to this user"}
                             </p>
                           </div>
@@ -1242,6 +1282,10 @@ export function PricingManagement({ users }: PricingManagementProps) {
                                 <p className="text-sm text-muted-foreground">
                                   {adminSelectedStorageType === "product_base" 
                                     ? "Product Base Storage - Charged per item in inventory"
+                                    : adminSelectedStorageType === "cubic_feet"
+                                    ? "Cubic Feet Storage - Monthly charge = Average Cubic Feet × Price per Cubic Foot"
+                                    : adminSelectedStorageType === "pallet_positions"
+                                    ? "Pallet Position Storage - Monthly charge = Average Pallet Positions × Price per Position"
                                     : "Pallet Base Storage - Monthly charge = Number of Pallets × Price per Pallet"}
                                 </p>
                               </div>
@@ -1249,6 +1293,10 @@ export function PricingManagement({ users }: PricingManagementProps) {
                                 <Label className="text-sm font-medium mb-2 block">
                                   {adminSelectedStorageType === "product_base" 
                                     ? "Price per Product ($)"
+                                    : adminSelectedStorageType === "cubic_feet"
+                                    ? "Price per Cubic Foot ($)"
+                                    : adminSelectedStorageType === "pallet_positions"
+                                    ? "Price per Pallet Position ($)"
                                     : "Price per Pallet ($)"}
                                 </Label>
                                 <Input
@@ -1263,6 +1311,10 @@ export function PricingManagement({ users }: PricingManagementProps) {
                                 <p className="text-xs text-muted-foreground mt-1">
                                   {adminSelectedStorageType === "product_base"
                                     ? "This amount will be charged per item in inventory each month (first month free for new items)."
+                                    : adminSelectedStorageType === "cubic_feet"
+                                    ? "Monthly price per cubic foot, prorated by the days stock was stored. Billed after the month ends."
+                                    : adminSelectedStorageType === "pallet_positions"
+                                    ? "Monthly price per pallet position, prorated by the days it was occupied. Billed after the month ends."
                                     : "Price per individual pallet."}
                                 </p>
                               </div>
@@ -1598,11 +1650,26 @@ export function PricingManagement({ users }: PricingManagementProps) {
                     )}
                   </div>
                 </TabsContent>
+
+                <TabsContent value="History" className="mt-4">
+                  <PricingHistoryTimeline entries={pricingHistory} />
+                </TabsContent>
               </Tabs>
             )}
           </CardContent>
         </Card>
       )}
+
+      {tiersDialogService && (
+        <PricingTiersDialog
+          open={!!tiersDialogService}
+          onOpenChange={(open) => !open && setTiersDialogService(null)}
+          service={tiersDialogService}
+          client={selectedUser ?? null}
+          globalTables={globalTables}
+          clientTables={clientTables}
+        />
+      )}
     </div>
   );
 }
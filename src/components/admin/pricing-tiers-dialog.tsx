@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { deleteDoc, doc, setDoc, Timestamp } from "firebase/firestore";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_PRICING_TIERS,
+  formatTierRange,
+  newTierId,
+  PRICING_TIERS_COLLECTION,
+  sortTiers,
+  tierTableId,
+  validateTiers,
+} from "@/lib/pricing-tiers";
+import type { PricingTier, PricingTierTable, TieredService, UserProfile } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type Scope = "global" | "client";
+type TierDraft = { id: string; name: string; minQuantity: string };
+
+/**
+ * Edit the quantity tiers of a prep service, either the global default table or an override
+ * for one client. Tier ids are kept on rename so the rates saved against them still apply.
+ */
+export function PricingTiersDialog({
+  open,
+  onOpenChange,
+  service,
+  client,
+  globalTables,
+  clientTables,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  service: TieredService;
+  client: UserProfile | null;
+  globalTables: PricingTierTable[];
+  clientTables: PricingTierTable[];
+}) {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<Scope>("global");
+  const [drafts, setDrafts] = useState<TierDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const tableId = tierTableId(service);
+  const globalTable = globalTables.find((t) => t.id === tableId);
+  const clientTable = clientTables.find((t) => t.id === tableId);
+
+  useEffect(() => {
+    if (open) setScope(client && clientTable ? "client" : "global");
+  }, [open, client, clientTable]);
+
+  useEffect(() => {
+    if (!open) return;
+    // A new client override starts from the global table
+    const source =
+      (scope === "client" ? clientTable?.tiers : undefined) ?? globalTable?.tiers ?? DEFAULT_PRICING_TIERS[service];
+    setDrafts(sortTiers(source).map((t) => ({ id: t.id, name: t.name, minQuantity: String(t.minQuantity) })));
+  }, [open, scope, service, globalTable, clientTable]);
+
+  const tiers: PricingTier[] = drafts.map((d) => ({ id: d.id, name: d.name.trim(), minQuantity: Number(d.minQuantity) }));
+  const sortedPreview = sortTiers(tiers);
+
+  const updateDraft = (index: number, update: Partial<TierDraft>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...update } : d)));
+
+  const tableRef = () =>
+    scope === "client" && client
+      ? doc(db, `users/${client.uid}/${PRICING_TIERS_COLLECTION}`, tableId)
+      : doc(db, PRICING_TIERS_COLLECTION, tableId);
+
+  const handleSave = async () => {
+    const errors = validateTiers(tiers);
+    if (errors.length > 0) {
+      toast({ variant: "destructive", title: "Check the tiers", description: errors.join(" ") });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setDoc(tableRef(), {
+        service,
+        tiers: sortTiers(tiers),
+        updatedAt: Timestamp.now(),
+        updatedBy: userProfile?.uid || "",
+      });
+      toast({
+        title: "Success",
+        description: scope === "client" ? `${service} tiers saved for ${client?.name || "this client"}.` : `Default ${service} tiers saved.`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to save tiers." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetClient = async () => {
+    if (!client) return;
+    setIsSaving(true);
+    try {
+      await deleteDoc(tableRef());
+      toast({ title: "Success", description: `${client.name || "This client"} now uses the default ${service} tiers.` });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to remove override." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{service} Quantity Tiers</DialogTitle>
+          <DialogDescription>
+            Each tier runs from its minimum quantity up to the next tier. Rates are entered per tier and product type.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {client && (
+            <div className="space-y-1">
+              <Label>Applies to</Label>
+              <Select value={scope} onValueChange={(v) => setScope(v as Scope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="global">All clients (default)</SelectItem>
+                  <SelectItem value="client">Only {client.name || client.email}</SelectItem>
+                </SelectContent>
+              </Select>
+              {scope === "client" && !clientTable && (
+                <p className="text-xs text-muted-foreground">Saving creates an override starting from the default tiers.</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_7rem_6rem_auto] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Name</span>
+              <span>Minimum qty</span>
+              <span>Range</span>
+              <span />
+            </div>
+            {drafts.map((draft, index) => {
+              const sortedIndex = sortedPreview.findIndex((t) => t.id === draft.id);
+              return (
+                <div key={draft.id} className="grid grid-cols-[1fr_7rem_6rem_auto] items-center gap-2">
+                  <Input value={draft.name} onChange={(e) => updateDraft(index, { name: e.target.value })} />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.minQuantity}
+                    onChange={(e) => updateDraft(index, { minQuantity: e.target.value })}
+                  />
+                  <span className="text-sm">{formatTierRange(sortedPreview, sortedIndex)}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={drafts.length === 1}
+                    onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDrafts((prev) => [...prev, { id: newTierId("tier"), name: "", minQuantity: "" }])}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Tier
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Removing a tier leaves its saved rates unused; quantities in its range are charged at the tier below.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {scope === "client" && clientTable && (
+            <Button variant="outline" onClick={handleResetClient} disabled={isSaving} className="sm:mr-auto">
+              Use Default Tiers
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Tiers
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -63,6 +63,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { generateInvoicePDF } from "@/lib/invoice-generator";
+import { recordStockMovement } from "@/lib/stock-ledger";
 import { ProductReturnRequestForm } from "@/components/dashboard/product-return-request-form";
 
 function formatDate(date: ProductReturn["createdAt"]) {
@@ -670,6 +671,16 @@ export function ProductReturnsManagement({
                 status: "In Stock",
                 updatedAt: now,
               });
+              recordStockMovement(transaction, db, selectedUser.uid, {
+                productId: inventoryRef.id,
+                productName: currentData.productName || productName,
+                type: "return",
+                quantityBefore: currentQuantity,
+                quantityAfter: currentQuantity + remainingQuantity,
+                referencePath: returnRef.path,
+                createdBy: adminProfile.uid,
+                createdByName: adminProfile.name || "Admin",
+              });
             } else {
               // Product not found, create new inventory item
               const newInventoryRef = doc(collection(db, `users/${userId}/inventory`));
@@ -684,6 +695,16 @@ export function ProductReturnsManagement({
                 createdAt: now,
                 updatedAt: now,
               });
+              recordStockMovement(transaction, db, selectedUser.uid, {
+                productId: newInventoryRef.id,
+                productName,
+                type: "return",
+                quantityBefore: 0,
+                quantityAfter: remainingQuantity,
+                referencePath: returnRef.path,
+                createdBy: adminProfile.uid,
+                createdByName: adminProfile.name || "Admin",
+              });
             }
           } else {
             // Create new inventory item for new product return
@@ -699,6 +720,16 @@ export function ProductReturnsManagement({
               createdAt: now,
               updatedAt: now,
             });
+            recordStockMovement(transaction, db, selectedUser.uid, {
+              productId: newInventoryRef.id,
+              productName,
+              type: "return",
+              quantityBefore: 0,
+              quantityAfter: remainingQuantity,
+              referencePath: returnRef.path,
+              createdBy: adminProfile.uid,
+              createdByName: adminProfile.name || "Admin",
+            });
           }
         }
 
@@ -0,0 +1,48 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ScanLine } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+/**
+ * Text box for USB/Bluetooth barcode scanners in keyboard mode: they type the code and press
+ * Enter, so the code is submitted on Enter and the box is cleared and kept focused for the
+ * next scan. Codes can also be typed by hand.
+ */
+export function ScanInput({
+  onScan,
+  placeholder = "Scan or type UPC / FNSKU / ASIN / SKU",
+  autoFocus,
+  className,
+}: {
+  onScan: (code: string) => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+  className?: string;
+}) {
+  const [value, setValue] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className={cn("relative", className)}>
+      <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+      <Input
+        ref={inputRef}
+        value={value}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        className="pl-10 font-mono"
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== "Enter") return;
+          e.preventDefault();
+          const code = value.trim();
+          setValue("");
+          inputRef.current?.focus();
+          if (code) onScan(code);
+        }}
+      />
+    </div>
+  );
+}
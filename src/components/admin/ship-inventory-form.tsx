@@ -16,6 +16,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { DatePicker } from "@/components/ui/date-picker";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { sendLowStockAlertsFromClient } from "@/lib/low-stock-alerts";
+import type { InventoryQuantityChange } from "@/lib/low-stock";
+import { useAuth } from "@/hooks/use-auth";
 import type { InventoryItem, ShipmentProductItem, LabelProductDetail } from "@/types";
 import { Checkbox } from "@/components/ui/checkbox";
 
@@ -42,6 +46,7 @@ interface ShipInventoryFormProps {
 
 export function ShipInventoryForm({ userId, inventory, prefillData, onSuccess }: ShipInventoryFormProps) {
   const { toast } = useToast();
+  const { user: adminUser, userProfile: adminProfile } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState("");
@@ -130,7 +135,9 @@ export function ShipInventoryForm({ userId, inventory, prefillData, onSuccess }:
     const createdAt = new Date();
 
     try {
+      const stockChanges: InventoryQuantityChange[] = [];
       await runTransaction(db, async (transaction) => {
+        stockChanges.length = 0; // the callback reruns if the transaction retries
         const shipmentWithInventory = await Promise.all(
           values.shipments.map(async (shipment) => {
             const inventoryDocRef = doc(db, `users/${userId}/inventory`, shipment.productId);
@@ -163,8 +170,25 @@ export function ShipInventoryForm({ userId, inventory, prefillData, onSuccess }:
           quantity: newQuantity,
           status: newStatus,
         });
+          stockChanges.push({
+            productId: shipment.productId,
+            productName: currentInventory.productName,
+            quantityBefore: currentInventory.quantity,
+            quantityAfter: newQuantity,
+            reorderPoint: currentInventory.reorderPoint,
+          });
 
           const shipmentDocRef = doc(shippedCollectionRef);
+          recordStockMovement(transaction, db, userId, {
+            productId: shipment.productId,
+            productName: currentInventory.productName,
+            type: "ship",
+            quantityBefore: currentInventory.quantity,
+            quantityAfter: newQuantity,
+            referencePath: shipmentDocRef.path,
+            createdBy: adminProfile?.uid || "admin",
+            createdByName: adminProfile?.name || "Admin",
+          });
           transaction.set(shipmentDocRef, {
           productName: currentInventory.productName,
           date: values.date,
@@ -195,6 +219,8 @@ export function ShipInventoryForm({ userId, inventory, prefillData, onSuccess }:
         }
       });
 
+      await sendLowStockAlertsFromClient(db, adminUser, userId, stockChanges, "a shipment");
+
       toast({
         title: "Success",
         description: "Shipment recorded for all selected products.",
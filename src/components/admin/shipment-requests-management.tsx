@@ -1,10 +1,21 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
-import type { ShipmentRequest, UserProfile, InventoryItem, UserAdditionalServicesPricing, UserPricing, UserBoxForwardingPricing, UserPalletForwardingPricing } from "@/types";
+import { useEffect, useRef, useState, useMemo } from "react";
+import type { ShipmentRequest, ShipmentBundle, UserProfile, InventoryItem, ShipmentAllocation, ShipmentReservation, UserAdditionalServicesPricing, UserPricing, UserBoxForwardingPricing, UserPalletForwardingPricing, PricingTierTable } from "@/types";
 import { useCollection } from "@/hooks/use-collection";
 import { useAuth } from "@/hooks/use-auth";
 import { calculatePrepUnitPrice } from "@/lib/pricing-utils";
+import { getServiceTiers, isTieredService } from "@/lib/pricing-tiers";
+import { pricingInEffect } from "@/lib/pricing-history";
+import { usePricingTiers } from "@/hooks/use-pricing-tiers";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { getShipmentAllocations, releaseReservedQuantity, returnShipmentAllocation } from "@/lib/inventory-reservations";
+import { getOnHandBins } from "@/lib/inventory-bins";
+import { getBundleAvailability } from "@/lib/bundles";
+import { BinSelect } from "@/components/admin/bin-select";
+import { ScanInput } from "@/components/admin/scan-input";
+import { FnskuLabelsDialog } from "@/components/admin/fnsku-labels-dialog";
+import { findInventoryByCode } from "@/lib/product-identifiers";
 import {
   Card,
   CardContent,
@@ -34,12 +45,33 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
-import { doc, updateDoc, collection, Timestamp, runTransaction } from "firebase/firestore";
+import { doc, updateDoc, Timestamp, runTransaction } from "firebase/firestore";
 import { format } from "date-fns";
-import { Check, X, Eye, Loader2, FileText } from "lucide-react";
+import { Check, X, Eye, Loader2, FileText, Printer } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DatePicker } from "@/components/ui/date-picker";
 
+/** requestedAt in ms, falling back to the shipment date (0 when neither is set). */
+function getRequestTime(req: ShipmentRequest): number {
+  if (req.requestedAt) {
+    if (typeof req.requestedAt === 'string') {
+      return new Date(req.requestedAt).getTime();
+    }
+    if (req.requestedAt && typeof req.requestedAt === 'object' && 'seconds' in req.requestedAt) {
+      return req.requestedAt.seconds * 1000;
+    }
+  }
+  if (req.date) {
+    if (typeof req.date === 'string') {
+      return new Date(req.date).getTime();
+    }
+    if (req.date && typeof req.date === 'object' && 'seconds' in req.date) {
+      return req.date.seconds * 1000;
+    }
+  }
+  return 0;
+}
+
 function formatDate(date: ShipmentRequest["date"] | ShipmentRequest["requestedAt"]) {
   if (typeof date === 'string') {
     return format(new Date(date), "PPP");
@@ -62,6 +94,8 @@ export function ShipmentRequestsManagement({
   const { toast } = useToast();
   const { user: authUser, userProfile: adminProfile } = useAuth();
   const [selectedRequest, setSelectedRequest] = useState<ShipmentRequest | null>(null);
+  const [scannedProductId, setScannedProductId] = useState<string | undefined>();
+  const [labelsRequest, setLabelsRequest] = useState<ShipmentRequest | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedRemarks, setSelectedRemarks] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -94,6 +128,7 @@ export function ShipmentRequestsManagement({
   const { data: pricingRules } = useCollection<UserPricing>(
     isValidUserId ? `users/${userId}/pricing` : ""
   );
+  const { tierTables } = usePricingTiers(isValidUserId ? userId : undefined);
   
   // Get box and pallet forwarding pricing
   const { data: boxForwardingPricing } = useCollection<UserBoxForwardingPricing>(
@@ -109,66 +144,36 @@ export function ShipmentRequestsManagement({
     
     // Sort by requestedAt (most recent first), fallback to date if requestedAt is not available
     filtered = [...filtered].sort((a, b) => {
-      const getDate = (req: ShipmentRequest) => {
-        if (req.requestedAt) {
-          if (typeof req.requestedAt === 'string') {
-            return new Date(req.requestedAt).getTime();
-          }
-          if (req.requestedAt && typeof req.requestedAt === 'object' && 'seconds' in req.requestedAt) {
-            return req.requestedAt.seconds * 1000;
-          }
-        }
-        if (req.date) {
-          if (typeof req.date === 'string') {
-            return new Date(req.date).getTime();
-          }
-          if (req.date && typeof req.date === 'object' && 'seconds' in req.date) {
-            return req.date.seconds * 1000;
-          }
-        }
-        return 0;
-      };
-      
-      const dateA = getDate(a);
-      const dateB = getDate(b);
+      const dateA = getRequestTime(a);
+      const dateB = getRequestTime(b);
       return dateB - dateA; // Descending order (newest first)
     });
     
     return filtered;
   }, [requests, statusFilter]);
 
-  const pendingCount = requests.filter(req => req.status === "pending").length;
-  const confirmedCount = requests.filter(req => req.status === "confirmed").length;
-  const rejectedCount = requests.filter(req => req.status === "rejected").length;
-
-  // Helper function to remove undefined values from objects (Firestore doesn't allow undefined)
-  const removeUndefined = (obj: any): any => {
-    if (obj === null || obj === undefined) {
-      return null;
-    }
-    // Preserve Firestore Timestamp objects
-    if (obj && typeof obj === 'object' && ('seconds' in obj || 'toDate' in obj || obj.constructor?.name === 'Timestamp')) {
-      return obj;
-    }
-    // Preserve Date objects
-    if (obj instanceof Date) {
-      return obj;
-    }
-    if (Array.isArray(obj)) {
-      return obj.map(removeUndefined).filter(item => item !== undefined);
+  // Barcode scan: open the oldest pending request that ships the scanned product
+  const handleScan = (code: string) => {
+    const product = findInventoryByCode(inventory, code);
+    if (!product) {
+      toast({ variant: "destructive", title: "No match", description: `No product has code ${code}.` });
+      return;
     }
-    if (typeof obj === 'object') {
-      const cleaned: any = {};
-      for (const key in obj) {
-        if (obj[key] !== undefined) {
-          cleaned[key] = removeUndefined(obj[key]);
-        }
-      }
-      return cleaned;
+    const match = requests
+      .filter((req) => req.status === "pending" && req.shipments?.some((s: any) => s.productId === product.id))
+      .sort((a, b) => getRequestTime(a) - getRequestTime(b))[0];
+    if (!match) {
+      toast({ title: "No pending request", description: `No pending shipment request includes ${product.productName}.` });
+      return;
     }
-    return obj;
+    setScannedProductId(product.id);
+    setSelectedRequest(match);
   };
 
+  const pendingCount = requests.filter(req => req.status === "pending").length;
+  const confirmedCount = requests.filter(req => req.status === "confirmed").length;
+  const rejectedCount = requests.filter(req => req.status === "rejected").length;
+
   const handleConfirm = async (
     request: ShipmentRequest,
     adminRemarks?: string,
@@ -182,7 +187,8 @@ export function ShipmentRequestsManagement({
       pricePerLabel?: number;
       totalAdditionalCost?: number;
       customProductPricing?: Record<number, { unitPrice: number; packOf: number; packOfPrice: number }>;
-    }
+    },
+    binPicks?: Record<number, string>
   ) => {
     if (!selectedUser || !adminProfile) return;
     const targetUserId = selectedUser?.uid || (selectedUser as any)?.id;
@@ -190,218 +196,39 @@ export function ShipmentRequestsManagement({
 
     setIsProcessing(true);
     try {
-      const bubbleWrapFeet = additionalServices?.bubbleWrapFeet || 0;
-      const stickerRemovalItems = additionalServices?.stickerRemovalItems || 0;
-      const warningLabels = additionalServices?.warningLabels || 0;
-      const pricePerFoot = additionalServices?.pricePerFoot || 0;
-      const pricePerItem = additionalServices?.pricePerItem || 0;
-      const pricePerLabel = additionalServices?.pricePerLabel || 0;
-      const additionalServicesTotal = additionalServices?.totalAdditionalCost || 0;
-
-      await runTransaction(db, async (transaction) => {
-        const requestRef = doc(db, `users/${targetUserId}/shipmentRequests`, request.id);
-        const shippedCollectionRef = collection(db, `users/${targetUserId}/shipped`);
-        const confirmedAt = Timestamp.now();
-        const createdAt = Timestamp.now();
-
-        // STEP 1: Read all inventory documents first (all reads must happen before writes)
-        const isCustomProduct =
-          String(request.productType || "").toLowerCase() === "custom" &&
-          String(request.shipmentType || "").toLowerCase() === "product";
-
-        const inventoryData = await Promise.all(
-          request.shipments.map(async (shipment, index) => {
-            const inventoryDocRef = doc(db, `users/${targetUserId}/inventory`, shipment.productId);
-            const inventoryDoc = await transaction.get(inventoryDocRef);
-
-            if (!inventoryDoc.exists()) {
-              throw new Error(`Product ${shipment.productId} not found in inventory.`);
-            }
-
-            const currentInventory = inventoryDoc.data() as Omit<InventoryItem, "id">;
-            const effectivePackOf =
-              isCustomProduct && additionalServices?.customProductPricing?.[index]?.packOf
-                ? additionalServices.customProductPricing[index].packOf
-                : shipment.packOf;
-            const totalUnitsShipped = shipment.quantity * effectivePackOf;
-
-            if (currentInventory.quantity < totalUnitsShipped) {
-              throw new Error(
-                `Not enough stock for ${currentInventory.productName}. Available: ${currentInventory.quantity}, Requested: ${totalUnitsShipped}.`
-              );
-            }
-
-            return {
-              shipment,
-              effectivePackOf,
-              inventoryDocRef,
-              currentInventory,
-              totalUnitsShipped,
-            };
-          })
-        );
-
-        // STEP 2: Now perform all writes (after all reads are complete)
-        // Update request status
-        transaction.update(requestRef, {
-          status: "confirmed",
-          confirmedBy: adminProfile.uid,
-          confirmedAt,
+      if (!authUser) throw new Error("You must be signed in to confirm shipments.");
+      const token = await authUser.getIdToken();
+      const res = await fetch("/api/admin/confirm-shipment-request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          userId: targetUserId,
+          requestId: request.id,
           adminRemarks: adminRemarks || "",
-          adminAdditionalServices: {
-            bubbleWrapFeet,
-            stickerRemovalItems,
-            warningLabels,
-            pricePerFoot,
-            pricePerItem,
-            pricePerLabel,
-            total: additionalServicesTotal,
-          },
-        });
-
-        // Collect all items and calculate totals for a single combined shipped record
-        const allItems: any[] = [];
-        let totalBoxes = 0;
-        let totalUnits = 0;
-        let totalSkus = 0;
-        const firstProduct = inventoryData[0]?.currentInventory;
-
-        // Process each shipment item - update inventory and collect data
-        for (let i = 0; i < inventoryData.length; i++) {
-          const { shipment, effectivePackOf, inventoryDocRef, currentInventory, totalUnitsShipped } = inventoryData[i];
-          const newQuantity = currentInventory.quantity - totalUnitsShipped;
-          const newStatus = newQuantity > 0 ? "In Stock" : "Out of Stock";
-
-          // Update inventory
-          transaction.update(inventoryDocRef, {
-            quantity: newQuantity,
-            status: newStatus,
-          });
-
-          // Use admin-set pricing for custom products, otherwise use shipment pricing
-          let finalUnitPrice = shipment.unitPrice;
-          if (isCustomProduct && additionalServices?.customProductPricing) {
-            const customPricing = additionalServices.customProductPricing[i];
-            if (customPricing && customPricing.unitPrice > 0) {
-              finalUnitPrice = customPricing.unitPrice;
-            }
-          }
-          const finalPackOfPrice =
-            isCustomProduct && additionalServices?.customProductPricing?.[i]
-              ? (additionalServices.customProductPricing[i].packOfPrice || 0)
-              : 0;
-
-          // Collect item data for the combined shipped record
-          allItems.push({
-            productId: shipment.productId,
-            productName: currentInventory.productName,
-            boxesShipped: shipment.quantity,
-            shippedQty: totalUnitsShipped,
-            packOf: effectivePackOf,
-            unitPrice: finalUnitPrice,
-            packOfPrice: finalPackOfPrice,
-            remainingQty: newQuantity,
-          });
-
-          // Accumulate totals
-          totalBoxes += shipment.quantity;
-          totalUnits += totalUnitsShipped;
-          totalSkus += 1;
-        }
-
-        // Create a SINGLE combined shipped record with all products
-        const shipmentDocRef = doc(shippedCollectionRef);
-        const shipmentDoc: any = {
-          productName: firstProduct?.productName || "Multiple Products",
-          date: shippingDate ? Timestamp.fromDate(shippingDate) : (typeof request.date === 'string' ? Timestamp.fromDate(new Date(request.date)) : request.date),
-          createdAt,
-          shippedQty: totalUnits,
-          boxesShipped: totalBoxes,
-          unitsForPricing: totalBoxes,
-          remainingQty: inventoryData[inventoryData.length - 1]?.currentInventory.quantity - inventoryData[inventoryData.length - 1]?.totalUnitsShipped || 0,
-          packOf: inventoryData[0]?.effectivePackOf || inventoryData[0]?.shipment.packOf || 1, // Use first product's packOf for display
-          unitPrice: (() => {
-            // Unit price is per-box (qty), not per-unit (qty*packOf).
-            // For custom products, use admin-set unitPrice and weight by boxes shipped.
-            if (isCustomProduct && additionalServices?.customProductPricing) {
-              let totalPrice = 0;
-              inventoryData.forEach((d, index) => {
-                const customPricing = additionalServices.customProductPricing?.[index];
-                const price = customPricing && customPricing.unitPrice > 0 ? customPricing.unitPrice : d.shipment.unitPrice;
-                totalPrice += price * (d.shipment.quantity || 0);
-              });
-              return totalPrice / totalBoxes || 0;
-            }
-            // For non-custom, we keep the existing behavior (weighted by total units shipped)
-            return inventoryData.reduce((sum, d) => sum + (d.shipment.unitPrice * d.totalUnitsShipped), 0) / totalUnits || 0;
-          })(),
-          packOfPrice: (() => {
-            // For custom products, store the packOfPrice from the first item (or 0). Invoices use item-level pricing too.
-            if (isCustomProduct && additionalServices?.customProductPricing?.[0]) {
-              return additionalServices.customProductPricing[0].packOfPrice || 0;
-            }
-            return 0;
-          })(),
-          remarks: request.remarks,
-          // Map service based on shipmentType
-          service: (() => {
-            if (request.shipmentType === 'box') {
-              return 'Box Forwarding';
-            } else if (request.shipmentType === 'pallet') {
-              if (request.palletSubType === 'forwarding') {
-                return 'Pallet Forwarding';
-              } else if (request.palletSubType === 'existing_inventory') {
-                return 'Pallet Existing Inventory';
-              }
-              return 'Pallet Forwarding';
-            }
-            return request.service || "FBA/WFS/TFS";
-          })(),
-          productType: request.productType || "Standard",
-          shipmentType: request.shipmentType || "product", // Store shipmentType for invoice service mapping
-          remarks: adminRemarks || "", // Use admin remarks instead of user remarks
-          labelUrl: request.labelUrl || "",
-          customDimensions: request.customDimensions || undefined, // Store custom dimensions if present
-          customProductPricing: (isCustomProduct && additionalServices?.customProductPricing)
-            ? additionalServices.customProductPricing
-            : undefined, // Store admin-set pricing for custom products
-          additionalServices: {
-            bubbleWrapFeet,
-            stickerRemovalItems,
-            warningLabels,
-            pricePerFoot,
-            pricePerItem,
-            pricePerLabel,
-            total: additionalServicesTotal,
-          },
-          additionalServicesTotal,
-          items: allItems, // All products in this shipment
-          totalBoxes: totalBoxes,
-          totalUnits: totalUnits,
-          totalSkus: totalSkus,
-          requestedBy: request.requestedBy,
-          confirmedBy: adminProfile.uid,
-          confirmedAt,
-        };
-        
-        // Only include palletSubType if it has a value
-        if (request.palletSubType) {
-          shipmentDoc.palletSubType = request.palletSubType;
-        }
-        
-        // Remove undefined values before saving
-        const cleanedDoc = removeUndefined(shipmentDoc);
-        transaction.set(shipmentDocRef, cleanedDoc);
-
+          shippingDate: shippingDate ? shippingDate.toISOString() : undefined,
+          additionalServices,
+          binPicks,
+          // Prices entered on the confirm screen; other lines are priced by the server
+          unitPrices:
+            request.palletSubType === "existing_inventory"
+              ? Object.fromEntries((request.shipments || []).map((s: any, index: number) => [index, s.unitPrice]))
+              : undefined,
+        }),
       });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof result.error === "string" ? result.error : "Failed to confirm shipment request.");
+      }
+      const confirmedQuantities = new Map<string, number>(
+        (Array.isArray(result.inventory) ? result.inventory : []).map((i: { productId: string; quantity: number }) => [i.productId, i.quantity])
+      );
 
       if (authUser && targetUserId) {
         for (const shipment of request.shipments || []) {
           if (!shipment.productId) continue;
           const invItem = inventory.find((i) => i.id === shipment.productId) as (InventoryItem & { source?: string; shop?: string; shopifyVariantId?: string; shopifyInventoryItemId?: string }) | undefined;
           if (invItem?.source === "shopify" && invItem.shop && invItem.shopifyVariantId) {
-            const totalUnitsShipped = (shipment.quantity || 0) * (shipment.packOf || 1);
-            const newQty = Math.max(0, invItem.quantity - totalUnitsShipped);
+            const newQty = confirmedQuantities.get(shipment.productId) ?? invItem.quantity;
             try {
               const token = await authUser.getIdToken();
               const res = await fetch("/api/shopify/sync-inventory", {
@@ -457,10 +284,59 @@ export function ShipmentRequestsManagement({
 
     setIsProcessing(true);
     try {
-      // Use transaction to ensure atomicity when restoring quantities
-      await runTransaction(db, async (transaction) => {
+      // Read the request in the transaction so a concurrent confirm or reject is seen
+      const restored = await runTransaction(db, async (transaction) => {
         const requestRef = doc(db, `users/${targetUserId}/shipmentRequests`, request.id);
-        
+        const requestDoc = await transaction.get(requestRef);
+        if (!requestDoc.exists()) throw new Error("Shipment request not found.");
+        const stored = requestDoc.data();
+        if (stored.status !== "pending" && stored.status !== "confirmed") {
+          throw new Error(`Shipment request is already ${stored.status || "processed"}.`);
+        }
+
+        // A pending request gives back the units it reserved; a confirmed one puts back the
+        // units, lots and bins it took (bundles through their components). Reads happen before any write.
+        const reservations: ShipmentReservation[] = stored.status === "pending" ? stored.reservations || [] : [];
+        const allocations: ShipmentAllocation[] = stored.status === "confirmed" ? getShipmentAllocations(stored) : [];
+        const [reservedDocs, allocatedDocs] = await Promise.all([
+          Promise.all(reservations.map((r) => transaction.get(doc(db, `users/${targetUserId}/inventory`, r.productId)))),
+          Promise.all(allocations.map((a) => transaction.get(doc(db, `users/${targetUserId}/inventory`, a.productId)))),
+        ]);
+
+        reservedDocs.forEach((inventoryDoc, index) => {
+          if (!inventoryDoc.exists()) return;
+          transaction.update(inventoryDoc.ref, {
+            reservedQuantity: releaseReservedQuantity(inventoryDoc.data().reservedQuantity, reservations[index].quantity),
+          });
+        });
+
+        const restoredQuantities: { productId: string; quantity: number }[] = [];
+        allocatedDocs.forEach((inventoryDoc, index) => {
+          if (!inventoryDoc.exists()) return;
+          const allocation = allocations[index];
+          const currentInventory = inventoryDoc.data() as InventoryItem;
+          const next = returnShipmentAllocation(currentInventory, allocation);
+          const update: Record<string, unknown> = {
+            quantity: next.quantity,
+            status: next.quantity > 0 ? "In Stock" : "Out of Stock",
+          };
+          if (currentInventory.lots?.length || allocation.lots?.length) update.lots = next.lots;
+          if (currentInventory.bins?.length || allocation.bins?.length) update.bins = next.bins;
+          transaction.update(inventoryDoc.ref, update);
+          recordStockMovement(transaction, db, targetUserId, {
+            productId: allocation.productId,
+            productName: currentInventory.productName,
+            type: "adjust",
+            quantityBefore: Number(currentInventory.quantity) || 0,
+            quantityAfter: next.quantity,
+            reason: `Confirmed shipment request rejected: ${reason}`,
+            referencePath: requestRef.path,
+            createdBy: adminProfile.uid,
+            createdByName: adminProfile.name || "Admin",
+          });
+          restoredQuantities.push({ productId: allocation.productId, quantity: next.quantity });
+        });
+
         // Update request status
         transaction.update(requestRef, {
           status: "rejected",
@@ -468,55 +344,13 @@ export function ShipmentRequestsManagement({
           rejectedAt: Timestamp.now(),
           rejectionReason: reason,
         });
-
-        // Restore inventory quantities if request was confirmed (edge case)
-        // Normally quantities are only deducted on confirmation, but we check to be safe
-        if (request.status === "confirmed" && request.shipments) {
-          // Read all inventory documents first
-          const inventoryData = await Promise.all(
-            request.shipments.map(async (shipment) => {
-              if (!shipment.productId) return null;
-              const inventoryDocRef = doc(db, `users/${targetUserId}/inventory`, shipment.productId);
-              const inventoryDoc = await transaction.get(inventoryDocRef);
-              
-              if (!inventoryDoc.exists()) {
-                return null;
-              }
-
-              const currentInventory = inventoryDoc.data() as InventoryItem;
-              const totalUnitsToRestore = shipment.quantity * (shipment.packOf || 1);
-
-              return {
-                shipment,
-                inventoryDocRef,
-                currentInventory,
-                totalUnitsToRestore,
-              };
-            })
-          );
-
-          // Filter out null entries and restore quantities
-          const validInventoryData = inventoryData.filter((item): item is NonNullable<typeof item> => item !== null);
-          
-          for (const { inventoryDocRef, currentInventory, totalUnitsToRestore } of validInventoryData) {
-            const newQuantity = currentInventory.quantity + totalUnitsToRestore;
-            const newStatus = newQuantity > 0 ? "In Stock" : "Out of Stock";
-
-            transaction.update(inventoryDocRef, {
-              quantity: newQuantity,
-              status: newStatus,
-            });
-          }
-        }
+        return restoredQuantities;
       });
 
-      if (request.status === "confirmed" && request.shipments && authUser && targetUserId) {
-        for (const shipment of request.shipments) {
-          if (!shipment.productId) continue;
-          const invItem = inventory.find((i) => i.id === shipment.productId) as (InventoryItem & { source?: string; shop?: string; shopifyVariantId?: string; shopifyInventoryItemId?: string }) | undefined;
+      if (authUser && targetUserId) {
+        for (const { productId, quantity: newQty } of restored) {
+          const invItem = inventory.find((i) => i.id === productId) as (InventoryItem & { source?: string; shop?: string; shopifyVariantId?: string; shopifyInventoryItemId?: string }) | undefined;
           if (invItem?.source === "shopify" && invItem.shop && invItem.shopifyVariantId) {
-            const totalRestore = (shipment.quantity || 0) * (shipment.packOf || 1);
-            const newQty = invItem.quantity + totalRestore;
             try {
               const token = await authUser.getIdToken();
               const res = await fetch("/api/shopify/sync-inventory", {
@@ -606,7 +440,7 @@ export function ShipmentRequestsManagement({
       </div>
 
       {/* Filter */}
-      <div className="flex items-center gap-4">
+      <div className="flex flex-wrap items-center gap-4">
         <Select value={statusFilter} onValueChange={setStatusFilter}>
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Filter by status" />
@@ -618,6 +452,7 @@ export function ShipmentRequestsManagement({
             <SelectItem value="rejected">Rejected</SelectItem>
           </SelectContent>
         </Select>
+        <ScanInput onScan={handleScan} className="w-full sm:w-80" />
       </div>
 
       {/* Requests Table */}
@@ -694,11 +529,19 @@ export function ShipmentRequestsManagement({
                           Review
                         </Button>
                       ) : (
-                        <span className="text-muted-foreground text-sm">
-                          {request.status === "confirmed"
-                            ? `Confirmed ${request.confirmedAt ? formatDate(request.confirmedAt) : ""}`
-                            : `Rejected ${request.rejectedAt ? formatDate(request.rejectedAt) : ""}`}
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-muted-foreground text-sm">
+                            {request.status === "confirmed"
+                              ? `Confirmed ${request.confirmedAt ? formatDate(request.confirmedAt) : ""}`
+                              : `Rejected ${request.rejectedAt ? formatDate(request.rejectedAt) : ""}`}
+                          </span>
+                          {request.status === "confirmed" && request.shipmentType !== "box" && request.shipmentType !== "pallet" && (
+                            <Button variant="ghost" size="sm" onClick={() => setLabelsRequest(request)}>
+                              <Printer className="h-4 w-4 mr-1" />
+                              Labels
+                            </Button>
+                          )}
+                        </div>
                       )}
                     </TableCell>
                   </TableRow>
@@ -714,17 +557,31 @@ export function ShipmentRequestsManagement({
         <ReviewShipmentDialog
           request={selectedRequest}
           inventory={inventory}
+          highlightProductId={scannedProductId}
           onConfirm={handleConfirm}
           onReject={handleReject}
-          onClose={() => setSelectedRequest(null)}
+          onClose={() => {
+            setSelectedRequest(null);
+            setScannedProductId(undefined);
+          }}
           isProcessing={isProcessing}
           additionalServicesPricing={additionalServicesPricing || []}
           pricingRules={pricingRules || []}
+          tierTables={tierTables}
           boxForwardingPricing={boxForwardingPricing}
           palletForwardingPricing={palletForwardingPricing}
         />
       )}
 
+      {labelsRequest && userId && (
+        <FnskuLabelsDialog
+          userId={userId}
+          request={labelsRequest}
+          inventory={inventory}
+          onClose={() => setLabelsRequest(null)}
+        />
+      )}
+
       {/* Remarks Dialog */}
       <Dialog open={selectedRemarks !== null} onOpenChange={(open) => !open && setSelectedRemarks(null)}>
         <DialogContent className="max-w-md max-h-[80vh] overflow-hidden flex flex-col">
@@ -746,17 +603,21 @@ export function ShipmentRequestsManagement({
 function ReviewShipmentDialog({
   request,
   inventory,
+  highlightProductId,
   onConfirm,
   onReject,
   onClose,
   isProcessing,
   additionalServicesPricing,
   pricingRules,
+  tierTables,
   boxForwardingPricing,
   palletForwardingPricing,
 }: {
   request: ShipmentRequest;
   inventory: InventoryItem[];
+  /** Product to scroll to and highlight when the dialog opens (from a barcode scan). */
+  highlightProductId?: string;
   onConfirm: (
     request: ShipmentRequest,
     adminRemarks?: string,
@@ -770,13 +631,15 @@ function ReviewShipmentDialog({
       pricePerLabel?: number;
       totalAdditionalCost?: number;
       customProductPricing?: Record<number, { unitPrice: number; packOf: number; packOfPrice: number }>;
-    }
+    },
+    binPicks?: Record<number, string>
   ) => void;
   onReject: (request: ShipmentRequest, reason: string) => void;
   onClose: () => void;
   isProcessing: boolean;
   additionalServicesPricing: UserAdditionalServicesPricing[] | null;
   pricingRules: UserPricing[] | null;
+  tierTables: PricingTierTable[];
   boxForwardingPricing?: UserBoxForwardingPricing[] | null;
   palletForwardingPricing?: UserPalletForwardingPricing[] | null;
 }) {
@@ -784,6 +647,28 @@ function ReviewShipmentDialog({
   const [adminRemarks, setAdminRemarks] = useState("");
   const [rejectionReason, setRejectionReason] = useState("");
   const [action, setAction] = useState<"confirm" | "reject" | null>(null);
+  const [highlightedLine, setHighlightedLine] = useState<number | null>(() => {
+    const index = highlightProductId ? request.shipments.findIndex((s: any) => s.productId === highlightProductId) : -1;
+    return index >= 0 ? index : null;
+  });
+  const lineRefs = useRef<Record<number, HTMLDivElement | null>>({});
+  useEffect(() => {
+    if (highlightedLine !== null) {
+      lineRefs.current[highlightedLine]?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [highlightedLine]);
+
+  const handleLineScan = (code: string) => {
+    const product = findInventoryByCode(inventory, code);
+    const index = product ? request.shipments.findIndex((s: any) => s.productId === product.id) : -1;
+    if (index < 0) {
+      toast({ variant: "destructive", title: "Not in this request", description: `No line in this request matches ${code}.` });
+      return;
+    }
+    setHighlightedLine(index);
+  };
+  // Bin to pick each line from; lines without one are picked by bin code
+  const [binPicks, setBinPicks] = useState<Record<number, string>>({});
   const [shippingDate, setShippingDate] = useState<Date | undefined>(() => {
     // Initialize with request date if available
     if (request.date) {
@@ -900,14 +785,11 @@ function ReviewShipmentDialog({
     return initial;
   });
 
-  const latestAdditionalPricing = useMemo(() => {
-    if (!additionalServicesPricing || additionalServicesPricing.length === 0) return null;
-    return [...additionalServicesPricing].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === "string" ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === "string" ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (bUpdated as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    })[0];
-  }, [additionalServicesPricing]);
+  // Previews use the rates in effect on the shipping date, as the confirm route does
+  const latestAdditionalPricing = useMemo(
+    () => pricingInEffect(additionalServicesPricing, shippingDate),
+    [additionalServicesPricing, shippingDate]
+  );
 
   const pricePerFoot = latestAdditionalPricing?.bubbleWrapPrice || 0;
   const pricePerItem = latestAdditionalPricing?.stickerRemovalPrice || 0;
@@ -1008,7 +890,7 @@ function ReviewShipmentDialog({
         pricePerLabel,
         totalAdditionalCost: additionalServicesTotal,
         customProductPricing: isCustomProduct ? customProductPricing : undefined,
-      });
+      }, binPicks);
     } else {
       // Old format: use request-level quantities
       onConfirm(requestForConfirm, adminRemarks, shippingDate, {
@@ -1020,7 +902,7 @@ function ReviewShipmentDialog({
         pricePerLabel,
         totalAdditionalCost: additionalServicesTotal,
         customProductPricing: isCustomProduct ? customProductPricing : undefined,
-      });
+      }, binPicks);
     }
   };
 
@@ -1153,15 +1035,23 @@ function ReviewShipmentDialog({
 
           {/* Shipment Items */}
           <div>
-            <label className="text-sm font-medium mb-2 block">Products to Ship</label>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+              <label className="text-sm font-medium">Products to Ship</label>
+              {request.shipments.length > 1 && (
+                <ScanInput onScan={handleLineScan} placeholder="Scan to find a line" className="w-full sm:w-64" />
+              )}
+            </div>
             <div className="space-y-4 border rounded-lg p-4">
               {request.shipments.map((shipment: any, index: number) => {
                 const product = inventory.find(item => item.id === shipment.productId);
+                const bundle: ShipmentBundle | undefined = shipment.bundle;
                 const effectivePackOf = isCustomProduct
                   ? (customProductPricing[index]?.packOf || shipment.packOf || 1)
                   : shipment.packOf;
                 const totalUnits = shipment.quantity * effectivePackOf;
-                const hasEnoughStock = product ? product.quantity >= totalUnits : false;
+                // Compare with on-hand stock: the request's own units are part of the reserved quantity
+                const bundleStock = bundle ? getBundleAvailability(bundle, inventory.map((i) => ({ ...i, reservedQuantity: 0 }))) : 0;
+                const hasEnoughStock = bundle ? bundleStock >= totalUnits : product ? product.quantity >= totalUnits : false;
                 
                 // Get selected services for this shipment (new format) or use request-level (old format)
                 const shipmentSelectedServices = hasPerShipmentServices 
@@ -1187,32 +1077,16 @@ function ReviewShipmentDialog({
                 
                 // Use box/pallet forwarding pricing for box and pallet shipments
                 if (request.shipmentType === "box" && boxForwardingPricing && boxForwardingPricing.length > 0) {
-                  // Get the most recent box forwarding pricing
-                  const latestBoxPricing = [...boxForwardingPricing].sort((a, b) => {
-                    const aUpdated = typeof a.updatedAt === 'string' 
-                      ? new Date(a.updatedAt).getTime() 
-                      : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-                    const bUpdated = typeof b.updatedAt === 'string' 
-                      ? new Date(b.updatedAt).getTime() 
-                      : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-                    return bUpdated - aUpdated;
-                  })[0];
+                  // Box forwarding pricing in effect on the shipping date
+                  const latestBoxPricing = pricingInEffect(boxForwardingPricing, shippingDate);
                   if (latestBoxPricing) {
                     unitPrice = latestBoxPricing.price;
                   }
                 } else if (request.shipmentType === "pallet") {
                   const palletSubType = request.palletSubType;
                   if (palletSubType === "forwarding" && palletForwardingPricing && palletForwardingPricing.length > 0) {
-                    // Get the most recent pallet forwarding pricing
-                    const latestPalletForwarding = [...palletForwardingPricing].sort((a, b) => {
-                      const aUpdated = typeof a.updatedAt === 'string' 
-                        ? new Date(a.updatedAt).getTime() 
-                        : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-                      const bUpdated = typeof b.updatedAt === 'string' 
-                        ? new Date(b.updatedAt).getTime() 
-                        : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-                      return bUpdated - aUpdated;
-                    })[0];
+                    // Pallet forwarding pricing in effect on the shipping date
+                    const latestPalletForwarding = pricingInEffect(palletForwardingPricing, shippingDate);
                     if (latestPalletForwarding) {
                       unitPrice = latestPalletForwarding.price;
                     }
@@ -1234,7 +1108,9 @@ function ReviewShipmentDialog({
                       pricingRules,
                       request.service,
                       request.productType,
-                      shipment.quantity // Use quantity to get correct pricing tier
+                      shipment.quantity, // Use quantity to get correct pricing tier
+                      isTieredService(request.service) ? getServiceTiers(tierTables, request.service) : undefined,
+                      shippingDate
                     );
                     if (calculatedPrice) {
                       // Use the calculated rate from pricing rules (this is the correct unit price)
@@ -1262,10 +1138,29 @@ function ReviewShipmentDialog({
                 const productTotal = baseTotal + packCharge;
 
                 return (
-                  <div key={index} className="border-b last:border-b-0 pb-4 last:pb-0 space-y-3">
+                  <div
+                    key={index}
+                    ref={(el) => {
+                      lineRefs.current[index] = el;
+                    }}
+                    className={`border-b last:border-b-0 pb-4 last:pb-0 space-y-3 ${highlightedLine === index ? "rounded-md bg-primary/5 ring-2 ring-primary p-2" : ""}`}
+                  >
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
-                        <p className="font-medium text-base">{product?.productName || "Unknown Product"}</p>
+                        <p className="font-medium text-base">{bundle ? `${bundle.name} (bundle)` : product?.productName || "Unknown Product"}</p>
+                        {bundle && (
+                          <ul className="mt-1 text-xs text-muted-foreground">
+                            {bundle.components.map((c) => {
+                              const component = inventory.find((i) => i.id === c.productId);
+                              return (
+                                <li key={c.productId}>
+                                  {c.quantity * totalUnits} × {component?.productName || c.productName}
+                                  <span className="ml-1">(stock {component ? component.quantity : "not found"})</span>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
                         
                         {/* Product Details */}
                         <div className="mt-2 space-y-1">
@@ -1299,6 +1194,20 @@ function ReviewShipmentDialog({
                           </div>
                         </div>
 
+                        {request.status === "pending" && product && getOnHandBins(product).length > 0 && (
+                          <div className="mt-3 space-y-1">
+                            <label className="text-xs text-muted-foreground">Pick From Bin</label>
+                            <BinSelect
+                              bins={[]}
+                              stock={getOnHandBins(product)}
+                              value={binPicks[index] || ""}
+                              onChange={(binId) => setBinPicks((prev) => ({ ...prev, [index]: binId }))}
+                              noneLabel="Auto (by bin code)"
+                              className="h-8 text-xs"
+                            />
+                          </div>
+                        )}
+
                         {/* Pricing Breakdown - Editable for Custom Products / Manual for Pallet Existing Inventory */}
                         {isCustomProduct ? (
                           <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
@@ -1426,9 +1335,9 @@ function ReviewShipmentDialog({
                         )}
                       </div>
                       <div className="text-right ml-4">
-                        {product ? (
+                        {product || bundle ? (
                           <>
-                            <p className="text-sm">Stock: {product.quantity}</p>
+                            <p className="text-sm">{bundle ? `Can build: ${bundleStock}` : `Stock: ${product?.quantity}`}</p>
                             {hasEnoughStock ? (
                               <Badge variant="default" className="mt-1">Available</Badge>
                             ) : (
@@ -1572,7 +1481,9 @@ function ReviewShipmentDialog({
                   pricingRules,
                   request.service,
                   request.productType,
-                  shipment.quantity
+                  shipment.quantity,
+                  isTieredService(request.service) ? getServiceTiers(tierTables, request.service) : undefined,
+                  shippingDate
                 );
                 if (calculatedPrice) {
                   unitPrice = calculatedPrice.rate || shipment.unitPrice || 0;
@@ -0,0 +1,278 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { doc, runTransaction, type Transaction } from "firebase/firestore";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, Loader2, Scale } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCollection } from "@/hooks/use-collection";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { db } from "@/lib/firebase";
+import { findStockLedgerDrift, recordStockMovement, stockMovementsPath, type StockLedgerDrift } from "@/lib/stock-ledger";
+import type { InventoryItem, StockMovement, StockMovementType, UserProfile } from "@/types";
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receive: "Receive",
+  ship: "Ship",
+  adjust: "Adjust",
+  cycle_count: "Cycle count",
+  dispose: "Dispose",
+  return: "Return",
+  integration_sync: "Integration sync",
+};
+
+/** The item's stored quantity as read in `transaction`, refusing to act on a drift row that has gone stale. */
+async function readStoredQuantity(
+  transaction: Transaction,
+  userId: string,
+  row: StockLedgerDrift
+): Promise<number> {
+  const snap = await transaction.get(doc(db, `users/${userId}/inventory`, row.productId));
+  const storedQuantity = snap.exists() ? Number(snap.data()?.quantity) || 0 : 0;
+  if (storedQuantity !== row.storedQuantity) {
+    throw new Error(`${row.productName} changed to ${storedQuantity} units since this view loaded. Review it again.`);
+  }
+  return storedQuantity;
+}
+
+function movementTime(value: StockMovement["createdAt"]): number {
+  if (!value) return 0;
+  if (typeof value === "string") return new Date(value).getTime();
+  if (typeof value === "object" && "seconds" in value) return value.seconds * 1000;
+  return 0;
+}
+
+export function StockLedgerReconciliation({
+  selectedUser,
+  inventory,
+}: {
+  selectedUser: UserProfile;
+  inventory: InventoryItem[];
+}) {
+  const { toast } = useToast();
+  const { userProfile: adminProfile } = useAuth();
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [productFilter, setProductFilter] = useState<string>("all");
+  const [search, setSearch] = useState("");
+
+  const { data: movements, loading } = useCollection<StockMovement>(
+    selectedUser?.uid ? stockMovementsPath(selectedUser.uid) : ""
+  );
+
+  const driftRows = useMemo(() => findStockLedgerDrift(inventory, movements), [inventory, movements]);
+
+  const filteredMovements = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return [...movements]
+      .filter((m) => productFilter === "all" || m.productId === productFilter)
+      .filter((m) => !term || m.productName.toLowerCase().includes(term) || (m.reason || "").toLowerCase().includes(term))
+      .sort((a, b) => movementTime(b.createdAt) - movementTime(a.createdAt))
+      .slice(0, 100);
+  }, [movements, productFilter, search]);
+
+  // Post the difference as an adjustment so the ledger agrees with the stored quantity
+  // (used for opening balances of items created before the ledger existed).
+  const handleAcceptStored = async (row: StockLedgerDrift) => {
+    if (!adminProfile) return;
+    setProcessingId(row.productId);
+    try {
+      await runTransaction(db, async (transaction) => {
+        const storedQuantity = await readStoredQuantity(transaction, selectedUser.uid, row);
+        recordStockMovement(transaction, db, selectedUser.uid, {
+          productId: row.productId,
+          productName: row.productName,
+          type: "adjust",
+          quantityBefore: row.ledgerQuantity,
+          quantityAfter: storedQuantity,
+          reason: row.movementCount === 0 ? "Opening balance" : "Reconciliation: ledger aligned to stored quantity",
+          createdBy: adminProfile.uid,
+          createdByName: adminProfile.name || "Admin",
+        });
+      });
+      toast({ title: "Ledger adjusted", description: `${row.productName}: ledger now matches ${row.storedQuantity} units.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to post adjustment." });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // Overwrite the stored quantity with the ledger-derived quantity (ledger is the source of truth).
+  const handleRestoreFromLedger = async (row: StockLedgerDrift) => {
+    setProcessingId(row.productId);
+    try {
+      await runTransaction(db, async (transaction) => {
+        await readStoredQuantity(transaction, selectedUser.uid, row);
+        transaction.update(doc(db, `users/${selectedUser.uid}/inventory`, row.productId), {
+          quantity: row.ledgerQuantity,
+          status: row.ledgerQuantity > 0 ? "In Stock" : "Out of Stock",
+        });
+      });
+      toast({ title: "Quantity restored", description: `${row.productName} set to ${row.ledgerQuantity} units from the ledger.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to restore quantity." });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Ledger Reconciliation
+          </CardTitle>
+          <CardDescription>
+            Stored quantities compared with the sum of {selectedUser.name}&apos;s stock movements. Any difference means
+            inventory was changed outside the ledger.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : driftRows.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle2 className="h-4 w-4" />
+              All {inventory.length} item(s) match the ledger.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Stored</TableHead>
+                  <TableHead className="text-right">Ledger</TableHead>
+                  <TableHead className="text-right">Drift</TableHead>
+                  <TableHead>Movements</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {driftRows.map((row) => (
+                  <TableRow key={row.productId}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0" />
+                        <span>{row.productName}</span>
+                        {row.missingFromInventory && <Badge variant="outline">Deleted</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.storedQuantity}</TableCell>
+                    <TableCell className="text-right">{row.ledgerQuantity}</TableCell>
+                    <TableCell className={`text-right font-semibold ${row.drift > 0 ? "text-amber-600" : "text-red-600"}`}>
+                      {row.drift > 0 ? `+${row.drift}` : row.drift}
+                    </TableCell>
+                    <TableCell>{row.movementCount === 0 ? <Badge variant="secondary">No history</Badge> : row.movementCount}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={processingId === row.productId}
+                          onClick={() => handleAcceptStored(row)}
+                        >
+                          {processingId === row.productId && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          {row.movementCount === 0 ? "Post opening balance" : "Accept stored"}
+                        </Button>
+                        {!row.missingFromInventory && row.movementCount > 0 && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={processingId === row.productId}
+                            onClick={() => handleRestoreFromLedger(row)}
+                          >
+                            Restore from ledger
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock Movements ({movements.length})</CardTitle>
+          <CardDescription>Append-only history of every receive, ship, adjust, dispose, return and integration sync.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Search product or reason..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="sm:max-w-xs"
+            />
+            <Select value={productFilter} onValueChange={setProductFilter}>
+              <SelectTrigger className="sm:w-[240px]">
+                <SelectValue placeholder="All products" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All products</SelectItem>
+                {inventory.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.productName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {loading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : filteredMovements.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">No stock movements recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">After</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMovements.map((m) => (
+                  <TableRow key={m.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {movementTime(m.createdAt) ? format(new Date(movementTime(m.createdAt)), "MMM dd, yyyy HH:mm") : "N/A"}
+                    </TableCell>
+                    <TableCell className="font-medium">{m.productName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{MOVEMENT_LABELS[m.type] || m.type}</Badge>
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${m.quantityDelta >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {m.quantityDelta > 0 ? `+${m.quantityDelta}` : m.quantityDelta}
+                    </TableCell>
+                    <TableCell className="text-right">{m.quantityAfter}</TableCell>
+                    <TableCell>{m.createdByName || m.createdBy}</TableCell>
+                    <TableCell className="max-w-[240px] truncate">{m.reason || "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
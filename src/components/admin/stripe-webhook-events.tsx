@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { collection, limit, orderBy, query } from "firebase/firestore";
+import { format } from "date-fns";
+import { Loader2, RotateCw, Webhook } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toDate } from "@/lib/date-utils";
+import { isReplayableWebhookEvent, STRIPE_WEBHOOK_EVENTS_COLLECTION } from "@/lib/stripe-webhook-events";
+import type { StripeWebhookEvent } from "@/types";
+
+const RECENT_EVENTS = 200;
+
+const STATUS_VARIANTS: Record<StripeWebhookEvent["status"], "default" | "secondary" | "destructive"> = {
+  processed: "default",
+  processing: "secondary",
+  failed: "destructive",
+};
+
+/** Recent Stripe webhook deliveries and how they were handled, with replay for failed ones. */
+export function StripeWebhookEvents() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<"all" | "attention">("attention");
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const eventsQuery = useMemo(
+    () =>
+      query(collection(db, STRIPE_WEBHOOK_EVENTS_COLLECTION), orderBy("receivedAt", "desc"), limit(RECENT_EVENTS)),
+    []
+  );
+  const { data: events, loading } = useCollection<StripeWebhookEvent>(STRIPE_WEBHOOK_EVENTS_COLLECTION, eventsQuery);
+
+  const now = new Date();
+  const visibleEvents =
+    statusFilter === "all" ? events : events.filter((event) => isReplayableWebhookEvent(event, now));
+
+  const handleReplay = async (event: StripeWebhookEvent) => {
+    setReplayingId(event.id);
+    try {
+      const idToken = user ? await user.getIdToken() : "";
+      if (!idToken) throw new Error("Please re-login and try again.");
+      const res = await fetch("/api/admin/stripe-webhook-events/replay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+        body: JSON.stringify({ eventId: event.id }),
+      });
+      const payload = await res.json().catch(() => ({} as any));
+      if (!res.ok) throw new Error(payload?.details || payload?.error || "Replay failed.");
+      toast({
+        title: "Event Replayed",
+        description:
+          payload.outcome === "processed" ? `${event.type} was handled.` : `${event.type} was already handled.`,
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Replay Failed", description: error.message || "Replay failed." });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const formatDate = (value: unknown) => {
+    const date = toDate(value);
+    return date ? format(date, "MMM d, yyyy h:mm:ss a") : "—";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Stripe Webhook Deliveries
+            </CardTitle>
+            <CardDescription>
+              The last {RECENT_EVENTS} events from Stripe. Each event is handled once; replay one that failed.
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as "all" | "attention")}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="attention">Needs attention</SelectItem>
+              <SelectItem value="all">All events</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading webhook events...</p>
+        ) : visibleEvents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {statusFilter === "all" ? "No webhook events received yet." : "No failed or stalled events."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Object</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleEvents.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(event.receivedAt)}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{event.type}</p>
+                      <p className="text-xs text-muted-foreground break-all">{event.id}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-xs break-all">{event.objectId || "—"}</p>
+                      {event.purpose && <p className="text-xs text-muted-foreground">{event.purpose}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[event.status] || "secondary"}>{event.status}</Badge>
+                      {event.error && <p className="text-xs text-destructive mt-1 max-w-xs break-words">{event.error}</p>}
+                      {event.processedAt && (
+                        <p className="text-xs text-muted-foreground mt-1">{formatDate(event.processedAt)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{event.attempts || 0}</TableCell>
+                    <TableCell className="text-right">
+                      {isReplayableWebhookEvent(event, now) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleReplay(event)}
+                          disabled={replayingId !== null}
+                        >
+                          {replayingId === event.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <RotateCw className="h-4 w-4 mr-2" />
+                          )}
+                          Replay
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, startOfYear } from "date-fns";
+import { Download, FileText, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AGING_BUCKETS, statementToCsv, type AccountStatement } from "@/lib/account-statements";
+import { generateStatementPDF } from "@/lib/invoice-generator";
+import { downloadCSV } from "@/lib/csv-utils";
+
+function money(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(Number(value) || 0).toFixed(2)}`;
+}
+
+/**
+ * Builds an account statement for a date range and downloads it as PDF or CSV. Clients get their
+ * own statement; admins pass `clients` to pick whose.
+ */
+export function AccountStatementDialog({
+  open,
+  onOpenChange,
+  clients,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clients?: { uid: string; name: string }[];
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [clientId, setClientId] = useState("");
+  const [start, setStart] = useState(() => format(startOfYear(new Date()), "yyyy-MM-dd"));
+  const [end, setEnd] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [statement, setStatement] = useState<AccountStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setStatement(null);
+  }, [clientId, start, end]);
+
+  const handleGenerate = async () => {
+    setIsLoading(true);
+    try {
+      const idToken = user ? await user.getIdToken() : "";
+      if (!idToken) throw new Error("Please re-login and try again.");
+      const params = new URLSearchParams({ start, end, ...(clientId ? { userId: clientId } : {}) });
+      const res = await fetch(`/api/invoices/statement?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${idToken}` },
+      });
+      const payload = await res.json().catch(() => ({} as any));
+      if (!res.ok) throw new Error(payload?.details || payload?.error || "Failed to build statement.");
+      setStatement(payload.statement as AccountStatement);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to build statement." });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!statement) return;
+    try {
+      await generateStatementPDF(statement);
+    } catch (error: any) {
+      console.error("Error generating statement PDF:", error);
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to generate PDF." });
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    if (!statement) return;
+    downloadCSV(statementToCsv(statement), `Statement-${statement.start}-to-${statement.end}.csv`);
+  };
+
+  const needsClient = !!clients && !clientId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Account Statement</DialogTitle>
+          <DialogDescription>
+            Invoices, credit notes and payments for the period with a running balance, and what is still open by age.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {clients && (
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((client) => (
+                    <SelectItem key={client.uid} value={client.uid}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="statement-start">From</Label>
+              <Input id="statement-start" type="date" value={start} max={end} onChange={(e) => setStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-end">To</Label>
+              <Input id="statement-end" type="date" value={end} min={start} onChange={(e) => setEnd(e.target.value)} />
+            </div>
+          </div>
+
+          {statement && (
+            <div className="rounded-lg border p-3 space-y-3 text-sm">
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <p className="text-muted-foreground">Opening Balance</p>
+                  <p className="font-semibold">{money(statement.openingBalance)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Entries</p>
+                  <p className="font-semibold">{statement.lines.length}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Closing Balance</p>
+                  <p className="font-semibold">{money(statement.closingBalance)}</p>
+                </div>
+              </div>
+              <div className="grid grid-cols-5 gap-2 border-t pt-3 text-xs">
+                {AGING_BUCKETS.map(({ key, label }) => (
+                  <div key={key}>
+                    <p className="text-muted-foreground">{label}</p>
+                    <p className="font-semibold">{money(statement.aging[key])}</p>
+                  </div>
+                ))}
+                <div>
+                  <p className="text-muted-foreground">Unapplied credit</p>
+                  <p className="font-semibold text-green-700">{money(-statement.unappliedCredit)}</p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {statement ? (
+            <>
+              <Button variant="outline" onClick={handleDownloadCsv}>
+                <Download className="h-4 w-4 mr-2" />
+                Download CSV
+              </Button>
+              <Button onClick={handleDownloadPdf}>
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleGenerate} disabled={isLoading || needsClient || !start || !end || start > end}>
+              {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+              Generate Statement
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -34,6 +34,8 @@ const inventoryRequestSchema = z.object({
   containerSize: z.enum(["20 feet", "40 feet"]).optional(), // For container type
   quantity: z.coerce.number().int().positive("Quantity must be a positive number."),
   remarks: z.string().optional(), // Optional remarks field
+  lotNumber: z.string().optional(),
+  expirationDate: z.string().optional(), // yyyy-MM-dd from the date input
 }).refine((data) => {
   // For product type, productSubType is required
   if (data.inventoryType === "product" && !data.productSubType) {
@@ -88,6 +90,8 @@ export function AddInventoryRequestForm() {
       containerSize: undefined,
       quantity: 1,
       remarks: "",
+      lotNumber: "",
+      expirationDate: "",
     },
   });
 
@@ -314,6 +318,16 @@ export function AddInventoryRequestForm() {
         }
       }
 
+      // Lot/expiry only apply to products; admin turns them into a lot on approval
+      if (values.inventoryType === "product") {
+        if (values.lotNumber && values.lotNumber.trim()) {
+          requestData.lotNumber = values.lotNumber.trim();
+        }
+        if (values.expirationDate) {
+          requestData.expirationDate = values.expirationDate;
+        }
+      }
+
       // Include remarks if provided (trim whitespace)
       if (values.remarks && values.remarks.trim()) {
         requestData.remarks = values.remarks.trim();
@@ -335,6 +349,8 @@ export function AddInventoryRequestForm() {
         containerSize: undefined,
         quantity: 1,
         remarks: "",
+        lotNumber: "",
+        expirationDate: "",
       });
       setOpen(false);
     } catch (error: any) {
@@ -641,6 +657,38 @@ export function AddInventoryRequestForm() {
               )}
             />
 
+            {/* Lot / Expiry - Only for products */}
+            {inventoryType === "product" && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="lotNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lot / Batch Number (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., LOT-2024-01" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expirationDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expiration Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             {/* Remarks Field - Available for all inventory types */}
             <FormField
               control={form.control}
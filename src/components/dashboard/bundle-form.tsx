@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { saveBundle, validateBundle } from "@/lib/bundles";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { InventoryItem, ProductBundle } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ComponentDraft = { productId: string; quantity: string };
+
+/** Create or edit a bundle. Components are limited to warehouse items; integration items are synced from the store. */
+export function BundleFormDialog({
+  open,
+  onOpenChange,
+  inventory,
+  bundles,
+  bundle,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  inventory: InventoryItem[];
+  bundles: ProductBundle[];
+  bundle?: ProductBundle | null;
+}) {
+  const { toast } = useToast();
+  const { userProfile } = useAuth();
+  const [name, setName] = useState("");
+  const [sku, setSku] = useState("");
+  const [components, setComponents] = useState<ComponentDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const products = useMemo(
+    () =>
+      inventory
+        .filter((item) => !item.source && !["box", "pallet", "container"].includes((item as any).inventoryType))
+        .sort((a, b) => a.productName.localeCompare(b.productName)),
+    [inventory]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setName(bundle?.name || "");
+    setSku(bundle?.sku || "");
+    setComponents(
+      bundle?.components.map((c) => ({ productId: c.productId, quantity: String(c.quantity) })) || [{ productId: "", quantity: "1" }]
+    );
+  }, [open, bundle]);
+
+  const updateComponent = (index: number, update: Partial<ComponentDraft>) =>
+    setComponents((prev) => prev.map((c, i) => (i === index ? { ...c, ...update } : c)));
+
+  const handleSave = async () => {
+    if (!userProfile) return;
+    const input = {
+      name,
+      sku,
+      components: components
+        .filter((c) => c.productId)
+        .map((c) => ({
+          productId: c.productId,
+          productName: products.find((p) => p.id === c.productId)?.productName || "",
+          quantity: Number(c.quantity),
+        })),
+    };
+    const errors = validateBundle(input, inventory, bundles, bundle?.id);
+    if (errors.length > 0) {
+      toast({ variant: "destructive", title: "Check the bundle", description: errors.join(" ") });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveBundle(db, userProfile.uid, input, bundle?.id);
+      toast({ title: "Success", description: bundle ? "Bundle updated." : "Bundle created." });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to save bundle." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{bundle ? "Edit Bundle" : "New Bundle"}</DialogTitle>
+          <DialogDescription>
+            Use the SKU your store sells the bundle under. Shipping or selling one takes these units from your inventory.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="bundle-name">Name</Label>
+              <Input id="bundle-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Starter Kit" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bundle-sku">Bundle SKU</Label>
+              <Input id="bundle-sku" value={sku} onChange={(e) => setSku(e.target.value)} className="font-mono" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Components</Label>
+            {components.map((component, index) => (
+              <div key={index} className="grid gap-2 grid-cols-[1fr_6rem_auto]">
+                <Select value={component.productId} onValueChange={(v) => updateComponent(index, { productId: v })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.productName}
+                        {p.sku ? ` (${p.sku})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  value={component.quantity}
+                  onChange={(e) => updateComponent(index, { quantity: e.target.value })}
+                  aria-label="Units per bundle"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={components.length === 1}
+                  onClick={() => setComponents((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setComponents((prev) => [...prev, { productId: "", quantity: "1" }])}>
+              <Plus className="h-3 w-3 mr-1" />
+              Add Component
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Bundle
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
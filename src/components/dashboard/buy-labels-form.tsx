@@ -14,10 +14,11 @@ import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Loader2, ShoppingCart, MapPin, Package, CreditCard } from "lucide-react";
+import { Loader2, ShoppingCart, MapPin, Package, CreditCard, Wallet } from "lucide-react";
 import { loadStripe } from "@stripe/stripe-js";
 import { Elements } from "@stripe/react-stripe-js";
 import { getStripePublishableKey } from "@/lib/stripe";
+import { walletBalance } from "@/lib/wallet";
 import { PaymentDialog } from "./payment-dialog";
 import type { ShippingAddress, ParcelDetails, ShippingRate } from "@/types";
 
@@ -134,6 +135,7 @@ export function BuyLabelsForm() {
   const { toast } = useToast();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
+  const [payingFromWallet, setPayingFromWallet] = useState(false);
   const [loadingRates, setLoadingRates] = useState(false);
   const [rates, setRates] = useState<ShippingRate[]>([]);
   const [selectedRate, setSelectedRate] = useState<ShippingRate | null>(null);
@@ -253,6 +255,39 @@ export function BuyLabelsForm() {
     }
   };
 
+  // Request body shared by card payments and wallet payments
+  const labelPurchaseRequest = (rate: ShippingRate, userId: string) => {
+    const formData = form.getValues();
+
+    // Convert pounds and ounces to total weight in ounces, then to pounds
+    const totalWeightOunces = (formData.parcel.weightPounds * 16) + formData.parcel.weightOunces;
+    const totalWeightPounds = totalWeightOunces / 16;
+
+    // Prepare parcel data for API
+    const parcelData = {
+      ...formData.parcel,
+      weight: totalWeightPounds,
+      weightUnit: "lb" as const,
+    };
+
+    return {
+      userId,
+      amount: Math.round(parseFloat(rate.amount) * 100), // Convert to cents
+      currency: rate.currency.toLowerCase(),
+      fromAddress: formData.fromAddress,
+      toAddress: formData.toAddress,
+      parcel: parcelData,
+      selectedRate: {
+        objectId: rate.object_id,
+        amount: rate.amount,
+        currency: rate.currency,
+        provider: rate.provider,
+        serviceLevel: rate.servicelevel.name,
+        shipmentId: shipmentId || (rate as any).shipment,
+      },
+    };
+  };
+
   const handlePurchaseLabel = async () => {
     if (!selectedRate || !user) {
       toast({
@@ -263,43 +298,18 @@ export function BuyLabelsForm() {
       return;
     }
 
-    const formData = form.getValues();
     setLoading(true);
 
     try {
-      // Convert pounds and ounces to total weight in ounces, then to pounds
-      const totalWeightOunces = (formData.parcel.weightPounds * 16) + formData.parcel.weightOunces;
-      const totalWeightPounds = totalWeightOunces / 16;
-      
-      // Prepare parcel data for API
-      const parcelData = {
-        ...formData.parcel,
-        weight: totalWeightPounds,
-        weightUnit: "lb" as const,
-      };
-
       // Create payment intent
+      const idToken = await user.getIdToken();
       const paymentResponse = await fetch("/api/stripe/create-payment", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${idToken}`,
         },
-        body: JSON.stringify({
-          userId: user.uid,
-          amount: Math.round(parseFloat(selectedRate.amount) * 100), // Convert to cents
-          currency: selectedRate.currency.toLowerCase(),
-          fromAddress: formData.fromAddress,
-          toAddress: formData.toAddress,
-          parcel: parcelData,
-          selectedRate: {
-            objectId: selectedRate.object_id,
-            amount: selectedRate.amount,
-            currency: selectedRate.currency,
-            provider: selectedRate.provider,
-            serviceLevel: selectedRate.servicelevel.name,
-            shipmentId: shipmentId || (selectedRate as any).shipment,
-          },
-        }),
+        body: JSON.stringify(labelPurchaseRequest(selectedRate, user.uid)),
       });
 
       if (!paymentResponse.ok) {
@@ -327,6 +337,42 @@ export function BuyLabelsForm() {
     }
   };
 
+  const handlePayFromWallet = async () => {
+    if (!selectedRate || !user) return;
+
+    setPayingFromWallet(true);
+    try {
+      const idToken = await user.getIdToken();
+      const response = await fetch("/api/wallet/pay-label", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify(labelPurchaseRequest(selectedRate, user.uid)),
+      });
+      const payload = await response.json().catch(() => ({} as any));
+      if (!response.ok) {
+        throw new Error(payload?.details || payload?.error || "Failed to pay from wallet");
+      }
+
+      toast({
+        title: "Label Purchased",
+        description: "The label was paid from your wallet.",
+      });
+      handlePaymentSuccess();
+    } catch (error: any) {
+      console.error("Error paying label from wallet:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to pay from wallet. Please try again.",
+      });
+    } finally {
+      setPayingFromWallet(false);
+    }
+  };
+
   const handlePaymentSuccess = () => {
     // Reset form after successful payment
     form.reset();
@@ -942,7 +988,7 @@ export function BuyLabelsForm() {
               {selectedRate && (
                 <Button
                   onClick={handlePurchaseLabel}
-                  disabled={loading}
+                  disabled={loading || payingFromWallet}
                   className="w-full mt-4"
                   size="lg"
                 >
@@ -959,6 +1005,25 @@ export function BuyLabelsForm() {
                   )}
                 </Button>
               )}
+
+              {selectedRate &&
+                selectedRate.currency.toLowerCase() === "usd" &&
+                walletBalance(userProfile) >= parseFloat(selectedRate.amount) && (
+                  <Button
+                    onClick={handlePayFromWallet}
+                    disabled={loading || payingFromWallet}
+                    variant="outline"
+                    className="w-full"
+                    size="lg"
+                  >
+                    {payingFromWallet ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Wallet className="mr-2 h-4 w-4" />
+                    )}
+                    Pay from Wallet (${walletBalance(userProfile).toFixed(2)} available)
+                  </Button>
+                )}
             </div>
           )}
         </CardContent>
@@ -3,7 +3,7 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useFieldArray, useForm } from "react-hook-form";
 import * as z from "zod";
-import { collection, addDoc, Timestamp } from "firebase/firestore";
+import { collection, doc, Timestamp } from "firebase/firestore";
 import { useMemo, useState, useEffect } from "react";
 
 import { Button } from "@/components/ui/button";
@@ -15,7 +15,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { DatePicker } from "@/components/ui/date-picker";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
-import type { ServiceType, ProductType, UserPricing, UserBoxForwardingPricing, UserPalletForwardingPricing, UserPalletExistingInventoryPricing, UserAdditionalServicesPricing } from "@/types";
+import type { ServiceType, ProductType, ProductBundle, ProductPackaging, UserPricing, UserBoxForwardingPricing, UserPalletForwardingPricing, UserPalletExistingInventoryPricing, UserAdditionalServicesPricing } from "@/types";
 
 // Define InventoryItem locally since it's not exported from @/types
 interface InventoryItem {
@@ -24,6 +24,7 @@ interface InventoryItem {
   quantity: number;
   status: string;
   inventoryType?: string;
+  packaging?: ProductPackaging;
   [key: string]: any;
 }
 import { Checkbox } from "@/components/ui/checkbox";
@@ -31,6 +32,16 @@ import { useAuth } from "@/hooks/use-auth";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useCollection } from "@/hooks/use-collection";
 import { calculatePrepUnitPrice } from "@/lib/pricing-utils";
+import { getServiceTiers } from "@/lib/pricing-tiers";
+import { usePricingTiers } from "@/hooks/use-pricing-tiers";
+import { getAvailableQuantity, getReservedQuantity, submitShipmentRequestsWithReservations } from "@/lib/inventory-reservations";
+import { bundlesPath, getBundleAvailability, toShipmentBundle } from "@/lib/bundles";
+import { describePackagedQuantity, getUnitsPerCase } from "@/lib/packaging";
+import { withServerPrices } from "@/lib/pricing-quote";
+import { pricingInEffect } from "@/lib/pricing-history";
+
+// Bundles are listed with the products under this id prefix; their lines are saved with the bundle instead of a productId.
+const BUNDLE_ITEM_PREFIX = "bundle:";
 
 const shipmentItemSchema = z.object({
   productId: z.string().min(1, "Select a product."),
@@ -130,6 +141,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
   const { data: pricingRules } = useCollection<UserPricing>(
     userProfile ? `users/${userProfile.uid}/pricing` : ""
   );
+  const { tierTables } = usePricingTiers(userProfile?.uid);
   
   // Fetch forwarding pricing
   const { data: boxForwardingPricing, loading: boxForwardingPricingLoading } = useCollection<UserBoxForwardingPricing>(
@@ -155,10 +167,33 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
   const service = form.watch("service");
   const productType = form.watch("productType");
   const shipments = form.watch("shipments");
+  // Previews use the rates in effect on the shipping date
+  const shippingDate = form.watch("date");
   
   // Calculate if this is a custom product - calculate at component level for proper reactivity
   const isCustomProduct = shipmentType === "product" && productType === "Custom";
 
+  const { data: bundles } = useCollection<ProductBundle>(
+    userProfile ? bundlesPath(userProfile.uid) : ""
+  );
+
+  // Product shipments can also ship bundles; a bundle's availability comes from its components
+  const shippableInventory = useMemo<InventoryItem[]>(() => {
+    if (shipmentType !== "product") return inventory;
+    const bundleItems = bundles.map((bundle) => {
+      const available = getBundleAvailability(bundle, inventory);
+      return {
+        id: `${BUNDLE_ITEM_PREFIX}${bundle.id}`,
+        productName: `${bundle.name} (bundle)`,
+        sku: bundle.sku,
+        quantity: available,
+        status: available > 0 ? "In Stock" : "Out of Stock",
+        inventoryType: "product",
+      };
+    });
+    return [...inventory, ...bundleItems];
+  }, [shipmentType, inventory, bundles]);
+
   // Get box forwarding price - calculate once and reuse
   const boxForwardingPrice = useMemo(() => {
     if (shipmentType !== "box") {
@@ -182,11 +217,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
     
     console.log("[PRICING DEBUG] Pricing array length:", boxForwardingPricing.length);
     
-    const latestBoxPricing = [...boxForwardingPricing].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    })[0];
+    const latestBoxPricing = pricingInEffect(boxForwardingPricing, shippingDate);
     
     console.log("[PRICING DEBUG] Latest box pricing:", latestBoxPricing);
     
@@ -202,7 +233,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
     }
     console.log("[PRICING DEBUG] ❌ No valid price found");
     return null;
-  }, [shipmentType, boxForwardingPricing, boxForwardingPricingLoading, userProfile]);
+  }, [shipmentType, boxForwardingPricing, boxForwardingPricingLoading, userProfile, shippingDate]);
 
   // Auto-calculate unit price based on shipment type
   useEffect(() => {
@@ -245,7 +276,9 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
             pricingRules,
             service as ServiceType,
             productType,
-            totalUnits
+            totalUnits,
+            getServiceTiers(tierTables, service),
+            shippingDate
           );
 
           if (calculatedPrice) {
@@ -258,11 +291,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         // Pallet: Use pallet forwarding or existing inventory pricing
         if (palletSubType === "forwarding") {
           if (palletForwardingPricing && palletForwardingPricing.length > 0) {
-            const latestPalletForwarding = [...palletForwardingPricing].sort((a, b) => {
-              const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-              const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-              return bUpdated - aUpdated;
-            })[0];
+            const latestPalletForwarding = pricingInEffect(palletForwardingPricing, shippingDate);
             if (latestPalletForwarding && latestPalletForwarding.price !== undefined && latestPalletForwarding.price !== null) {
               // Ensure price is a number
               const priceValue = typeof latestPalletForwarding.price === 'string' 
@@ -275,11 +304,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
           }
         } else if (palletSubType === "existing_inventory") {
           if (palletExistingInventoryPricing && palletExistingInventoryPricing.length > 0) {
-            const latestPalletExisting = [...palletExistingInventoryPricing].sort((a, b) => {
-              const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-              const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-              return bUpdated - aUpdated;
-            })[0];
+            const latestPalletExisting = pricingInEffect(palletExistingInventoryPricing, shippingDate);
             if (latestPalletExisting && latestPalletExisting.price !== undefined && latestPalletExisting.price !== null) {
               // Ensure price is a number
               const priceValue = typeof latestPalletExisting.price === 'string' 
@@ -318,7 +343,9 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
             pricingRules,
             service as ServiceType,
             productType,
-            totalUnits
+            totalUnits,
+            getServiceTiers(tierTables, service),
+            shippingDate
           );
           if (calculatedPrice) {
             packOfPrice = calculatedPrice.packOf || 0;
@@ -353,7 +380,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         form.setValue(`shipments.${index}.totalPrice`, totalPrice);
       }
     });
-  }, [shipmentType, palletSubType, service, productType, shipments, pricingRules, boxForwardingPricing, palletForwardingPricing, palletExistingInventoryPricing, boxForwardingPrice, form]);
+  }, [shipmentType, palletSubType, service, productType, shipments, pricingRules, tierTables, boxForwardingPricing, palletForwardingPricing, palletExistingInventoryPricing, boxForwardingPrice, shippingDate, form]);
 
   // Apply box forwarding price immediately when it becomes available
   useEffect(() => {
@@ -409,11 +436,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
     if (shipmentType !== "pallet" || palletSubType !== "forwarding" || shipments.length === 0) return;
     if (!palletForwardingPricing || palletForwardingPricing.length === 0) return;
     
-    const latestPalletForwarding = [...palletForwardingPricing].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    })[0];
+    const latestPalletForwarding = pricingInEffect(palletForwardingPricing, shippingDate);
     
     if (!latestPalletForwarding || !latestPalletForwarding.price) return;
     
@@ -432,18 +455,14 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         form.setValue(`shipments.${index}.totalPrice`, totalPrice);
       }
     });
-  }, [shipmentType, palletSubType, palletForwardingPricing, shipments, form]);
+  }, [shipmentType, palletSubType, palletForwardingPricing, shippingDate, shipments, form]);
 
   // Apply pallet existing inventory price immediately when it becomes available
   useEffect(() => {
     if (shipmentType !== "pallet" || palletSubType !== "existing_inventory" || shipments.length === 0) return;
     if (!palletExistingInventoryPricing || palletExistingInventoryPricing.length === 0) return;
     
-    const latestPalletExisting = [...palletExistingInventoryPricing].sort((a, b) => {
-      const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-      const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-      return bUpdated - aUpdated;
-    })[0];
+    const latestPalletExisting = pricingInEffect(palletExistingInventoryPricing, shippingDate);
     
     if (!latestPalletExisting || !latestPalletExisting.price) return;
     
@@ -462,7 +481,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         form.setValue(`shipments.${index}.totalPrice`, totalPrice);
       }
     });
-  }, [shipmentType, palletSubType, palletExistingInventoryPricing, shipments, form]);
+  }, [shipmentType, palletSubType, palletExistingInventoryPricing, shippingDate, shipments, form]);
 
   // Set prices to 1 (unitPrice) and quantity (totalPrice) when Custom product type is selected
   // Also update when quantity changes
@@ -478,8 +497,8 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
 
   const availableInventory = useMemo(() => {
     const normalizedQuery = query.trim().toLowerCase();
-    return inventory
-      .filter((item) => item.quantity > 0)
+    return shippableInventory
+      .filter((item) => getAvailableQuantity(item) > 0)
       .filter((item) => {
         const inventoryType = (item as any).inventoryType;
         // Filter by shipment type
@@ -501,7 +520,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         }
       })
       .filter((item) => item.productName.toLowerCase().includes(normalizedQuery));
-  }, [inventory, query, shipmentType, palletSubType]);
+  }, [shippableInventory, query, shipmentType, palletSubType]);
 
   const shipmentErrors = form.formState.errors.shipments;
   const shipmentsErrorMessage = Array.isArray(shipmentErrors)
@@ -524,11 +543,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
       } else if (shipmentType === "pallet") {
         // Calculate pallet pricing based on palletSubType
         if (palletSubType === "forwarding" && palletForwardingPricing && palletForwardingPricing.length > 0) {
-          const latestPalletForwarding = [...palletForwardingPricing].sort((a, b) => {
-            const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-            const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-            return bUpdated - aUpdated;
-          })[0];
+          const latestPalletForwarding = pricingInEffect(palletForwardingPricing, shippingDate);
           if (latestPalletForwarding && latestPalletForwarding.price) {
             const priceValue = typeof latestPalletForwarding.price === 'string' 
               ? parseFloat(latestPalletForwarding.price) 
@@ -539,11 +554,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
             }
           }
         } else if (palletSubType === "existing_inventory" && palletExistingInventoryPricing && palletExistingInventoryPricing.length > 0) {
-          const latestPalletExisting = [...palletExistingInventoryPricing].sort((a, b) => {
-            const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-            const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-            return bUpdated - aUpdated;
-          })[0];
+          const latestPalletExisting = pricingInEffect(palletExistingInventoryPricing, shippingDate);
           if (latestPalletExisting && latestPalletExisting.price) {
             const priceValue = typeof latestPalletExisting.price === 'string' 
               ? parseFloat(latestPalletExisting.price) 
@@ -559,11 +570,15 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         initialUnitPrice = 0;
         initialTotalPrice = 0;
       }
-      
+
+      // Product shipments default to the item's case pack so one line = one case
+      const product = shippableInventory.find((item) => item.id === productId);
+      const defaultPackOf = shipmentType === "product" && product ? getUnitsPerCase(product) ?? 1 : 1;
+
       append({
         productId,
         quantity: 1,
-        packOf: 1,
+        packOf: defaultPackOf,
         unitPrice: initialUnitPrice,
         totalPrice: initialTotalPrice,
       });
@@ -617,14 +632,15 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
     // Validate stock availability
     const stockErrors: string[] = [];
     values.shipments.forEach((shipment, index) => {
-      const product = inventory.find(item => item.id === shipment.productId);
+      const product = shippableInventory.find(item => item.id === shipment.productId);
       if (product) {
         const packOf = values.shipmentType === "product" ? (shipment.packOf || 1) : 1;
         const totalUnits = shipment.quantity * packOf;
-        if (totalUnits > product.quantity) {
+        const available = getAvailableQuantity(product);
+        if (totalUnits > available) {
           const unitType = values.shipmentType === "box" ? "boxes" : values.shipmentType === "pallet" ? "pallets" : "units";
           stockErrors.push(
-            `${product.productName}: Requested ${totalUnits} ${unitType} but only ${product.quantity} available.`
+            `${product.productName}: Requested ${totalUnits} ${unitType} but only ${available} available.`
           );
         }
       }
@@ -699,14 +715,33 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
         requestData.selectedAdditionalServices = selectedAdditionalServices;
       }
 
+      // The prices shown in the form are a preview; the server prices every line again
+      const pricedShipments = await withServerPrices(
+        user,
+        {
+          shipmentType: values.shipmentType,
+          palletSubType: values.palletSubType,
+          service: values.service,
+          productType: values.productType,
+          date: values.date,
+        },
+        values.shipments
+      );
+
       // Clean shipments array to remove undefined values
-      requestData.shipments = values.shipments.map((shipment: any) => {
+      requestData.shipments = pricedShipments.map((shipment: any) => {
         const cleaned: any = {
           productId: shipment.productId,
           quantity: shipment.quantity,
           packOf: shipment.packOf || 1,
           unitPrice: shipment.unitPrice || 0,
         };
+        if (shipment.productId.startsWith(BUNDLE_ITEM_PREFIX)) {
+          const bundle = bundles.find((b) => `${BUNDLE_ITEM_PREFIX}${b.id}` === shipment.productId);
+          if (!bundle) throw new Error("A selected bundle no longer exists.");
+          delete cleaned.productId;
+          cleaned.bundle = toShipmentBundle(bundle);
+        }
         // Only include optional fields
         if (shipment.selectedAdditionalServices && shipment.selectedAdditionalServices.length > 0) {
           cleaned.selectedAdditionalServices = shipment.selectedAdditionalServices;
@@ -717,7 +752,10 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
       // Remove all undefined values before saving to Firestore
       const cleanedRequestData = removeUndefined(requestData);
 
-      await addDoc(collection(db, `users/${user.uid}/shipmentRequests`), cleanedRequestData);
+      // Creates the request and holds its units in one transaction so concurrent requests cannot oversell.
+      await submitShipmentRequestsWithReservations(db, user.uid, [
+        { ref: doc(collection(db, `users/${user.uid}/shipmentRequests`)), data: cleanedRequestData },
+      ]);
 
       toast({
         title: "Success",
@@ -926,7 +964,8 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
                           <span className="font-medium">{item.productName}</span>
                           <span className="text-xs text-muted-foreground">
                             {item.sku && <span className="mr-2">SKU: {item.sku}</span>}
-                            In Stock: {item.quantity}
+                            Available: {getAvailableQuantity(item)}
+                            {getReservedQuantity(item) > 0 && ` (${getReservedQuantity(item)} reserved)`}
                           </span>
                         </div>
                       </label>
@@ -953,7 +992,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
             ) : (
               <div className="space-y-4">
                 {fields.map((field, index) => {
-                  const productMeta = inventory.find((item) => item.id === field.productId);
+                  const productMeta = shippableInventory.find((item) => item.id === field.productId);
                   return (
                     <div key={field.id} className="rounded-lg border p-4 space-y-4">
                       <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
@@ -962,13 +1001,19 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
                             {productMeta?.productName || "Selected product"}
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            In Stock: {productMeta?.quantity ?? "—"}
+                            Available: {productMeta ? getAvailableQuantity(productMeta) : "—"}
+                            {productMeta && getReservedQuantity(productMeta) > 0 && ` (${productMeta.quantity} on hand, ${getReservedQuantity(productMeta)} reserved)`}
                           </p>
+                          {shipmentType === "product" && productMeta && getUnitsPerCase(productMeta) && (
+                            <p className="text-xs text-muted-foreground">
+                              Case of {getUnitsPerCase(productMeta)} · {describePackagedQuantity(getAvailableQuantity(productMeta), productMeta)} available
+                            </p>
+                          )}
                           {(() => {
                             const quantity = form.watch(`shipments.${index}.quantity`) || 0;
                             const packOf = shipmentType === "product" ? (form.watch(`shipments.${index}.packOf`) || 1) : 1;
                             const totalUnits = quantity * packOf;
-                            const availableStock = productMeta?.quantity || 0;
+                            const availableStock = productMeta ? getAvailableQuantity(productMeta) : 0;
                             const isInsufficient = totalUnits > availableStock && totalUnits > 0;
                             
                             if (isInsufficient) {
@@ -1016,7 +1061,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
                                   const quantity = field.value || 0;
                                   const packOf = shipmentType === "product" ? (form.watch(`shipments.${index}.packOf`) || 1) : 1;
                                   const totalUnits = quantity * packOf;
-                                  const availableStock = productMeta?.quantity || 0;
+                                  const availableStock = productMeta ? getAvailableQuantity(productMeta) : 0;
                                   const isInsufficient = totalUnits > availableStock && totalUnits > 0;
                                   
                                   return (
@@ -1049,7 +1094,7 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
                                     const packOf = field.value || 1;
                                     const quantity = form.watch(`shipments.${index}.quantity`) || 0;
                                     const totalUnits = quantity * packOf;
-                                    const availableStock = productMeta?.quantity || 0;
+                                    const availableStock = productMeta ? getAvailableQuantity(productMeta) : 0;
                                     const isInsufficient = totalUnits > availableStock && totalUnits > 0;
                                     
                                     return (
@@ -1169,7 +1214,8 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
                                                   pricingRules,
                                                   service as ServiceType,
                                                   productType,
-                                                  totalUnitsCalc
+                                                  totalUnitsCalc,
+                                                  getServiceTiers(tierTables, service)
                                                 );
                                                 if (calculatedPrice) {
                                                   packOfPrice = calculatedPrice.packOf || 0;
@@ -1462,12 +1508,12 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
                   }
                   // Check if any shipment has insufficient stock
                   return fields.some((field, index) => {
-                    const product = inventory.find(item => item.id === field.productId);
+                    const product = shippableInventory.find(item => item.id === field.productId);
                     if (!product) return true;
                     const quantity = form.watch(`shipments.${index}.quantity`) || 0;
                     const packOf = form.watch(`shipments.${index}.packOf`) || 1;
                     const totalUnits = quantity * packOf;
-                    return totalUnits > product.quantity;
+                    return totalUnits > getAvailableQuantity(product);
                   });
                 })()}
               >
@@ -1475,12 +1521,12 @@ export function CreateShipmentRequestForm({ inventory }: CreateShipmentRequestFo
               Submit Request
                 {(() => {
                   const hasInsufficientStock = fields.some((field, index) => {
-                    const product = inventory.find(item => item.id === field.productId);
+                    const product = shippableInventory.find(item => item.id === field.productId);
                     if (!product) return false;
                     const quantity = form.watch(`shipments.${index}.quantity`) || 0;
                     const packOf = form.watch(`shipments.${index}.packOf`) || 1;
                     const totalUnits = quantity * packOf;
-                    return totalUnits > product.quantity;
+                    return totalUnits > getAvailableQuantity(product);
                   });
                   return hasInsufficientStock && (
                     <span className="ml-2 text-xs">(Insufficient Stock)</span>
@@ -1513,7 +1559,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { DatePicker } from "@/components/ui/date-picker";
 import { useToast } from "@/hooks/use-toast";
 import { db } from "@/lib/firebase";
-import type { ServiceType, ProductType, UserPricing, UserBoxForwardingPricing, UserPalletForwardingPricing, UserPalletExistingInventoryPricing, UserAdditionalServicesPricing } from "@/types";
+import type { ServiceType, ProductType, ProductBundle, UserPricing, UserBoxForwardingPricing, UserPalletForwardingPricing, UserPalletExistingInventoryPricing, UserAdditionalServicesPricing } from "@/types";
 
 // Define InventoryItem locally since it's not exported from @/types
 interface InventoryItem {
@@ -3,7 +3,7 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useFieldArray, useForm } from "react-hook-form";
 import * as z from "zod";
-import { collection, doc, Timestamp, writeBatch } from "firebase/firestore";
+import { collection, doc, Timestamp, type DocumentReference } from "firebase/firestore";
 import { useMemo, useState, useEffect } from "react";
 
 import { Button } from "@/components/ui/button";
@@ -20,6 +20,11 @@ import { useAuth } from "@/hooks/use-auth";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useCollection } from "@/hooks/use-collection";
 import { calculatePrepUnitPrice } from "@/lib/pricing-utils";
+import { getServiceTiers } from "@/lib/pricing-tiers";
+import { usePricingTiers } from "@/hooks/use-pricing-tiers";
+import { withServerPrices } from "@/lib/pricing-quote";
+import { pricingInEffect } from "@/lib/pricing-history";
+import { getAvailableQuantity, submitShipmentRequestsWithReservations } from "@/lib/inventory-reservations";
 import imageCompression from "browser-image-compression";
 import { ImageIcon } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -163,6 +168,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
   const { data: pricingRules } = useCollection<UserPricing>(
     userProfile ? `users/${userProfile.uid}/pricing` : ""
   );
+  const { tierTables } = usePricingTiers(userProfile?.uid);
   
   // Fetch forwarding pricing
   const { data: boxForwardingPricing } = useCollection<UserBoxForwardingPricing>(
@@ -217,18 +223,16 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
             pricingRules,
             service,
             productType,
-            quantity // Use quantity, not totalUnits, to get consistent unit price
+            quantity, // Use quantity, not totalUnits, to get consistent unit price
+            getServiceTiers(tierTables, service),
+            group.date
           );
           if (calculatedPrice && calculatedPrice.rate !== undefined && calculatedPrice.rate !== null) {
             finalUnitPrice = calculatedPrice.rate;
           }
         } else if (shipmentType === "box") {
           if (boxForwardingPricing && boxForwardingPricing.length > 0) {
-            const latestBoxPricing = [...boxForwardingPricing].sort((a, b) => {
-              const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-              const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-              return bUpdated - aUpdated;
-            })[0];
+            const latestBoxPricing = pricingInEffect(boxForwardingPricing, group.date);
             if (latestBoxPricing && latestBoxPricing.price !== undefined && latestBoxPricing.price !== null) {
               // Ensure price is a number
               const priceValue = typeof latestBoxPricing.price === 'string' 
@@ -243,11 +247,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
         } else if (shipmentType === "pallet") {
           if (palletSubType === "forwarding") {
             if (palletForwardingPricing && palletForwardingPricing.length > 0) {
-              const latestPalletForwarding = [...palletForwardingPricing].sort((a, b) => {
-                const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-                const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-                return bUpdated - aUpdated;
-              })[0];
+              const latestPalletForwarding = pricingInEffect(palletForwardingPricing, group.date);
               if (latestPalletForwarding && latestPalletForwarding.price !== undefined && latestPalletForwarding.price !== null) {
                 // Ensure price is a number
                 const priceValue = typeof latestPalletForwarding.price === 'string' 
@@ -288,7 +288,9 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
               pricingRules,
               service,
               productType,
-              quantity // Use quantity, not totalUnits, to get the correct packOfPrice
+              quantity, // Use quantity, not totalUnits, to get the correct packOfPrice
+              getServiceTiers(tierTables, service),
+              group.date
             );
             if (calculatedPriceForPackOf) {
               packOfPrice = calculatedPriceForPackOf.packOf || 0; // Charge per pack (beyond the first pack)
@@ -330,7 +332,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
     } catch (error) {
       console.error("Error calculating pricing:", error);
     }
-  }, [watchedGroups, pricingRules, boxForwardingPricing, palletForwardingPricing, form]);
+  }, [watchedGroups, pricingRules, tierTables, boxForwardingPricing, palletForwardingPricing, form]);
 
   // Initialize label state when a new group is added
   const handleAddShipmentGroup = () => {
@@ -565,7 +567,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
 
     setIsLoading(true);
     try {
-      const batch = writeBatch(db);
+      const pendingRequests: { ref: DocumentReference; data: Record<string, any> }[] = [];
       const requestedAt = Timestamp.now();
 
       // Process each shipment group
@@ -581,10 +583,11 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
           if (product) {
             const packOf = group.shipmentType === "product" ? (shipment.packOf || 1) : 1;
             const totalUnits = shipment.quantity * packOf;
-            if (totalUnits > product.quantity) {
+            const available = getAvailableQuantity(product);
+            if (totalUnits > available) {
               const unitType = group.shipmentType === "box" ? "boxes" : group.shipmentType === "pallet" ? "pallets" : "units";
               stockErrors.push(
-                `${product.productName}: Requested ${totalUnits} ${unitType} but only ${product.quantity} available.`
+                `${product.productName}: Requested ${totalUnits} ${unitType} but only ${available} available.`
               );
             }
           }
@@ -653,8 +656,20 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
           }
         }
         
+        const pricedShipments = await withServerPrices(
+          user,
+          {
+            shipmentType: group.shipmentType,
+            palletSubType: group.palletSubType,
+            service: group.service,
+            productType: group.productType,
+            date: group.date,
+          },
+          group.shipments
+        );
+
         // Clean shipments array to remove undefined values
-        requestData.shipments = group.shipments.map((shipment: any) => {
+        requestData.shipments = pricedShipments.map((shipment: any) => {
           const cleaned: any = {
             productId: shipment.productId,
             quantity: shipment.quantity,
@@ -671,10 +686,11 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
         // Remove all undefined values before saving to Firestore
         const cleanedRequestData = removeUndefined(requestData);
         
-        batch.set(requestRef, cleanedRequestData);
+        pendingRequests.push({ ref: requestRef, data: cleanedRequestData });
       }
 
-      await batch.commit();
+      // All groups are created and their stock reserved together, or none are.
+      await submitShipmentRequestsWithReservations(db, user.uid, pendingRequests);
 
       toast({
         title: "Success",
@@ -785,12 +801,13 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
             const groupPalletSubType = form.watch(`shipmentGroups.${groupIndex}.palletSubType`);
             const groupService = form.watch(`shipmentGroups.${groupIndex}.service`);
             const groupProductType = form.watch(`shipmentGroups.${groupIndex}.productType`);
+            const groupDate = form.watch(`shipmentGroups.${groupIndex}.date`);
             const groupShipments = form.watch(`shipmentGroups.${groupIndex}.shipments`);
             
             // Calculate available inventory without useMemo (inside map)
             const normalizedQuery = query.trim().toLowerCase();
             const availableInventory = inventory
-              .filter((item) => item.quantity > 0)
+              .filter((item) => getAvailableQuantity(item) > 0)
               .filter((item) => {
                 const inventoryType = (item as any).inventoryType;
                 if (groupShipmentType === "box") {
@@ -1037,11 +1054,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                                               const palletSubType = group?.palletSubType;
                                               
                                               if (shipmentType === "box" && boxForwardingPricing && boxForwardingPricing.length > 0) {
-                                                const latestBoxPricing = [...boxForwardingPricing].sort((a, b) => {
-                                                  const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-                                                  const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-                                                  return bUpdated - aUpdated;
-                                                })[0];
+                                                const latestBoxPricing = pricingInEffect(boxForwardingPricing, group?.date);
                                                 if (latestBoxPricing && latestBoxPricing.price !== undefined && latestBoxPricing.price !== null) {
                                                   const priceValue = typeof latestBoxPricing.price === 'string' 
                                                     ? parseFloat(latestBoxPricing.price) 
@@ -1053,11 +1066,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                                                 }
                                               } else if (shipmentType === "pallet") {
                                                 if (palletSubType === "forwarding" && palletForwardingPricing && palletForwardingPricing.length > 0) {
-                                                  const latestPalletForwarding = [...palletForwardingPricing].sort((a, b) => {
-                                                    const aUpdated = typeof a.updatedAt === 'string' ? new Date(a.updatedAt).getTime() : (a.updatedAt as any)?.seconds ? (a.updatedAt as any).seconds * 1000 : 0;
-                                                    const bUpdated = typeof b.updatedAt === 'string' ? new Date(b.updatedAt).getTime() : (b.updatedAt as any)?.seconds ? (b.updatedAt as any).seconds * 1000 : 0;
-                                                    return bUpdated - aUpdated;
-                                                  })[0];
+                                                  const latestPalletForwarding = pricingInEffect(palletForwardingPricing, group?.date);
                                                   if (latestPalletForwarding && latestPalletForwarding.price) {
                                                     const priceValue = typeof latestPalletForwarding.price === 'string' 
                                                       ? parseFloat(latestPalletForwarding.price) 
@@ -1081,7 +1090,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                                                 initialUnitPrice = 1;
                                                 initialTotalPrice = 1;
                                               } else if (shipmentType === "product" && group?.service && group?.productType && pricingRules && pricingRules.length > 0) {
-                                                const calculated = calculatePrepUnitPrice(pricingRules, group.service, group.productType, 1);
+                                                const calculated = calculatePrepUnitPrice(pricingRules, group.service, group.productType, 1, getServiceTiers(tierTables, group.service), group.date);
                                                 if (calculated?.rate != null && !Number.isNaN(calculated.rate) && calculated.rate > 0) {
                                                   initialUnitPrice = calculated.rate;
                                                   initialTotalPrice = calculated.rate;
@@ -1113,7 +1122,7 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                                           <div className="flex flex-col">
                                             <span className="font-medium">{item.productName}</span>
                                             <span className="text-xs text-muted-foreground">
-                                              SKU: {item.sku || "N/A"} | In Stock: {item.quantity}
+                                              SKU: {item.sku || "N/A"} | Available: {getAvailableQuantity(item)}
                                             </span>
                                           </div>
                                         </label>
@@ -1404,14 +1413,14 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                         const quantity = form.watch(`shipmentGroups.${groupIndex}.shipments.${shipmentIndex}.quantity`) || 0;
                         const packOf = form.watch(`shipmentGroups.${groupIndex}.shipments.${shipmentIndex}.packOf`) || 1;
                         const totalUnits = quantity * packOf;
-                        const availableStock = product?.quantity || 0;
+                        const availableStock = product ? getAvailableQuantity(product) : 0;
 
                         return (
                           <div key={shipment.productId || shipmentIndex} className="border rounded-lg p-3 bg-muted/30">
                             <div className="flex items-center justify-between mb-2">
                               <div className="flex-1">
                                 <div className="font-medium text-sm">{product?.productName}</div>
-                                <div className="text-xs text-muted-foreground">In Stock: {availableStock}</div>
+                                <div className="text-xs text-muted-foreground">Available: {availableStock}</div>
                               </div>
                               <Button
                                 type="button"
@@ -1520,7 +1529,9 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                                       pricingRules,
                                       groupService,
                                       groupProductType,
-                                      quantity // Use quantity, not totalUnits, to get consistent unit price
+                                      quantity, // Use quantity, not totalUnits, to get consistent unit price
+                                      getServiceTiers(tierTables, groupService),
+                                      groupDate
                                     );
                                     // Always use calculated rate if available (even if it's 0.10)
                                     if (calculatedPrice && calculatedPrice.rate !== undefined && calculatedPrice.rate !== null) {
@@ -1542,7 +1553,9 @@ export function CreateShipmentWithLabelsForm({ inventory }: CreateShipmentWithLa
                                         pricingRules,
                                         groupService,
                                         groupProductType,
-                                        quantity // Use quantity, not totalUnits, to get the correct packOfPrice
+                                        quantity, // Use quantity, not totalUnits, to get the correct packOfPrice
+                                        getServiceTiers(tierTables, groupService),
+                                        groupDate
                                       );
                                       if (calculatedPriceForPackOf) {
                                         packOfPrice = calculatedPriceForPackOf.packOf || 0; // Charge per pack (beyond the first pack)
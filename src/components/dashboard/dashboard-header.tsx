@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { useRouter } from "next/navigation";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { SidebarTrigger } from "@/components/ui/sidebar";
+import { NotificationsMenu } from "@/components/dashboard/notifications-menu";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -77,6 +78,8 @@ export function DashboardHeader({ onProfileClick }: DashboardHeaderProps) {
             </span>
           </div>
 
+          <NotificationsMenu />
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-9 w-9 rounded-full sm:h-10 sm:w-10">
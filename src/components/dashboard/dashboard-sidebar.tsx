@@ -24,6 +24,8 @@ import {
   FileText,
   Package,
   PackageCheck,
+  PackagePlus,
+  Layers,
   X,
   ShoppingBag,
   Truck,
@@ -35,6 +37,7 @@ import {
   ArrowLeftRight,
   FolderOpen,
   Plug,
+  Wallet,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useCollection } from "@/hooks/use-collection";
@@ -42,6 +45,7 @@ import type { Invoice, UploadedPDF } from "@/types";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { hasRole, hasFeature } from "@/lib/permissions";
+import { isOpenInvoice } from "@/lib/invoice-payments";
 
 export function DashboardSidebar() {
   const pathname = usePathname();
@@ -57,7 +61,7 @@ export function DashboardSidebar() {
     ? allUploadedPDFs 
     : allUploadedPDFs.filter((pdf) => pdf.uploadedBy === user?.uid);
 
-  const pendingInvoicesCount = invoices.filter(inv => inv.status === 'pending').length;
+  const pendingInvoicesCount = invoices.filter(isOpenInvoice).length;
   const labelsCount = uploadedPDFs.length;
 
   // Check if user has "user" role - if yes, show full client dashboard
@@ -83,6 +87,22 @@ export function DashboardSidebar() {
       requiredRole: "user" as const,
       requiredFeature: "view_inventory" as const,
     },
+    {
+      title: "Inbound Shipments",
+      url: "/dashboard/inbound-shipments",
+      icon: PackagePlus,
+      color: "text-blue-600",
+      requiredRole: "user" as const,
+      requiredFeature: "view_inventory" as const,
+    },
+    {
+      title: "Bundles",
+      url: "/dashboard/bundles",
+      icon: Layers,
+      color: "text-violet-600",
+      requiredRole: "user" as const,
+      requiredFeature: "view_inventory" as const,
+    },
     {
       title: "Shipped Orders",
       url: "/dashboard/shipped-orders",
@@ -136,6 +156,15 @@ export function DashboardSidebar() {
       requiredRole: "user" as const,
       requiredFeature: "view_invoices" as const,
     },
+    {
+      title: "Wallet",
+      url: "/dashboard/wallet",
+      icon: Wallet,
+      color: "text-green-600",
+      badge: null,
+      requiredRole: "user" as const,
+      requiredFeature: "view_invoices" as const,
+    },
     {
       title: "My Pricing",
       url: "/dashboard/pricing",
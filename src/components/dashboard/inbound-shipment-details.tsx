@@ -0,0 +1,152 @@
+"use client";
+
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  getInboundDiscrepancies,
+  INBOUND_DISCREPANCY_LABELS,
+  summarizeInboundShipment,
+} from "@/lib/inbound-shipments";
+import type { InboundShipment, InboundShipmentStatus } from "@/types";
+
+const STATUS_LABELS: Record<InboundShipmentStatus, string> = {
+  submitted: "Awaiting Arrival",
+  receiving: "Receiving",
+  received: "Received",
+  closed: "Added to Inventory",
+  cancelled: "Cancelled",
+};
+
+export function InboundStatusBadge({ status }: { status: InboundShipmentStatus }) {
+  const className =
+    status === "closed"
+      ? "bg-green-600 hover:bg-green-600"
+      : status === "received"
+        ? "bg-amber-500 hover:bg-amber-500"
+        : status === "receiving"
+          ? "bg-blue-600 hover:bg-blue-600"
+          : undefined;
+  return (
+    <Badge variant={status === "cancelled" ? "destructive" : status === "submitted" ? "outline" : "default"} className={className}>
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export function formatInboundDate(value: InboundShipment["createdAt"] | undefined): string {
+  if (!value) return "—";
+  const date = typeof value === "string" ? new Date(value) : new Date(value.seconds * 1000);
+  return format(date, "MMM dd, yyyy");
+}
+
+/** Carton contents, received counts, per-product totals and discrepancies of an ASN. */
+export function InboundShipmentDetails({ shipment }: { shipment: InboundShipment }) {
+  const discrepancies = getInboundDiscrepancies(shipment);
+  const summary = summarizeInboundShipment(shipment);
+  const anyReceived = shipment.cartons.some((c) => c.status !== "expected");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+        <div>
+          <p className="text-muted-foreground">Carrier</p>
+          <p className="font-medium">{shipment.carrier || "—"}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Expected Arrival</p>
+          <p className="font-medium">{shipment.expectedArrivalDate ? format(new Date(`${shipment.expectedArrivalDate}T00:00:00`), "MMM dd, yyyy") : "—"}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Cartons</p>
+          <p className="font-medium">{shipment.cartons.length}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Status</p>
+          <InboundStatusBadge status={shipment.status} />
+        </div>
+      </div>
+      {shipment.remarks && <p className="text-sm text-muted-foreground">Remarks: {shipment.remarks}</p>}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Carton</TableHead>
+            <TableHead>Product</TableHead>
+            <TableHead className="text-right">Expected</TableHead>
+            <TableHead className="text-right">Received</TableHead>
+            <TableHead className="text-right">Damaged</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shipment.cartons.flatMap((carton, cartonIndex) =>
+            carton.lines.map((line, lineIndex) => (
+              <TableRow key={`${cartonIndex}-${lineIndex}`}>
+                {lineIndex === 0 && (
+                  <TableCell rowSpan={carton.lines.length} className="align-top">
+                    <div className="font-medium">#{cartonIndex + 1}</div>
+                    {carton.trackingNumber && <div className="font-mono text-xs text-muted-foreground">{carton.trackingNumber}</div>}
+                    <div className="mt-1 text-xs capitalize text-muted-foreground">
+                      {carton.status === "expected" ? "Not received" : carton.status}
+                      {carton.receivedByName ? ` · ${carton.receivedByName}` : ""}
+                    </div>
+                    {carton.notes && <div className="mt-1 text-xs italic text-muted-foreground">{carton.notes}</div>}
+                  </TableCell>
+                )}
+                <TableCell>
+                  {line.productName}
+                  {line.sku && <span className="block text-xs font-mono text-muted-foreground">{line.sku}</span>}
+                </TableCell>
+                <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                <TableCell className="text-right">{carton.status === "received" ? line.receivedQuantity ?? 0 : "—"}</TableCell>
+                <TableCell className="text-right">{carton.status === "received" ? line.damagedQuantity ?? 0 : "—"}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {anyReceived && (
+        <div className="rounded-md border p-3 text-sm">
+          <p className="mb-2 font-medium">Totals by product</p>
+          <ul className="space-y-1">
+            {summary.map((s) => (
+              <li key={`${s.productId || s.sku || s.productName}`} className="flex justify-between gap-4">
+                <span>{s.productName}</span>
+                <span className="text-muted-foreground">
+                  {s.received} of {s.expected} received · {s.sellable} to inventory
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {anyReceived &&
+        (discrepancies.length > 0 ? (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            <p className="mb-2 flex items-center gap-2 font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              Receiving discrepancies
+            </p>
+            <ul className="space-y-1">
+              {discrepancies.map((d, i) => (
+                <li key={i}>
+                  Carton #{d.cartonIndex + 1} · {d.productName}: {INBOUND_DISCREPANCY_LABELS[d.kind]} {d.quantity}
+                </li>
+              ))}
+            </ul>
+            {shipment.clientAcknowledgedAt && (
+              <p className="mt-2 text-xs">Acknowledged by client on {formatInboundDate(shipment.clientAcknowledgedAt)}.</p>
+            )}
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            Everything received so far matches the notice.
+          </p>
+        ))}
+    </div>
+  );
+}
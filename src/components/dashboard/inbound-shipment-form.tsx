@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Loader2, Plus, Trash2, Copy } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { createInboundShipment } from "@/lib/inbound-shipments";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { InventoryItem } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const NEW_PRODUCT = "__new__";
+
+type LineDraft = { productId: string; productName: string; sku: string; quantity: string };
+type CartonDraft = { trackingNumber: string; lines: LineDraft[] };
+
+const emptyLine = (): LineDraft => ({ productId: NEW_PRODUCT, productName: "", sku: "", quantity: "" });
+const emptyCarton = (): CartonDraft => ({ trackingNumber: "", lines: [emptyLine()] });
+
+export function InboundShipmentForm({ inventory }: { inventory: InventoryItem[] }) {
+  const { toast } = useToast();
+  const { userProfile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [carrier, setCarrier] = useState("");
+  const [expectedArrivalDate, setExpectedArrivalDate] = useState("");
+  const [remarks, setRemarks] = useState("");
+  const [cartons, setCartons] = useState<CartonDraft[]>([emptyCarton()]);
+
+  const products = useMemo(
+    () =>
+      inventory
+        .filter((item) => !item.source && !["box", "pallet", "container"].includes((item as any).inventoryType))
+        .sort((a, b) => a.productName.localeCompare(b.productName)),
+    [inventory]
+  );
+
+  const reset = () => {
+    setCarrier("");
+    setExpectedArrivalDate("");
+    setRemarks("");
+    setCartons([emptyCarton()]);
+  };
+
+  const updateCarton = (index: number, update: Partial<CartonDraft>) =>
+    setCartons((prev) => prev.map((c, i) => (i === index ? { ...c, ...update } : c)));
+
+  const updateLine = (cartonIndex: number, lineIndex: number, update: Partial<LineDraft>) =>
+    setCartons((prev) =>
+      prev.map((c, i) =>
+        i === cartonIndex ? { ...c, lines: c.lines.map((l, j) => (j === lineIndex ? { ...l, ...update } : l)) } : c
+      )
+    );
+
+  const handleSubmit = async () => {
+    if (!userProfile) return;
+    if (!carrier.trim()) {
+      toast({ variant: "destructive", title: "Error", description: "Enter the carrier." });
+      return;
+    }
+    const incomplete = cartons.some((c) =>
+      c.lines.some((l) => (l.productId === NEW_PRODUCT ? !l.productName.trim() || !l.sku.trim() : false) || !(parseInt(l.quantity) > 0))
+    );
+    if (incomplete) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Every line needs a product (name and SKU for new products) and a quantity.",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createInboundShipment(db, userProfile.uid, {
+        carrier,
+        expectedArrivalDate: expectedArrivalDate || undefined,
+        remarks,
+        cartons: cartons.map((c) => ({
+          trackingNumber: c.trackingNumber,
+          lines: c.lines.map((l) => {
+            const product = l.productId !== NEW_PRODUCT ? products.find((p) => p.id === l.productId) : undefined;
+            return {
+              productId: product?.id,
+              productName: product ? product.productName : l.productName,
+              sku: product ? product.sku : l.sku,
+              expectedQuantity: parseInt(l.quantity) || 0,
+            };
+          }),
+        })),
+      });
+      toast({ title: "Success", description: "Inbound shipment submitted. We'll receive it against this notice." });
+      reset();
+      setOpen(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to submit inbound shipment." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          New Inbound Shipment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Advance Shipping Notice</DialogTitle>
+          <DialogDescription>Tell us what is on its way so we can check each carton as it arrives.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="asn-carrier">Carrier</Label>
+              <Input id="asn-carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} placeholder="e.g. UPS, FedEx, freight forwarder" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="asn-eta">Expected Arrival</Label>
+              <Input id="asn-eta" type="date" value={expectedArrivalDate} onChange={(e) => setExpectedArrivalDate(e.target.value)} />
+            </div>
+          </div>
+
+          {cartons.map((carton, cartonIndex) => (
+            <div key={cartonIndex} className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">Carton #{cartonIndex + 1}</p>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Duplicate carton"
+                    onClick={() =>
+                      setCartons((prev) => [
+                        ...prev.slice(0, cartonIndex + 1),
+                        { trackingNumber: "", lines: carton.lines.map((l) => ({ ...l })) },
+                        ...prev.slice(cartonIndex + 1),
+                      ])
+                    }
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  {cartons.length > 1 && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setCartons((prev) => prev.filter((_, i) => i !== cartonIndex))}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Input
+                value={carton.trackingNumber}
+                onChange={(e) => updateCarton(cartonIndex, { trackingNumber: e.target.value })}
+                placeholder="Tracking number (optional)"
+                className="font-mono"
+              />
+              {carton.lines.map((line, lineIndex) => (
+                <div key={lineIndex} className="grid gap-2 sm:grid-cols-[1fr_8rem_auto]">
+                  <div className="space-y-2">
+                    <Select value={line.productId} onValueChange={(v) => updateLine(cartonIndex, lineIndex, { productId: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NEW_PRODUCT}>New product…</SelectItem>
+                        {products.map((p) => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.productName}
+                            {p.sku ? ` (${p.sku})` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {line.productId === NEW_PRODUCT && (
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        <Input
+                          value={line.productName}
+                          onChange={(e) => updateLine(cartonIndex, lineIndex, { productName: e.target.value })}
+                          placeholder="Product name"
+                        />
+                        <Input
+                          value={line.sku}
+                          onChange={(e) => updateLine(cartonIndex, lineIndex, { sku: e.target.value })}
+                          placeholder="SKU"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={line.quantity}
+                    onChange={(e) => updateLine(cartonIndex, lineIndex, { quantity: e.target.value })}
+                    placeholder="Units"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={carton.lines.length === 1}
+                    onClick={() => updateCarton(cartonIndex, { lines: carton.lines.filter((_, j) => j !== lineIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => updateCarton(cartonIndex, { lines: [...carton.lines, emptyLine()] })}>
+                <Plus className="h-3 w-3 mr-1" />
+                Add Product
+              </Button>
+            </div>
+          ))}
+
+          <Button type="button" variant="outline" onClick={() => setCartons((prev) => [...prev, emptyCarton()])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Carton
+          </Button>
+
+          <div className="space-y-1">
+            <Label htmlFor="asn-remarks">Remarks</Label>
+            <Textarea id="asn-remarks" value={remarks} onChange={(e) => setRemarks(e.target.value)} placeholder="Anything the warehouse should know (optional)" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit {cartons.length} Carton{cartons.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,7 +21,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Search, Filter, X, Clock, Eye, Edit } from "lucide-react";
+import { Search, Filter, X, Clock, Eye, Edit, AlertTriangle, BellRing } from "lucide-react";
 import { format } from "date-fns";
 import { AddInventoryRequestForm } from "./add-inventory-request-form";
 import { useCollection } from "@/hooks/use-collection";
@@ -34,8 +34,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { doc, updateDoc } from "firebase/firestore";
+import { deleteField, doc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { getAvailableQuantity, getReservedQuantity } from "@/lib/inventory-reservations";
+import { getReorderPoint, isLowStock } from "@/lib/low-stock";
+import { describePackagedQuantity } from "@/lib/packaging";
 import { Label } from "@/components/ui/label";
 
 function formatDate(date: InventoryItem["dateAdded"]) {
@@ -74,6 +77,9 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
   const [editProductName, setEditProductName] = useState("");
   const [editQuantity, setEditQuantity] = useState(0);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [reorderItem, setReorderItem] = useState<InventoryItem | null>(null);
+  const [reorderValue, setReorderValue] = useState("");
+  const [isSavingReorder, setIsSavingReorder] = useState(false);
   const { toast } = useToast();
 
   // Fetch inventory requests
@@ -83,6 +89,7 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
 
   const pendingCount = inventoryRequests.filter(req => req.status === "pending").length;
   const rejectedCount = inventoryRequests.filter(req => req.status === "rejected").length;
+  const lowStockCount = data.filter((item) => isLowStock(item)).length;
 
   const handleRemarksClick = (remarks: string, imageUrls?: string | string[]) => {
     setSelectedRemarks(remarks);
@@ -164,6 +171,46 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
     }
   };
 
+  const handleReorderClick = (item: InventoryItem) => {
+    setReorderItem(item);
+    setReorderValue(getReorderPoint(item)?.toString() ?? "");
+  };
+
+  const handleSaveReorderPoint = async () => {
+    if (!reorderItem || !userProfile) return;
+    const value = reorderValue.trim() === "" ? 0 : parseInt(reorderValue);
+    if (Number.isNaN(value) || value < 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Reorder point must be a whole number of 0 or more.",
+      });
+      return;
+    }
+
+    setIsSavingReorder(true);
+    try {
+      await updateDoc(doc(db, `users/${userProfile.uid}/inventory`, reorderItem.id), {
+        reorderPoint: value > 0 ? value : deleteField(),
+      });
+      toast({
+        title: "Success",
+        description: value > 0
+          ? `You will be alerted when ${reorderItem.productName} drops to ${value} or fewer.`
+          : `Low-stock alerts turned off for ${reorderItem.productName}.`,
+      });
+      setReorderItem(null);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save reorder point.",
+      });
+    } finally {
+      setIsSavingReorder(false);
+    }
+  };
+
   // Combine inventory items and pending/rejected requests into one list
   const combinedData = useMemo(() => {
     // Get approved requests to match with inventory items for remarks
@@ -259,7 +306,8 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
         (statusFilter === "Pending" && item.status === "Pending") ||
         (statusFilter === "In Stock" && item.status === "In Stock") ||
         (statusFilter === "Out of Stock" && item.status === "Out of Stock") ||
-        (statusFilter === "Rejected" && item.status === "Rejected");
+        (statusFilter === "Rejected" && item.status === "Rejected") ||
+        (statusFilter === "Low stock" && !(item as any).isRequest && isLowStock(item));
       return matchesSearch && matchesStatus;
     });
     
@@ -310,6 +358,16 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
                   {rejectedCount} Rejected
                 </Badge>
               )}
+              {lowStockCount > 0 && (
+                <Badge
+                  variant="outline"
+                  className="flex items-center gap-1 cursor-pointer border-amber-500/50 bg-amber-50 text-amber-700"
+                  onClick={() => setStatusFilter("Low stock")}
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  {lowStockCount} Low Stock
+                </Badge>
+              )}
             </div>
             <AddInventoryRequestForm />
           </div>
@@ -351,6 +409,7 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
                 <SelectItem value="In Stock">In Stock</SelectItem>
                 <SelectItem value="Out of Stock">Out of Stock</SelectItem>
                 <SelectItem value="Rejected">Rejected</SelectItem>
+                <SelectItem value="Low stock">Low stock</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -398,6 +457,20 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
                   <div className="text-right ml-2">
                     <div className="text-xs">Qty</div>
                     <div className="font-semibold text-sm">{item.quantity}</div>
+                    {getReservedQuantity(item) > 0 && (
+                      <div className="text-xs text-amber-600">{getReservedQuantity(item)} reserved</div>
+                    )}
+                    {!(item as any).isRequest && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-auto p-0 text-[10px] text-muted-foreground"
+                        onClick={() => handleReorderClick(item as InventoryItem)}
+                      >
+                        <BellRing className="h-3 w-3 mr-1" />
+                        {getReorderPoint(item as InventoryItem) !== null ? `Reorder at ${getReorderPoint(item as InventoryItem)}` : "Set alert"}
+                      </Button>
+                    )}
                   </div>
                 </div>
                 <div className="mt-2">
@@ -412,6 +485,11 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
                     {item.status === "Pending" ? "Pending Approval" :
                      item.status === "Rejected" ? "Rejected" : item.status}
                   </Badge>
+                  {!(item as any).isRequest && isLowStock(item) && (
+                    <Badge variant="outline" className="ml-1 text-[10px] px-2 py-1 border-amber-500/50 bg-amber-50 text-amber-700">
+                      Low stock
+                    </Badge>
+                  )}
                 </div>
               </div>
             ))
@@ -469,7 +547,28 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
                       </div>
                     </TableCell>
                     <TableCell className="hidden md:table-cell">{(item as any).sku || "N/A"}</TableCell>
-                    <TableCell className="hidden sm:table-cell">{item.quantity}</TableCell>
+                    <TableCell className="hidden sm:table-cell">
+                      {item.quantity}
+                      {(item as any).packaging && item.quantity > 0 && (
+                        <div className="text-xs text-muted-foreground">{describePackagedQuantity(item.quantity, item as InventoryItem)}</div>
+                      )}
+                      {getReservedQuantity(item) > 0 && (
+                        <div className="text-xs text-amber-600">
+                          {getReservedQuantity(item)} reserved · {getAvailableQuantity(item)} available
+                        </div>
+                      )}
+                      {!(item as any).isRequest && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto p-0 text-xs text-muted-foreground"
+                          onClick={() => handleReorderClick(item as InventoryItem)}
+                        >
+                          <BellRing className="h-3 w-3 mr-1" />
+                          {getReorderPoint(item as InventoryItem) !== null ? `Reorder at ${getReorderPoint(item as InventoryItem)}` : "Set reorder point"}
+                        </Button>
+                      )}
+                    </TableCell>
                     <TableCell className="hidden sm:table-cell">
                       {formatDate(item.dateAdded)}
                     </TableCell>
@@ -503,6 +602,11 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
                         {item.status === "Pending" ? "Pending Approval" :
                          item.status === "Rejected" ? "Rejected" : item.status}
                       </Badge>
+                      {!(item as any).isRequest && isLowStock(item) && (
+                        <Badge variant="outline" className="ml-1 text-xs px-2 py-1 border-amber-500/50 bg-amber-50 text-amber-700">
+                          Low stock
+                        </Badge>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -649,6 +753,41 @@ export function InventoryTable({ data }: { data: InventoryItem[] }) {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Reorder Point Dialog */}
+      <Dialog open={!!reorderItem} onOpenChange={(open) => !open && setReorderItem(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Low-Stock Alert</DialogTitle>
+            <DialogDescription>
+              Get a notification and an email when {reorderItem?.productName} drops to this quantity or below after a
+              shipment or a Shopify/eBay sync. Leave empty to turn alerts off.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-4">
+            <div>
+              <Label htmlFor="reorder-point">Reorder Point</Label>
+              <Input
+                id="reorder-point"
+                type="number"
+                min="0"
+                value={reorderValue}
+                onChange={(e) => setReorderValue(e.target.value)}
+                placeholder="e.g. 20"
+                className="mt-1"
+              />
+            </div>
+            <div className="flex justify-end gap-2 pt-4">
+              <Button variant="outline" onClick={() => setReorderItem(null)} disabled={isSavingReorder}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveReorderPoint} disabled={isSavingReorder}>
+                {isSavingReorder ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
@@ -0,0 +1,71 @@
+"use client";
+
+import { useMemo } from "react";
+import { collection, query, where } from "firebase/firestore";
+import { Download } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useCollection } from "@/hooks/use-collection";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { creditNotesPath } from "@/lib/credit-notes";
+import { generateCreditNotePDF } from "@/lib/invoice-generator";
+import type { CreditNote } from "@/types";
+
+/** Downloads a credit note's PDF, reporting failures with a toast. */
+export function useDownloadCreditNote() {
+  const { toast } = useToast();
+  return async (note: CreditNote) => {
+    try {
+      await generateCreditNotePDF(note);
+    } catch (error) {
+      console.error("Error downloading credit note:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to download credit note: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
+    }
+  };
+}
+
+/** Credit notes issued against one invoice, newest first. */
+export function InvoiceCreditNotes({ userId, invoiceId }: { userId: string; invoiceId: string }) {
+  const path = userId ? creditNotesPath(userId) : "";
+  const notesQuery = useMemo(
+    () => (path && invoiceId ? query(collection(db, path), where("invoiceId", "==", invoiceId)) : undefined),
+    [path, invoiceId]
+  );
+  const { data: notes, loading } = useCollection<CreditNote>(path, notesQuery);
+  const downloadCreditNote = useDownloadCreditNote();
+
+  if (loading || notes.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-sm sm:text-base">Credit Notes</h4>
+      {[...notes]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map((note) => (
+          <div key={note.id} className="flex items-start justify-between gap-3 rounded-lg border p-2 sm:p-3 text-xs sm:text-sm">
+            <div className="min-w-0 space-y-0.5">
+              <p className="font-semibold">
+                {note.creditNoteNumber} · {note.date}
+              </p>
+              <p className="text-muted-foreground break-words">{note.reason}</p>
+              {note.unappliedAmount > 0.009 && (
+                <p className="text-muted-foreground">
+                  ${note.unappliedAmount.toFixed(2)} added to {note.walletTransactionId ? "wallet" : "account credit"}
+                </p>
+              )}
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <span className="font-semibold text-green-700">-${note.total.toFixed(2)}</span>
+              <Button variant="outline" size="sm" className="h-8" onClick={() => downloadCreditNote(note)}>
+                <Download className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { CheckCircle2, Clock, CreditCard, Loader2, Wallet } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { invoiceBalanceDue, MIN_INVOICE_PAYMENT } from "@/lib/invoice-payments";
+import { getStripePublishableKey } from "@/lib/stripe";
+import { walletBalance } from "@/lib/wallet";
+import type { Invoice } from "@/types";
+
+type PaymentOutcome = "succeeded" | "processing";
+
+function PaymentForm({ amount, onComplete }: { amount: number; onComplete: (outcome: PaymentOutcome) => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [processing, setProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setProcessing(true);
+    const { error, paymentIntent } = await stripe.confirmPayment({
+      elements,
+      redirect: "if_required",
+      confirmParams: { return_url: `${window.location.origin}/dashboard/invoices` },
+    });
+    setProcessing(false);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Payment Failed",
+        description: error.message || "Your payment could not be processed",
+      });
+    } else if (paymentIntent?.status === "succeeded" || paymentIntent?.status === "processing") {
+      onComplete(paymentIntent.status);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <PaymentElement />
+      <Button type="submit" disabled={!stripe || processing} className="w-full" size="lg">
+        {processing ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing...
+          </>
+        ) : (
+          <>
+            <CreditCard className="mr-2 h-4 w-4" />
+            Pay ${amount.toFixed(2)}
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Pays all or part of an invoice's balance due by card or bank account (ACH), or from the client's
+ * wallet when it covers the amount. Card and bank payments are recorded by the Stripe webhook, so a
+ * bank payment shows as paid only once the debit clears; wallet payments apply immediately.
+ */
+export function InvoicePaymentDialog({
+  invoice,
+  open,
+  onOpenChange,
+}: {
+  invoice: Invoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+  const [amount, setAmount] = useState("");
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [chargedAmount, setChargedAmount] = useState(0);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isPayingFromWallet, setIsPayingFromWallet] = useState(false);
+  const [outcome, setOutcome] = useState<PaymentOutcome | null>(null);
+
+  const balanceDue = invoice ? invoiceBalanceDue(invoice) : 0;
+  // Only the client's own wallet is on hand here
+  const wallet = invoice && userProfile?.uid === invoice.userId ? walletBalance(userProfile) : 0;
+
+  useEffect(() => {
+    if (open && !stripePromise) {
+      setStripePromise(loadStripe(getStripePublishableKey()));
+    }
+  }, [open, stripePromise]);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount(balanceDue.toFixed(2));
+    setClientSecret(null);
+    setChargedAmount(0);
+    setOutcome(null);
+    // Reset only when the dialog opens, not when the balance changes under it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, invoice?.id]);
+
+  const parsedAmount = parseFloat(amount) || 0;
+  const amountValid = parsedAmount >= MIN_INVOICE_PAYMENT && parsedAmount <= balanceDue;
+
+  const handleContinue = async () => {
+    if (!invoice || !amountValid) return;
+    setIsStarting(true);
+    try {
+      const idToken = user ? await user.getIdToken() : "";
+      if (!idToken) throw new Error("Please re-login and try again.");
+      const res = await fetch("/api/stripe/create-invoice-payment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+        body: JSON.stringify({ invoiceId: invoice.id, userId: invoice.userId, amount: parsedAmount }),
+      });
+      const payload = await res.json().catch(() => ({} as any));
+      if (!res.ok) throw new Error(payload?.details || payload?.error || "Failed to start payment.");
+      setChargedAmount(payload.amount);
+      setClientSecret(payload.clientSecret);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to start payment." });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handlePayFromWallet = async () => {
+    if (!invoice || !amountValid) return;
+    setIsPayingFromWallet(true);
+    try {
+      const idToken = user ? await user.getIdToken() : "";
+      if (!idToken) throw new Error("Please re-login and try again.");
+      const res = await fetch("/api/invoices/pay-from-wallet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+        body: JSON.stringify({ invoiceId: invoice.id, userId: invoice.userId, amount: parsedAmount }),
+      });
+      const payload = await res.json().catch(() => ({} as any));
+      if (!res.ok) throw new Error(payload?.details || payload?.error || "Failed to pay from wallet.");
+      setChargedAmount(payload.amount);
+      setOutcome("succeeded");
+      toast({
+        title: "Payment Successful!",
+        description: `$${Number(payload.amount).toFixed(2)} was paid on ${invoice.invoiceNumber} from your wallet.`,
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to pay from wallet." });
+    } finally {
+      setIsPayingFromWallet(false);
+    }
+  };
+
+  const handleComplete = (result: PaymentOutcome) => {
+    setOutcome(result);
+    toast({
+      title: result === "succeeded" ? "Payment Successful!" : "Payment Submitted",
+      description:
+        result === "succeeded"
+          ? `$${chargedAmount.toFixed(2)} was paid on ${invoice?.invoiceNumber}.`
+          : "Your bank payment is processing and will show on the invoice once it clears.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Pay Invoice
+          </DialogTitle>
+          <DialogDescription>
+            {invoice?.invoiceNumber} · Balance due ${balanceDue.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {outcome ? (
+          <div className="flex flex-col items-center justify-center py-8 space-y-4 text-center">
+            {outcome === "succeeded" ? (
+              <CheckCircle2 className="h-16 w-16 text-green-500" />
+            ) : (
+              <Clock className="h-16 w-16 text-amber-500" />
+            )}
+            <p className="text-lg font-semibold">
+              {outcome === "succeeded" ? "Payment Successful!" : "Payment Processing"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {outcome === "succeeded"
+                ? "The invoice will update in a moment."
+                : "Bank payments usually clear within a few business days."}
+            </p>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </div>
+        ) : clientSecret && stripePromise ? (
+          <Elements stripe={stripePromise} options={{ clientSecret }}>
+            <PaymentForm amount={chargedAmount} onComplete={handleComplete} />
+          </Elements>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-payment-amount">Amount</Label>
+              <Input
+                id="invoice-payment-amount"
+                type="number"
+                min={MIN_INVOICE_PAYMENT}
+                max={balanceDue}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Pay the full balance or any part of it (at least ${MIN_INVOICE_PAYMENT.toFixed(2)}).
+              </p>
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleContinue}
+              disabled={!invoice || !amountValid || isStarting || isPayingFromWallet}
+            >
+              {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Continue to Payment
+            </Button>
+            {wallet > 0 && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handlePayFromWallet}
+                disabled={!invoice || !amountValid || parsedAmount > wallet || isStarting || isPayingFromWallet}
+              >
+                {isPayingFromWallet ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Wallet className="mr-2 h-4 w-4" />
+                )}
+                Pay from Wallet (${wallet.toFixed(2)} available)
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
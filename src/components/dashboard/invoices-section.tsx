@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Search, Download, CheckCircle, Clock, X, Eye, DollarSign, Receipt } from "lucide-react";
+import { Search, Download, CheckCircle, Clock, X, Eye, DollarSign, Receipt, FileMinus, CreditCard } from "lucide-react";
 import { format } from "date-fns";
 import { generateInvoicePDF } from "@/lib/invoice-generator";
 import { doc, updateDoc } from "firebase/firestore";
@@ -15,15 +15,23 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
-import type { Invoice } from "@/types";
+import type { CreditNote, Invoice } from "@/types";
 import { createCommissionForInvoice } from "@/lib/commission-utils";
+import { isVolumeStorageType, storagePriceLabel, storageTypeLabel } from "@/lib/storage-billing";
+import { StorageSnapshotsTable } from "@/components/dashboard/storage-snapshots-table";
+import { InvoiceCreditNotes, useDownloadCreditNote } from "@/components/dashboard/invoice-credit-notes";
+import { accountCreditBalance } from "@/lib/credit-notes";
+import { invoiceBalanceDue, isOpenInvoice } from "@/lib/invoice-payments";
+import { walletBalance } from "@/lib/wallet";
+import { InvoicePaymentDialog } from "@/components/dashboard/invoice-payment-dialog";
 
 interface InvoicesSectionProps {
   invoices: Invoice[];
+  creditNotes: CreditNote[];
   loading: boolean;
 }
 
-export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
+export function InvoicesSection({ invoices, creditNotes, loading }: InvoicesSectionProps) {
   const { toast } = useToast();
   const { user, userProfile } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
@@ -32,12 +40,19 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
   const [endDate, setEndDate] = useState("");
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<"pending" | "paid">("pending");
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const [activeTab, setActiveTab] = useState<"pending" | "paid" | "credits">("pending");
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 12;
 
-  const pendingInvoices = invoices.filter(inv => inv.status === 'pending');
+  const pendingInvoices = invoices.filter(isOpenInvoice);
   const paidInvoices = invoices.filter(inv => inv.status === 'paid');
+  const downloadCreditNote = useDownloadCreditNote();
+
+  // Statement: what is still owed after credit notes, less the wallet and older account credit
+  const balanceDue = pendingInvoices.reduce((sum, inv) => sum + invoiceBalanceDue(inv), 0);
+  const accountCredit = walletBalance(userProfile) + accountCreditBalance(creditNotes);
+  const sortedCreditNotes = [...creditNotes].sort((a, b) => b.date.localeCompare(a.date));
   
   // Enhanced filtering with search, date range, and preset filters
   const filteredInvoices = invoices.filter(inv => {
@@ -92,7 +107,7 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
     return matchesSearch && matchesDateRange && matchesPresetDate;
   });
 
-  const filteredPendingInvoices = filteredInvoices.filter(inv => inv.status === 'pending');
+  const filteredPendingInvoices = filteredInvoices.filter(isOpenInvoice);
   const filteredPaidInvoices = filteredInvoices.filter(inv => inv.status === 'paid');
   
   // Get current tab invoices
@@ -122,7 +137,7 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
 
   // Reset to page 1 when tab changes
   const handleTabChange = (value: string) => {
-    setActiveTab(value as "pending" | "paid");
+    setActiveTab(value as "pending" | "paid" | "credits");
     setCurrentPage(1);
   };
 
@@ -187,10 +202,11 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
       // Update invoice in user's invoices collection
       await updateDoc(doc(db, `users/${invoice.userId}/invoices/${invoiceId}`), {
         status: 'paid',
+        paidAt: new Date(),
       });
       
       // Create commission if user was referred by an agent
-      if (userProfile && invoice.status === 'pending') {
+      if (userProfile && isOpenInvoice(invoice)) {
         try {
           await createCommissionForInvoice(invoice, userProfile);
         } catch (commissionError) {
@@ -331,8 +347,24 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
           <CardDescription>View and manage your invoices</CardDescription>
         </CardHeader>
         <CardContent>
+          {(balanceDue > 0 || accountCredit > 0) && (
+            <div className="grid grid-cols-3 gap-2 rounded-lg border bg-muted/40 p-3 mb-4 text-xs sm:text-sm">
+              <div>
+                <p className="text-muted-foreground">Balance Due</p>
+                <p className="font-semibold">${balanceDue.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Account Credit</p>
+                <p className="font-semibold text-green-700">-${accountCredit.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Outstanding</p>
+                <p className="font-semibold">${Math.max(0, balanceDue - accountCredit).toFixed(2)}</p>
+              </div>
+            </div>
+          )}
           <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-            <TabsList className="grid grid-cols-2 w-full">
+            <TabsList className="grid grid-cols-3 w-full">
               <TabsTrigger value="pending" className="flex items-center justify-center gap-2">
                 <Clock className="h-4 w-4" />
                 <span>Pending</span>
@@ -343,6 +375,11 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                 <span>Paid</span>
                 <Badge variant="secondary" className="text-xs">{filteredPaidInvoices.length}</Badge>
               </TabsTrigger>
+              <TabsTrigger value="credits" className="flex items-center justify-center gap-2">
+                <FileMinus className="h-4 w-4" />
+                <span>Credits</span>
+                <Badge variant="secondary" className="text-xs">{creditNotes.length}</Badge>
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="pending" className="mt-6">
@@ -360,14 +397,39 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-1 sm:mb-2">
                             <h3 className="font-semibold text-sm sm:text-base truncate">{invoice.invoiceNumber}</h3>
-                            <Badge variant="secondary" className="text-[10px] sm:text-xs">Pending</Badge>
+                            <Badge variant="secondary" className="text-[10px] sm:text-xs">
+                              {invoice.status === 'partially_paid' ? 'Partially Paid' : 'Pending'}
+                            </Badge>
                           </div>
                           <div className="text-xs sm:text-sm text-muted-foreground space-y-0.5 sm:space-y-1">
                             <p>Date: {invoice.date}</p>
                             <p className="font-semibold text-sm sm:text-lg">Total: ${invoice.grandTotal.toFixed(2)}</p>
+                            {((invoice.creditedAmount || 0) > 0 || (invoice.amountPaid || 0) > 0) && (
+                              <p>
+                                {(invoice.creditedAmount || 0) > 0 && `Credited: -$${(invoice.creditedAmount || 0).toFixed(2)} · `}
+                                {(invoice.amountPaid || 0) > 0 && `Paid: -$${(invoice.amountPaid || 0).toFixed(2)} · `}
+                                Balance due: ${invoiceBalanceDue(invoice).toFixed(2)}
+                              </p>
+                            )}
+                            {invoice.autopayStatus === 'processing' && <p>Autopay payment processing</p>}
+                            {(invoice.autopayStatus === 'failed' || invoice.autopayStatus === 'exhausted') && (
+                              <p className="text-red-600">
+                                Autopay failed{invoice.autopayLastError ? `: ${invoice.autopayLastError}` : ''}
+                                {invoice.autopayStatus === 'failed' && invoice.autopayNextAttemptAt ? ` · Retrying ${formatDate(invoice.autopayNextAttemptAt)}` : ''}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="grid grid-cols-2 gap-2 w-full sm:w-auto sm:flex sm:flex-row sm:flex-wrap">
+                          <Button
+                            size="sm"
+                            className="col-span-2 w-full sm:w-auto text-xs sm:text-sm h-9 sm:h-9"
+                            onClick={() => setPayingInvoice(invoice)}
+                            disabled={invoiceBalanceDue(invoice) <= 0}
+                          >
+                            <CreditCard className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" />
+                            <span>Pay</span>
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -518,6 +580,45 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="credits" className="mt-6">
+              {sortedCreditNotes.length > 0 ? (
+                <div className="space-y-3">
+                  {sortedCreditNotes.map((note) => (
+                    <div key={note.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 sm:p-4 border rounded-lg bg-blue-50">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1 sm:mb-2">
+                          <h3 className="font-semibold text-sm sm:text-base truncate">{note.creditNoteNumber}</h3>
+                          <Badge variant="outline" className="text-[10px] sm:text-xs">
+                            {note.kind === "full" ? "Full Credit" : "Partial Credit"}
+                          </Badge>
+                        </div>
+                        <div className="text-xs sm:text-sm text-muted-foreground space-y-0.5 sm:space-y-1">
+                          <p>Date: {note.date} · Invoice: {note.invoiceNumber}</p>
+                          <p className="break-words">{note.reason}</p>
+                          <p className="font-semibold text-sm sm:text-lg text-green-700">Credit: -${note.total.toFixed(2)}</p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full sm:w-auto text-xs sm:text-sm h-9"
+                        onClick={() => downloadCreditNote(note)}
+                      >
+                        <Download className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" />
+                        <span>Download</span>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <FileMinus className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No credit notes</h3>
+                  <p className="text-muted-foreground">Credits issued against your invoices will appear here.</p>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -546,6 +647,12 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                 const invoiceMonth = (selectedInvoice as any).invoiceMonth as string | undefined;
                 const palletCount = (selectedInvoice as any).palletCount as number | undefined;
                 const itemCount = (selectedInvoice as any).itemCount as number | undefined;
+                const averageUsage = (selectedInvoice as any).averageUsage as number | undefined;
+                const billingPeriod = (selectedInvoice as any).billingPeriod as { start: string; end: string } | undefined;
+                const unmeasuredItems = ((selectedInvoice as any).unmeasuredItems || []) as string[];
+                const usageSource = (selectedInvoice as any).usageSource as string | undefined;
+                const snapshotDate = (selectedInvoice as any).snapshotDate as string | undefined;
+                const snapshotRange = snapshotDate ? { start: snapshotDate, end: snapshotDate } : billingPeriod;
 
                 const firstItem = selectedInvoice.items?.[0] as any;
                 const unitPrice = Number(firstItem?.unitPrice || 0);
@@ -556,13 +663,38 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs sm:text-sm">
                       <div>
                         <p className="text-muted-foreground">Storage Type</p>
-                        <p className="font-medium">{storageType || "-"}</p>
+                        <p className="font-medium">{storageTypeLabel(storageType)}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground">Invoice Month</p>
                         <p className="font-medium">{invoiceMonth || "-"}</p>
                       </div>
-                      {storageType === "pallet_base" ? (
+                      {isVolumeStorageType(storageType) ? (
+                        <>
+                          <div>
+                            <p className="text-muted-foreground">
+                              {storageType === "cubic_feet" ? "Average Cubic Feet" : "Average Pallet Positions"}
+                            </p>
+                            <p className="font-medium">{typeof averageUsage === "number" ? averageUsage : "-"}</p>
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">{storagePriceLabel(storageType)}</p>
+                            <p className="font-medium">${unitPrice.toFixed(2)}</p>
+                          </div>
+                          {billingPeriod && (
+                            <div>
+                              <p className="text-muted-foreground">Billing Period</p>
+                              <p className="font-medium">{billingPeriod.start} to {billingPeriod.end}</p>
+                            </div>
+                          )}
+                          {unmeasuredItems.length > 0 && (
+                            <div className="sm:col-span-2">
+                              <p className="text-muted-foreground">Not Billed (missing dimensions or pallet setup)</p>
+                              <p className="font-medium">{unmeasuredItems.join(", ")}</p>
+                            </div>
+                          )}
+                        </>
+                      ) : storageType === "pallet_base" ? (
                         <>
                           <div>
                             <p className="text-muted-foreground">Pallet Count</p>
@@ -586,6 +718,17 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                         </>
                       )}
                     </div>
+                    {usageSource === "snapshots" && snapshotRange && (
+                      <div className="mt-3 space-y-1">
+                        <p className="text-xs sm:text-sm text-muted-foreground">Billed from daily storage snapshots</p>
+                        <StorageSnapshotsTable
+                          userId={(selectedInvoice as any).userId}
+                          start={snapshotRange.start}
+                          end={snapshotRange.end}
+                          storageType={storageType}
+                        />
+                      </div>
+                    )}
                   </div>
                 );
               })()}
@@ -603,7 +746,7 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                 <div className="sm:col-span-2">
                   <p className="text-xs sm:text-sm text-muted-foreground">Status</p>
                   <Badge variant={selectedInvoice.status === 'paid' ? 'default' : 'secondary'} className="text-xs sm:text-sm mt-1">
-                    {selectedInvoice.status.toUpperCase()}
+                    {selectedInvoice.status.replace('_', ' ').toUpperCase()}
                   </Badge>
                 </div>
               </div>
@@ -629,7 +772,6 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                   const isStorageInvoice = (selectedInvoice as any).type === 'storage';
                   const isContainerHandling = (selectedInvoice as any).isContainerHandling || (selectedInvoice as any).type === 'container_handling';
                   const storageType = (selectedInvoice as any).storageType as string | undefined;
-                  const isProductBaseStorage = storageType === 'product_base';
                   
                   // Use explicit grid template columns for better control
                   const gridTemplateCols = isStorageInvoice 
@@ -650,7 +792,7 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                             <div>Packaging</div>
                           </>
                         )}
-                        <div>{isStorageInvoice ? (isProductBaseStorage ? 'Price per Item' : 'Price per Pallet') : 'Unit Price'}</div>
+                        <div>{isStorageInvoice ? storagePriceLabel(storageType) : 'Unit Price'}</div>
                         <div>Amount</div>
                       </div>
                       {selectedInvoice.items.map((item, idx) => {
@@ -706,7 +848,7 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                             const invoiceType = (selectedInvoice as any).type;
                             const storageType = (selectedInvoice as any).storageType;
                             if (invoiceType === 'storage') {
-                              return storageType === 'product_base' ? 'Price per Item' : 'Price per Pallet';
+                              return storagePriceLabel(storageType);
                             }
                             return 'Unit Price';
                           })()}: ${Number((item as any).unitPrice || 0).toFixed(2)}
@@ -810,9 +952,31 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                     <span>Grand Total:</span>
                     <span>${selectedInvoice.grandTotal.toFixed(2)}</span>
                   </div>
+                  {((selectedInvoice.creditedAmount || 0) > 0 || (selectedInvoice.amountPaid || 0) > 0) && (
+                    <>
+                      {(selectedInvoice.creditedAmount || 0) > 0 && (
+                        <div className="flex justify-between text-xs sm:text-sm">
+                          <span>Credit Notes:</span>
+                          <span className="font-semibold">-${(selectedInvoice.creditedAmount || 0).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {(selectedInvoice.payments || []).map((payment) => (
+                        <div key={payment.id} className="flex justify-between text-xs sm:text-sm">
+                          <span>Payment {payment.date} ({payment.method}):</span>
+                          <span className="font-semibold">-${payment.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between font-semibold text-sm sm:text-base">
+                        <span>Balance Due:</span>
+                        <span>${invoiceBalanceDue(selectedInvoice).toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
+              <InvoiceCreditNotes userId={selectedInvoice.userId} invoiceId={selectedInvoice.id} />
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row justify-end gap-2 pt-3 sm:pt-4 border-t">
                 <Button
@@ -824,12 +988,31 @@ export function InvoicesSection({ invoices, loading }: InvoicesSectionProps) {
                   <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                   Download PDF
                 </Button>
+                {invoiceBalanceDue(selectedInvoice) > 0 && (
+                  <Button
+                    size="sm"
+                    className="text-xs sm:text-sm h-8 sm:h-9 w-full sm:w-auto"
+                    onClick={() => {
+                      setIsViewDialogOpen(false);
+                      setPayingInvoice(selectedInvoice);
+                    }}
+                  >
+                    <CreditCard className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                    Pay Invoice
+                  </Button>
+                )}
                 {/* PDF upload/view buttons moved to PDF section */}
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <InvoicePaymentDialog
+        invoice={payingInvoice}
+        open={!!payingInvoice}
+        onOpenChange={(open) => !open && setPayingInvoice(null)}
+      />
     </div>
   );
 }
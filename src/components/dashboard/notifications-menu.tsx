@@ -0,0 +1,108 @@
+"use client";
+
+import { useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { doc, updateDoc, writeBatch } from "firebase/firestore";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useCollection } from "@/hooks/use-collection";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import type { UserNotification } from "@/types";
+
+const MAX_SHOWN = 20;
+
+function toDate(value: UserNotification["createdAt"]): Date {
+  return typeof value === "string" ? new Date(value) : new Date(value.seconds * 1000);
+}
+
+export function NotificationsMenu() {
+  const { userProfile } = useAuth();
+  const router = useRouter();
+  const { data: notifications } = useCollection<UserNotification>(
+    userProfile?.uid ? `users/${userProfile.uid}/notifications` : ""
+  );
+
+  const sorted = useMemo(
+    () =>
+      notifications
+        .filter((n) => n.createdAt)
+        .sort((a, b) => toDate(b.createdAt).getTime() - toDate(a.createdAt).getTime())
+        .slice(0, MAX_SHOWN),
+    [notifications]
+  );
+  const unread = notifications.filter((n) => !n.read);
+
+  const markRead = async (notification: UserNotification) => {
+    if (!userProfile?.uid || notification.read) return;
+    await updateDoc(doc(db, `users/${userProfile.uid}/notifications`, notification.id), { read: true });
+  };
+
+  const markAllRead = async () => {
+    if (!userProfile?.uid || unread.length === 0) return;
+    const batch = writeBatch(db);
+    unread.forEach((n) => batch.update(doc(db, `users/${userProfile.uid}/notifications`, n.id), { read: true }));
+    await batch.commit();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9 rounded-full" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unread.length > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {sorted.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet.</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {sorted.map((n) => (
+              <DropdownMenuItem
+                key={n.id}
+                className="flex cursor-pointer flex-col items-start gap-0.5"
+                onClick={() => {
+                  markRead(n);
+                  if (n.type === "low_stock") router.push("/dashboard/inventory");
+                }}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!n.read && <span className="h-2 w-2 shrink-0 rounded-full bg-blue-600" />}
+                  <span className={cn("text-sm", !n.read && "font-semibold")}>{n.title}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">{n.message}</span>
+                <span className="text-[10px] text-muted-foreground">
+                  {formatDistanceToNow(toDate(n.createdAt), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
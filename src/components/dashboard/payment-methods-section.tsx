@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { CreditCard, Loader2, RefreshCw } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AUTOPAY_RETRY_DAYS, savedPaymentMethodLabel } from "@/lib/autopay";
+import { getStripePublishableKey } from "@/lib/stripe";
+
+async function paymentMethodRequest(user: { getIdToken(): Promise<string> } | null, method: string, body?: unknown) {
+  const idToken = user ? await user.getIdToken() : "";
+  if (!idToken) throw new Error("Please re-login and try again.");
+  const res = await fetch("/api/stripe/payment-method", {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+  const payload = await res.json().catch(() => ({} as any));
+  if (!res.ok) throw new Error(payload?.details || payload?.error || "Request failed.");
+  return payload;
+}
+
+function SetupForm({ onSaved, onCancel }: { onSaved: () => void; onCancel: () => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setSaving(true);
+    try {
+      const { error, setupIntent } = await stripe.confirmSetup({
+        elements,
+        redirect: "if_required",
+        confirmParams: { return_url: `${window.location.origin}/dashboard` },
+      });
+      if (error) throw new Error(error.message || "Your payment method could not be saved.");
+      const paymentMethodId =
+        typeof setupIntent?.payment_method === "string" ? setupIntent.payment_method : setupIntent?.payment_method?.id;
+      if (!paymentMethodId) throw new Error("Your payment method could not be saved.");
+
+      await paymentMethodRequest(user, "PUT", { paymentMethodId });
+      toast({
+        title: "Payment Method Saved",
+        description:
+          setupIntent?.status === "processing"
+            ? "Your bank account is being verified and can be charged once that completes."
+            : "It will be used for autopay.",
+      });
+      onSaved();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to save payment method." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <div className="flex gap-2">
+        <Button type="submit" disabled={!stripe || saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Payment Method
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * The card or bank account a client keeps on file, and whether generated storage and service
+ * invoices are charged to it automatically.
+ */
+export function PaymentMethodsSection() {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [isToggling, setIsToggling] = useState(false);
+
+  useEffect(() => {
+    if (clientSecret && !stripePromise) {
+      setStripePromise(loadStripe(getStripePublishableKey()));
+    }
+  }, [clientSecret, stripePromise]);
+
+  const savedMethod = userProfile?.defaultPaymentMethod || null;
+
+  const handleStartSetup = async () => {
+    setIsStarting(true);
+    try {
+      const payload = await paymentMethodRequest(user, "POST");
+      setClientSecret(payload.clientSecret);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to start setup." });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      await paymentMethodRequest(user, "DELETE");
+      toast({ title: "Payment Method Removed", description: "Autopay has been turned off." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to remove payment method." });
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const handleToggleAutopay = async (enabled: boolean) => {
+    if (!userProfile) return;
+    setIsToggling(true);
+    try {
+      await updateDoc(doc(db, "users", userProfile.uid), { autopayEnabled: enabled });
+      toast({
+        title: enabled ? "Autopay On" : "Autopay Off",
+        description: enabled
+          ? "New storage and service invoices will be charged to your saved payment method."
+          : "You will pay new invoices yourself.",
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: error.message || "Failed to update autopay." });
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          <CardTitle>Payment &amp; Autopay</CardTitle>
+        </div>
+        <CardDescription>Save a card or bank account and have your invoices paid automatically</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label>Saved Payment Method</Label>
+          {clientSecret && stripePromise ? (
+            <Elements stripe={stripePromise} options={{ clientSecret }}>
+              <SetupForm onSaved={() => setClientSecret(null)} onCancel={() => setClientSecret(null)} />
+            </Elements>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {savedMethod ? savedPaymentMethodLabel(savedMethod) : "No payment method saved"}
+                {savedMethod?.expMonth && savedMethod?.expYear
+                  ? ` · Expires ${String(savedMethod.expMonth).padStart(2, "0")}/${savedMethod.expYear}`
+                  : ""}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleStartSetup} disabled={isStarting || isRemoving}>
+                  {isStarting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                  {savedMethod ? "Replace" : "Add"}
+                </Button>
+                {savedMethod && (
+                  <Button variant="outline" size="sm" onClick={handleRemove} disabled={isStarting || isRemoving}>
+                    {isRemoving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-start justify-between gap-4 border-t pt-4">
+          <div className="space-y-1">
+            <Label htmlFor="autopay-enabled">Autopay</Label>
+            <p className="text-xs text-muted-foreground">
+              Charge storage and service invoices when they are issued. A failed charge is retried{" "}
+              {AUTOPAY_RETRY_DAYS.length} times and you are emailed each time.
+            </p>
+          </div>
+          <Switch
+            id="autopay-enabled"
+            checked={!!userProfile?.autopayEnabled && !!savedMethod}
+            onCheckedChange={handleToggleAutopay}
+            disabled={!savedMethod || isToggling}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import type { PricingHistoryEntry, PricingHistoryStatus } from "@/lib/pricing-history";
+
+const STATUS_LABELS: Record<PricingHistoryStatus, string> = {
+  current: "Current",
+  scheduled: "Scheduled",
+  superseded: "Superseded",
+};
+
+function PricingHistoryStatusBadge({ status }: { status: PricingHistoryStatus }) {
+  return (
+    <Badge
+      variant={status === "superseded" ? "outline" : "default"}
+      className={status === "current" ? "bg-green-600 hover:bg-green-600" : status === "scheduled" ? "bg-blue-600 hover:bg-blue-600" : undefined}
+    >
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+/** Pricing entries of a client grouped by effective date, newest first (see `buildPricingHistory`). */
+export function PricingHistoryTimeline({ entries }: { entries: PricingHistoryEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No pricing has been set up yet.</p>;
+  }
+
+  const groups: { effectiveFrom: number; entries: PricingHistoryEntry[] }[] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && last.effectiveFrom === entry.effectiveFrom) last.entries.push(entry);
+    else groups.push({ effectiveFrom: entry.effectiveFrom, entries: [entry] });
+  }
+
+  return (
+    <ol className="relative space-y-6 border-l pl-6">
+      {groups.map((group) => (
+        <li key={group.effectiveFrom} className="relative">
+          <span className="absolute -left-[1.85rem] top-1 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+          <p className="text-sm font-semibold">
+            {group.effectiveFrom ? `Effective ${format(new Date(group.effectiveFrom), "MMM dd, yyyy")}` : "Original pricing"}
+          </p>
+          <div className="mt-2 space-y-2">
+            {group.entries.map((entry) => (
+              <div key={entry.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                <div>
+                  <p className="font-medium">{entry.label}</p>
+                  <p className="text-muted-foreground">{entry.detail}</p>
+                </div>
+                <PricingHistoryStatusBadge status={entry.status} />
+              </div>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ProfileSection } from "@/components/dashboard/profile-section";
+import { PaymentMethodsSection } from "@/components/dashboard/payment-methods-section";
 
 interface ProfileDialogProps {
   open: boolean;
@@ -14,10 +15,11 @@ export function ProfileDialog({ open, onOpenChange }: ProfileDialogProps) {
       <DialogContent className="max-w-full sm:max-w-2xl h-[100dvh] sm:h-auto sm:max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Profile Settings</DialogTitle>
-          <DialogDescription>View your account information. You can update your phone number or change your password.</DialogDescription>
+          <DialogDescription>View your account information. You can update your phone number, change your password, or set up autopay.</DialogDescription>
         </DialogHeader>
-        <div className="mt-2">
+        <div className="mt-2 space-y-4">
           <ProfileSection />
+          <PaymentMethodsSection />
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,76 @@
+"use client";
+
+import { useMemo } from "react";
+import { collection, orderBy, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useCollection } from "@/hooks/use-collection";
+import { storageSnapshotsPath } from "@/lib/storage-snapshots";
+import type { StorageSnapshot } from "@/types";
+
+function usageColumn(storageType: string | undefined): { label: string; value: (s: StorageSnapshot) => string } {
+  if (storageType === "cubic_feet") return { label: "Cubic Feet", value: (s) => s.totalCubicFeet.toFixed(2) };
+  if (storageType === "pallet_positions") return { label: "Pallet Positions", value: (s) => String(s.totalPalletPositions) };
+  if (storageType === "pallet_base") return { label: "Pallets", value: (s) => (s.pallets === null ? "Manual count" : String(s.pallets)) };
+  return { label: "Items in Stock", value: (s) => String(s.items.filter((i) => i.status === "In Stock").length) };
+}
+
+/** The daily storage snapshots a storage invoice was billed from, with each day's products. */
+export function StorageSnapshotsTable({
+  userId,
+  start,
+  end,
+  storageType,
+}: {
+  userId: string;
+  start: string;
+  end: string;
+  storageType?: string;
+}) {
+  const path = userId ? storageSnapshotsPath(userId) : "";
+  const snapshotsQuery = useMemo(
+    () =>
+      path ? query(collection(db, path), where("date", ">=", start), where("date", "<=", end), orderBy("date")) : undefined,
+    [path, start, end]
+  );
+  const { data: snapshots, loading } = useCollection<StorageSnapshot>(path, snapshotsQuery);
+  const column = usageColumn(storageType);
+
+  if (loading) return <p className="text-xs text-muted-foreground">Loading snapshots...</p>;
+  if (snapshots.length === 0) return <p className="text-xs text-muted-foreground">No storage snapshots for this period.</p>;
+
+  return (
+    <div className="space-y-1 max-h-72 overflow-y-auto">
+      <div className="grid grid-cols-3 gap-2 text-xs font-semibold text-muted-foreground">
+        <span>Date</span>
+        <span>Units</span>
+        <span>{column.label}</span>
+      </div>
+      {snapshots.map((snapshot) => (
+        <details key={snapshot.id} className="rounded border px-2 py-1 text-xs">
+          <summary className="grid cursor-pointer grid-cols-3 gap-2">
+            <span>{snapshot.date}</span>
+            <span>{snapshot.totalUnits}</span>
+            <span>{column.value(snapshot)}</span>
+          </summary>
+          <ul className="mt-1 space-y-0.5 text-muted-foreground">
+            {snapshot.items.map((item) => (
+              <li key={item.productId} className="flex justify-between gap-2">
+                <span className="truncate">
+                  {item.productName}
+                  {item.sku ? ` (${item.sku})` : ""}
+                </span>
+                <span>
+                  {item.quantity}
+                  {storageType === "cubic_feet" && item.cubicFeet !== undefined ? ` · ${item.cubicFeet.toFixed(2)} cu ft` : ""}
+                  {(storageType === "pallet_positions" || storageType === "pallet_base") && item.palletPositions !== undefined
+                    ? ` · ${item.palletPositions} pallet(s)`
+                    : ""}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,11 @@
  import { useMemo, useState } from "react";
  import { useAuth } from "@/hooks/use-auth";
  import { useCollection } from "@/hooks/use-collection";
+ import { usePricingTiers } from "@/hooks/use-pricing-tiers";
+ import { formatTierRange, getServiceTiers, ruleTierId } from "@/lib/pricing-tiers";
+ import { buildPricingHistory, pricingInEffect } from "@/lib/pricing-history";
+ import { storageTypeLabel } from "@/lib/storage-billing";
+ import { PricingHistoryTimeline } from "@/components/dashboard/pricing-history-timeline";
  import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
  import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
  import { Skeleton } from "@/components/ui/skeleton";
@@ -11,11 +16,13 @@
    id: string;
    userId?: string;
    service?: string;
+   tierId?: string;
    package?: string;
    quantityRange?: string;
    productType?: string;
    rate?: number;
    packOf?: number;
+   effectiveFrom?: any;
    updatedAt?: any;
    createdAt?: any;
  };
@@ -25,6 +32,7 @@
    storageType?: string;
    price?: number;
    palletCount?: number;
+   effectiveFrom?: any;
    updatedAt?: any;
    createdAt?: any;
  };
@@ -32,6 +40,7 @@
  type SimplePriceDoc = {
    id: string;
    price?: number;
+   effectiveFrom?: any;
    updatedAt?: any;
    createdAt?: any;
  };
@@ -40,6 +49,7 @@
    id: string;
    containerSize?: string;
    price?: number;
+   effectiveFrom?: any;
    updatedAt?: any;
    createdAt?: any;
  };
@@ -49,24 +59,11 @@
    bubbleWrapPrice?: number;
    stickerRemovalPrice?: number;
    warningLabelPrice?: number;
+   effectiveFrom?: any;
    updatedAt?: any;
    createdAt?: any;
  };
 
- const FBA_PACKAGES = [
-   { package: "Premium", quantityRange: "1001+" },
-   { package: "Small Business", quantityRange: "501-1000" },
-   { package: "Standard", quantityRange: "50-500" },
-   { package: "Starter", quantityRange: "<50" },
- ] as const;
-
- const FBM_PACKAGES = [
-   { package: "Premium", quantityRange: "101+" },
-   { package: "Small Business", quantityRange: "50+" },
-   { package: "Standard", quantityRange: "25+" },
-   { package: "Starter", quantityRange: "<25" },
- ] as const;
-
  const PRODUCT_TYPES = ["Standard", "Large"] as const;
 
  function toMs(v: any): number {
@@ -103,11 +100,6 @@
    return `$${n.toFixed(2)}`;
  }
 
- function pickLatest<T extends { updatedAt?: any; createdAt?: any }>(docs: T[]): T | null {
-   if (!docs || docs.length === 0) return null;
-   return [...docs].sort((a, b) => toMs(b.updatedAt || b.createdAt) - toMs(a.updatedAt || a.createdAt))[0] ?? null;
- }
-
  function normalizeSize(input: unknown): string {
    const raw = (typeof input === "string" ? input : "").toLowerCase();
    const compact = raw.replace(/\s+/g, "");
@@ -147,36 +139,53 @@
    const { data: additionalServicesPricingList, loading: additionalLoading } = useCollection<AdditionalServicesDoc>(
      uid ? `users/${uid}/additionalServicesPricing` : ""
    );
+   const { tierTables, loading: tiersLoading } = usePricingTiers(uid);
 
+   // Rates shown are the ones in effect today; scheduled changes appear in the History tab
    const pricingByKey = useMemo(() => {
-     const map = new Map<string, PricingRuleDoc>();
+     const groups = new Map<string, PricingRuleDoc[]>();
      for (const d of pricingList || []) {
-       if (!d.service || !d.package || !d.quantityRange || !d.productType) continue;
-       const key = `${d.service}|${d.package}|${d.quantityRange}|${d.productType}`;
-       const prev = map.get(key);
-       if (!prev || toMs(d.updatedAt || d.createdAt) > toMs(prev.updatedAt || prev.createdAt)) {
-         map.set(key, d);
-       }
+       const tierId = ruleTierId(d);
+       if (!d.service || !tierId || !d.productType) continue;
+       const key = `${d.service}|${tierId}|${d.productType}`;
+       groups.set(key, [...(groups.get(key) || []), d]);
      }
+     const map = new Map<string, PricingRuleDoc>();
+     groups.forEach((rules, key) => {
+       const rule = pricingInEffect(rules);
+       if (rule) map.set(key, rule);
+     });
      return map;
    }, [pricingList]);
 
-   const latestStorage = useMemo(() => pickLatest(storagePricingList || []), [storagePricingList]);
-   const latestBox = useMemo(() => pickLatest(boxForwardingPricingList || []), [boxForwardingPricingList]);
-   const latestPallet = useMemo(() => pickLatest(palletForwardingPricingList || []), [palletForwardingPricingList]);
-   const latestAdditional = useMemo(() => pickLatest(additionalServicesPricingList || []), [additionalServicesPricingList]);
+   const latestStorage = useMemo(() => pricingInEffect(storagePricingList), [storagePricingList]);
+   const latestBox = useMemo(() => pricingInEffect(boxForwardingPricingList), [boxForwardingPricingList]);
+   const latestPallet = useMemo(() => pricingInEffect(palletForwardingPricingList), [palletForwardingPricingList]);
+   const latestAdditional = useMemo(() => pricingInEffect(additionalServicesPricingList), [additionalServicesPricingList]);
 
    const containerBySize = useMemo(() => {
      const m = new Map<string, ContainerHandlingDoc>();
-     for (const d of containerHandlingPricingList || []) {
-       const size = normalizeSize(d.containerSize);
-       const prev = m.get(size);
-       if (!prev || toMs(d.updatedAt || d.createdAt) > toMs(prev.updatedAt || prev.createdAt)) m.set(size, d);
+     for (const size of ["20feet", "40feet"]) {
+       const d = pricingInEffect((containerHandlingPricingList || []).filter((p) => normalizeSize(p.containerSize) === size));
+       if (d) m.set(size, d);
      }
      return m;
    }, [containerHandlingPricingList]);
 
-   const isLoading = pricingLoading || storageLoading || boxLoading || palletLoading || containerLoading || additionalLoading;
+   const pricingHistory = useMemo(
+     () =>
+       buildPricingHistory({
+         prep: pricingList,
+         storage: storagePricingList,
+         boxForwarding: boxForwardingPricingList,
+         palletForwarding: palletForwardingPricingList,
+         containerHandling: containerHandlingPricingList,
+         additionalServices: additionalServicesPricingList,
+       }),
+     [pricingList, storagePricingList, boxForwardingPricingList, palletForwardingPricingList, containerHandlingPricingList, additionalServicesPricingList]
+   );
+
+   const isLoading = pricingLoading || tiersLoading || storageLoading || boxLoading || palletLoading || containerLoading || additionalLoading;
 
    if (!uid) {
      return <div className="text-sm text-muted-foreground">Loading user…</div>;
@@ -201,7 +210,8 @@
    }
 
    const renderServiceTable = (service: "FBA/WFS/TFS" | "FBM") => {
-     const pkgs = service === "FBM" ? FBM_PACKAGES : FBA_PACKAGES;
+     const tiers = getServiceTiers(tierTables, service);
+     const rows = tiers.map((tier, index) => ({ tier, quantityRange: formatTierRange(tiers, index) })).reverse();
      return (
        <div className="overflow-x-auto">
          <table className="w-full border-collapse">
@@ -215,14 +225,14 @@
              </tr>
            </thead>
            <tbody>
-             {pkgs.flatMap((pkg) =>
+             {rows.flatMap(({ tier, quantityRange }) =>
                PRODUCT_TYPES.map((pt) => {
-                 const key = `${service}|${pkg.package}|${pkg.quantityRange}|${pt}`;
+                 const key = `${service}|${tier.id}|${pt}`;
                  const rule = pricingByKey.get(key);
                  return (
                    <tr key={key} className="border-b hover:bg-muted/50">
-                     <td className="p-2 text-sm">{pkg.package}</td>
-                     <td className="p-2 text-sm">{pkg.quantityRange}</td>
+                     <td className="p-2 text-sm">{tier.name}</td>
+                     <td className="p-2 text-sm">{quantityRange}</td>
                      <td className="p-2 text-sm">{productTypeLabel(pt)}</td>
                      <td className="p-2 text-sm font-medium">{money(rule?.rate)}</td>
                      <td className="p-2 text-sm font-medium">{money(rule?.packOf)}</td>
@@ -261,6 +271,9 @@
            <TabsTrigger value="Additional Services" className="data-[state=active]:bg-pink-500 data-[state=active]:text-white whitespace-nowrap px-4 py-2">
              Additional Services
            </TabsTrigger>
+           <TabsTrigger value="History" className="data-[state=active]:bg-slate-700 data-[state=active]:text-white whitespace-nowrap px-4 py-2">
+             History
+           </TabsTrigger>
          </TabsList>
        </div>
 
@@ -282,7 +295,7 @@
                <>
                  <div className="flex items-center justify-between">
                    <span>Storage Type</span>
-                   <span className="font-medium">{latestStorage.storageType || (userProfile as any)?.storageType || "-"}</span>
+                   <span className="font-medium">{storageTypeLabel(latestStorage.storageType || (userProfile as any)?.storageType)}</span>
                  </div>
                  <div className="flex items-center justify-between">
                    <span>Price</span>
@@ -437,6 +450,20 @@
            </CardContent>
          </Card>
        </TabsContent>
+
+       <TabsContent value="History" className="mt-4">
+         <Card>
+           <CardHeader>
+             <CardTitle className="text-base">Price History</CardTitle>
+           </CardHeader>
+           <CardContent>
+             <p className="mb-4 text-xs text-muted-foreground">
+               Each shipment is charged the rates in effect on its shipping date.
+             </p>
+             <PricingHistoryTimeline entries={pricingHistory} />
+           </CardContent>
+         </Card>
+       </TabsContent>
      </Tabs>
    );
  }
@@ -0,0 +1,63 @@
+"use client";
+
+import { useMemo } from "react";
+import { collection, orderBy, query } from "firebase/firestore";
+import { format } from "date-fns";
+import { db } from "@/lib/firebase";
+import { useCollection } from "@/hooks/use-collection";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toDate } from "@/lib/date-utils";
+import { walletTransactionsPath, walletTransactionTypeLabel } from "@/lib/wallet";
+import type { WalletTransaction } from "@/types";
+
+/** Every change to a client's wallet, newest first, with the balance after each. */
+export function WalletLedger({ userId }: { userId: string }) {
+  const path = userId ? walletTransactionsPath(userId) : "";
+  const ledgerQuery = useMemo(
+    () => (path ? query(collection(db, path), orderBy("createdAt", "desc")) : undefined),
+    [path]
+  );
+  const { data: entries, loading } = useCollection<WalletTransaction>(path, ledgerQuery);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading wallet transactions...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No wallet transactions yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead className="text-right">Balance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => {
+            const date = toDate(entry.createdAt);
+            return (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">{date ? format(date, "MMM d, yyyy h:mm a") : "—"}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{walletTransactionTypeLabel(entry.type)}</Badge>
+                </TableCell>
+                <TableCell className="min-w-[12rem]">{entry.description}</TableCell>
+                <TableCell className={`text-right font-medium ${entry.amount >= 0 ? "text-green-700" : ""}`}>
+                  {entry.amount >= 0 ? "+" : "-"}${Math.abs(entry.amount).toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right">${entry.balanceAfter.toFixed(2)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { CheckCircle2, Clock, Loader2, Wallet } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getStripePublishableKey } from "@/lib/stripe";
+import { MIN_WALLET_TOP_UP } from "@/lib/wallet";
+
+type TopUpOutcome = "succeeded" | "processing";
+
+function TopUpForm({ amount, onComplete }: { amount: number; onComplete: (outcome: TopUpOutcome) => void }) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [processing, setProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setProcessing(true);
+    const { error, paymentIntent } = await stripe.confirmPayment({
+      elements,
+      redirect: "if_required",
+      confirmParams: { return_url: `${window.location.origin}/dashboard/wallet` },
+    });
+    setProcessing(false);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Payment Failed",
+        description: error.message || "Your payment could not be processed",
+      });
+    } else if (paymentIntent?.status === "succeeded" || paymentIntent?.status === "processing") {
+      onComplete(paymentIntent.status);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <PaymentElement />
+      <Button type="submit" disabled={!stripe || processing} className="w-full" size="lg">
+        {processing ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing...
+          </>
+        ) : (
+          <>
+            <Wallet className="mr-2 h-4 w-4" />
+            Add ${amount.toFixed(2)}
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Adds funds to the client's wallet by card or bank account (ACH). The wallet is credited by the
+ * Stripe webhook, so a bank top-up shows in the balance only once the debit clears.
+ */
+export function WalletTopUpDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [stripePromise, setStripePromise] = useState<Promise<Stripe | null> | null>(null);
+  const [amount, setAmount] = useState("");
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [chargedAmount, setChargedAmount] = useState(0);
+  const [isStarting, setIsStarting] = useState(false);
+  const [outcome, setOutcome] = useState<TopUpOutcome | null>(null);
+
+  useEffect(() => {
+    if (open && !stripePromise) {
+      setStripePromise(loadStripe(getStripePublishableKey()));
+    }
+  }, [open, stripePromise]);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount("");
+    setClientSecret(null);
+    setChargedAmount(0);
+    setOutcome(null);
+  }, [open]);
+
+  const parsedAmount = parseFloat(amount) || 0;
+  const amountValid = parsedAmount >= MIN_WALLET_TOP_UP;
+
+  const handleContinue = async () => {
+    if (!amountValid) return;
+    setIsStarting(true);
+    try {
+      const idToken = user ? await user.getIdToken() : "";
+      if (!idToken) throw new Error("Please re-login and try again.");
+      const res = await fetch("/api/stripe/wallet-top-up", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+        body: JSON.stringify({ amount: parsedAmount }),
+      });
+      const payload = await res.json().catch(() => ({} as any));
+      if (!res.ok) throw new Error(payload?.details || payload?.error || "Failed to start top-up.");
+      setChargedAmount(payload.amount);
+      setClientSecret(payload.clientSecret);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to start top-up." });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleComplete = (result: TopUpOutcome) => {
+    setOutcome(result);
+    toast({
+      title: result === "succeeded" ? "Top-Up Successful!" : "Top-Up Submitted",
+      description:
+        result === "succeeded"
+          ? `$${chargedAmount.toFixed(2)} was added to your wallet.`
+          : "Your bank payment is processing and will reach your wallet once it clears.",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Top Up Wallet
+          </DialogTitle>
+          <DialogDescription>Add funds to pay for labels and invoices from your balance.</DialogDescription>
+        </DialogHeader>
+
+        {outcome ? (
+          <div className="flex flex-col items-center justify-center py-8 space-y-4 text-center">
+            {outcome === "succeeded" ? (
+              <CheckCircle2 className="h-16 w-16 text-green-500" />
+            ) : (
+              <Clock className="h-16 w-16 text-amber-500" />
+            )}
+            <p className="text-lg font-semibold">
+              {outcome === "succeeded" ? "Top-Up Successful!" : "Top-Up Processing"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {outcome === "succeeded"
+                ? "Your balance will update in a moment."
+                : "Bank payments usually clear within a few business days."}
+            </p>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </div>
+        ) : clientSecret && stripePromise ? (
+          <Elements stripe={stripePromise} options={{ clientSecret }}>
+            <TopUpForm amount={chargedAmount} onComplete={handleComplete} />
+          </Elements>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="wallet-top-up-amount">Amount</Label>
+              <Input
+                id="wallet-top-up-amount"
+                type="number"
+                min={MIN_WALLET_TOP_UP}
+                step="0.01"
+                placeholder={`At least ${MIN_WALLET_TOP_UP.toFixed(2)}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <Button className="w-full" onClick={handleContinue} disabled={!amountValid || isStarting}>
+              {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Continue to Payment
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCollection } from "@/hooks/use-collection";
+import { mergeTierTables, PRICING_TIERS_COLLECTION } from "@/lib/pricing-tiers";
+import type { PricingTierTable } from "@/types";
+
+/**
+ * Tier tables for a client: the global tables, the client's overrides and the merged tables
+ * in effect (pass `tierTables` to `getServiceTiers`). An empty userId loads the globals only.
+ */
+export function usePricingTiers(userId: string | undefined) {
+  const { data: globalTables, loading: globalLoading } = useCollection<PricingTierTable>(PRICING_TIERS_COLLECTION);
+  const { data: clientTables, loading: clientLoading } = useCollection<PricingTierTable>(
+    userId ? `users/${userId}/${PRICING_TIERS_COLLECTION}` : ""
+  );
+
+  const tierTables = useMemo(() => mergeTierTables(globalTables, clientTables), [globalTables, clientTables]);
+
+  return { tierTables, globalTables, clientTables, loading: globalLoading || clientLoading };
+}
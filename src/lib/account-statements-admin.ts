@@ -0,0 +1,62 @@
+import {
+  buildAccountStatement,
+  externalInvoiceStatementEntries,
+  invoiceStatementEntries,
+  type AccountStatement,
+  type ExternalInvoiceForStatement,
+  type StatementDocument,
+  type StatementEntry,
+} from "@/lib/account-statements";
+import { creditNotesPath } from "@/lib/credit-notes";
+
+// Not billed yet, or written off
+const EXCLUDED_EXTERNAL_STATUSES = new Set(["draft", "cancelled"]);
+
+/**
+ * A client's statement for `[start, end]` (yyyy-MM-dd): their invoices and credit notes, plus
+ * external invoices sent to their email address. Null when the user does not exist.
+ */
+export async function loadAccountStatementAdmin(
+  db: any,
+  userId: string,
+  start: string,
+  end: string
+): Promise<AccountStatement | null> {
+  const userSnap = await db.collection("users").doc(userId).get();
+  if (!userSnap.exists) return null;
+  const user = userSnap.data() || {};
+  const email = String(user.email || "").trim();
+
+  const [invoicesSnap, creditNotesSnap, externalSnap] = await Promise.all([
+    db.collection(`users/${userId}/invoices`).get(),
+    db.collection(creditNotesPath(userId)).get(),
+    email
+      ? db.collection("external_invoices").where("clientEmail", "in", Array.from(new Set([email, email.toLowerCase()]))).get()
+      : Promise.resolve({ docs: [] }),
+  ]);
+  const creditNotes = creditNotesSnap.docs.map((d: any) => d.data());
+
+  const documents: StatementDocument[] = [];
+  const entries: StatementEntry[] = [];
+  for (const d of invoicesSnap.docs) {
+    const { document, entries: invoiceEntries } = invoiceStatementEntries({ ...d.data(), id: d.id }, creditNotes);
+    documents.push(document);
+    entries.push(...invoiceEntries);
+  }
+  for (const d of externalSnap.docs) {
+    const invoice = { ...d.data(), id: d.id } as ExternalInvoiceForStatement;
+    if (EXCLUDED_EXTERNAL_STATUSES.has(invoice.status)) continue;
+    const { document, entries: externalEntries } = externalInvoiceStatementEntries(invoice);
+    documents.push(document);
+    entries.push(...externalEntries);
+  }
+
+  return buildAccountStatement({
+    clientName: String(user.name || user.companyName || email),
+    clientEmail: email,
+    start,
+    end,
+    documents,
+    entries,
+  });
+}
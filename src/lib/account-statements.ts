@@ -0,0 +1,307 @@
+/**
+ * Client account statements (client + server).
+ *
+ * Every amount on a statement belongs to one document: a per-user invoice (with its credit notes
+ * and payments) or an external invoice (with its payments). The running balance walks all entries
+ * by date; aging buckets what each document still has open at the end of the period.
+ */
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { arrayToCSV } from "@/lib/csv-utils";
+import { getGrandTotalWithLateFee } from "@/lib/external-invoice-totals";
+import { roundMoney } from "@/lib/invoice-utils";
+import { toDate } from "@/lib/date-utils";
+import type { CreditNote, Invoice } from "@/types";
+
+export type StatementEntryType = "invoice" | "credit_note" | "payment";
+
+export interface StatementEntry {
+  date: string; // yyyy-MM-dd
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  documentId: string; // Invoice the entry belongs to
+  debit: number;
+  credit: number;
+}
+
+export interface StatementLine extends StatementEntry {
+  balance: number;
+}
+
+/** An invoice on the statement; its open amount is aged from `agingFrom` (yyyy-MM-dd). */
+export interface StatementDocument {
+  documentId: string;
+  agingFrom: string;
+}
+
+export interface AgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+export const AGING_BUCKETS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: "days0to30", label: "0-30 days" },
+  { key: "days31to60", label: "31-60 days" },
+  { key: "days61to90", label: "61-90 days" },
+  { key: "over90", label: "90+ days" },
+];
+
+export interface AccountStatement {
+  clientName: string;
+  clientEmail: string;
+  start: string;
+  end: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  aging: AgingBuckets;
+  unappliedCredit: number; // Credit not matched to an open invoice, already netted in the closing balance
+}
+
+/** The fields of an `external_invoices` document a statement needs. */
+export interface ExternalInvoiceForStatement {
+  id: string;
+  status: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate?: string;
+  total?: number;
+  lateFee?: number;
+  discountType?: "percentage" | "amount";
+  discountValue?: number;
+  payments?: { amount: number; date: string; method?: string; reference?: string }[];
+}
+
+const TYPE_ORDER: Record<StatementEntryType, number> = { invoice: 0, credit_note: 1, payment: 2 };
+
+/** A stored date (yyyy-MM-dd, dd/MM/yyyy, ISO string, Date or Timestamp) as yyyy-MM-dd. */
+export function toStatementDay(value: unknown): string | null {
+  if (typeof value === "string") {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+    const dmy = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value);
+    if (dmy) return `${dmy[3]}-${dmy[2]}-${dmy[1]}`;
+  }
+  const date = toDate(value);
+  return date ? format(date, "yyyy-MM-dd") : null;
+}
+
+/**
+ * Entries for a per-user invoice: the invoice, its credit notes, and its payments. Invoices are due
+ * on receipt, so they age from the invoice date. An invoice marked paid by hand gets one more
+ * payment for what its recorded payments and credit notes left, dated when it was marked paid.
+ * Credit that went to the wallet leaves the account, so it is debited back out.
+ */
+export function invoiceStatementEntries(
+  invoice: Pick<Invoice, "id" | "invoiceNumber" | "date" | "grandTotal" | "status" | "createdAt" | "payments"> & {
+    paidAt?: unknown;
+    updatedAt?: unknown;
+  },
+  creditNotes: Pick<
+    CreditNote,
+    "creditNoteNumber" | "date" | "invoiceId" | "reason" | "total" | "appliedAmount" | "unappliedAmount" | "walletTransactionId"
+  >[]
+): { document: StatementDocument; entries: StatementEntry[] } {
+  const date = toStatementDay(invoice.date) ?? toStatementDay(invoice.createdAt) ?? format(new Date(), "yyyy-MM-dd");
+  const entries: StatementEntry[] = [
+    {
+      date,
+      type: "invoice",
+      reference: invoice.invoiceNumber,
+      description: "Invoice",
+      documentId: invoice.id,
+      debit: roundMoney(invoice.grandTotal),
+      credit: 0,
+    },
+  ];
+
+  const notes = creditNotes.filter((note) => note.invoiceId === invoice.id);
+  for (const note of notes) {
+    entries.push({
+      date: toStatementDay(note.date) ?? date,
+      type: "credit_note",
+      reference: note.creditNoteNumber,
+      description: `Credit note for ${invoice.invoiceNumber}${note.reason ? ` - ${note.reason}` : ""}`,
+      documentId: invoice.id,
+      debit: 0,
+      credit: roundMoney(note.total),
+    });
+    const toWallet = note.walletTransactionId ? roundMoney(Number(note.unappliedAmount) || 0) : 0;
+    if (toWallet > 0) {
+      entries.push({
+        date: toStatementDay(note.date) ?? date,
+        type: "credit_note",
+        reference: note.creditNoteNumber,
+        description: `${note.creditNoteNumber} credit moved to wallet`,
+        documentId: invoice.id,
+        debit: toWallet,
+        credit: 0,
+      });
+    }
+  }
+
+  let recorded = 0;
+  for (const payment of invoice.payments || []) {
+    const amount = roundMoney(payment.amount);
+    recorded += amount;
+    entries.push({
+      date: toStatementDay(payment.date) ?? date,
+      type: "payment",
+      reference: invoice.invoiceNumber,
+      description: `Payment for ${invoice.invoiceNumber} (${payment.method})`,
+      documentId: invoice.id,
+      debit: 0,
+      credit: amount,
+    });
+  }
+
+  if (invoice.status === "paid") {
+    const applied = notes.reduce((sum, note) => sum + (Number(note.appliedAmount) || 0), 0);
+    const paid = roundMoney((Number(invoice.grandTotal) || 0) - applied - recorded);
+    if (paid > 0) {
+      entries.push({
+        date: toStatementDay(invoice.paidAt) ?? toStatementDay(invoice.updatedAt) ?? date,
+        type: "payment",
+        reference: invoice.invoiceNumber,
+        description: `Payment for ${invoice.invoiceNumber}`,
+        documentId: invoice.id,
+        debit: 0,
+        credit: paid,
+      });
+    }
+  }
+
+  return { document: { documentId: invoice.id, agingFrom: date }, entries };
+}
+
+/** Entries for an external invoice and its recorded payments, aged from its due date. */
+export function externalInvoiceStatementEntries(invoice: ExternalInvoiceForStatement): {
+  document: StatementDocument;
+  entries: StatementEntry[];
+} {
+  const documentId = `external:${invoice.id}`;
+  const date = toStatementDay(invoice.invoiceDate) ?? format(new Date(), "yyyy-MM-dd");
+  const entries: StatementEntry[] = [
+    {
+      date,
+      type: "invoice",
+      reference: invoice.invoiceNumber,
+      description: "Invoice",
+      documentId,
+      debit: getGrandTotalWithLateFee(invoice),
+      credit: 0,
+    },
+  ];
+  for (const payment of invoice.payments || []) {
+    const amount = roundMoney(payment.amount);
+    if (amount <= 0) continue;
+    entries.push({
+      date: toStatementDay(payment.date) ?? date,
+      type: "payment",
+      reference: invoice.invoiceNumber,
+      description: `Payment for ${invoice.invoiceNumber}${payment.method ? ` (${payment.method})` : ""}`,
+      documentId,
+      debit: 0,
+      credit: amount,
+    });
+  }
+  return { document: { documentId, agingFrom: toStatementDay(invoice.dueDate) ?? date }, entries };
+}
+
+function agingBucket(days: number): keyof AgingBuckets {
+  if (days > 90) return "over90";
+  if (days > 60) return "days61to90";
+  if (days > 30) return "days31to60";
+  return "days0to30";
+}
+
+/** Statement for `[start, end]` (yyyy-MM-dd); entries dated after `end` are left out. */
+export function buildAccountStatement(input: {
+  clientName: string;
+  clientEmail: string;
+  start: string;
+  end: string;
+  documents: StatementDocument[];
+  entries: StatementEntry[];
+}): AccountStatement {
+  const { start, end } = input;
+  const entries = input.entries
+    .filter((entry) => entry.date <= end)
+    .sort((a, b) => a.date.localeCompare(b.date) || TYPE_ORDER[a.type] - TYPE_ORDER[b.type]);
+
+  const openingBalance = roundMoney(
+    entries.filter((entry) => entry.date < start).reduce((sum, entry) => sum + entry.debit - entry.credit, 0)
+  );
+  let balance = openingBalance;
+  const lines: StatementLine[] = entries
+    .filter((entry) => entry.date >= start)
+    .map((entry) => {
+      balance = roundMoney(balance + entry.debit - entry.credit);
+      return { ...entry, balance };
+    });
+
+  const openByDocument = new Map<string, number>();
+  for (const entry of entries) {
+    openByDocument.set(entry.documentId, (openByDocument.get(entry.documentId) || 0) + entry.debit - entry.credit);
+  }
+  const aging: AgingBuckets = { days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+  let unappliedCredit = 0;
+  for (const document of input.documents) {
+    const open = roundMoney(openByDocument.get(document.documentId) || 0);
+    if (open < 0) {
+      unappliedCredit = roundMoney(unappliedCredit - open);
+    } else if (open > 0) {
+      const key = agingBucket(differenceInCalendarDays(parseISO(end), parseISO(document.agingFrom)));
+      aging[key] = roundMoney(aging[key] + open);
+    }
+  }
+
+  return {
+    clientName: input.clientName,
+    clientEmail: input.clientEmail,
+    start,
+    end,
+    openingBalance,
+    lines,
+    totalDebits: roundMoney(lines.reduce((sum, line) => sum + line.debit, 0)),
+    totalCredits: roundMoney(lines.reduce((sum, line) => sum + line.credit, 0)),
+    closingBalance: balance,
+    aging,
+    unappliedCredit,
+  };
+}
+
+const ENTRY_TYPE_LABELS: Record<StatementEntryType, string> = {
+  invoice: "Invoice",
+  credit_note: "Credit Note",
+  payment: "Payment",
+};
+
+export function statementEntryTypeLabel(type: StatementEntryType): string {
+  return ENTRY_TYPE_LABELS[type];
+}
+
+/** The statement's lines as CSV, between an opening balance row and the aging summary. */
+export function statementToCsv(statement: AccountStatement): string {
+  const rows = [
+    { Date: statement.start, Type: "", Reference: "", Description: "Opening balance", Debit: "", Credit: "", Balance: statement.openingBalance.toFixed(2) },
+    ...statement.lines.map((line) => ({
+      Date: line.date,
+      Type: statementEntryTypeLabel(line.type),
+      Reference: line.reference,
+      Description: line.description,
+      Debit: line.debit ? line.debit.toFixed(2) : "",
+      Credit: line.credit ? line.credit.toFixed(2) : "",
+      Balance: line.balance.toFixed(2),
+    })),
+    { Date: statement.end, Type: "", Reference: "", Description: "Closing balance", Debit: statement.totalDebits.toFixed(2), Credit: statement.totalCredits.toFixed(2), Balance: statement.closingBalance.toFixed(2) },
+  ];
+  const lines = arrayToCSV(rows, ["Date", "Type", "Reference", "Description", "Debit", "Credit", "Balance"]);
+  const agingRow: Record<string, string> = { "Unapplied credit": statement.unappliedCredit.toFixed(2) };
+  for (const { key, label } of AGING_BUCKETS) agingRow[label] = statement.aging[key].toFixed(2);
+  const aging = arrayToCSV([agingRow], [...AGING_BUCKETS.map(({ label }) => label), "Unapplied credit"]);
+  return `${lines}\n\n${aging}`;
+}
@@ -0,0 +1,62 @@
+import type { NextRequest } from "next/server";
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+
+function normalizeRole(v: any): string {
+  return String(v || "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+export function isAdminLikeUserDoc(data: any): boolean {
+  if (!data) return false;
+  if (data.isAdmin === true || data.admin === true || data.is_admin === true) return true;
+  if (data.isSubAdmin === true || data.is_sub_admin === true) return true;
+  const role = normalizeRole(data.role || data.userRole || data.userType);
+  if (role === "admin" || role === "sub_admin" || role === "subadmin") return true;
+  const roles = Array.isArray(data.roles) ? data.roles.map(normalizeRole) : [];
+  if (roles.includes("admin") || roles.includes("sub_admin") || roles.includes("subadmin")) return true;
+  if (Array.isArray(data.features)) {
+    if (data.features.includes("admin_dashboard") || data.features.includes("manage_invoices") || data.features.includes("manage_users")) return true;
+  } else if (data.features && typeof data.features === "object") {
+    if (data.features.admin_dashboard === true || data.features.manage_invoices === true || data.features.manage_users === true) return true;
+  }
+  return false;
+}
+
+/**
+ * Verify the Firebase ID token (Authorization: Bearer <idToken>).
+ * Returns the caller's uid, name and whether their user doc is admin-like, or the status/error to send back.
+ */
+export async function requireUser(request: NextRequest) {
+  const header = request.headers.get("authorization") || "";
+  if (!header.startsWith("Bearer ")) {
+    return { ok: false as const, status: 401, error: "Unauthorized" };
+  }
+
+  const token = header.slice("Bearer ".length).trim();
+  if (!token) return { ok: false as const, status: 401, error: "Unauthorized" };
+
+  try {
+    const decoded = await adminAuth().verifyIdToken(token);
+    const uid = decoded?.uid;
+    if (!uid) return { ok: false as const, status: 401, error: "Unauthorized" };
+
+    const db = adminDb();
+    const snap = await db.collection("users").doc(uid).get();
+    const data = snap.exists ? snap.data() : null;
+    return { ok: true as const, uid, name: String(data?.name || ""), isAdmin: isAdminLikeUserDoc(data) };
+  } catch {
+    return { ok: false as const, status: 401, error: "Unauthorized" };
+  }
+}
+
+/**
+ * Verify the Firebase ID token (Authorization: Bearer <idToken>) and require an admin-like user doc.
+ * Returns the caller's uid and profile data, or the status/error to send back.
+ */
+export async function requireAdmin(request: NextRequest) {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth;
+  if (!auth.isAdmin) {
+    return { ok: false as const, status: 403, error: "Forbidden" };
+  }
+  return { ok: true as const, uid: auth.uid, name: auth.name || "Admin" };
+}
@@ -0,0 +1,230 @@
+import type Stripe from "stripe";
+import { isAutopayReady, nextAutopayAttemptAt } from "@/lib/autopay";
+import { adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import { invoiceBalanceDue, invoicePaymentsPath, MIN_INVOICE_PAYMENT } from "@/lib/invoice-payments";
+import { INVOICE_PAYMENT_PURPOSE, recordInvoicePaymentAdmin } from "@/lib/invoice-payments-admin";
+import { toDate } from "@/lib/date-utils";
+import { getStripe } from "@/lib/stripe";
+import type { Invoice, InvoicePaymentAttempt, SavedPaymentMethod, UserProfile } from "@/types";
+
+export type AutopayChargeResult =
+  | { status: "succeeded" | "processing"; paymentIntentId: string; amount: number }
+  | { status: "failed"; error: string }
+  | { status: "skipped"; reason: string };
+
+/** The client's Stripe customer, created (and saved on their user doc) the first time. */
+export async function ensureStripeCustomerAdmin(userId: string): Promise<string> {
+  const userRef = adminDb().collection("users").doc(userId);
+  const userSnap = await userRef.get();
+  const user = (userSnap.data() || {}) as UserProfile;
+  if (user.stripeCustomerId) return user.stripeCustomerId;
+
+  const customer = await getStripe().customers.create(
+    {
+      email: user.email || undefined,
+      name: user.companyName || user.name || undefined,
+      metadata: { userId },
+    },
+    { idempotencyKey: `customer-${userId}` }
+  );
+  await userRef.update({ stripeCustomerId: customer.id });
+  return customer.id;
+}
+
+export function savedPaymentMethodFromStripe(paymentMethod: Stripe.PaymentMethod): SavedPaymentMethod {
+  if (paymentMethod.type === "us_bank_account") {
+    return {
+      id: paymentMethod.id,
+      type: "us_bank_account",
+      brand: paymentMethod.us_bank_account?.bank_name || undefined,
+      last4: paymentMethod.us_bank_account?.last4 || "",
+    };
+  }
+  return {
+    id: paymentMethod.id,
+    type: "card",
+    brand: paymentMethod.card?.brand,
+    last4: paymentMethod.card?.last4 || "",
+    expMonth: paymentMethod.card?.exp_month,
+    expYear: paymentMethod.card?.exp_year,
+  };
+}
+
+/** Save the attempt without overwriting a status the webhook may have recorded first. */
+async function saveAutopayAttempt(
+  userId: string,
+  paymentIntentId: string,
+  attempt: Omit<InvoicePaymentAttempt, "id" | "createdAt">
+): Promise<void> {
+  const db = adminDb();
+  const ref = db.collection(invoicePaymentsPath(userId)).doc(paymentIntentId);
+  await db.runTransaction(async (transaction: any) => {
+    const snap = await transaction.get(ref);
+    if (snap.exists) {
+      const details: Partial<InvoicePaymentAttempt> = { ...attempt };
+      delete details.status;
+      transaction.set(ref, details, { merge: true });
+    } else {
+      transaction.set(ref, { ...attempt, createdAt: adminFieldValue().serverTimestamp() });
+    }
+  });
+}
+
+/**
+ * Record a failed autopay charge and schedule the next try. Only an invoice whose charge is still
+ * in flight is touched, so the synchronous decline and Stripe's failure event count once.
+ */
+export async function recordAutopayFailureAdmin(userId: string, invoiceId: string, message: string): Promise<void> {
+  const db = adminDb();
+  const invoiceRef = db.collection(`users/${userId}/invoices`).doc(invoiceId);
+  await db.runTransaction(async (transaction: any) => {
+    const snap = await transaction.get(invoiceRef);
+    if (!snap.exists) return;
+    const invoice = snap.data() as Invoice;
+    if (invoice.autopayStatus !== "processing") return;
+
+    const now = new Date();
+    const next = nextAutopayAttemptAt(Number(invoice.autopayAttempts) || 1, now);
+    transaction.update(invoiceRef, {
+      autopayStatus: next ? "failed" : "exhausted",
+      autopayLastError: message,
+      autopayNextAttemptAt: next ?? adminFieldValue().delete(),
+      updatedAt: now,
+    });
+  });
+}
+
+/**
+ * Charge an open invoice's balance due to the client's saved payment method. Skipped when autopay
+ * is off, the invoice has nothing to charge, or a charge for it is already in flight or settled.
+ * Card charges usually succeed on the spot and are recorded here; bank debits are recorded by the
+ * webhook once they clear.
+ */
+export async function chargeInvoiceAutopayAdmin(userId: string, invoiceId: string): Promise<AutopayChargeResult> {
+  const db = adminDb();
+  const userSnap = await db.collection("users").doc(userId).get();
+  const user = (userSnap.data() || {}) as UserProfile;
+  if (!isAutopayReady(user)) return { status: "skipped", reason: "autopay_off" };
+  const method = user.defaultPaymentMethod as SavedPaymentMethod;
+
+  // Claim the attempt so overlapping runs never charge the invoice twice
+  const invoiceRef = db.collection(`users/${userId}/invoices`).doc(invoiceId);
+  const claim = await db.runTransaction(async (transaction: any) => {
+    const snap = await transaction.get(invoiceRef);
+    if (!snap.exists) return { skipped: "invoice_not_found" };
+    const data = snap.data() || {};
+    const invoice = { ...data, id: snap.id } as Invoice;
+    if (data.isTest) return { skipped: "test_invoice" };
+    if (invoice.autopayStatus && invoice.autopayStatus !== "failed") return { skipped: `autopay_${invoice.autopayStatus}` };
+    const amount = invoiceBalanceDue(invoice);
+    if (amount < MIN_INVOICE_PAYMENT) return { skipped: "nothing_due" };
+
+    const attempt = (Number(invoice.autopayAttempts) || 0) + 1;
+    transaction.update(invoiceRef, {
+      autopayStatus: "processing",
+      autopayAttempts: attempt,
+      autopayNextAttemptAt: adminFieldValue().delete(),
+      updatedAt: new Date(),
+    });
+    return { invoice, amount, attempt };
+  });
+  if ("skipped" in claim) return { status: "skipped", reason: String(claim.skipped) };
+
+  const { invoice, amount, attempt } = claim;
+  try {
+    const paymentIntent = await getStripe().paymentIntents.create(
+      {
+        amount: Math.round(amount * 100),
+        currency: "usd",
+        customer: user.stripeCustomerId as string,
+        payment_method: method.id,
+        payment_method_types: [method.type],
+        off_session: true,
+        confirm: true,
+        description: `Invoice ${invoice.invoiceNumber} (autopay)`,
+        metadata: {
+          purpose: INVOICE_PAYMENT_PURPOSE,
+          autopay: "true",
+          userId,
+          invoiceId,
+          invoiceNumber: invoice.invoiceNumber,
+        },
+      },
+      { idempotencyKey: `autopay-${userId}-${invoiceId}-${attempt}` }
+    );
+
+    await saveAutopayAttempt(userId, paymentIntent.id, {
+      invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      amount,
+      status: paymentIntent.status === "succeeded" ? "pending" : "processing",
+      stripePaymentIntentId: paymentIntent.id,
+      autopay: true,
+    });
+    if (paymentIntent.status === "succeeded") {
+      await recordInvoicePaymentAdmin(paymentIntent, method.type === "us_bank_account" ? "ACH" : "Card");
+      return { status: "succeeded", paymentIntentId: paymentIntent.id, amount };
+    }
+    return { status: "processing", paymentIntentId: paymentIntent.id, amount };
+  } catch (error: any) {
+    const message = error?.message || "Charge failed";
+    const paymentIntentId = error?.raw?.payment_intent?.id || error?.payment_intent?.id;
+    console.error(`Autopay charge failed for invoice ${invoiceId}:`, message);
+    if (paymentIntentId) {
+      await saveAutopayAttempt(userId, paymentIntentId, {
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        amount,
+        status: "failed",
+        stripePaymentIntentId: paymentIntentId,
+        autopay: true,
+        errorMessage: message,
+      });
+    }
+    await recordAutopayFailureAdmin(userId, invoiceId, message);
+    return { status: "failed", error: message };
+  }
+}
+
+/**
+ * Charge a just-generated invoice when the client has autopay on. Returns the outcome for the
+ * generation report, or null when autopay is off; never throws, so a Stripe outage cannot fail
+ * invoice generation.
+ */
+export async function chargeGeneratedInvoiceAdmin(
+  userId: string,
+  invoiceId: string,
+  user: Pick<UserProfile, "autopayEnabled" | "stripeCustomerId" | "defaultPaymentMethod">
+): Promise<AutopayChargeResult | null> {
+  if (!isAutopayReady(user)) return null;
+  try {
+    return await chargeInvoiceAutopayAdmin(userId, invoiceId);
+  } catch (error: any) {
+    console.error(`Autopay failed for invoice ${invoiceId}:`, error);
+    return { status: "failed", error: error?.message || "Unknown error" };
+  }
+}
+
+/** Retry every failed autopay charge whose next try is due. */
+export async function retryDueAutopayChargesAdmin(
+  now: Date = new Date()
+): Promise<Array<{ userId: string; invoiceId: string; invoiceNumber: string } & AutopayChargeResult>> {
+  const db = adminDb();
+  const results: Array<{ userId: string; invoiceId: string; invoiceNumber: string } & AutopayChargeResult> = [];
+  const usersSnapshot = await db.collection("users").where("autopayEnabled", "==", true).get();
+
+  for (const userDoc of usersSnapshot.docs) {
+    const failedSnapshot = await db
+      .collection(`users/${userDoc.id}/invoices`)
+      .where("autopayStatus", "==", "failed")
+      .get();
+    for (const invoiceDoc of failedSnapshot.docs) {
+      const invoice = invoiceDoc.data() as Invoice;
+      const nextAttemptAt = toDate(invoice.autopayNextAttemptAt);
+      if (!nextAttemptAt || nextAttemptAt > now) continue;
+      const result = await chargeInvoiceAutopayAdmin(userDoc.id, invoiceDoc.id);
+      results.push({ userId: userDoc.id, invoiceId: invoiceDoc.id, invoiceNumber: invoice.invoiceNumber, ...result });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,34 @@
+/**
+ * Autopay for generated invoices (client + server).
+ *
+ * Clients who saved a payment method and turned autopay on have their storage and daily service
+ * invoices charged when they are generated. A failed charge is retried after each gap in
+ * AUTOPAY_RETRY_DAYS, and every failure is emailed to the client by the invoice reminder function.
+ */
+import { addDays } from "date-fns";
+import type { SavedPaymentMethod, UserProfile } from "@/types";
+
+/** Days between a failed charge and the next try. */
+export const AUTOPAY_RETRY_DAYS = [1, 3, 5];
+
+export function isAutopayReady(
+  user: Pick<UserProfile, "autopayEnabled" | "stripeCustomerId" | "defaultPaymentMethod">
+): boolean {
+  return !!user.autopayEnabled && !!user.stripeCustomerId && !!user.defaultPaymentMethod?.id;
+}
+
+/** When to retry after `attempts` failed charges, or null once the retries are used up. */
+export function nextAutopayAttemptAt(attempts: number, from: Date): Date | null {
+  const days = AUTOPAY_RETRY_DAYS[attempts - 1];
+  return days === undefined ? null : addDays(from, days);
+}
+
+/** e.g. "Visa •••• 4242" or "Chase •••• 6789". */
+export function savedPaymentMethodLabel(method: SavedPaymentMethod): string {
+  const name = method.brand
+    ? method.brand.charAt(0).toUpperCase() + method.brand.slice(1)
+    : method.type === "card"
+      ? "Card"
+      : "Bank account";
+  return `${name} •••• ${method.last4}`;
+}
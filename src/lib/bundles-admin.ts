@@ -0,0 +1,100 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { bundlesPath, findBundleBySku } from "@/lib/bundles";
+import { allocateLotsFefo, getOnHandLots } from "@/lib/inventory-lots";
+import { getOnHandBins, pickFromBins } from "@/lib/inventory-bins";
+import { recordStockMovementAdmin } from "@/lib/stock-ledger-admin";
+import type { InventoryQuantityChange } from "@/lib/low-stock";
+import type { ProductBundle } from "@/types";
+
+/**
+ * Take the component units of every bundle SKU on a Shopify order out of inventory, with a
+ * "ship" ledger entry per component. The deduction is recorded on the order doc
+ * (`bundleDeductions`) in the same transaction, so a redelivered orders/create webhook is a
+ * no-op. Components never go below zero; a shortfall is logged and the rest is still applied.
+ * Returns the quantity changes for low-stock alerts.
+ */
+export async function deductShopifyOrderBundles(
+  userId: string,
+  orderId: string,
+  orderName: string | undefined,
+  lineItems: { sku?: string; quantity?: number }[]
+): Promise<InventoryQuantityChange[]> {
+  const db = adminDb();
+  const bundlesSnap = await db.collection(bundlesPath(userId)).get();
+  if (bundlesSnap.empty) return [];
+  const bundles: ProductBundle[] = bundlesSnap.docs.map((d: any) => ({ id: d.id, ...d.data() }));
+
+  const deductions: { bundleId: string; sku: string; quantity: number }[] = [];
+  const needed = new Map<string, { productName: string; units: number }>();
+  for (const item of lineItems) {
+    const bundle = findBundleBySku(bundles, item.sku);
+    const quantity = Math.floor(Number(item.quantity) || 0);
+    if (!bundle || quantity <= 0) continue;
+    deductions.push({ bundleId: bundle.id, sku: bundle.sku, quantity });
+    for (const component of bundle.components) {
+      const entry = needed.get(component.productId) ?? { productName: component.productName, units: 0 };
+      entry.units += quantity * (Number(component.quantity) || 1);
+      needed.set(component.productId, entry);
+    }
+  }
+  if (deductions.length === 0) return [];
+
+  const orderRef = db.doc(`users/${userId}/shopifyOrders/${orderId}`);
+  const label = orderName || `#${orderId}`;
+
+  return db.runTransaction(async (tx: any) => {
+    const orderSnap = await tx.get(orderRef);
+    if (orderSnap.exists && orderSnap.data()?.bundleDeductions) return [];
+
+    const productIds = Array.from(needed.keys());
+    const snaps = await Promise.all(productIds.map((id) => tx.get(db.doc(`users/${userId}/inventory/${id}`))));
+
+    const changes: InventoryQuantityChange[] = [];
+    snaps.forEach((snap: any, index: number) => {
+      const productId = productIds[index];
+      const { productName, units } = needed.get(productId)!;
+      if (!snap.exists) {
+        console.warn("[Bundles] component missing for Shopify order", { userId, orderId, productId });
+        return;
+      }
+      const data = snap.data() || {};
+      const quantityBefore = Number(data.quantity) || 0;
+      const quantityAfter = Math.max(0, quantityBefore - units);
+      if (quantityBefore < units) {
+        console.warn("[Bundles] component short for Shopify order", { userId, orderId, productId, quantityBefore, units });
+      }
+      const taken = quantityBefore - quantityAfter;
+      const update: Record<string, unknown> = {
+        quantity: quantityAfter,
+        status: quantityAfter > 0 ? "In Stock" : "Out of Stock",
+      };
+      if (Array.isArray(data.lots) && data.lots.length > 0) {
+        update.lots = allocateLotsFefo(getOnHandLots({ quantity: quantityBefore, lots: data.lots }), taken).remaining;
+      }
+      if (Array.isArray(data.bins) && data.bins.length > 0) {
+        update.bins = pickFromBins(getOnHandBins({ quantity: quantityBefore, bins: data.bins }), taken).remaining;
+      }
+      tx.update(snap.ref, update);
+      recordStockMovementAdmin(tx, userId, {
+        productId,
+        productName: data.productName || productName,
+        type: "ship",
+        quantityBefore,
+        quantityAfter,
+        reason: `Shopify order ${label} (bundle)`,
+        referencePath: orderRef.path,
+        createdBy: "system:shopify",
+      });
+      changes.push({
+        productId,
+        productName: data.productName || productName,
+        quantityBefore,
+        quantityAfter,
+        reorderPoint: Number(data.reorderPoint) || null,
+      });
+    });
+
+    tx.set(orderRef, { bundleDeductions: deductions, bundleDeductedAt: new Date() }, { merge: true });
+    return changes;
+  });
+}
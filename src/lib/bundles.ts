@@ -0,0 +1,122 @@
+/**
+ * Kitting/bundle SKUs. A bundle is N units of each of its component inventory items and has
+ * no stock of its own: its availability is computed from the components, and shipping or
+ * selling a bundle takes the units from the components.
+ */
+import { addDoc, collection, deleteDoc, doc, Timestamp, updateDoc, type Firestore } from "firebase/firestore";
+import { getAvailableQuantity } from "@/lib/inventory-reservations";
+import { normalizeIdentifier } from "@/lib/product-identifiers";
+import type { BundleComponent, InventoryItem, ProductBundle, ShipmentBundle } from "@/types";
+
+export function bundlesPath(userId: string): string {
+  return `users/${userId}/bundles`;
+}
+
+/** Whole bundles that can be built from the components' available (unreserved) units. */
+export function getBundleAvailability(
+  bundle: Pick<ProductBundle, "components">,
+  inventory: Pick<InventoryItem, "id" | "quantity" | "reservedQuantity">[]
+): number {
+  if (bundle.components.length === 0) return 0;
+  let buildable = Infinity;
+  for (const component of bundle.components) {
+    const item = inventory.find((i) => i.id === component.productId);
+    const perBundle = Math.max(1, Number(component.quantity) || 1);
+    buildable = Math.min(buildable, item ? Math.floor(getAvailableQuantity(item) / perBundle) : 0);
+  }
+  return buildable;
+}
+
+/** The component whose stock runs out first, or null when the bundle has no components. */
+export function getLimitingComponent(
+  bundle: Pick<ProductBundle, "components">,
+  inventory: Pick<InventoryItem, "id" | "quantity" | "reservedQuantity">[]
+): BundleComponent | null {
+  let limiting: BundleComponent | null = null;
+  let lowest = Infinity;
+  for (const component of bundle.components) {
+    const item = inventory.find((i) => i.id === component.productId);
+    const buildable = item ? Math.floor(getAvailableQuantity(item) / Math.max(1, component.quantity)) : 0;
+    if (buildable < lowest) {
+      lowest = buildable;
+      limiting = component;
+    }
+  }
+  return limiting;
+}
+
+export function findBundleBySku<T extends Pick<ProductBundle, "sku">>(bundles: T[], sku: unknown): T | undefined {
+  const needle = normalizeIdentifier(sku);
+  if (!needle) return undefined;
+  return bundles.find((b) => normalizeIdentifier(b.sku) === needle);
+}
+
+export function toShipmentBundle(bundle: ProductBundle): ShipmentBundle {
+  return {
+    bundleId: bundle.id,
+    name: bundle.name,
+    sku: bundle.sku,
+    components: bundle.components.map((c) => ({ productId: c.productId, productName: c.productName, quantity: c.quantity })),
+  };
+}
+
+/** Problems with a bundle definition; an empty list means it can be saved. */
+export function validateBundle(
+  input: { name: string; sku: string; components: BundleComponent[] },
+  inventory: Pick<InventoryItem, "id" | "sku">[],
+  bundles: Pick<ProductBundle, "id" | "sku">[],
+  bundleId?: string
+): string[] {
+  const errors: string[] = [];
+  if (!input.name.trim()) errors.push("Enter a bundle name.");
+  const sku = normalizeIdentifier(input.sku);
+  if (!sku) {
+    errors.push("Enter the bundle SKU.");
+  } else {
+    if (bundles.some((b) => b.id !== bundleId && normalizeIdentifier(b.sku) === sku)) {
+      errors.push(`Another bundle already uses SKU ${input.sku.trim()}.`);
+    }
+    if (inventory.some((i) => normalizeIdentifier(i.sku) === sku)) {
+      errors.push(`SKU ${input.sku.trim()} belongs to an inventory item; a bundle needs its own SKU.`);
+    }
+  }
+  if (input.components.length === 0) errors.push("Add at least one component.");
+  const seen = new Set<string>();
+  for (const component of input.components) {
+    if (!inventory.some((i) => i.id === component.productId)) {
+      errors.push(`${component.productName || "A component"} is no longer in your inventory.`);
+    }
+    if (!Number.isInteger(component.quantity) || component.quantity < 1) {
+      errors.push(`${component.productName || "Each component"} needs a whole quantity of at least 1.`);
+    }
+    if (seen.has(component.productId)) errors.push(`${component.productName} is listed more than once.`);
+    seen.add(component.productId);
+  }
+  if (input.components.length === 1 && input.components[0].quantity === 1) {
+    errors.push("A bundle of one unit of a single item is the item itself.");
+  }
+  return errors;
+}
+
+export async function saveBundle(
+  firestore: Firestore,
+  userId: string,
+  input: { name: string; sku: string; components: BundleComponent[] },
+  bundleId?: string
+): Promise<void> {
+  const data = {
+    name: input.name.trim(),
+    sku: input.sku.trim(),
+    components: input.components.map((c) => ({ productId: c.productId, productName: c.productName, quantity: c.quantity })),
+  };
+  if (bundleId) {
+    await updateDoc(doc(firestore, bundlesPath(userId), bundleId), { ...data, updatedAt: Timestamp.now() });
+  } else {
+    await addDoc(collection(firestore, bundlesPath(userId)), { ...data, createdAt: Timestamp.now() });
+  }
+}
+
+/** Pending shipment requests keep their own copy of the bundle, so deleting it does not affect them. */
+export async function deleteBundle(firestore: Firestore, userId: string, bundleId: string): Promise<void> {
+  await deleteDoc(doc(firestore, bundlesPath(userId), bundleId));
+}
@@ -0,0 +1,48 @@
+import type { Commission, Invoice, UserProfile } from "@/types";
+
+/**
+ * Server-side twin of `createCommissionForInvoice`: the agent's commission on a paid invoice,
+ * created once per invoice and agent. Returns the commission ID, or null without a referral.
+ */
+export async function createCommissionForInvoiceAdmin(
+  db: any,
+  invoice: Pick<Invoice, "id" | "invoiceNumber" | "grandTotal">,
+  user: Pick<UserProfile, "uid" | "name" | "referredByAgentId">
+): Promise<string | null> {
+  if (!user.referredByAgentId) {
+    return null;
+  }
+
+  const existingSnapshot = await db
+    .collection("commissions")
+    .where("invoiceId", "==", invoice.id)
+    .where("agentId", "==", user.referredByAgentId)
+    .limit(1)
+    .get();
+  if (!existingSnapshot.empty) {
+    return existingSnapshot.docs[0].id;
+  }
+
+  const agentSnapshot = await db.collection("users").where("uid", "==", user.referredByAgentId).limit(1).get();
+  if (agentSnapshot.empty) {
+    console.error("Agent not found:", user.referredByAgentId);
+    return null;
+  }
+  const agent = agentSnapshot.docs[0].data() as UserProfile;
+
+  const commissionData: Omit<Commission, "id"> = {
+    agentId: user.referredByAgentId,
+    agentName: agent.name || "Unknown Agent",
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    clientId: user.uid,
+    clientName: user.name || "Unknown Client",
+    invoiceAmount: invoice.grandTotal,
+    commissionAmount: invoice.grandTotal * 0.1,
+    status: "pending",
+    createdAt: new Date(),
+  };
+
+  const commissionRef = await db.collection("commissions").add(commissionData);
+  return commissionRef.id;
+}
@@ -0,0 +1,124 @@
+/**
+ * Credit notes against per-user invoices (client + server).
+ *
+ * A credit note reverses all or part of an invoice instead of editing or deleting it. On a
+ * open invoice it comes off the balance due; on a paid one it goes to the client's wallet.
+ */
+import { invoiceBalanceDue, isOpenInvoice } from "@/lib/invoice-payments";
+import { roundMoney } from "@/lib/invoice-utils";
+import type { CreditNote, CreditNoteLine, Invoice } from "@/types";
+
+export const CREDIT_NOTES_COLLECTION = "creditNotes";
+
+export const ADDITIONAL_SERVICES_LINE_KEY = "additional-services";
+export const DISCOUNT_LINE_KEY = "discount";
+
+export function creditNotesPath(userId: string): string {
+  return `users/${userId}/${CREDIT_NOTES_COLLECTION}`;
+}
+
+/** What is left to credit on an invoice: its total less the credit notes already issued. */
+export function creditableAmount(invoice: Pick<Invoice, "grandTotal" | "creditedAmount">): number {
+  return Math.max(0, roundMoney((Number(invoice.grandTotal) || 0) - (Number(invoice.creditedAmount) || 0)));
+}
+
+/**
+ * Credit left over from credit notes issued against paid invoices before wallets existed. Notes
+ * whose credit went to the wallet are counted there instead.
+ */
+export function accountCreditBalance(
+  creditNotes: Pick<CreditNote, "unappliedAmount" | "walletTransactionId">[]
+): number {
+  return roundMoney(
+    creditNotes.reduce((sum, note) => sum + (note.walletTransactionId ? 0 : Number(note.unappliedAmount) || 0), 0)
+  );
+}
+
+export interface CreditableLine {
+  key: string;
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+  credited: number;
+  remaining: number;
+}
+
+/** The invoice's lines with how much of each earlier credit notes already took back. */
+export function creditableLines(
+  invoice: Pick<Invoice, "items" | "additionalServices">,
+  creditNotes: Pick<CreditNote, "lines">[]
+): CreditableLine[] {
+  const credited = new Map<string, number>();
+  for (const note of creditNotes) {
+    for (const line of note.lines || []) {
+      credited.set(line.lineKey, (credited.get(line.lineKey) || 0) + (Number(line.amount) || 0));
+    }
+  }
+
+  const lines: Omit<CreditableLine, "credited" | "remaining">[] = (invoice.items || []).map((item, index) => ({
+    key: `item-${index}`,
+    description: item.productName,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    amount: Number(item.amount) || 0,
+  }));
+  const additionalTotal = Number(invoice.additionalServices?.total || 0);
+  if (additionalTotal > 0) {
+    lines.push({ key: ADDITIONAL_SERVICES_LINE_KEY, description: "Additional Services", amount: additionalTotal });
+  }
+
+  return lines.map((line) => {
+    const lineCredited = roundMoney(credited.get(line.key) || 0);
+    return { ...line, credited: lineCredited, remaining: Math.max(0, roundMoney(line.amount - lineCredited)) };
+  });
+}
+
+/**
+ * Credit note lines for the requested amount per invoice line, each capped at what is left on it.
+ * Lines adding up to more than the invoice has left to credit (it was discounted) get a negative
+ * discount line so the note never exceeds what was billed.
+ */
+export function buildCreditNoteLines(
+  invoice: Pick<Invoice, "grandTotal" | "creditedAmount">,
+  lines: CreditableLine[],
+  amounts: Record<string, number>
+): CreditNoteLine[] {
+  const result: CreditNoteLine[] = [];
+  for (const line of lines) {
+    const amount = Math.min(line.remaining, roundMoney(amounts[line.key] || 0));
+    if (amount <= 0) continue;
+    const fullLine = amount === line.remaining && line.credited === 0;
+    result.push({
+      lineKey: line.key,
+      description: line.description,
+      ...(fullLine && line.quantity !== undefined ? { quantity: line.quantity } : {}),
+      ...(fullLine && line.unitPrice !== undefined ? { unitPrice: line.unitPrice } : {}),
+      amount,
+    });
+  }
+
+  const excess = roundMoney(result.reduce((sum, line) => sum + line.amount, 0) - creditableAmount(invoice));
+  if (excess > 0) {
+    result.push({ lineKey: DISCOUNT_LINE_KEY, description: "Less invoice discount", amount: -excess });
+  }
+  return result;
+}
+
+/**
+ * How a credit of `total` lands on the invoice: the part that clears its balance due, the rest as
+ * account credit, and the invoice's new credited amount and status.
+ */
+export function applyCreditToInvoice(
+  invoice: Pick<Invoice, "status" | "grandTotal" | "creditedAmount" | "amountPaid">,
+  total: number
+): { appliedAmount: number; unappliedAmount: number; creditedAmount: number; status: Invoice["status"] } {
+  const balanceDue = invoiceBalanceDue(invoice);
+  const appliedAmount = Math.min(balanceDue, roundMoney(total));
+  return {
+    appliedAmount,
+    unappliedAmount: roundMoney(total - appliedAmount),
+    creditedAmount: roundMoney((Number(invoice.creditedAmount) || 0) + total),
+    status: isOpenInvoice(invoice) && appliedAmount >= balanceDue ? "paid" : invoice.status,
+  };
+}
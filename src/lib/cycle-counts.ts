@@ -0,0 +1,234 @@
+/**
+ * Cycle counts: physical stock counts reconciled against system quantities.
+ *
+ * A session snapshots each item's quantity when it is created. Counters enter counted
+ * quantities (optionally blind), the session is submitted for review, and an admin approves
+ * variances. Approved variances are applied as deltas to the current quantity, so stock that
+ * moved after the snapshot is not overwritten; each adjustment is written to the stock ledger
+ * and the edit log with the session id.
+ */
+import {
+  collection,
+  doc,
+  getDocs,
+  runTransaction,
+  Timestamp,
+  addDoc,
+  updateDoc,
+  type Firestore,
+} from "firebase/firestore";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { getOnHandBins } from "@/lib/inventory-bins";
+import type { CycleCountLine, CycleCountSession, InventoryItem, UserProfile } from "@/types";
+
+const COLLECTION = "cycleCounts";
+/** Approved lines per transaction; each one writes the item, a ledger entry and an edit log. */
+const APPROVAL_CHUNK_SIZE = 100;
+
+export function cycleCountPath(sessionId: string): string {
+  return `${COLLECTION}/${sessionId}`;
+}
+
+/** Counted minus system quantity; null while the line is uncounted. */
+export function getCountVariance(line: Pick<CycleCountLine, "systemQuantity" | "countedQuantity">): number | null {
+  if (line.countedQuantity === null || line.countedQuantity === undefined) return null;
+  return line.countedQuantity - line.systemQuantity;
+}
+
+function buildLines(user: Pick<UserProfile, "uid" | "name">, inventory: InventoryItem[], locationId?: string): CycleCountLine[] {
+  return inventory
+    .filter((item) => !item.source)
+    .map((item) => {
+      const bins = getOnHandBins(item).filter((b) => !locationId || b.locationId === locationId);
+      const line: CycleCountLine = {
+        userId: user.uid!,
+        productId: item.id,
+        productName: item.productName,
+        systemQuantity: Number(item.quantity) || 0,
+        countedQuantity: null,
+      };
+      if (user.name) line.userName = user.name;
+      if (item.sku) line.sku = item.sku;
+      if (bins.length > 0) line.binCodes = bins.map((b) => b.code);
+      return line;
+    })
+    .sort((a, b) => (a.binCodes?.[0] || "~").localeCompare(b.binCodes?.[0] || "~") || a.productName.localeCompare(b.productName));
+}
+
+/**
+ * Start a session for one client, or for every given client at a location. Items synced from
+ * Shopify/eBay are left out because their quantity is owned by the integration.
+ */
+export async function createCycleCountSession(
+  firestore: Firestore,
+  input: {
+    name: string;
+    scope: "client" | "location";
+    users: Pick<UserProfile, "uid" | "name">[];
+    locationId?: string;
+    blind: boolean;
+    createdBy: string;
+    createdByName?: string;
+  }
+): Promise<string> {
+  const lines: CycleCountLine[] = [];
+  for (const user of input.users) {
+    if (!user.uid) continue;
+    const snap = await getDocs(collection(firestore, `users/${user.uid}/inventory`));
+    const inventory = snap.docs.map((d) => ({ id: d.id, ...d.data() }) as InventoryItem);
+    lines.push(...buildLines(user, inventory, input.scope === "location" ? input.locationId : undefined));
+  }
+  if (lines.length === 0) {
+    throw new Error("No inventory to count for this selection.");
+  }
+
+  const session: Omit<CycleCountSession, "id" | "createdAt"> & { createdAt: Timestamp } = {
+    name: input.name.trim(),
+    scope: input.scope,
+    blind: input.blind,
+    status: "counting",
+    lines,
+    createdBy: input.createdBy,
+    createdAt: Timestamp.now(),
+  };
+  if (input.scope === "client" && input.users[0]?.uid) session.userId = input.users[0].uid;
+  if (input.scope === "location" && input.locationId) session.locationId = input.locationId;
+  if (input.createdByName) session.createdByName = input.createdByName;
+  const ref = await addDoc(collection(firestore, COLLECTION), session);
+  return ref.id;
+}
+
+/**
+ * Merge counted quantities (line index -> count, null to clear) into the session. Runs in a
+ * transaction so counters working on different lines do not overwrite each other.
+ */
+export async function saveCycleCounts(
+  firestore: Firestore,
+  sessionId: string,
+  counts: Record<number, number | null>
+): Promise<void> {
+  await runTransaction(firestore, async (transaction) => {
+    const ref = doc(firestore, COLLECTION, sessionId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error("Cycle count not found.");
+    const session = snap.data() as CycleCountSession;
+    if (session.status !== "counting") throw new Error("This cycle count is no longer accepting counts.");
+    const lines = session.lines.map((line, index) =>
+      index in counts ? { ...line, countedQuantity: counts[index] } : line
+    );
+    transaction.update(ref, { lines });
+  });
+}
+
+export async function setCycleCountStatus(
+  firestore: Firestore,
+  sessionId: string,
+  status: "counting" | "review" | "cancelled"
+): Promise<void> {
+  const update: Record<string, unknown> = { status };
+  if (status === "review") update.submittedAt = Timestamp.now();
+  await updateDoc(doc(firestore, COLLECTION, sessionId), update);
+}
+
+/**
+ * Apply the variances of `approvedIndexes` to inventory and dismiss every other counted line
+ * with a variance, then mark the session completed. Lines are processed in chunks; a chunk
+ * that fails leaves earlier chunks applied and the session in review so it can be retried.
+ */
+export async function approveCycleCountVariances(
+  firestore: Firestore,
+  sessionId: string,
+  approvedIndexes: number[],
+  admin: { uid: string; name?: string }
+): Promise<{ adjusted: number }> {
+  const sessionRef = doc(firestore, COLLECTION, sessionId);
+  let adjusted = 0;
+
+  const chunks: number[][] = [];
+  for (let start = 0; start < approvedIndexes.length; start += APPROVAL_CHUNK_SIZE) {
+    chunks.push(approvedIndexes.slice(start, start + APPROVAL_CHUNK_SIZE));
+  }
+  if (chunks.length === 0) chunks.push([]);
+
+  for (let c = 0; c < chunks.length; c++) {
+    const chunk = chunks[c];
+    const isLastChunk = c === chunks.length - 1;
+
+    adjusted += await runTransaction(firestore, async (transaction) => {
+      const sessionSnap = await transaction.get(sessionRef);
+      if (!sessionSnap.exists()) throw new Error("Cycle count not found.");
+      const session = sessionSnap.data() as CycleCountSession;
+      if (session.status !== "review") throw new Error("Only cycle counts in review can be approved.");
+
+      const pending = chunk.filter((index) => {
+        const line = session.lines[index];
+        return line && !line.resolution && getCountVariance(line);
+      });
+      const itemSnaps = await Promise.all(
+        pending.map((index) => {
+          const line = session.lines[index];
+          return transaction.get(doc(firestore, `users/${line.userId}/inventory`, line.productId));
+        })
+      );
+
+      const lines = session.lines.map((line) => ({ ...line }));
+      const now = Timestamp.now();
+      let count = 0;
+      pending.forEach((index, i) => {
+        const line = lines[index];
+        const itemSnap = itemSnaps[i];
+        if (!itemSnap.exists()) {
+          line.resolution = "dismissed";
+          return;
+        }
+        const item = itemSnap.data() as Omit<InventoryItem, "id">;
+        const variance = getCountVariance(line) ?? 0;
+        const quantityBefore = Number(item.quantity) || 0;
+        const quantityAfter = Math.max(0, quantityBefore + variance);
+        const status = quantityAfter > 0 ? "In Stock" : "Out of Stock";
+        const reason = `Cycle count "${session.name}" (${sessionId}): counted ${line.countedQuantity}, system ${line.systemQuantity}`;
+
+        transaction.update(itemSnap.ref, { quantity: quantityAfter, status });
+        recordStockMovement(transaction, firestore, line.userId, {
+          productId: line.productId,
+          productName: item.productName || line.productName,
+          type: "cycle_count",
+          quantityBefore,
+          quantityAfter,
+          reason,
+          referencePath: cycleCountPath(sessionId),
+          createdBy: admin.uid,
+          createdByName: admin.name || "Admin",
+        });
+        transaction.set(doc(collection(firestore, `users/${line.userId}/editLogs`)), {
+          productName: item.productName || line.productName,
+          previousQuantity: quantityBefore,
+          newQuantity: quantityAfter,
+          previousStatus: item.status,
+          newStatus: status,
+          dateAdded: item.dateAdded,
+          editedAt: now,
+          editedBy: admin.name || "Admin",
+          reason,
+          cycleCountId: sessionId,
+        });
+        line.resolution = "approved";
+        count++;
+      });
+
+      const update: Record<string, unknown> = { lines };
+      if (isLastChunk) {
+        for (const line of lines) {
+          if (!line.resolution && getCountVariance(line)) line.resolution = "dismissed";
+        }
+        update.status = "completed";
+        update.completedAt = now;
+        update.completedByName = admin.name || "Admin";
+      }
+      transaction.update(sessionRef, update);
+      return count;
+    });
+  }
+
+  return { adjusted };
+}
@@ -15,9 +15,12 @@ const PATH_FEATURE_MAP: { path: string; feature: UserFeature; exact?: boolean }[
   { path: "/dashboard/delete-logs", feature: "delete_logs", exact: true },
   { path: "/dashboard/purchased-labels", feature: "upload_labels", exact: true },
   { path: "/dashboard/inventory", feature: "view_inventory", exact: true },
+  { path: "/dashboard/inbound-shipments", feature: "view_inventory", exact: true },
+  { path: "/dashboard/bundles", feature: "view_inventory", exact: true },
   { path: "/dashboard/buy-labels", feature: "buy_labels", exact: true },
   { path: "/dashboard/recycle-bin", feature: "disposed_inventory", exact: true },
   { path: "/dashboard/invoices", feature: "view_invoices", exact: true },
+  { path: "/dashboard/wallet", feature: "view_invoices", exact: true },
   { path: "/dashboard/pricing", feature: "my_pricing", exact: true },
   { path: "/dashboard/documents", feature: "client_documents", exact: true },
   { path: "/dashboard/integrations", feature: "integrations", exact: false },
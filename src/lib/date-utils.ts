@@ -0,0 +1,16 @@
+/**
+ * Date helpers shared by client and server code.
+ */
+
+/** Firestore Timestamp (client or admin), Date, ISO string or `{ seconds }` to a Date. */
+export function toDate(value: any): Date | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value;
+  if (typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  if (typeof value.toDate === "function") return value.toDate();
+  if (typeof value.seconds === "number") return new Date(value.seconds * 1000);
+  return undefined;
+}
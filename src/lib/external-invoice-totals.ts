@@ -0,0 +1,35 @@
+/**
+ * Totals of `external_invoices` documents (client + server). The discount applies to the invoice
+ * total plus any late fee; the late fee is then added back on top.
+ */
+
+type ExternalInvoiceTotals = {
+  total?: number;
+  lateFee?: number;
+  discountType?: "percentage" | "amount";
+  discountValue?: number;
+};
+
+export const getDiscountAmount = (invoice: ExternalInvoiceTotals): number => {
+  if (!invoice.discountType || invoice.discountValue == null) return 0;
+  // Calculate discount based on grand total (invoice + late fee) if late fee exists
+  const invoiceTotal = Number(invoice.total ?? 0);
+  const lateFee = Number(invoice.lateFee ?? 0);
+  const baseTotal = lateFee > 0 ? invoiceTotal + lateFee : invoiceTotal;
+  if (invoice.discountType === "percentage") {
+    return Number((baseTotal * (invoice.discountValue / 100)).toFixed(2));
+  }
+  return Math.min(Number(invoice.discountValue), baseTotal);
+};
+
+export const getEffectiveTotal = (invoice: ExternalInvoiceTotals): number => {
+  const total = Number(invoice.total ?? 0);
+  const discount = getDiscountAmount(invoice);
+  return Number((total - discount).toFixed(2));
+};
+
+export const getGrandTotalWithLateFee = (invoice: ExternalInvoiceTotals): number => {
+  const effectiveTotal = getEffectiveTotal(invoice);
+  const lateFee = Number(invoice.lateFee ?? 0);
+  return Number((effectiveTotal + lateFee).toFixed(2));
+};
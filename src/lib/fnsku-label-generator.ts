@@ -0,0 +1,159 @@
+import jsPDF from 'jspdf';
+
+/** Code 128 bar/space widths (in modules) for symbol values 0-105, then the stop pattern. */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const START_B = 104;
+const STOP = 106;
+/** Blank modules required on each side of the symbol. */
+const QUIET_ZONE_MODULES = 10;
+
+/**
+ * Encode text as Code 128 (code set B) and return the alternating bar/space widths in modules,
+ * starting with a bar. Throws for characters outside printable ASCII.
+ */
+export function encodeCode128(text: string): number[] {
+  const values = Array.from(text).map((char) => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Cannot encode "${char}" in a Code 128 label.`);
+    }
+    return code - 32;
+  });
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), START_B) % 103;
+  return [START_B, ...values, checksum, STOP].flatMap((symbol) =>
+    CODE128_PATTERNS[symbol].split('').map(Number)
+  );
+}
+
+/** Draw a Code 128 barcode filling `width` (quiet zones included) at x, y. */
+export function drawCode128(doc: jsPDF, text: string, x: number, y: number, width: number, height: number): void {
+  const widths = encodeCode128(text);
+  const totalModules = widths.reduce((sum, w) => sum + w, 0) + QUIET_ZONE_MODULES * 2;
+  const moduleWidth = width / totalModules;
+  let cursor = x + QUIET_ZONE_MODULES * moduleWidth;
+  doc.setFillColor(0, 0, 0);
+  widths.forEach((w, index) => {
+    if (index % 2 === 0) doc.rect(cursor, y, w * moduleWidth, height, 'F');
+    cursor += w * moduleWidth;
+  });
+}
+
+export type FnskuLabelFormat = 'avery-30' | 'thermal-2x1';
+
+export const FNSKU_LABEL_FORMATS: Record<FnskuLabelFormat, { name: string; description: string }> = {
+  'avery-30': { name: '30-up sheet', description: 'Letter sheet, 3 × 10 labels of 2.625" × 1" (Avery 5160 / 8160)' },
+  'thermal-2x1': { name: '2" × 1" thermal', description: 'One label per page for roll printers (Zebra, Rollo, Dymo)' },
+};
+
+/** Avery 5160 geometry in inches. */
+const AVERY_30 = {
+  columns: 3,
+  rows: 10,
+  labelWidth: 2.625,
+  labelHeight: 1,
+  leftMargin: 0.1875,
+  topMargin: 0.5,
+  horizontalPitch: 2.75,
+  verticalPitch: 1,
+};
+
+export interface FnskuLabelLine {
+  fnsku: string;
+  productName: string;
+  /** Number of labels to print for this line. */
+  quantity: number;
+  /** Printed under the title; Amazon expects the item condition, "New" by default. */
+  condition?: string;
+}
+
+function drawLabel(doc: jsPDF, line: FnskuLabelLine, x: number, y: number, width: number, height: number): void {
+  const padding = 0.06;
+  const innerWidth = width - padding * 2;
+  const barcodeHeight = height * 0.45;
+  drawCode128(doc, line.fnsku, x + padding, y + padding, innerWidth, barcodeHeight);
+
+  let textY = y + padding + barcodeHeight + 0.11;
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.text(line.fnsku, x + width / 2, textY, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6);
+  const titleLines = doc.splitTextToSize(line.productName, innerWidth) as string[];
+  const title = titleLines.length > 1 ? `${titleLines[0].slice(0, -3).trimEnd()}...` : titleLines[0] || '';
+  textY += 0.11;
+  doc.text(title, x + padding, textY);
+  textY += 0.09;
+  doc.text(line.condition || 'New', x + padding, textY);
+}
+
+/**
+ * Lay out one label per unit for each line. On 30-up sheets `startPosition` (1-30) skips
+ * labels already used on the first sheet.
+ */
+export function buildFnskuLabelDoc(
+  lines: FnskuLabelLine[],
+  format: FnskuLabelFormat,
+  options: { startPosition?: number } = {}
+): jsPDF {
+  const labels = lines.flatMap((line) =>
+    Array.from({ length: Math.max(0, Math.floor(line.quantity)) }, () => line)
+  );
+  if (labels.length === 0) {
+    throw new Error('Nothing to print: every line has a quantity of 0.');
+  }
+  for (const line of lines) {
+    if (line.quantity > 0 && !line.fnsku.trim()) throw new Error(`${line.productName} has no FNSKU.`);
+  }
+
+  if (format === 'thermal-2x1') {
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'in', format: [2, 1] });
+    labels.forEach((line, index) => {
+      if (index > 0) doc.addPage([2, 1], 'landscape');
+      drawLabel(doc, line, 0, 0, 2, 1);
+    });
+    return doc;
+  }
+
+  const doc = new jsPDF('p', 'in', 'letter');
+  const perSheet = AVERY_30.columns * AVERY_30.rows;
+  const offset = Math.min(Math.max(1, Math.floor(options.startPosition ?? 1)), perSheet) - 1;
+  labels.forEach((line, index) => {
+    const slot = index + offset;
+    if (slot > 0 && slot % perSheet === 0) doc.addPage('letter', 'p');
+    const position = slot % perSheet;
+    const column = position % AVERY_30.columns;
+    const row = Math.floor(position / AVERY_30.columns);
+    drawLabel(
+      doc,
+      line,
+      AVERY_30.leftMargin + column * AVERY_30.horizontalPitch,
+      AVERY_30.topMargin + row * AVERY_30.verticalPitch,
+      AVERY_30.labelWidth,
+      AVERY_30.labelHeight
+    );
+  });
+  return doc;
+}
+
+export function generateFnskuLabelsPDF(
+  lines: FnskuLabelLine[],
+  format: FnskuLabelFormat,
+  fileName: string,
+  options: { startPosition?: number } = {}
+): void {
+  buildFnskuLabelDoc(lines, format, options).save(fileName);
+}
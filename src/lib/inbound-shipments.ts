@@ -0,0 +1,361 @@
+/**
+ * Inbound shipments (ASN): the client declares cartons and their expected contents, the
+ * warehouse receives them carton by carton, and the client sees any over/short/damaged/missing
+ * discrepancies before the received units are added to inventory.
+ *
+ * Flow: submitted -> receiving (first carton received) -> received (all cartons processed)
+ * -> closed (inventory created). A submitted ASN can be cancelled by the client.
+ */
+import {
+  addDoc,
+  collection,
+  deleteField,
+  doc,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type Firestore,
+} from "firebase/firestore";
+import { format } from "date-fns";
+import { recordStockMovement } from "@/lib/stock-ledger";
+import { normalizeIdentifier } from "@/lib/product-identifiers";
+import type { InboundCarton, InboundCartonLine, InboundShipment, InventoryItem } from "@/types";
+
+export function inboundShipmentsPath(userId: string): string {
+  return `users/${userId}/inboundShipments`;
+}
+
+export type InboundDiscrepancyKind = "over" | "short" | "damaged" | "missing";
+
+export interface InboundDiscrepancy {
+  cartonIndex: number;
+  productName: string;
+  kind: InboundDiscrepancyKind;
+  /** Units over, short, damaged or missing (always positive). */
+  quantity: number;
+}
+
+export const INBOUND_DISCREPANCY_LABELS: Record<InboundDiscrepancyKind, string> = {
+  over: "Over",
+  short: "Short",
+  damaged: "Damaged",
+  missing: "Missing carton",
+};
+
+/** Discrepancies found so far; cartons not yet received have none. */
+export function getInboundDiscrepancies(shipment: Pick<InboundShipment, "cartons">): InboundDiscrepancy[] {
+  const result: InboundDiscrepancy[] = [];
+  shipment.cartons.forEach((carton, cartonIndex) => {
+    for (const line of carton.lines) {
+      if (carton.status === "missing") {
+        result.push({ cartonIndex, productName: line.productName, kind: "missing", quantity: line.expectedQuantity });
+        continue;
+      }
+      if (carton.status !== "received") continue;
+      const received = Number(line.receivedQuantity) || 0;
+      const difference = received - line.expectedQuantity;
+      if (difference > 0) result.push({ cartonIndex, productName: line.productName, kind: "over", quantity: difference });
+      if (difference < 0) result.push({ cartonIndex, productName: line.productName, kind: "short", quantity: -difference });
+      const damaged = Number(line.damagedQuantity) || 0;
+      if (damaged > 0) result.push({ cartonIndex, productName: line.productName, kind: "damaged", quantity: damaged });
+    }
+  });
+  return result;
+}
+
+export interface InboundProductSummary {
+  productId?: string;
+  productName: string;
+  sku?: string;
+  expected: number;
+  received: number;
+  damaged: number;
+  /** Received minus damaged: what goes into inventory when the ASN is closed. */
+  sellable: number;
+}
+
+function productKey(line: InboundCartonLine): string {
+  if (line.productId) return `id:${line.productId}`;
+  if (line.sku) return `sku:${normalizeIdentifier(line.sku)}`;
+  return `name:${line.productName.trim().toLowerCase()}`;
+}
+
+/** Expected vs received units per product across all cartons. */
+export function summarizeInboundShipment(shipment: Pick<InboundShipment, "cartons">): InboundProductSummary[] {
+  const byKey = new Map<string, InboundProductSummary>();
+  for (const carton of shipment.cartons) {
+    for (const line of carton.lines) {
+      const key = productKey(line);
+      let summary = byKey.get(key);
+      if (!summary) {
+        summary = { productName: line.productName, expected: 0, received: 0, damaged: 0, sellable: 0 };
+        if (line.productId) summary.productId = line.productId;
+        if (line.sku) summary.sku = line.sku;
+        byKey.set(key, summary);
+      }
+      summary.expected += line.expectedQuantity;
+      if (carton.status === "received") {
+        const received = Number(line.receivedQuantity) || 0;
+        const damaged = Math.min(received, Number(line.damagedQuantity) || 0);
+        summary.received += received;
+        summary.damaged += damaged;
+        summary.sellable += received - damaged;
+      }
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+export function getExpectedUnits(shipment: Pick<InboundShipment, "cartons">): number {
+  return shipment.cartons.reduce((sum, c) => sum + c.lines.reduce((s, l) => s + l.expectedQuantity, 0), 0);
+}
+
+/** The client must acknowledge discrepancies before the ASN can be closed into inventory. */
+export function needsClientAcknowledgement(shipment: Pick<InboundShipment, "cartons" | "clientAcknowledgedAt">): boolean {
+  return getInboundDiscrepancies(shipment).length > 0 && !shipment.clientAcknowledgedAt;
+}
+
+function generateReference(): string {
+  return `ASN-${format(new Date(), "yyyyMMdd")}-${Math.floor(1000 + Math.random() * 9000)}`;
+}
+
+export async function createInboundShipment(
+  firestore: Firestore,
+  userId: string,
+  input: {
+    carrier: string;
+    expectedArrivalDate?: string;
+    remarks?: string;
+    cartons: { trackingNumber?: string; lines: Pick<InboundCartonLine, "productId" | "productName" | "sku" | "expectedQuantity">[] }[];
+  }
+): Promise<string> {
+  const cartons: InboundCarton[] = input.cartons
+    .map((carton) => {
+      const lines = carton.lines
+        .filter((line) => line.productName.trim() && line.expectedQuantity > 0)
+        .map((line) => {
+          const next: InboundCartonLine = {
+            productName: line.productName.trim(),
+            expectedQuantity: Math.floor(line.expectedQuantity),
+          };
+          if (line.productId) next.productId = line.productId;
+          if (line.sku?.trim()) next.sku = line.sku.trim();
+          return next;
+        });
+      const next: InboundCarton = { lines, status: "expected" };
+      if (carton.trackingNumber?.trim()) next.trackingNumber = carton.trackingNumber.trim();
+      return next;
+    })
+    .filter((carton) => carton.lines.length > 0);
+  if (cartons.length === 0) {
+    throw new Error("Add at least one carton with a product and quantity.");
+  }
+
+  const shipment: Omit<InboundShipment, "id" | "createdAt"> & { createdAt: Timestamp } = {
+    reference: generateReference(),
+    carrier: input.carrier.trim(),
+    cartons,
+    status: "submitted",
+    requestedBy: userId,
+    createdAt: Timestamp.now(),
+  };
+  if (input.expectedArrivalDate) shipment.expectedArrivalDate = input.expectedArrivalDate;
+  if (input.remarks?.trim()) shipment.remarks = input.remarks.trim();
+  const ref = await addDoc(collection(firestore, inboundShipmentsPath(userId)), shipment);
+  return ref.id;
+}
+
+/** Client-side cancel; only possible before the warehouse has started receiving. */
+export async function cancelInboundShipment(firestore: Firestore, userId: string, shipmentId: string): Promise<void> {
+  await runTransaction(firestore, async (transaction) => {
+    const ref = doc(firestore, inboundShipmentsPath(userId), shipmentId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error("Inbound shipment not found.");
+    if ((snap.data() as InboundShipment).status !== "submitted") {
+      throw new Error("Receiving has already started for this shipment.");
+    }
+    transaction.update(ref, { status: "cancelled" });
+  });
+}
+
+async function updateCarton(
+  firestore: Firestore,
+  userId: string,
+  shipmentId: string,
+  cartonIndex: number,
+  update: (carton: InboundCarton) => InboundCarton
+): Promise<void> {
+  await runTransaction(firestore, async (transaction) => {
+    const ref = doc(firestore, inboundShipmentsPath(userId), shipmentId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error("Inbound shipment not found.");
+    const shipment = snap.data() as InboundShipment;
+    if (shipment.status !== "submitted" && shipment.status !== "receiving") {
+      throw new Error("This shipment is no longer being received.");
+    }
+    if (!shipment.cartons[cartonIndex]) throw new Error("Carton not found.");
+    const cartons = shipment.cartons.map((c, i) => (i === cartonIndex ? update(c) : c));
+    // A client acknowledgement covers the discrepancies it was given; re-receiving invalidates it
+    transaction.update(ref, { cartons, status: "receiving", clientAcknowledgedAt: deleteField() });
+  });
+}
+
+/**
+ * Record what arrived in one carton: counted and damaged units per line, in the carton's line
+ * order. A carton can be received again to correct a count until receiving is finished.
+ */
+export async function receiveInboundCarton(
+  firestore: Firestore,
+  userId: string,
+  shipmentId: string,
+  cartonIndex: number,
+  counts: { receivedQuantity: number; damagedQuantity: number }[],
+  receivedByName: string,
+  notes?: string
+): Promise<void> {
+  await updateCarton(firestore, userId, shipmentId, cartonIndex, (carton) => {
+    const next: InboundCarton = {
+      ...carton,
+      status: "received",
+      receivedAt: Timestamp.now(),
+      receivedByName,
+      lines: carton.lines.map((line, i) => {
+        const received = Math.max(0, Math.floor(Number(counts[i]?.receivedQuantity) || 0));
+        const damaged = Math.min(received, Math.max(0, Math.floor(Number(counts[i]?.damagedQuantity) || 0)));
+        return { ...line, receivedQuantity: received, damagedQuantity: damaged };
+      }),
+    };
+    if (notes?.trim()) next.notes = notes.trim();
+    else delete next.notes;
+    return next;
+  });
+}
+
+export async function markInboundCartonMissing(
+  firestore: Firestore,
+  userId: string,
+  shipmentId: string,
+  cartonIndex: number,
+  receivedByName: string
+): Promise<void> {
+  await updateCarton(firestore, userId, shipmentId, cartonIndex, (carton) => ({
+    ...carton,
+    status: "missing",
+    receivedAt: Timestamp.now(),
+    receivedByName,
+    lines: carton.lines.map((line) => {
+      const next = { ...line };
+      delete next.receivedQuantity;
+      delete next.damagedQuantity;
+      return next;
+    }),
+  }));
+}
+
+/** Close receiving once every carton is received or marked missing; the client can now review. */
+export async function finishInboundReceiving(firestore: Firestore, userId: string, shipmentId: string): Promise<void> {
+  await runTransaction(firestore, async (transaction) => {
+    const ref = doc(firestore, inboundShipmentsPath(userId), shipmentId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error("Inbound shipment not found.");
+    const shipment = snap.data() as InboundShipment;
+    if (shipment.status !== "receiving") throw new Error("No cartons have been received yet.");
+    if (shipment.cartons.some((c) => c.status === "expected")) {
+      throw new Error("Receive every carton or mark it missing first.");
+    }
+    transaction.update(ref, { status: "received", receivedAt: Timestamp.now() });
+  });
+}
+
+/** Client confirms they have seen the discrepancies. */
+export async function acknowledgeInboundShipment(firestore: Firestore, userId: string, shipmentId: string): Promise<void> {
+  await updateDoc(doc(firestore, inboundShipmentsPath(userId), shipmentId), { clientAcknowledgedAt: Timestamp.now() });
+}
+
+/**
+ * Add the sellable units of a received ASN to inventory in one transaction: restock lines
+ * increase their item, other products become new inventory items. Damaged units are not added.
+ */
+export async function closeInboundShipment(
+  firestore: Firestore,
+  userId: string,
+  shipmentId: string,
+  admin: { uid: string; name?: string }
+): Promise<{ created: number; restocked: number }> {
+  return runTransaction(firestore, async (transaction) => {
+    const ref = doc(firestore, inboundShipmentsPath(userId), shipmentId);
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error("Inbound shipment not found.");
+    const shipment = { id: snap.id, ...snap.data() } as InboundShipment;
+    if (shipment.status !== "received") throw new Error("Finish receiving before closing this shipment.");
+    if (needsClientAcknowledgement(shipment)) {
+      throw new Error("The client has not acknowledged the receiving discrepancies yet.");
+    }
+
+    const summaries = summarizeInboundShipment(shipment).filter((s) => s.sellable > 0);
+    const existing = new Map<string, { ref: DocumentReference; snap: DocumentSnapshot }>();
+    for (const summary of summaries) {
+      if (!summary.productId) continue;
+      const itemRef = doc(firestore, `users/${userId}/inventory`, summary.productId);
+      existing.set(summary.productId, { ref: itemRef, snap: await transaction.get(itemRef) });
+    }
+
+    const now = Timestamp.now();
+    let created = 0;
+    let restocked = 0;
+    for (const summary of summaries) {
+      const found = summary.productId ? existing.get(summary.productId) : undefined;
+      if (found && found.snap.exists()) {
+        const item = found.snap.data() as Omit<InventoryItem, "id">;
+        const quantityBefore = Number(item.quantity) || 0;
+        const quantityAfter = quantityBefore + summary.sellable;
+        transaction.update(found.ref, { quantity: quantityAfter, status: "In Stock", receivingDate: now });
+        recordStockMovement(transaction, firestore, userId, {
+          productId: found.ref.id,
+          productName: item.productName || summary.productName,
+          type: "receive",
+          quantityBefore,
+          quantityAfter,
+          reason: `Inbound shipment ${shipment.reference}`,
+          referencePath: ref.path,
+          createdBy: admin.uid,
+          createdByName: admin.name || "Admin",
+        });
+        restocked++;
+      } else {
+        const itemRef = doc(collection(firestore, `users/${userId}/inventory`));
+        const data: Record<string, unknown> = {
+          productName: summary.productName,
+          quantity: summary.sellable,
+          dateAdded: now,
+          receivingDate: now,
+          status: "In Stock",
+          inventoryType: "product",
+          requestedBy: shipment.requestedBy,
+          approvedBy: admin.uid,
+          approvedAt: now,
+          inboundShipmentId: shipment.id,
+        };
+        if (summary.sku) data.sku = summary.sku;
+        transaction.set(itemRef, data);
+        recordStockMovement(transaction, firestore, userId, {
+          productId: itemRef.id,
+          productName: summary.productName,
+          type: "receive",
+          quantityBefore: 0,
+          quantityAfter: summary.sellable,
+          reason: `Inbound shipment ${shipment.reference}`,
+          referencePath: ref.path,
+          createdBy: admin.uid,
+          createdByName: admin.name || "Admin",
+        });
+        created++;
+      }
+    }
+
+    transaction.update(ref, { status: "closed", closedAt: now, closedByName: admin.name || "Admin" });
+    return { created, restocked };
+  });
+}
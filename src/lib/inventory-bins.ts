@@ -0,0 +1,72 @@
+import type { BinLocation, InventoryBinQuantity, InventoryItem, UserProfile } from "@/types";
+
+/** Active bins in the user's assigned locations (every active bin when the user has none). */
+export function binsForUser(bins: BinLocation[], user: Pick<UserProfile, "locations"> | null | undefined): BinLocation[] {
+  const locationIds = user?.locations ?? [];
+  return bins
+    .filter((b) => b.active !== false && (locationIds.length === 0 || locationIds.includes(b.locationId)))
+    .sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/** Add units to a bin, merging with the existing entry for that bin. */
+export function putAway(
+  bins: InventoryBinQuantity[] | undefined,
+  bin: Pick<BinLocation, "id" | "locationId" | "code">,
+  quantity: number
+): InventoryBinQuantity[] {
+  const units = Math.max(0, Math.floor(Number(quantity) || 0));
+  const next = (bins || []).map((b) => ({ ...b }));
+  const match = next.find((b) => b.binId === bin.id);
+  if (match) {
+    match.quantity += units;
+  } else if (units > 0) {
+    next.push({ binId: bin.id, locationId: bin.locationId, code: bin.code, quantity: units });
+  }
+  return next.filter((b) => b.quantity > 0);
+}
+
+/**
+ * Take `units` out of the item's bins: the preferred bin first, then the rest by bin code.
+ * Returns what came out of each bin and the bins left; units beyond the binned total come
+ * from unassigned stock and are not listed.
+ */
+export function pickFromBins(
+  bins: InventoryBinQuantity[] | undefined,
+  units: number,
+  preferredBinId?: string
+): { picks: InventoryBinQuantity[]; remaining: InventoryBinQuantity[] } {
+  const ordered = [...(bins || [])].sort((a, b) => {
+    if (preferredBinId && a.binId === preferredBinId) return -1;
+    if (preferredBinId && b.binId === preferredBinId) return 1;
+    return a.code.localeCompare(b.code);
+  });
+  let toPick = Math.max(0, Number(units) || 0);
+  const picks: InventoryBinQuantity[] = [];
+  const remaining: InventoryBinQuantity[] = [];
+  for (const bin of ordered) {
+    const take = Math.min(bin.quantity, toPick);
+    if (take > 0) {
+      picks.push({ ...bin, quantity: take });
+      toPick -= take;
+    }
+    if (bin.quantity - take > 0) remaining.push({ ...bin, quantity: bin.quantity - take });
+  }
+  return { picks, remaining };
+}
+
+/**
+ * Bins that still hold stock. Quantity changes made without choosing a bin can leave more
+ * binned units than the item holds; the excess is treated as picked in bin-code order.
+ */
+export function getOnHandBins(item: Pick<InventoryItem, "quantity" | "bins">): InventoryBinQuantity[] {
+  const bins = item.bins || [];
+  const binned = bins.reduce((sum, b) => sum + (Number(b.quantity) || 0), 0);
+  const excess = binned - Math.max(0, Number(item.quantity) || 0);
+  return excess > 0 ? pickFromBins(bins, excess).remaining : bins;
+}
+
+/** Units of the item that are not stored in any bin yet. */
+export function getUnassignedQuantity(item: Pick<InventoryItem, "quantity" | "bins">): number {
+  const binned = getOnHandBins(item).reduce((sum, b) => sum + b.quantity, 0);
+  return Math.max(0, (Number(item.quantity) || 0) - binned);
+}
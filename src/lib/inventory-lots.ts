@@ -0,0 +1,109 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { InventoryItem, InventoryLot } from "@/types";
+
+function lotKey(lot: InventoryLot): string {
+  return `${(lot.lotNumber || "").trim().toLowerCase()}|${lot.expirationDate || ""}`;
+}
+
+/** Build a lot from receiving input; returns null when neither a lot number nor an expiry was given. */
+export function createLot(lotNumber: string | undefined, expirationDate: string | undefined, quantity: number): InventoryLot | null {
+  const trimmedLot = (lotNumber || "").trim();
+  const trimmedExpiry = (expirationDate || "").trim();
+  if (!trimmedLot && !trimmedExpiry) return null;
+  const lot: InventoryLot = { quantity: Math.max(0, Math.floor(Number(quantity) || 0)) };
+  if (trimmedLot) lot.lotNumber = trimmedLot;
+  if (trimmedExpiry) lot.expirationDate = trimmedExpiry;
+  return lot;
+}
+
+/** Add received units to an item's lots, merging into an existing lot with the same number and expiry. */
+export function addLot(lots: InventoryLot[] | undefined, lot: InventoryLot): InventoryLot[] {
+  const next = (lots || []).map((l) => ({ ...l }));
+  const match = next.find((l) => lotKey(l) === lotKey(lot));
+  if (match) {
+    match.quantity += lot.quantity;
+  } else {
+    next.push({ ...lot });
+  }
+  return next.filter((l) => l.quantity > 0);
+}
+
+/** First-expired-first-out order: earliest expiry first, lots without an expiry last. */
+export function sortLotsFefo(lots: InventoryLot[]): InventoryLot[] {
+  return [...lots].sort((a, b) => {
+    if (a.expirationDate && b.expirationDate && a.expirationDate !== b.expirationDate) {
+      return a.expirationDate < b.expirationDate ? -1 : 1;
+    }
+    if (a.expirationDate && !b.expirationDate) return -1;
+    if (!a.expirationDate && b.expirationDate) return 1;
+    return (a.lotNumber || "").localeCompare(b.lotNumber || "");
+  });
+}
+
+/** True once the lot's expiration date is before `now`'s calendar day (it may still ship on the day itself). */
+export function isLotExpired(lot: InventoryLot, now: Date = new Date()): boolean {
+  return !!lot.expirationDate && lot.expirationDate < format(now, "yyyy-MM-dd");
+}
+
+/** Units held in lots that have expired by `now`. */
+export function getExpiredLotQuantity(lots: InventoryLot[] | undefined, now: Date = new Date()): number {
+  return (lots || []).filter((lot) => isLotExpired(lot, now)).reduce((sum, lot) => sum + (Number(lot.quantity) || 0), 0);
+}
+
+/**
+ * Pick `units` from lots in FEFO order. Returns the picked quantities per lot and the lots left
+ * afterwards; units beyond the lotted total come from untracked stock and are not listed.
+ * With `excludeExpiredAt`, lots expired by then are never picked and are left as they are.
+ */
+export function allocateLotsFefo(
+  lots: InventoryLot[] | undefined,
+  units: number,
+  options: { excludeExpiredAt?: Date } = {}
+): { allocations: InventoryLot[]; remaining: InventoryLot[] } {
+  let toPick = Math.max(0, Number(units) || 0);
+  const allocations: InventoryLot[] = [];
+  const remaining: InventoryLot[] = [];
+  for (const lot of sortLotsFefo(lots || [])) {
+    const pickable = !options.excludeExpiredAt || !isLotExpired(lot, options.excludeExpiredAt);
+    const take = pickable ? Math.min(lot.quantity, toPick) : 0;
+    if (take > 0) {
+      allocations.push({ ...lot, quantity: take });
+      toPick -= take;
+    }
+    if (lot.quantity - take > 0) remaining.push({ ...lot, quantity: lot.quantity - take });
+  }
+  return { allocations, remaining };
+}
+
+/**
+ * Lots that are still on hand. Quantity changes that don't track lots (adjustments, disposals)
+ * can leave more lotted units than the item holds; the excess is treated as consumed FEFO.
+ */
+export function getOnHandLots(item: Pick<InventoryItem, "quantity" | "lots">): InventoryLot[] {
+  const lots = item.lots || [];
+  const lotted = lots.reduce((sum, l) => sum + (Number(l.quantity) || 0), 0);
+  const excess = lotted - Math.max(0, Number(item.quantity) || 0);
+  return excess > 0 ? allocateLotsFefo(lots, excess).remaining : sortLotsFefo(lots);
+}
+
+export interface ExpiringLotRow {
+  item: InventoryItem;
+  lot: InventoryLot;
+  /** Calendar days until expiry; negative once expired. */
+  daysUntilExpiry: number;
+}
+
+/** On-hand lots that expire within `withinDays` of `now` (already-expired lots included), soonest first. */
+export function getExpiringLots(inventory: InventoryItem[], withinDays: number, now: Date = new Date()): ExpiringLotRow[] {
+  const rows: ExpiringLotRow[] = [];
+  for (const item of inventory) {
+    for (const lot of getOnHandLots(item)) {
+      if (!lot.expirationDate) continue;
+      const expiry = parseISO(lot.expirationDate);
+      if (Number.isNaN(expiry.getTime())) continue;
+      const daysUntilExpiry = differenceInCalendarDays(expiry, now);
+      if (daysUntilExpiry <= withinDays) rows.push({ item, lot, daysUntilExpiry });
+    }
+  }
+  return rows.sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+}
@@ -0,0 +1,156 @@
+/**
+ * Inventory reservations for pending shipment requests.
+ *
+ * Submitting a request adds its units to `reservedQuantity` on each InventoryItem and
+ * stores the same amounts on the request as `reservations`. Rejecting a pending request
+ * releases them; confirming it consumes them (on-hand quantity and reservation both drop)
+ * and records the units, lots and bins it took as `allocations`, so a later rejection can
+ * put exactly those back.
+ */
+import { doc, runTransaction, type DocumentReference, type Firestore } from "firebase/firestore";
+import { addLot, getOnHandLots } from "@/lib/inventory-lots";
+import { getOnHandBins, putAway } from "@/lib/inventory-bins";
+import type { InventoryBinQuantity, InventoryItem, InventoryLot, ShipmentAllocation, ShipmentBundle, ShipmentReservation } from "@/types";
+
+export function getReservedQuantity(item: Pick<InventoryItem, "quantity" | "reservedQuantity">): number {
+  return Math.max(0, Number(item.reservedQuantity) || 0);
+}
+
+/** On-hand quantity minus units held by pending shipment requests. */
+export function getAvailableQuantity(item: Pick<InventoryItem, "quantity" | "reservedQuantity">): number {
+  return Math.max(0, (Number(item.quantity) || 0) - getReservedQuantity(item));
+}
+
+/**
+ * Inventory units a shipment line takes: `quantity × packOf` of its product, or of every
+ * component (times the component quantity) when the line ships a bundle.
+ */
+export function getShipmentLineUnits(line: {
+  productId?: string;
+  quantity?: number;
+  packOf?: number;
+  bundle?: Pick<ShipmentBundle, "components">;
+}): { productId: string; productName?: string; units: number }[] {
+  const count = (Number(line.quantity) || 0) * (Number(line.packOf) || 1);
+  if (line.bundle && Array.isArray(line.bundle.components)) {
+    return line.bundle.components
+      .filter((c) => c.productId)
+      .map((c) => ({ productId: c.productId, productName: c.productName, units: count * (Number(c.quantity) || 1) }));
+  }
+  return line.productId ? [{ productId: line.productId, units: count }] : [];
+}
+
+/** Total units per product for a request's lines (bundles expanded to components, repeated products merged). */
+export function buildShipmentReservations(
+  shipments: { productId?: string; quantity?: number; packOf?: number; bundle?: Pick<ShipmentBundle, "components"> }[]
+): ShipmentReservation[] {
+  const totals = new Map<string, number>();
+  for (const shipment of shipments) {
+    for (const { productId, units } of getShipmentLineUnits(shipment)) {
+      if (units <= 0) continue;
+      totals.set(productId, (totals.get(productId) ?? 0) + units);
+    }
+  }
+  return Array.from(totals.entries()).map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/** Add picked units, lots and bins to the allocation for their product. */
+export function addShipmentAllocation(
+  allocations: Map<string, ShipmentAllocation>,
+  productId: string,
+  units: number,
+  lots: InventoryLot[],
+  bins: InventoryBinQuantity[]
+): void {
+  const allocation = allocations.get(productId) ?? { productId, quantity: 0 };
+  allocation.quantity += units;
+  for (const lot of lots) allocation.lots = addLot(allocation.lots, lot);
+  for (const bin of bins) {
+    allocation.bins = putAway(allocation.bins, { id: bin.binId, locationId: bin.locationId, code: bin.code }, bin.quantity);
+  }
+  allocations.set(productId, allocation);
+}
+
+/**
+ * What a confirmed request took from inventory. Requests confirmed before allocations were
+ * recorded fall back to their lines' units (bundles expanded), without lots or bins.
+ */
+export function getShipmentAllocations(request: {
+  allocations?: ShipmentAllocation[];
+  shipments?: { productId?: string; quantity?: number; packOf?: number; bundle?: Pick<ShipmentBundle, "components"> }[];
+}): ShipmentAllocation[] {
+  if (Array.isArray(request.allocations)) return request.allocations;
+  return buildShipmentReservations(request.shipments || []);
+}
+
+/** An item's quantity, lots and bins once a confirmed request's allocation is put back. */
+export function returnShipmentAllocation(
+  item: Pick<InventoryItem, "quantity" | "lots" | "bins">,
+  allocation: ShipmentAllocation
+): Pick<InventoryItem, "quantity" | "lots" | "bins"> {
+  const quantity = Math.max(0, Number(item.quantity) || 0);
+  let lots = getOnHandLots({ quantity, lots: item.lots });
+  for (const lot of allocation.lots || []) lots = addLot(lots, lot);
+  let bins = getOnHandBins({ quantity, bins: item.bins });
+  for (const bin of allocation.bins || []) {
+    bins = putAway(bins, { id: bin.binId, locationId: bin.locationId, code: bin.code }, bin.quantity);
+  }
+  return { quantity: quantity + (Number(allocation.quantity) || 0), lots, bins };
+}
+
+/** Reserved quantity after giving back `amount` units (never below zero). */
+export function releaseReservedQuantity(currentReserved: unknown, amount: number): number {
+  return Math.max(0, (Number(currentReserved) || 0) - (Number(amount) || 0));
+}
+
+/**
+ * Create one or more shipment requests and reserve their stock in a single transaction.
+ * Each request's `shipments` are turned into `reservations`; throws without writing
+ * anything when a product does not have enough available (unreserved) units.
+ */
+export async function submitShipmentRequestsWithReservations(
+  firestore: Firestore,
+  userId: string,
+  requests: { ref: DocumentReference; data: Record<string, any> }[]
+): Promise<void> {
+  const perRequest = requests.map((r) => buildShipmentReservations(r.data.shipments || []));
+  const needed = new Map<string, number>();
+  for (const reservations of perRequest) {
+    for (const r of reservations) needed.set(r.productId, (needed.get(r.productId) ?? 0) + r.quantity);
+  }
+
+  await runTransaction(firestore, async (transaction) => {
+    const productIds = Array.from(needed.keys());
+    const snaps = await Promise.all(
+      productIds.map((id) => transaction.get(doc(firestore, `users/${userId}/inventory`, id)))
+    );
+
+    const shortages: string[] = [];
+    snaps.forEach((snap, index) => {
+      const productId = productIds[index];
+      if (!snap.exists()) {
+        shortages.push(`Product ${productId} no longer exists in your inventory.`);
+        return;
+      }
+      const item = snap.data() as Omit<InventoryItem, "id">;
+      const available = getAvailableQuantity(item);
+      const requested = needed.get(productId) ?? 0;
+      if (requested > available) {
+        shortages.push(`${item.productName}: Requested ${requested} but only ${available} available.`);
+      }
+    });
+    if (shortages.length > 0) {
+      throw new Error(shortages.join(" "));
+    }
+
+    snaps.forEach((snap, index) => {
+      const productId = productIds[index];
+      transaction.update(snap.ref, {
+        reservedQuantity: getReservedQuantity(snap.data() as InventoryItem) + (needed.get(productId) ?? 0),
+      });
+    });
+    requests.forEach((r, index) => {
+      transaction.set(r.ref, { ...r.data, reservations: perRequest[index] });
+    });
+  });
+}
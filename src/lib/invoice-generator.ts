@@ -1,5 +1,7 @@
 import jsPDF from 'jspdf';
-import type { ShippedItem } from '@/types';
+import type { CreditNote, ShippedItem } from '@/types';
+import { storagePriceLabel } from '@/lib/storage-billing';
+import { AGING_BUCKETS, statementEntryTypeLabel, type AccountStatement } from '@/lib/account-statements';
 
 interface User {
   name: string;
@@ -45,25 +47,10 @@ interface InvoiceData {
   storageType?: string;
 }
 
-async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
-  try {
-    // Validate required data
-    if (!data.invoiceNumber || !data.date || !data.items || data.items.length === 0) {
-      throw new Error('Missing required invoice data: invoiceNumber, date, or items');
-    }
-
-    // Create PDF with A4 size
-    const doc = new jsPDF('p', 'mm', 'a4');
-    
-    // Set up page dimensions for A4
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 15;
-    const rightGutter = 10; // extra space on the right edge
-    let yPos = margin;
-    let headerLogoHeightUsed = 0;
-  
-  // Add watermark logo (centered, large, semi-transparent)
+// Add watermark logo (centered, large, semi-transparent)
+async function addWatermark(doc: jsPDF): Promise<void> {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
   try {
     const logoImg = new Image();
     logoImg.crossOrigin = 'anonymous';
@@ -90,9 +77,6 @@ async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
           
           // Restore graphics state
           doc.restoreGraphicsState();
-
-          // No header logo; only watermark as requested
-          headerLogoHeightUsed = 0;
           
           resolve(null);
         } catch (error) {
@@ -110,12 +94,14 @@ async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
   } catch (error) {
     console.error('Error loading watermark logo:', error);
   }
-  
+}
+
+// Company name and address block (top left); returns the y of its last line
+function drawCompanyBlock(doc: jsPDF, margin: number): number {
+  let yPos = margin;
   // Company name
   doc.setFontSize(18);
   doc.setFont('helvetica', 'bold');
-  // Push company name below header logo if rendered
-  yPos += headerLogoHeightUsed;
   // Set brand color for company name (#ff9100)
   doc.setTextColor(255, 145, 0);
   doc.text('PREP SERVICES FBA', margin, yPos);
@@ -135,7 +121,41 @@ async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
   
   yPos += 5;
   doc.text('Email: INFO@PREPSERVICESFBA.COM', margin, yPos);
-  const companyBlockBottomY = yPos;
+  return yPos;
+}
+
+// Normalize incoming date into DD/MM/YYYY
+function formatPdfDate(date: string): string {
+  try {
+    const d = new Date(date);
+    if (!isNaN(d.getTime())) {
+      const dd = String(d.getDate()).padStart(2, '0');
+      const mm = String(d.getMonth() + 1).padStart(2, '0');
+      const yyyy = d.getFullYear();
+      return `${dd}/${mm}/${yyyy}`;
+    }
+  } catch {}
+  return date;
+}
+
+async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
+  try {
+    // Validate required data
+    if (!data.invoiceNumber || !data.date || !data.items || data.items.length === 0) {
+      throw new Error('Missing required invoice data: invoiceNumber, date, or items');
+    }
+
+    // Create PDF with A4 size
+    const doc = new jsPDF('p', 'mm', 'a4');
+    
+    // Set up page dimensions for A4
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const margin = 15;
+    const rightGutter = 10; // extra space on the right edge
+    let yPos = margin;
+  
+  await addWatermark(doc);
+  const companyBlockBottomY = drawCompanyBlock(doc, margin);
   
   // Invoice details (top right)
   const invoiceDetailsStart = pageWidth - margin - rightGutter - 60; // leave gutter on the right
@@ -147,18 +167,7 @@ async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
   
   yPos += 7;
   doc.text('DATE:', invoiceDetailsStart, yPos);
-  // Normalize incoming date into DD/MM/YYYY
-  let formattedDate = data.date;
-  try {
-    const d = new Date(data.date);
-    if (!isNaN(d.getTime())) {
-      const dd = String(d.getDate()).padStart(2, '0');
-      const mm = String(d.getMonth() + 1).padStart(2, '0');
-      const yyyy = d.getFullYear();
-      formattedDate = `${dd}/${mm}/${yyyy}`;
-    }
-  } catch {}
-  doc.text(formattedDate, invoiceDetailsStart + 30, yPos);
+  doc.text(formatPdfDate(data.date), invoiceDetailsStart + 30, yPos);
   
   // Horizontal line placed below the company block to avoid overlap
   yPos = Math.max(companyBlockBottomY + 8, 50);
@@ -226,8 +235,6 @@ async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
 
   // Check if this is a storage invoice
   const isStorageInvoice = data.type === 'storage';
-  const isProductBaseStorage = data.storageType === 'product_base';
-  const isPalletBaseStorage = data.storageType === 'pallet_base';
 
   // Table headers
   doc.setFont('helvetica', 'bold');
@@ -246,8 +253,7 @@ async function buildInvoiceDoc(data: InvoiceData): Promise<jsPDF> {
     const colPricePerPallet = colDate + 40;    // ~130mm (after Date, with more spacing)
     const colAmount = tableRight;              // 185mm (right-aligned)
     
-    // Use "Price per Item" for Product Base, "Price per Pallet" for Pallet Base
-    const priceColumnHeader = isProductBaseStorage ? 'PRICE PER ITEM' : 'PRICE PER PALLET';
+    const priceColumnHeader = storagePriceLabel(data.storageType).toUpperCase();
     
     doc.text('QUANTITY', colQty, tableStartY);
     doc.text('PRODUCT', colProduct, tableStartY);
@@ -481,4 +487,241 @@ export async function generateInvoicePDFBlob(data: InvoiceData): Promise<Blob> {
   return doc.output("blob");
 }
 
+type CreditNoteData = Pick<
+  CreditNote,
+  'creditNoteNumber' | 'date' | 'invoiceNumber' | 'soldTo' | 'reason' | 'lines' | 'total' | 'appliedAmount' | 'unappliedAmount'
+>;
+
+async function buildCreditNoteDoc(data: CreditNoteData): Promise<jsPDF> {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  const rightGutter = 10;
+  const right = pageWidth - margin - rightGutter;
+
+  await addWatermark(doc);
+  const companyBlockBottomY = drawCompanyBlock(doc, margin);
+
+  // Credit note details (top right)
+  const detailsStart = right - 60;
+  let yPos = margin;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('CREDIT NOTE #:', detailsStart, yPos);
+  doc.text(data.creditNoteNumber, detailsStart + 30, yPos);
+  yPos += 7;
+  doc.text('DATE:', detailsStart, yPos);
+  doc.text(formatPdfDate(data.date), detailsStart + 30, yPos);
+  yPos += 7;
+  doc.text('INVOICE #:', detailsStart, yPos);
+  doc.text(data.invoiceNumber, detailsStart + 30, yPos);
+
+  yPos = Math.max(companyBlockBottomY + 8, 50);
+  doc.line(margin, yPos, right, yPos);
+
+  yPos += 10;
+  doc.setFontSize(11);
+  doc.text('CREDIT TO:', margin, yPos);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  for (const line of [
+    ...data.soldTo.name.split('\n'),
+    data.soldTo.address,
+    data.soldTo.phone ? `TEL: ${data.soldTo.phone}` : '',
+    data.soldTo.email ? `EMAIL: ${data.soldTo.email}` : '',
+  ]) {
+    if (!line) continue;
+    yPos += 5;
+    doc.text(line, margin, yPos);
+  }
+
+  yPos += 12;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text('REASON:', margin, yPos);
+  doc.setFont('helvetica', 'normal');
+  const reasonLines: string[] = doc.splitTextToSize(data.reason || '-', right - margin - 20);
+  doc.text(reasonLines, margin + 20, yPos);
+  yPos += reasonLines.length * 4 + 10;
+
+  // Credited lines
+  doc.setFont('helvetica', 'bold');
+  doc.text('DESCRIPTION', margin, yPos);
+  doc.text('QUANTITY', right - 70, yPos, { align: 'right' });
+  doc.text('UNIT PRICE', right - 35, yPos, { align: 'right' });
+  doc.text('CREDIT', right, yPos, { align: 'right' });
+  doc.line(margin, yPos + 3, right, yPos + 3);
+  yPos += 10;
+
+  doc.setFont('helvetica', 'normal');
+  data.lines.forEach((line) => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.text(String(line.description || '').substring(0, 50), margin, yPos);
+    if (line.quantity !== undefined) doc.text(String(line.quantity), right - 70, yPos, { align: 'right' });
+    if (line.unitPrice !== undefined) doc.text(`$${Number(line.unitPrice).toFixed(2)}`, right - 35, yPos, { align: 'right' });
+    const amount = Number(line.amount) || 0;
+    doc.text(`${amount < 0 ? '+' : '-'}$${Math.abs(amount).toFixed(2)}`, right, yPos, { align: 'right' });
+    yPos += 7;
+  });
+
+  // Summary
+  yPos += 5;
+  doc.setFontSize(9);
+  if (data.appliedAmount > 0.009) {
+    doc.text(`Applied to invoice ${data.invoiceNumber}: $${data.appliedAmount.toFixed(2)}`, margin, yPos);
+    yPos += 5;
+  }
+  if (data.unappliedAmount > 0.009) {
+    doc.text(`Added to account credit: $${data.unappliedAmount.toFixed(2)}`, margin, yPos);
+    yPos += 5;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('TOTAL CREDIT', margin, yPos + 6);
+  doc.text(`TOTAL: -$${data.total.toFixed(2)}`, pageWidth - rightGutter - 50, yPos + 6);
+
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(9);
+  doc.text('WE APPRECIATE YOUR BUSINESS', (pageWidth - rightGutter) / 2, 280, { align: 'center' });
+
+  return doc;
+}
+
+export async function generateCreditNotePDF(data: CreditNoteData): Promise<void> {
+  const doc = await buildCreditNoteDoc(data);
+  doc.save(`CreditNote-${data.creditNoteNumber}.pdf`);
+}
+
+async function buildStatementDoc(statement: AccountStatement): Promise<jsPDF> {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 15;
+  const rightGutter = 10;
+  const right = pageWidth - margin - rightGutter;
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+  await addWatermark(doc);
+  const companyBlockBottomY = drawCompanyBlock(doc, margin);
+
+  // Statement details (top right)
+  const detailsStart = right - 60;
+  let yPos = margin;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('ACCOUNT STATEMENT', detailsStart, yPos);
+  doc.setFontSize(10);
+  yPos += 7;
+  doc.text('FROM:', detailsStart, yPos);
+  doc.text(formatPdfDate(statement.start), detailsStart + 20, yPos);
+  yPos += 7;
+  doc.text('TO:', detailsStart, yPos);
+  doc.text(formatPdfDate(statement.end), detailsStart + 20, yPos);
+
+  yPos = Math.max(companyBlockBottomY + 8, 50);
+  doc.line(margin, yPos, right, yPos);
+
+  yPos += 10;
+  doc.setFontSize(11);
+  doc.text('STATEMENT FOR:', margin, yPos);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  yPos += 6;
+  doc.text(statement.clientName, margin, yPos);
+  if (statement.clientEmail) {
+    yPos += 5;
+    doc.text(`EMAIL: ${statement.clientEmail}`, margin, yPos);
+  }
+
+  // Entries
+  const colType = margin + 22;
+  const colReference = margin + 45;
+  const colDescription = margin + 80;
+  const colDebit = right - 50;
+  const colCredit = right - 25;
+  const drawHeaders = (y: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.text('DATE', margin, y);
+    doc.text('TYPE', colType, y);
+    doc.text('REFERENCE', colReference, y);
+    doc.text('DESCRIPTION', colDescription, y);
+    doc.text('DEBIT', colDebit, y, { align: 'right' });
+    doc.text('CREDIT', colCredit, y, { align: 'right' });
+    doc.text('BALANCE', right, y, { align: 'right' });
+    doc.line(margin, y + 3, right, y + 3);
+    doc.setFont('helvetica', 'normal');
+  };
+
+  yPos += 12;
+  drawHeaders(yPos);
+  yPos += 9;
+  doc.text(formatPdfDate(statement.start), margin, yPos);
+  doc.text('Opening balance', colDescription, yPos);
+  doc.text(money(statement.openingBalance), right, yPos, { align: 'right' });
+  yPos += 6;
+
+  statement.lines.forEach((line) => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+      drawHeaders(yPos);
+      yPos += 9;
+    }
+    doc.text(formatPdfDate(line.date), margin, yPos);
+    doc.text(statementEntryTypeLabel(line.type), colType, yPos);
+    doc.text(line.reference.substring(0, 20), colReference, yPos);
+    doc.text(line.description.substring(0, 28), colDescription, yPos);
+    if (line.debit) doc.text(money(line.debit), colDebit, yPos, { align: 'right' });
+    if (line.credit) doc.text(money(line.credit), colCredit, yPos, { align: 'right' });
+    doc.text(money(line.balance), right, yPos, { align: 'right' });
+    yPos += 6;
+  });
+
+  doc.line(margin, yPos - 3, right, yPos - 3);
+  yPos += 2;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Totals', colDescription, yPos);
+  doc.text(money(statement.totalDebits), colDebit, yPos, { align: 'right' });
+  doc.text(money(statement.totalCredits), colCredit, yPos, { align: 'right' });
+  doc.text(money(statement.closingBalance), right, yPos, { align: 'right' });
+
+  // Aging summary
+  if (yPos > 235) {
+    doc.addPage();
+    yPos = 20;
+  }
+  yPos += 14;
+  doc.setFontSize(10);
+  doc.text('AGING', margin, yPos);
+  yPos += 6;
+  const bucketWidth = (right - margin) / (AGING_BUCKETS.length + 1);
+  doc.setFontSize(8);
+  AGING_BUCKETS.forEach(({ label }, index) => doc.text(label.toUpperCase(), margin + bucketWidth * index, yPos));
+  doc.text('UNAPPLIED CREDIT', margin + bucketWidth * AGING_BUCKETS.length, yPos);
+  yPos += 5;
+  doc.setFont('helvetica', 'normal');
+  AGING_BUCKETS.forEach(({ key }, index) => doc.text(money(statement.aging[key]), margin + bucketWidth * index, yPos));
+  doc.text(money(-statement.unappliedCredit), margin + bucketWidth * AGING_BUCKETS.length, yPos);
+
+  yPos += 12;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('BALANCE DUE', margin, yPos);
+  doc.text(`TOTAL: ${money(statement.closingBalance)}`, pageWidth - rightGutter - 50, yPos);
+
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(9);
+  doc.text('WE APPRECIATE YOUR BUSINESS', (pageWidth - rightGutter) / 2, 280, { align: 'center' });
+
+  return doc;
+}
+
+export async function generateStatementPDF(statement: AccountStatement): Promise<void> {
+  const doc = await buildStatementDoc(statement);
+  doc.save(`Statement-${statement.start}-to-${statement.end}.pdf`);
+}
+
 export { generateInvoiceNumber } from "./invoice-utils";
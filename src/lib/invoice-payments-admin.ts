@@ -0,0 +1,214 @@
+import { format } from "date-fns";
+import { createCommissionForInvoiceAdmin } from "@/lib/commission-utils-admin";
+import { adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import { applyPaymentToInvoice, invoiceBalanceDue, invoicePaymentsPath, isOpenInvoice } from "@/lib/invoice-payments";
+import { roundMoney } from "@/lib/invoice-utils";
+import { walletBalance } from "@/lib/wallet";
+import { recordWalletTransactionAdmin } from "@/lib/wallet-admin";
+import type { Invoice, InvoicePayment, InvoicePaymentAttempt, InvoicePaymentMethod } from "@/types";
+
+/** PaymentIntent metadata `purpose` for invoice payments; label purchases leave it unset. */
+export const INVOICE_PAYMENT_PURPOSE = "invoice_payment";
+
+/** The Stripe fields the invoice payment handlers read. */
+export interface InvoicePaymentIntent {
+  id: string;
+  amount_received: number; // Cents
+  metadata: Record<string, string>;
+  last_payment_error?: { message?: string } | null;
+}
+
+function attemptRef(userId: string, paymentIntentId: string) {
+  return adminDb().collection(invoicePaymentsPath(userId)).doc(paymentIntentId);
+}
+
+async function createCommissionForPaidInvoice(userId: string, invoice: Invoice): Promise<void> {
+  try {
+    const db = adminDb();
+    const userSnap = await db.collection("users").doc(userId).get();
+    if (userSnap.exists) {
+      await createCommissionForInvoiceAdmin(db, invoice, { ...userSnap.data(), uid: userId });
+    }
+  } catch (commissionError) {
+    // The payment is recorded; a missing commission can be added by hand
+    console.error("Error creating commission:", commissionError);
+  }
+}
+
+/**
+ * Record a succeeded PaymentIntent on its invoice: add the payment, move the invoice to
+ * `partially_paid` or `paid`, and mark the attempt succeeded. Anything paid beyond the balance due
+ * goes to the client's wallet. Stripe may deliver the event more than once; an attempt that
+ * already succeeded is left alone. Once the invoice is paid, the referring agent's commission is
+ * created.
+ */
+export async function recordInvoicePaymentAdmin(
+  paymentIntent: InvoicePaymentIntent,
+  method: InvoicePaymentMethod
+): Promise<void> {
+  const { userId, invoiceId } = paymentIntent.metadata || {};
+  if (!userId || !invoiceId) {
+    console.error(`Invoice payment ${paymentIntent.id} is missing userId or invoiceId metadata`);
+    return;
+  }
+
+  const db = adminDb();
+  const userRef = db.collection("users").doc(userId);
+  const invoiceRef = db.collection(`users/${userId}/invoices`).doc(invoiceId);
+  const paymentRef = attemptRef(userId, paymentIntent.id);
+
+  const paidInvoice = await db.runTransaction(async (transaction: any) => {
+    const [userSnap, invoiceSnap, attemptSnap] = await Promise.all([
+      transaction.get(userRef),
+      transaction.get(invoiceRef),
+      transaction.get(paymentRef),
+    ]);
+    const attempt = attemptSnap.exists ? (attemptSnap.data() as InvoicePaymentAttempt) : null;
+    if (attempt?.status === "succeeded") return null;
+    if (!invoiceSnap.exists) {
+      throw new Error(`Invoice ${invoiceId} not found for payment ${paymentIntent.id}`);
+    }
+
+    const invoice = { ...invoiceSnap.data(), id: invoiceSnap.id } as Invoice;
+    const now = new Date();
+    const payment: InvoicePayment = {
+      id: paymentIntent.id,
+      amount: roundMoney(paymentIntent.amount_received / 100),
+      date: format(now, "yyyy-MM-dd"),
+      method,
+      reference: paymentIntent.id,
+      stripePaymentIntentId: paymentIntent.id,
+      createdAt: now.toISOString(),
+    };
+    const applied = applyPaymentToInvoice(invoice, payment);
+    const becamePaid = isOpenInvoice(invoice) && applied.status === "paid";
+
+    transaction.update(invoiceRef, {
+      payments: applied.payments,
+      amountPaid: applied.amountPaid,
+      status: applied.status,
+      ...(becamePaid ? { paidAt: now } : {}),
+      ...(paymentIntent.metadata.autopay ? { autopayStatus: "succeeded", autopayLastError: adminFieldValue().delete() } : {}),
+      updatedAt: now,
+    });
+    transaction.set(
+      paymentRef,
+      { status: "succeeded", completedAt: adminFieldValue().serverTimestamp(), errorMessage: adminFieldValue().delete() },
+      { merge: true }
+    );
+    if (applied.overpayment > 0 && userSnap.exists) {
+      recordWalletTransactionAdmin(
+        transaction,
+        userId,
+        userSnap.data() || {},
+        {
+          type: "overpayment",
+          amount: applied.overpayment,
+          description: `Overpayment on ${invoice.invoiceNumber}`,
+          invoiceId,
+          invoiceNumber: invoice.invoiceNumber,
+          stripePaymentIntentId: paymentIntent.id,
+          createdBy: "system",
+        },
+        `overpayment-${paymentIntent.id}`
+      );
+    }
+    return becamePaid ? invoice : null;
+  });
+
+  if (paidInvoice) {
+    await createCommissionForPaidInvoice(userId, paidInvoice);
+  }
+}
+
+/**
+ * Pay an invoice from the client's wallet: `amount` (default: as much of the balance due as the
+ * wallet covers) is moved off the wallet and recorded on the invoice as a "Wallet" payment.
+ */
+export async function payInvoiceFromWalletAdmin(
+  userId: string,
+  invoiceId: string,
+  amount: number | undefined,
+  createdBy: string
+): Promise<{ amount: number; status: Invoice["status"]; walletBalance: number }> {
+  const db = adminDb();
+  const userRef = db.collection("users").doc(userId);
+  const invoiceRef = db.collection(`users/${userId}/invoices`).doc(invoiceId);
+
+  const result = await db.runTransaction(async (transaction: any) => {
+    const [userSnap, invoiceSnap] = await Promise.all([transaction.get(userRef), transaction.get(invoiceRef)]);
+    if (!userSnap.exists || !invoiceSnap.exists) throw new Error("Invoice not found.");
+    const user = userSnap.data() || {};
+    const invoice = { ...invoiceSnap.data(), id: invoiceSnap.id } as Invoice;
+
+    const balanceDue = invoiceBalanceDue(invoice);
+    const charge = roundMoney(amount ?? Math.min(balanceDue, walletBalance(user)));
+    if (charge <= 0 || charge > balanceDue) {
+      throw new Error(`Pay between $0.01 and $${balanceDue.toFixed(2)}.`);
+    }
+
+    const now = new Date();
+    const { transactionId, balanceAfter } = recordWalletTransactionAdmin(transaction, userId, user, {
+      type: "invoice_payment",
+      amount: -charge,
+      description: `Payment for ${invoice.invoiceNumber}`,
+      invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      createdBy,
+    });
+    const applied = applyPaymentToInvoice(invoice, {
+      id: transactionId,
+      amount: charge,
+      date: format(now, "yyyy-MM-dd"),
+      method: "Wallet",
+      reference: transactionId,
+      createdAt: now.toISOString(),
+    });
+    transaction.update(invoiceRef, {
+      payments: applied.payments,
+      amountPaid: applied.amountPaid,
+      status: applied.status,
+      ...(applied.status === "paid" ? { paidAt: now } : {}),
+      updatedAt: now,
+    });
+    return { invoice, amount: charge, status: applied.status, walletBalance: balanceAfter };
+  });
+
+  if (result.status === "paid") {
+    await createCommissionForPaidInvoice(userId, result.invoice);
+  }
+  return { amount: result.amount, status: result.status, walletBalance: result.walletBalance };
+}
+
+/**
+ * Update an invoice payment attempt that has not succeeded (ACH debits sit in `processing` for a
+ * few days). The invoice itself is untouched.
+ */
+export async function updateInvoicePaymentAttemptAdmin(
+  paymentIntent: InvoicePaymentIntent,
+  status: Extract<InvoicePaymentAttempt["status"], "processing" | "failed" | "canceled">
+): Promise<void> {
+  const userId = paymentIntent.metadata?.userId;
+  if (!userId) {
+    console.error(`Invoice payment ${paymentIntent.id} is missing userId metadata`);
+    return;
+  }
+
+  const ref = attemptRef(userId, paymentIntent.id);
+  await adminDb().runTransaction(async (transaction: any) => {
+    const snap = await transaction.get(ref);
+    if (snap.exists && (snap.data() as InvoicePaymentAttempt).status === "succeeded") return;
+    transaction.set(
+      ref,
+      {
+        status,
+        ...(status === "failed"
+          ? { errorMessage: paymentIntent.last_payment_error?.message || "Payment failed" }
+          : status === "canceled"
+            ? { errorMessage: "Payment was canceled" }
+            : {}),
+      },
+      { merge: true }
+    );
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Payments against per-user invoices (client + server).
+ *
+ * An invoice stays open (`pending`, or `partially_paid` once something was paid) until payments
+ * and credit notes cover its total.
+ */
+import { roundMoney } from "@/lib/invoice-utils";
+import type { Invoice, InvoicePayment } from "@/types";
+
+export const INVOICE_PAYMENTS_COLLECTION = "invoicePayments";
+
+/** Stripe's minimum charge in USD. */
+export const MIN_INVOICE_PAYMENT = 0.5;
+
+export function invoicePaymentsPath(userId: string): string {
+  return `users/${userId}/${INVOICE_PAYMENTS_COLLECTION}`;
+}
+
+export function isOpenInvoice(invoice: Pick<Invoice, "status">): boolean {
+  return invoice.status !== "paid";
+}
+
+/** What the client still owes on an invoice after payments and credit notes. */
+export function invoiceBalanceDue(
+  invoice: Pick<Invoice, "status" | "grandTotal" | "creditedAmount" | "amountPaid">
+): number {
+  if (!isOpenInvoice(invoice)) return 0;
+  const owed = (Number(invoice.grandTotal) || 0) - (Number(invoice.creditedAmount) || 0) - (Number(invoice.amountPaid) || 0);
+  return Math.max(0, roundMoney(owed));
+}
+
+/**
+ * The invoice's payments, amount paid and status after recording `payment`. Only what the invoice
+ * still owes is recorded on it; the rest is returned as `overpayment` for the client's wallet.
+ */
+export function applyPaymentToInvoice(
+  invoice: Pick<Invoice, "status" | "grandTotal" | "creditedAmount" | "amountPaid" | "payments">,
+  payment: InvoicePayment
+): { payments: InvoicePayment[]; amountPaid: number; status: Invoice["status"]; overpayment: number } {
+  const balanceDue = invoiceBalanceDue(invoice);
+  const applied = Math.min(roundMoney(payment.amount), balanceDue);
+  return {
+    payments: applied > 0 ? [...(invoice.payments || []), { ...payment, amount: applied }] : invoice.payments || [],
+    amountPaid: roundMoney((Number(invoice.amountPaid) || 0) + applied),
+    status: isOpenInvoice(invoice) && applied < balanceDue ? "partially_paid" : "paid",
+    overpayment: roundMoney(payment.amount - applied),
+  };
+}
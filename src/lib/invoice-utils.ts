@@ -14,6 +14,15 @@ export function generateInvoiceNumber(date: Date = new Date()): string {
   return `INV-${year}${month}${day}-${Date.now().toString().slice(-3)}`;
 }
 
+/** Rounds a dollar amount to cents. */
+export function roundMoney(value: number): number {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
 
-
-
+/**
+ * Credit note number, same scheme as invoice numbers.
+ * Example: CN-20251121-123
+ */
+export function generateCreditNoteNumber(date: Date = new Date()): string {
+  return generateInvoiceNumber(date).replace(/^INV-/, "CN-");
+}
@@ -1,8 +1,9 @@
 import { collection, addDoc, deleteDoc, doc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import type { Location } from "@/types";
+import type { BinLocation, Location } from "@/types";
 
 const COLLECTION = "locations";
+const BINS_COLLECTION = "bins";
 
 export async function createLocation(name: string): Promise<string> {
   const ref = await addDoc(collection(db, COLLECTION), {
@@ -30,3 +31,50 @@ export function docToLocation(docData: { id: string } & Record<string, unknown>)
     createdAt: docData.createdAt instanceof Date ? docData.createdAt : undefined,
   };
 }
+
+/** Build a bin's display code from its parts, e.g. zone "A", aisle "03", shelf "2", bin "B05" -> "A-03-2-B05". */
+export function formatBinCode(parts: { zone?: string; aisle?: string; shelf?: string; bin: string }): string {
+  return [parts.zone, parts.aisle, parts.shelf, parts.bin]
+    .map((p) => (p ?? "").trim().toUpperCase())
+    .filter(Boolean)
+    .join("-");
+}
+
+export async function createBin(
+  locationId: string,
+  parts: { zone?: string; aisle?: string; shelf?: string; bin: string }
+): Promise<string> {
+  const data: Record<string, unknown> = {
+    locationId,
+    bin: parts.bin.trim(),
+    code: formatBinCode(parts),
+    active: true,
+    createdAt: new Date(),
+  };
+  if (parts.zone?.trim()) data.zone = parts.zone.trim();
+  if (parts.aisle?.trim()) data.aisle = parts.aisle.trim();
+  if (parts.shelf?.trim()) data.shelf = parts.shelf.trim();
+  const ref = await addDoc(collection(db, BINS_COLLECTION), data);
+  return ref.id;
+}
+
+export async function removeBin(id: string): Promise<void> {
+  await deleteDoc(doc(db, BINS_COLLECTION, id));
+}
+
+/** Map Firestore doc to BinLocation (doc id = bin id) */
+export function docToBin(docData: { id: string } & Record<string, unknown>): BinLocation {
+  const bin: BinLocation = {
+    id: docData.id,
+    locationId: String(docData.locationId ?? ""),
+    bin: String(docData.bin ?? ""),
+    code: String(docData.code ?? ""),
+    active: Boolean(docData.active !== false),
+    createdAt: docData.createdAt instanceof Date ? docData.createdAt : undefined,
+  };
+  if (docData.zone) bin.zone = String(docData.zone);
+  if (docData.aisle) bin.aisle = String(docData.aisle);
+  if (docData.shelf) bin.shelf = String(docData.shelf);
+  if (!bin.code) bin.code = formatBinCode(bin);
+  return bin;
+}
@@ -0,0 +1,44 @@
+import { adminDb } from "@/lib/firebase-admin";
+import {
+  buildLowStockEmail,
+  buildLowStockNotification,
+  getLowStockCrossings,
+  type InventoryQuantityChange,
+} from "@/lib/low-stock";
+import { getSmtpConfig, sendSmtpMail } from "@/lib/smtp";
+
+export type { InventoryQuantityChange };
+
+/**
+ * Server-side low-stock alerts: one in-app notification per item that crossed its reorder point
+ * and one email to the client listing them. Call after the quantity change has been committed.
+ * Never throws; a failed alert must not fail the shipment or sync that triggered it.
+ */
+export async function sendLowStockAlerts(userId: string, changes: InventoryQuantityChange[], trigger: string): Promise<void> {
+  const crossings = getLowStockCrossings(changes);
+  if (crossings.length === 0) return;
+
+  try {
+    const db = adminDb();
+    const batch = db.batch();
+    const now = new Date();
+    for (const change of crossings) {
+      batch.set(db.collection(`users/${userId}/notifications`).doc(), {
+        ...buildLowStockNotification(change, trigger),
+        createdAt: now,
+      });
+    }
+    await batch.commit();
+
+    if (!getSmtpConfig()) {
+      console.warn("[Low stock] SMTP not configured; email skipped for", userId);
+      return;
+    }
+    const userData = (await db.collection("users").doc(userId).get()).data();
+    const email = String(userData?.email || "").trim();
+    if (!email) return;
+    await sendSmtpMail({ to: email, ...buildLowStockEmail(crossings, trigger, userData?.name) });
+  } catch (error) {
+    console.error("[Low stock] Failed to send alerts for", userId, error);
+  }
+}
@@ -0,0 +1,53 @@
+import { collection, doc, getDoc, serverTimestamp, writeBatch, type Firestore } from "firebase/firestore";
+import type { User } from "firebase/auth";
+import {
+  buildLowStockEmail,
+  buildLowStockNotification,
+  getLowStockCrossings,
+  type InventoryQuantityChange,
+} from "@/lib/low-stock";
+
+/**
+ * Low-stock alerts for quantity changes an admin commits from the browser. Same notifications
+ * and email as the server-side sender; the email goes through /api/email/send. Never throws.
+ */
+export async function sendLowStockAlertsFromClient(
+  firestore: Firestore,
+  admin: User | null,
+  userId: string,
+  changes: InventoryQuantityChange[],
+  trigger: string
+): Promise<void> {
+  const crossings = getLowStockCrossings(changes);
+  if (crossings.length === 0) return;
+
+  try {
+    const batch = writeBatch(firestore);
+    for (const change of crossings) {
+      batch.set(doc(collection(firestore, `users/${userId}/notifications`)), {
+        ...buildLowStockNotification(change, trigger),
+        createdAt: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+
+    const userData = (await getDoc(doc(firestore, "users", userId))).data();
+    const email = String(userData?.email || "").trim();
+    if (!email || !admin) return;
+    const { subject, text } = buildLowStockEmail(crossings, trigger, userData?.name);
+    const payload = new FormData();
+    payload.append("to", email);
+    payload.append("subject", subject);
+    payload.append("message", text);
+    const response = await fetch("/api/email/send", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${await admin.getIdToken()}` },
+      body: payload,
+    });
+    if (!response.ok) {
+      throw new Error((await response.text()) || "Failed to send low-stock email.");
+    }
+  } catch (error) {
+    console.error("[Low stock] Failed to send alerts for", userId, error);
+  }
+}
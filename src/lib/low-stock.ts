@@ -0,0 +1,74 @@
+/**
+ * Low-stock thresholds (client + server).
+ *
+ * Clients set a reorder point per item; an item is low once its quantity is at or below it.
+ * Alerts fire only when a change crosses the reorder point, so an item that stays low does not
+ * alert again on every sync.
+ */
+import type { InventoryItem, UserNotification } from "@/types";
+
+/** The item's reorder point, or null when none is set. */
+export function getReorderPoint(item: Pick<InventoryItem, "reorderPoint">): number | null {
+  const value = Number(item.reorderPoint);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+}
+
+export function isLowStock(item: Pick<InventoryItem, "quantity" | "reorderPoint">): boolean {
+  const reorderPoint = getReorderPoint(item);
+  return reorderPoint !== null && (Number(item.quantity) || 0) <= reorderPoint;
+}
+
+/** True when a quantity change moves an item from above its reorder point to at or below it. */
+export function crossedReorderPoint(quantityBefore: number, quantityAfter: number, reorderPoint: number | null | undefined): boolean {
+  const threshold = getReorderPoint({ reorderPoint: reorderPoint ?? undefined });
+  if (threshold === null) return false;
+  return (Number(quantityBefore) || 0) > threshold && (Number(quantityAfter) || 0) <= threshold;
+}
+
+/** A committed quantity change, as passed to the low-stock alert senders. */
+export interface InventoryQuantityChange {
+  productId: string;
+  productName: string;
+  quantityBefore: number;
+  quantityAfter: number;
+  reorderPoint?: number | null;
+}
+
+/** The changes that crossed their item's reorder point. */
+export function getLowStockCrossings(changes: InventoryQuantityChange[]): InventoryQuantityChange[] {
+  return changes.filter((c) => crossedReorderPoint(c.quantityBefore, c.quantityAfter, c.reorderPoint));
+}
+
+/** In-app notification payload for one crossing; `trigger` reads like "a shipment". */
+export function buildLowStockNotification(
+  change: InventoryQuantityChange,
+  trigger: string
+): Omit<UserNotification, "id" | "createdAt"> {
+  return {
+    type: "low_stock",
+    title: `Low stock: ${change.productName}`,
+    message: `${change.productName} is down to ${change.quantityAfter} (reorder point ${change.reorderPoint}) after ${trigger}.`,
+    productId: change.productId,
+    read: false,
+  };
+}
+
+/** Plain-text email listing every crossing from one shipment or sync. */
+export function buildLowStockEmail(
+  crossings: InventoryQuantityChange[],
+  trigger: string,
+  clientName?: string
+): { subject: string; text: string } {
+  return {
+    subject: crossings.length === 1 ? `Low stock: ${crossings[0].productName}` : `Low stock: ${crossings.length} items`,
+    text: [
+      `Hi${clientName ? ` ${clientName}` : ""},`,
+      "",
+      `The following item${crossings.length === 1 ? " has" : "s have"} reached the reorder point after ${trigger}:`,
+      "",
+      ...crossings.map((c) => `- ${c.productName}: ${c.quantityAfter} left (reorder point ${c.reorderPoint})`),
+      "",
+      "Send us more stock with an inventory request from your dashboard to avoid running out.",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Unit / case / pallet packaging hierarchy (client + server).
+ *
+ * Inventory quantities are always stored in units. An item may define how many units are in a
+ * case and how many cases are on a pallet; receiving, shipping and pallet storage billing convert
+ * through these helpers so every screen agrees on the same numbers.
+ */
+import type { InventoryItem, PackagingUnit, ProductPackaging } from "@/types";
+
+export const PACKAGING_UNIT_LABELS: Record<PackagingUnit, { one: string; many: string }> = {
+  unit: { one: "unit", many: "units" },
+  case: { one: "case", many: "cases" },
+  pallet: { one: "pallet", many: "pallets" },
+};
+
+function positiveInteger(value: unknown): number | null {
+  const num = Math.floor(Number(value));
+  return Number.isFinite(num) && num > 0 ? num : null;
+}
+
+export function getUnitsPerCase(item: Pick<InventoryItem, "packaging">): number | null {
+  return positiveInteger(item.packaging?.unitsPerCase);
+}
+
+/** Units on a full pallet, or null unless both the case pack and cases per pallet are set. */
+export function getUnitsPerPallet(item: Pick<InventoryItem, "packaging">): number | null {
+  const unitsPerCase = getUnitsPerCase(item);
+  const casesPerPallet = positiveInteger(item.packaging?.casesPerPallet);
+  return unitsPerCase && casesPerPallet ? unitsPerCase * casesPerPallet : null;
+}
+
+/** Levels the item can be received or counted in; always includes units. */
+export function getPackagingUnits(item: Pick<InventoryItem, "packaging">): PackagingUnit[] {
+  const units: PackagingUnit[] = ["unit"];
+  if (getUnitsPerCase(item)) units.push("case");
+  if (getUnitsPerPallet(item)) units.push("pallet");
+  return units;
+}
+
+/** Converts a count in the given level to units; throws when the item has no such level. */
+export function toUnits(quantity: number, unit: PackagingUnit, item: Pick<InventoryItem, "packaging">): number {
+  const count = Number(quantity) || 0;
+  if (unit === "unit") return count;
+  const perLevel = unit === "case" ? getUnitsPerCase(item) : getUnitsPerPallet(item);
+  if (!perLevel) throw new Error(`This product has no ${PACKAGING_UNIT_LABELS[unit].one} configuration.`);
+  return count * perLevel;
+}
+
+export function formatPackagingCount(count: number, unit: PackagingUnit): string {
+  const labels = PACKAGING_UNIT_LABELS[unit];
+  return `${count} ${count === 1 ? labels.one : labels.many}`;
+}
+
+/**
+ * Breaks a unit quantity into full pallets, full cases and loose units, e.g.
+ * "2 pallets, 3 cases, 4 units". Returns null when the item has no case pack.
+ */
+export function describePackagedQuantity(units: number, item: Pick<InventoryItem, "packaging">): string | null {
+  const unitsPerCase = getUnitsPerCase(item);
+  if (!unitsPerCase) return null;
+  let remaining = Math.max(0, Math.floor(Number(units) || 0));
+  const parts: string[] = [];
+  const unitsPerPallet = getUnitsPerPallet(item);
+  if (unitsPerPallet && remaining >= unitsPerPallet) {
+    parts.push(formatPackagingCount(Math.floor(remaining / unitsPerPallet), "pallet"));
+    remaining %= unitsPerPallet;
+  }
+  if (remaining >= unitsPerCase) {
+    parts.push(formatPackagingCount(Math.floor(remaining / unitsPerCase), "case"));
+    remaining %= unitsPerCase;
+  }
+  if (remaining > 0 || parts.length === 0) parts.push(formatPackagingCount(remaining, "unit"));
+  return parts.join(", ");
+}
+
+/**
+ * Cleans form input into a packaging config. Returns null when no case pack is given
+ * (cases per pallet alone cannot be converted to units).
+ */
+export function normalizePackaging(input: { unitsPerCase?: unknown; casesPerPallet?: unknown }): ProductPackaging | null {
+  const unitsPerCase = positiveInteger(input.unitsPerCase);
+  if (!unitsPerCase) return null;
+  const casesPerPallet = positiveInteger(input.casesPerPallet);
+  return casesPerPallet ? { unitsPerCase, casesPerPallet } : { unitsPerCase };
+}
+
+/**
+ * Pallet positions used by in-stock inventory for pallet-based storage billing: part-filled
+ * pallets count as whole ones, and items received as pallets count one per unit. Items with
+ * stock but no pallet configuration are listed in `unconverted`; the caller should fall back
+ * to a manually set pallet count when any are present.
+ */
+export function countStoredPallets(
+  items: (Pick<InventoryItem, "productName" | "quantity" | "packaging"> & { inventoryType?: string })[]
+): { pallets: number; unconverted: string[] } {
+  let pallets = 0;
+  const unconverted: string[] = [];
+  for (const item of items) {
+    const quantity = Math.max(0, Number(item.quantity) || 0);
+    if (quantity === 0) continue;
+    if (item.inventoryType === "pallet") {
+      pallets += quantity;
+      continue;
+    }
+    const unitsPerPallet = getUnitsPerPallet(item);
+    if (unitsPerPallet) {
+      pallets += Math.ceil(quantity / unitsPerPallet);
+    } else {
+      unconverted.push(item.productName || "Unknown Item");
+    }
+  }
+  return { pallets, unconverted };
+}
@@ -0,0 +1,18 @@
+import { PRICING_COLLECTIONS, type UserPricingSet } from "@/lib/pricing-engine";
+import { mergeTierTables, PRICING_TIERS_COLLECTION } from "@/lib/pricing-tiers";
+
+/** Loads every pricing collection for a client, with its effective tier tables, using the Admin SDK (server only). */
+export async function loadUserPricingSet(db: any, userId: string): Promise<UserPricingSet> {
+  const keys = Object.keys(PRICING_COLLECTIONS) as (keyof typeof PRICING_COLLECTIONS)[];
+  const [snapshots, globalTiers, clientTiers] = await Promise.all([
+    Promise.all(keys.map((key) => db.collection(`users/${userId}/${PRICING_COLLECTIONS[key]}`).get())),
+    db.collection(PRICING_TIERS_COLLECTION).get(),
+    db.collection(`users/${userId}/${PRICING_TIERS_COLLECTION}`).get(),
+  ]);
+  const toDocs = (snapshot: any) => snapshot.docs.map((d: any) => ({ id: d.id, ...d.data() }));
+  const set = { tierTables: mergeTierTables(toDocs(globalTiers), toDocs(clientTiers)) } as UserPricingSet;
+  keys.forEach((key, index) => {
+    set[key] = toDocs(snapshots[index]);
+  });
+  return set;
+}
@@ -0,0 +1,223 @@
+/**
+ * Pricing engine shared by the shipment forms, the confirm route and invoice generation.
+ *
+ * Every price a client is charged is derived here from the pricing the admin configured for
+ * that client (prep rules, box / pallet forwarding, container handling, additional services).
+ * The functions are pure so the same numbers come out in the browser preview, in
+ * `/api/pricing/quote`, when a request is confirmed and when it is invoiced.
+ *
+ * Prices come from the entries in effect on the shipment date (see `pricing-history`), so a
+ * rate change only applies to shipments from its effective date on.
+ */
+import { calculatePrepUnitPrice } from "@/lib/pricing-utils";
+import { pricingInEffect } from "@/lib/pricing-history";
+import { toDate } from "@/lib/date-utils";
+import { getServiceTiers } from "@/lib/pricing-tiers";
+import type {
+  ContainerSize,
+  PricingTierTable,
+  ProductType,
+  ServiceType,
+  UserAdditionalServicesPricing,
+  UserBoxForwardingPricing,
+  UserContainerHandlingPricing,
+  UserPalletExistingInventoryPricing,
+  UserPalletForwardingPricing,
+  UserPricing,
+} from "@/types";
+
+/** All pricing configured for one client, one array per pricing collection. */
+export interface UserPricingSet {
+  /** Tier tables in effect: the client's overrides merged over the global tables. */
+  tierTables: PricingTierTable[];
+  prep: UserPricing[];
+  boxForwarding: UserBoxForwardingPricing[];
+  palletForwarding: UserPalletForwardingPricing[];
+  palletExistingInventory: UserPalletExistingInventoryPricing[];
+  containerHandling: UserContainerHandlingPricing[];
+  additionalServices: UserAdditionalServicesPricing[];
+}
+
+/** Pricing collection under `users/{uid}` for each part of the set. */
+export const PRICING_COLLECTIONS: Record<Exclude<keyof UserPricingSet, "tierTables">, string> = {
+  prep: "pricing",
+  boxForwarding: "boxForwardingPricing",
+  palletForwarding: "palletForwardingPricing",
+  palletExistingInventory: "palletExistingInventoryPricing",
+  containerHandling: "containerHandlingPricing",
+  additionalServices: "additionalServicesPricing",
+};
+
+export interface ShipmentPricingContext {
+  shipmentType: "product" | "box" | "pallet";
+  palletSubType?: "forwarding" | "existing_inventory";
+  service?: string;
+  productType?: string;
+  /** Shipment date; pricing in effect on it applies. Today when absent. */
+  date?: Date;
+}
+
+export interface PricedShipmentLine {
+  /** Per unit for product lines, per box / pallet otherwise. */
+  unitPrice: number;
+  packOfPrice: number;
+  totalPrice: number;
+}
+
+export interface AdditionalServicesQuantities {
+  bubbleWrapFeet?: number;
+  stickerRemovalItems?: number;
+  warningLabels?: number;
+}
+
+export interface PricedAdditionalServices {
+  bubbleWrapFeet: number;
+  stickerRemovalItems: number;
+  warningLabels: number;
+  pricePerFoot: number;
+  pricePerItem: number;
+  pricePerLabel: number;
+  total: number;
+}
+
+/** Differences under a cent are rounding, not a price change. */
+export const PRICE_TOLERANCE = 0.01;
+
+export function pricesMatch(a: number, b: number): boolean {
+  return Math.abs((Number(a) || 0) - (Number(b) || 0)) < PRICE_TOLERANCE;
+}
+
+function roundMoney(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+function toNumber(value: unknown): number {
+  const num = typeof value === "string" ? parseFloat(value) : Number(value);
+  return Number.isFinite(num) ? num : 0;
+}
+
+function flatPriceInEffect(list: { price?: unknown; updatedAt?: unknown }[], at?: Date): number | null {
+  const price = toNumber(pricingInEffect(list, at)?.price);
+  return price > 0 ? price : null;
+}
+
+/** Custom products are priced by the admin when the request is confirmed, not from rules. */
+export function isAdminPricedShipment(context: ShipmentPricingContext): boolean {
+  return context.shipmentType === "product" && String(context.productType || "").toLowerCase() === "custom";
+}
+
+/**
+ * Rebuilds the pricing context of a confirmed `shipped` record, which stores the display
+ * service ("Box Forwarding", "Pallet Existing Inventory", ...) instead of the form fields.
+ */
+export function shippedPricingContext(shipped: {
+  shipmentType?: string;
+  palletSubType?: string;
+  service?: string;
+  productType?: string;
+  date?: unknown;
+}): ShipmentPricingContext {
+  const service = String(shipped.service || "");
+  const date = toDate(shipped.date);
+  if (shipped.shipmentType === "box" || service === "Box Forwarding") {
+    return { shipmentType: "box", date };
+  }
+  if (shipped.shipmentType === "pallet" || service.startsWith("Pallet ")) {
+    const existing = shipped.palletSubType === "existing_inventory" || service === "Pallet Existing Inventory";
+    return { shipmentType: "pallet", palletSubType: existing ? "existing_inventory" : "forwarding", date };
+  }
+  return { shipmentType: "product", service: service || "FBA/WFS/TFS", productType: shipped.productType || "Standard", date };
+}
+
+/**
+ * Prices one shipment line. Product lines charge the prep rate per unit plus the rule's
+ * pack-of price once for every unit in the pack after the first; box and pallet lines charge
+ * a flat price per box / pallet. Returns null when no pricing applies (including
+ * custom products, see `isAdminPricedShipment`).
+ */
+export function priceShipmentLine(
+  pricing: UserPricingSet,
+  context: ShipmentPricingContext,
+  line: { quantity: number; packOf?: number }
+): PricedShipmentLine | null {
+  const quantity = Math.max(0, toNumber(line.quantity));
+
+  if (context.shipmentType === "box" || context.shipmentType === "pallet") {
+    const price =
+      context.shipmentType === "box"
+        ? flatPriceInEffect(pricing.boxForwarding, context.date)
+        : context.palletSubType === "existing_inventory"
+          ? flatPriceInEffect(pricing.palletExistingInventory, context.date)
+          : flatPriceInEffect(pricing.palletForwarding, context.date);
+    if (price === null) return null;
+    return { unitPrice: price, packOfPrice: 0, totalPrice: roundMoney(price * quantity) };
+  }
+
+  if (isAdminPricedShipment(context)) return null;
+  const service = context.service;
+  if (service !== "FBA/WFS/TFS" && service !== "FBM") return null;
+  const packOf = Math.max(1, toNumber(line.packOf) || 1);
+  const totalUnits = quantity * packOf;
+  if (totalUnits <= 0) return null;
+
+  const rule = calculatePrepUnitPrice(
+    pricing.prep,
+    service as ServiceType,
+    (context.productType || "Standard") as ProductType,
+    totalUnits,
+    getServiceTiers(pricing.tierTables, service),
+    context.date
+  );
+  if (!rule || !(rule.rate > 0)) return null;
+  const packOfPrice = rule.packOf || 0;
+  const packCharge = packOfPrice * Math.max(0, packOf - 1);
+  return { unitPrice: rule.rate, packOfPrice, totalPrice: roundMoney(rule.rate * totalUnits + packCharge) };
+}
+
+/** Additional services at the client's service prices in effect at `at` (now by default). */
+export function priceAdditionalServices(
+  pricing: UserPricingSet,
+  quantities: AdditionalServicesQuantities,
+  at?: Date
+): PricedAdditionalServices {
+  const latest = pricingInEffect(pricing.additionalServices, at);
+  const bubbleWrapFeet = Math.max(0, toNumber(quantities.bubbleWrapFeet));
+  const stickerRemovalItems = Math.max(0, toNumber(quantities.stickerRemovalItems));
+  const warningLabels = Math.max(0, toNumber(quantities.warningLabels));
+  const pricePerFoot = toNumber(latest?.bubbleWrapPrice);
+  const pricePerItem = toNumber(latest?.stickerRemovalPrice);
+  const pricePerLabel = toNumber(latest?.warningLabelPrice);
+  return {
+    bubbleWrapFeet,
+    stickerRemovalItems,
+    warningLabels,
+    pricePerFoot,
+    pricePerItem,
+    pricePerLabel,
+    total: roundMoney(bubbleWrapFeet * pricePerFoot + stickerRemovalItems * pricePerItem + warningLabels * pricePerLabel),
+  };
+}
+
+/** Container handling for a received container size, or null when that size has no price. */
+export function priceContainerHandling(
+  pricing: Pick<UserPricingSet, "containerHandling">,
+  containerSize: ContainerSize | string,
+  quantity: number,
+  at?: Date
+): { unitPrice: number; totalPrice: number } | null {
+  const price = flatPriceInEffect(
+    pricing.containerHandling.filter((p) => p.containerSize === containerSize),
+    at
+  );
+  if (price === null) return null;
+  return { unitPrice: price, totalPrice: roundMoney(price * Math.max(0, toNumber(quantity))) };
+}
+
+/** Human-readable name of the pricing a context is charged from, for error messages. */
+export function describePricingContext(context: ShipmentPricingContext): string {
+  if (context.shipmentType === "box") return "box forwarding";
+  if (context.shipmentType === "pallet") {
+    return context.palletSubType === "existing_inventory" ? "pallet existing inventory" : "pallet forwarding";
+  }
+  return `${context.service || "prep"} ${context.productType || "Standard"} prep`;
+}
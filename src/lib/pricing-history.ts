@@ -0,0 +1,156 @@
+/**
+ * Effective dates and history for client pricing.
+ *
+ * Every pricing document may carry an `effectiveFrom` date. The entry in effect on a day is the
+ * one with the latest `effectiveFrom` on or before that day; entries starting the same day are
+ * settled by `updatedAt`. Entries saved before effective dates existed have no `effectiveFrom`
+ * and count as effective from the start, so they keep pricing older shipments.
+ */
+import { parseISO, startOfDay } from "date-fns";
+import { ruleTierId } from "@/lib/pricing-tiers";
+import { toDate } from "@/lib/date-utils";
+
+type EffectiveDated = { effectiveFrom?: unknown; updatedAt?: unknown; createdAt?: unknown };
+
+export type PricingCategory =
+  | "prep"
+  | "storage"
+  | "boxForwarding"
+  | "palletForwarding"
+  | "palletExistingInventory"
+  | "containerHandling"
+  | "additionalServices";
+
+export const PRICING_CATEGORY_LABELS: Record<PricingCategory, string> = {
+  prep: "Prep",
+  storage: "Storage",
+  boxForwarding: "Box Forwarding",
+  palletForwarding: "Pallet Forwarding",
+  palletExistingInventory: "Pallet Existing Inventory",
+  containerHandling: "Container Handling",
+  additionalServices: "Additional Services",
+};
+
+/** Pricing documents of one client, keyed by category. Missing categories are skipped. */
+export type PricingHistorySources = Partial<Record<PricingCategory, any[]>>;
+
+export type PricingHistoryStatus = "current" | "scheduled" | "superseded";
+
+export interface PricingHistoryEntry {
+  id: string;
+  category: PricingCategory;
+  label: string;
+  detail: string;
+  /** Start of the entry's effective day in ms; 0 for entries without an effective date. */
+  effectiveFrom: number;
+  updatedAt: number;
+  status: PricingHistoryStatus;
+}
+
+function toMillis(value: unknown): number {
+  return toDate(value)?.getTime() ?? 0;
+}
+
+export function effectiveFromMillis(entry: EffectiveDated): number {
+  return toMillis(entry.effectiveFrom);
+}
+
+/** Start of a `yyyy-MM-dd` day in local time, the value saved as `effectiveFrom`. */
+export function effectiveFromForDay(day: string): Date {
+  return startOfDay(parseISO(day));
+}
+
+/** Whether the entry's effective date falls on the same day as `day`. */
+export function startsOnDay(entry: EffectiveDated | null | undefined, day: Date): boolean {
+  if (!entry) return false;
+  return effectiveFromMillis(entry) === startOfDay(day).getTime();
+}
+
+function byEffectiveDateDesc(a: EffectiveDated, b: EffectiveDated): number {
+  return (
+    effectiveFromMillis(b) - effectiveFromMillis(a) ||
+    toMillis(b.updatedAt ?? b.createdAt) - toMillis(a.updatedAt ?? a.createdAt)
+  );
+}
+
+/** The entry in effect at `at` (now by default), or null when none has started yet. */
+export function pricingInEffect<T extends EffectiveDated>(list: T[] | null | undefined, at: Date = new Date()): T | null {
+  if (!list || list.length === 0) return null;
+  const atMs = at.getTime();
+  return [...list].filter((entry) => effectiveFromMillis(entry) <= atMs).sort(byEffectiveDateDesc)[0] ?? null;
+}
+
+function money(value: unknown): string {
+  const num = Number(value);
+  return Number.isFinite(num) ? `$${num.toFixed(2)}` : "-";
+}
+
+/** Entries of a category that replace one another, e.g. one prep rate per tier and product type. */
+function slotKey(category: PricingCategory, entry: any): string {
+  if (category === "prep") return `${entry.service}|${ruleTierId(entry) || entry.package}|${entry.productType}`;
+  if (category === "containerHandling") return String(entry.containerSize || "");
+  return "";
+}
+
+function describeEntry(category: PricingCategory, entry: any): { label: string; detail: string } {
+  switch (category) {
+    case "prep": {
+      const packOf = Number(entry.packOf) > 0 ? ` · pack of +${money(entry.packOf)}` : "";
+      return {
+        label: `${entry.service || "Prep"} ${entry.productType || ""} · ${entry.package || ruleTierId(entry) || "Tier"}`.trim(),
+        detail: `${money(entry.rate)} per unit${packOf}`,
+      };
+    }
+    case "storage": {
+      const pallets = entry.storageType === "pallet_base" && entry.palletCount ? ` · ${entry.palletCount} pallet(s)` : "";
+      return {
+        label: `Storage${entry.storageType ? ` (${entry.storageType})` : ""}`,
+        detail: `${money(entry.price)}${pallets}`,
+      };
+    }
+    case "containerHandling":
+      return { label: `Container Handling (${entry.containerSize || "-"})`, detail: `${money(entry.price)} per container` };
+    case "additionalServices":
+      return {
+        label: PRICING_CATEGORY_LABELS.additionalServices,
+        detail: `Bubble wrap ${money(entry.bubbleWrapPrice)}/ft · Sticker removal ${money(entry.stickerRemovalPrice)}/item · Warning labels ${money(entry.warningLabelPrice)}/label`,
+      };
+    case "boxForwarding":
+      return { label: PRICING_CATEGORY_LABELS.boxForwarding, detail: `${money(entry.price)} per box` };
+    default:
+      return { label: PRICING_CATEGORY_LABELS[category], detail: `${money(entry.price)} per pallet` };
+  }
+}
+
+/**
+ * Every pricing entry of a client, newest effective date first. Each is marked current (in
+ * effect at `now`), scheduled (starts after `now`) or superseded.
+ */
+export function buildPricingHistory(sources: PricingHistorySources, now: Date = new Date()): PricingHistoryEntry[] {
+  const nowMs = now.getTime();
+  const entries: PricingHistoryEntry[] = [];
+
+  (Object.keys(PRICING_CATEGORY_LABELS) as PricingCategory[]).forEach((category) => {
+    const slots = new Map<string, any[]>();
+    for (const entry of sources[category] || []) {
+      const key = slotKey(category, entry);
+      slots.set(key, [...(slots.get(key) || []), entry]);
+    }
+    slots.forEach((slotEntries) => {
+      const current = pricingInEffect(slotEntries, now);
+      for (const entry of slotEntries) {
+        const effectiveFrom = effectiveFromMillis(entry);
+        entries.push({
+          id: `${category}/${entry.id}`,
+          category,
+          ...describeEntry(category, entry),
+          effectiveFrom,
+          updatedAt: toMillis(entry.updatedAt ?? entry.createdAt),
+          status: entry === current ? "current" : effectiveFrom > nowMs ? "scheduled" : "superseded",
+        });
+      }
+    });
+  });
+
+  return entries.sort((a, b) => b.effectiveFrom - a.effectiveFrom || b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,33 @@
+import type { User } from "firebase/auth";
+import { describePricingContext, type PricedShipmentLine, type ShipmentPricingContext } from "@/lib/pricing-engine";
+
+/**
+ * Replaces each line's `unitPrice` with the price from `/api/pricing/quote`, so what is saved on
+ * the request is what the server will charge rather than the browser's preview. Custom products
+ * keep their placeholder price for the admin to set. Throws when a line has no pricing.
+ */
+export async function withServerPrices<T extends { quantity: number; packOf?: number; unitPrice?: number }>(
+  authUser: User,
+  context: ShipmentPricingContext,
+  lines: T[]
+): Promise<T[]> {
+  const response = await fetch("/api/pricing/quote", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${await authUser.getIdToken()}` },
+    body: JSON.stringify({ ...context, lines: lines.map((l) => ({ quantity: l.quantity, packOf: l.packOf })) }),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(typeof result.error === "string" ? result.error : "Failed to price the shipment.");
+  }
+  if (result.adminPriced) return lines;
+
+  const priced: (PricedShipmentLine | null)[] = Array.isArray(result.lines) ? result.lines : [];
+  return lines.map((line, index) => {
+    const price = priced[index];
+    if (!price) {
+      throw new Error(`No ${describePricingContext(context)} pricing is set up for this quantity. Please contact support.`);
+    }
+    return { ...line, unitPrice: price.unitPrice };
+  });
+}
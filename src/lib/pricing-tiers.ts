@@ -0,0 +1,127 @@
+/**
+ * Quantity tiers for prep pricing (client + server).
+ *
+ * Each tiered service has a tier table; a client's override replaces the global table, and
+ * the built-in defaults (the original Starter / Standard / Small Business / Premium ranges)
+ * apply when neither exists. Pricing rules point at a tier by `tierId`; rules saved before
+ * tiers were configurable are matched through their package name until migrated.
+ */
+import type { PricingTier, PricingTierTable, TieredService } from "@/types";
+
+/** Top-level collection for the global tables; clients override in `users/{uid}/pricingTiers`. */
+export const PRICING_TIERS_COLLECTION = "pricingTiers";
+
+export const TIERED_SERVICES: TieredService[] = ["FBA/WFS/TFS", "FBM"];
+
+export const DEFAULT_PRICING_TIERS: Record<TieredService, PricingTier[]> = {
+  "FBA/WFS/TFS": [
+    { id: "starter", name: "Starter", minQuantity: 0 },
+    { id: "standard", name: "Standard", minQuantity: 50 },
+    { id: "small-business", name: "Small Business", minQuantity: 501 },
+    { id: "premium", name: "Premium", minQuantity: 1001 },
+  ],
+  FBM: [
+    { id: "starter", name: "Starter", minQuantity: 0 },
+    { id: "standard", name: "Standard", minQuantity: 25 },
+    { id: "small-business", name: "Small Business", minQuantity: 50 },
+    { id: "premium", name: "Premium", minQuantity: 101 },
+  ],
+};
+
+// Hard-coded ranges used before tier tables, for rules that only have a quantityRange.
+const LEGACY_RANGE_TIER_IDS: Record<string, string> = {
+  "<50": "starter",
+  "50-500": "standard",
+  "501-1000": "small-business",
+  "1001+": "premium",
+  "<25": "starter",
+  "25+": "standard",
+  "50+": "small-business",
+  "101+": "premium",
+};
+
+export function isTieredService(service: unknown): service is TieredService {
+  return TIERED_SERVICES.includes(service as TieredService);
+}
+
+/** Document id of a service's tier table, e.g. "fba-wfs-tfs". */
+export function tierTableId(service: TieredService): string {
+  return service.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+export function sortTiers(tiers: PricingTier[]): PricingTier[] {
+  return [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+/** Global tables with each client override replacing the global table of the same id. */
+export function mergeTierTables(globalTables: PricingTierTable[], clientTables: PricingTierTable[]): PricingTierTable[] {
+  const byId = new Map<string, PricingTierTable>();
+  for (const table of globalTables) byId.set(table.id, table);
+  for (const table of clientTables) byId.set(table.id, table);
+  return Array.from(byId.values());
+}
+
+/** Tiers in effect for a service, lowest first. */
+export function getServiceTiers(tables: PricingTierTable[], service: TieredService): PricingTier[] {
+  const table = tables.find((t) => t.id === tierTableId(service));
+  return sortTiers(table && table.tiers.length > 0 ? table.tiers : DEFAULT_PRICING_TIERS[service]);
+}
+
+export function findTierForQuantity(tiers: PricingTier[], quantity: number): PricingTier | null {
+  let match: PricingTier | null = null;
+  for (const tier of sortTiers(tiers)) {
+    if (quantity >= tier.minQuantity) match = tier;
+  }
+  return match;
+}
+
+/** Range label for the tier at `index` of a sorted table: "<50", "50-500" or "1001+". */
+export function formatTierRange(tiers: PricingTier[], index: number): string {
+  const tier = tiers[index];
+  const next = tiers[index + 1];
+  if (!tier) return "";
+  if (!next) return `${tier.minQuantity}+`;
+  if (tier.minQuantity <= 0) return `<${next.minQuantity}`;
+  return `${tier.minQuantity}-${next.minQuantity - 1}`;
+}
+
+/** Tier id a rule saved before tier tables belongs to, from its package name or range. */
+export function legacyTierId(rule: { package?: string; quantityRange?: string }): string | null {
+  const fromPackage = String(rule.package || "").trim().toLowerCase().replace(/\s+/g, "-");
+  if (DEFAULT_PRICING_TIERS["FBA/WFS/TFS"].some((t) => t.id === fromPackage)) return fromPackage;
+  return LEGACY_RANGE_TIER_IDS[String(rule.quantityRange || "")] ?? null;
+}
+
+export function ruleTierId(rule: { tierId?: string; package?: string; quantityRange?: string }): string | null {
+  return rule.tierId || legacyTierId(rule);
+}
+
+/** Problems with an edited table; empty when it can be saved. */
+export function validateTiers(tiers: PricingTier[]): string[] {
+  const errors: string[] = [];
+  if (tiers.length === 0) return ["Add at least one tier."];
+  const names = new Set<string>();
+  for (const tier of tiers) {
+    const name = tier.name.trim();
+    if (!name) errors.push("Every tier needs a name.");
+    else if (names.has(name.toLowerCase())) errors.push(`Tier name "${name}" is used twice.`);
+    names.add(name.toLowerCase());
+    if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < 0) {
+      errors.push(`${name || "A tier"} needs a whole-number minimum of 0 or more.`);
+    }
+  }
+  const sorted = sortTiers(tiers);
+  if (sorted[0].minQuantity !== 0) errors.push("The lowest tier must start at 0 so every quantity has a tier.");
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].minQuantity === sorted[i - 1].minQuantity) {
+      errors.push(`${sorted[i - 1].name} and ${sorted[i].name} start at the same quantity.`);
+    }
+  }
+  return Array.from(new Set(errors));
+}
+
+/** Id for a tier added in the editor; kept when the tier is renamed so rules stay attached. */
+export function newTierId(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "tier";
+  return `${slug}-${Date.now().toString(36)}`;
+}
@@ -0,0 +1,125 @@
+import type { InventoryItem } from "@/types";
+
+export type ProductIdentifierField = "sku" | "upc" | "asin" | "fnsku";
+
+export const PRODUCT_IDENTIFIER_LABELS: Record<ProductIdentifierField, string> = {
+  sku: "SKU",
+  upc: "UPC/EAN",
+  asin: "ASIN",
+  fnsku: "FNSKU",
+};
+
+export const PRODUCT_IDENTIFIER_FIELDS: ProductIdentifierField[] = ["sku", "upc", "asin", "fnsku"];
+
+/** Identifiers that must not repeat within one client's inventory. SKUs are left free-form. */
+export const UNIQUE_IDENTIFIER_FIELDS: ProductIdentifierField[] = ["upc", "asin", "fnsku"];
+
+/** Canonical form used for storage and matching: whitespace and dashes removed, upper case. */
+export function normalizeIdentifier(value: unknown): string {
+  return String(value ?? "").replace(/[\s-]/g, "").toUpperCase();
+}
+
+/** GS1 check digit test for UPC-A, EAN-8, EAN-13 and GTIN-14. */
+function hasValidGtinCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/** Returns an error message for a malformed identifier, or null when it is empty or valid. */
+export function validateIdentifier(field: ProductIdentifierField, value: unknown): string | null {
+  const code = normalizeIdentifier(value);
+  if (!code) return null;
+  switch (field) {
+    case "upc":
+      if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return "UPC/EAN must be 8, 12, 13 or 14 digits.";
+      if (!hasValidGtinCheckDigit(code)) return "UPC/EAN check digit is invalid.";
+      return null;
+    case "asin":
+      return /^[A-Z0-9]{10}$/.test(code) ? null : "ASIN must be 10 letters or digits.";
+    case "fnsku":
+      return /^[A-Z0-9]{10}$/.test(code) ? null : "FNSKU must be 10 letters or digits.";
+    default:
+      return null;
+  }
+}
+
+/** Format errors for every filled-in identifier. */
+export function validateIdentifiers(values: Partial<Record<ProductIdentifierField, string>>): string[] {
+  return PRODUCT_IDENTIFIER_FIELDS.map((field) => validateIdentifier(field, values[field])).filter(
+    (message): message is string => message !== null
+  );
+}
+
+/** A 12-digit UPC-A scans as the same product as its 13/14-digit zero-padded EAN/GTIN form. */
+function gtinKey(code: string): string {
+  return /^\d+$/.test(code) ? code.padStart(14, "0") : code;
+}
+
+function sameIdentifier(field: ProductIdentifierField, a: unknown, b: unknown): boolean {
+  const left = normalizeIdentifier(a);
+  const right = normalizeIdentifier(b);
+  if (!left || !right) return false;
+  return field === "upc" ? gtinKey(left) === gtinKey(right) : left === right;
+}
+
+/**
+ * Messages for identifiers that another item in the same inventory already uses.
+ * `excludeId` skips the item being edited.
+ */
+export function findIdentifierConflicts(
+  inventory: Pick<InventoryItem, "id" | "productName" | ProductIdentifierField>[],
+  values: Partial<Record<ProductIdentifierField, string>>,
+  excludeId?: string
+): string[] {
+  const conflicts: string[] = [];
+  for (const field of UNIQUE_IDENTIFIER_FIELDS) {
+    if (!normalizeIdentifier(values[field])) continue;
+    const match = inventory.find((item) => item.id !== excludeId && sameIdentifier(field, item[field], values[field]));
+    if (match) {
+      conflicts.push(`${PRODUCT_IDENTIFIER_LABELS[field]} ${normalizeIdentifier(values[field])} is already used by "${match.productName}".`);
+    }
+  }
+  return conflicts;
+}
+
+/** Item whose FNSKU, UPC/EAN, ASIN or SKU equals the scanned code (checked in that order). */
+export function findInventoryByCode<T extends Pick<InventoryItem, ProductIdentifierField>>(
+  inventory: T[],
+  code: string
+): T | undefined {
+  if (!normalizeIdentifier(code)) return undefined;
+  const order: ProductIdentifierField[] = ["fnsku", "upc", "asin", "sku"];
+  for (const field of order) {
+    const match = inventory.find((item) => sameIdentifier(field, item[field], code));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/** True when any identifier on the item contains the search text. */
+export function identifiersInclude(item: Pick<InventoryItem, ProductIdentifierField>, search: string): boolean {
+  const needle = normalizeIdentifier(search);
+  if (!needle) return false;
+  return PRODUCT_IDENTIFIER_FIELDS.some(
+    (field) => normalizeIdentifier(item[field]).includes(needle) || sameIdentifier(field, item[field], needle)
+  );
+}
+
+/** Normalized identifier fields ready to write; empty inputs are left out. */
+export function buildIdentifierFields(
+  values: Partial<Record<ProductIdentifierField, string>>
+): Partial<Record<ProductIdentifierField, string>> {
+  const fields: Partial<Record<ProductIdentifierField, string>> = {};
+  const sku = (values.sku ?? "").trim();
+  if (sku) fields.sku = sku;
+  for (const field of UNIQUE_IDENTIFIER_FIELDS) {
+    const code = normalizeIdentifier(values[field]);
+    if (code) fields[field] = code;
+  }
+  return fields;
+}
@@ -0,0 +1,349 @@
+import { adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import { getStripe } from "@/lib/stripe";
+import { getLabelWalletDebitAdmin, recordWalletTransactionAdmin, WALLET_TOP_UP_PURPOSE } from "@/lib/wallet-admin";
+import { walletTransactionsPath } from "@/lib/wallet";
+import type { LabelPurchase } from "@/types";
+
+const SHIPPO_API_BASE = "https://api.goshippo.com";
+
+/** What we add to every Shippo rate shown to clients, in dollars. */
+export const LABEL_RATE_MARKUP = 0.15;
+
+type LabelPurchaseStatus = LabelPurchase["status"];
+
+type ShippoRefundStatus = NonNullable<LabelPurchase["refundStatus"]>;
+
+// A failed or canceled payment leaves the purchase pending so the client can pay again; a refund
+// the carrier rejects leaves the label purchased
+const LABEL_PURCHASE_TRANSITIONS: Record<LabelPurchaseStatus, LabelPurchaseStatus[]> = {
+  payment_pending: ["payment_pending", "payment_succeeded"],
+  payment_succeeded: ["label_purchased", "label_failed"],
+  label_purchased: ["completed", "refund_pending"],
+  label_failed: [],
+  completed: [],
+  refund_pending: ["refunded", "label_purchased"],
+  refunded: [],
+};
+
+/**
+ * Move a label purchase to `to` and write `data` with it, in a transaction. Returns false and
+ * leaves the doc alone when it is missing or its current status cannot move to `to`, so a
+ * redelivered or late Stripe event never pays for, buys, or reopens a label twice.
+ */
+export async function transitionLabelPurchaseAdmin(
+  userId: string,
+  labelPurchaseId: string,
+  to: LabelPurchaseStatus,
+  data: Record<string, unknown> = {}
+): Promise<boolean> {
+  const db = adminDb();
+  const labelPurchaseRef = db.collection(`users/${userId}/labelPurchases`).doc(labelPurchaseId);
+  return db.runTransaction(async (transaction: any) => {
+    const snap = await transaction.get(labelPurchaseRef);
+    if (!snap.exists) return false;
+    const from = (snap.data()?.status || "payment_pending") as LabelPurchaseStatus;
+    if (!LABEL_PURCHASE_TRANSITIONS[from]?.includes(to)) return false;
+    transaction.update(labelPurchaseRef, { ...data, status: to });
+    return true;
+  });
+}
+
+/**
+ * Look up a Shippo rate and return what the client pays for it in cents, markup included, so a
+ * label is charged at Shippo's price and never at one sent by the browser. Throws when the rate
+ * is unknown, belongs to another shipment or is not in USD.
+ */
+export async function getLabelRateChargeCentsAdmin(rateId: string, shipmentId: string): Promise<number> {
+  if (!process.env.SHIPPO_API_KEY) {
+    throw new Error("Shippo API key not configured");
+  }
+  const rateResponse = await fetch(`${SHIPPO_API_BASE}/rates/${encodeURIComponent(rateId)}`, {
+    headers: { Authorization: `ShippoToken ${process.env.SHIPPO_API_KEY}` },
+  });
+  if (!rateResponse.ok) {
+    throw new Error(`Shippo rate lookup failed (${rateResponse.status})`);
+  }
+  const rate = await rateResponse.json();
+  if (rate.shipment && rate.shipment !== shipmentId) {
+    throw new Error("This rate belongs to a different shipment.");
+  }
+  if (String(rate.currency || "").toUpperCase() !== "USD") {
+    throw new Error("Only USD rates can be paid.");
+  }
+  const amount = parseFloat(rate.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Shippo returned no price for this rate.");
+  }
+  return Math.round((amount + LABEL_RATE_MARKUP) * 100);
+}
+
+/**
+ * Buy a paid-for label from Shippo and record the outcome on its labelPurchases doc. Returns
+ * whether the label was bought; on failure the doc is marked `label_failed` with the reason.
+ * Callers must first have moved the purchase to `payment_succeeded` themselves, which only one
+ * caller can do.
+ */
+export async function purchaseLabelFromShippo({
+  rateId,
+  labelPurchaseId,
+  userId,
+}: {
+  rateId: string;
+  shipmentId: string;
+  labelPurchaseId: string;
+  userId: string;
+}): Promise<boolean> {
+  const markFailed = (errorMessage: string) =>
+    transitionLabelPurchaseAdmin(userId, labelPurchaseId, "label_failed", { errorMessage });
+
+  let transaction: any;
+  try {
+    if (!process.env.SHIPPO_API_KEY) {
+      throw new Error("Shippo API key not configured");
+    }
+
+    // Purchase label from Shippo
+    const transactionResponse = await fetch(`${SHIPPO_API_BASE}/transactions/`, {
+      method: "POST",
+      headers: {
+        Authorization: `ShippoToken ${process.env.SHIPPO_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        rate: rateId,
+        async: false,
+      }),
+    });
+
+    if (!transactionResponse.ok) {
+      const errorData = await transactionResponse.json();
+      console.error("Shippo label purchase error:", errorData);
+      await markFailed(errorData.detail || errorData.message || "Failed to purchase label");
+      return false;
+    }
+
+    transaction = await transactionResponse.json();
+    // A synchronous purchase Shippo could not complete still answers 2xx, with status ERROR
+    if (transaction.status !== "SUCCESS") {
+      const messages = Array.isArray(transaction.messages)
+        ? transaction.messages.map((message: any) => message?.text).filter(Boolean).join("; ")
+        : "";
+      console.error("Shippo label purchase not completed:", transaction.status, transaction.messages);
+      await markFailed(messages || `Shippo returned status ${transaction.status || "unknown"}`);
+      return false;
+    }
+  } catch (error: any) {
+    console.error("Error purchasing label:", error);
+    await markFailed(error.message || "Error purchasing label");
+    return false;
+  }
+
+  // The label is bought from here on; a failure to record it must not mark it failed
+  await transitionLabelPurchaseAdmin(userId, labelPurchaseId, "label_purchased", {
+    shippoTransactionId: transaction.object_id,
+    trackingNumber: transaction.tracking_number || null,
+    labelUrl: transaction.label_url || null,
+    labelPurchasedAt: adminFieldValue().serverTimestamp(),
+  });
+
+  console.log(`Label purchased successfully: ${transaction.object_id}`);
+  return true;
+}
+
+/**
+ * Pay back a voided label once Shippo reports the refund succeeded: card payments are refunded in
+ * full in Stripe, wallet payments get back what their ledger debit took. Safe to repeat; the
+ * Stripe refund is keyed to the label and the wallet credit is written with the status change.
+ */
+async function settleLabelRefundAdmin(userId: string, labelPurchaseId: string): Promise<void> {
+  const db = adminDb();
+  const labelRef = db.collection(`users/${userId}/labelPurchases`).doc(labelPurchaseId);
+  const labelSnap = await labelRef.get();
+  const label = (labelSnap.data() || {}) as LabelPurchase;
+  if (label.status !== "refund_pending") return;
+
+  if (label.paymentMethod === "wallet") {
+    const userRef = db.collection("users").doc(userId);
+    const entryId = `label-void-${labelPurchaseId}`;
+    const entryRef = db.collection(walletTransactionsPath(userId)).doc(entryId);
+    try {
+      await db.runTransaction(async (transaction: any) => {
+        const [userSnap, currentSnap, entrySnap] = await Promise.all([
+          transaction.get(userRef),
+          transaction.get(labelRef),
+          transaction.get(entryRef),
+        ]);
+        const current = currentSnap.data() || {};
+        if (entrySnap.exists || current.status !== "refund_pending") return;
+        const paid = await getLabelWalletDebitAdmin(transaction, userId, labelPurchaseId, current.walletTransactionId);
+        const { transactionId } = recordWalletTransactionAdmin(
+          transaction,
+          userId,
+          userSnap.data() || {},
+          {
+            type: "label_refund",
+            amount: paid,
+            description: `Refund for voided ${label.selectedRate?.provider ? `${label.selectedRate.provider} ` : ""}label`,
+            labelPurchaseId,
+            createdBy: "system",
+          },
+          entryId
+        );
+        transaction.update(labelRef, {
+          status: "refunded",
+          refundedAt: new Date(),
+          refundWalletTransactionId: transactionId,
+          refundError: adminFieldValue().delete(),
+        });
+      });
+    } catch (error: any) {
+      // The label stays refund_pending, so the next sync tries the wallet refund again
+      await labelRef.update({ refundError: error?.message || "Wallet refund failed" });
+      throw error;
+    }
+    return;
+  }
+
+  let stripeRefundId: string | undefined;
+  if (label.stripePaymentIntentId) {
+    try {
+      const paymentIntent = await getStripe().paymentIntents.retrieve(label.stripePaymentIntentId);
+      if (paymentIntent.metadata?.userId !== userId || paymentIntent.metadata?.purpose === WALLET_TOP_UP_PURPOSE) {
+        throw new Error("The label's payment does not belong to this label purchase.");
+      }
+      const refund = await getStripe().refunds.create(
+        {
+          payment_intent: label.stripePaymentIntentId,
+          metadata: { userId, labelPurchaseId },
+        },
+        { idempotencyKey: `label-refund-${labelPurchaseId}` }
+      );
+      stripeRefundId = refund.id;
+    } catch (error: any) {
+      // The label stays refund_pending, so the next sync tries the Stripe refund again
+      await labelRef.update({ refundError: error?.message || "Payment refund failed" });
+      throw error;
+    }
+  }
+  await transitionLabelPurchaseAdmin(userId, labelPurchaseId, "refunded", {
+    refundedAt: new Date(),
+    ...(stripeRefundId ? { stripeRefundId } : {}),
+    refundError: adminFieldValue().delete(),
+  });
+}
+
+/** Act on a Shippo refund status: pay the client back, reopen the label, or keep waiting. */
+async function applyShippoRefundStatusAdmin(
+  userId: string,
+  labelPurchaseId: string,
+  refundStatus: ShippoRefundStatus
+): Promise<LabelPurchaseStatus> {
+  if (refundStatus === "SUCCESS") {
+    await settleLabelRefundAdmin(userId, labelPurchaseId);
+    return "refunded";
+  }
+  if (refundStatus === "ERROR") {
+    await transitionLabelPurchaseAdmin(userId, labelPurchaseId, "label_purchased", {
+      refundStatus,
+      refundError: "The carrier did not approve the refund",
+    });
+    return "label_purchased";
+  }
+  await adminDb().collection(`users/${userId}/labelPurchases`).doc(labelPurchaseId).update({ refundStatus });
+  return "refund_pending";
+}
+
+/**
+ * Void a purchased label: ask Shippo for a refund and move the purchase to `refund_pending`.
+ * Carriers approve refunds anywhere from at once to a few weeks later; the client is paid back
+ * when they do (see `syncLabelRefundAdmin`). Throws when the label cannot be voided.
+ */
+export async function requestLabelRefundAdmin(
+  userId: string,
+  labelPurchaseId: string,
+  requestedBy: string
+): Promise<LabelPurchaseStatus> {
+  const labelRef = adminDb().collection(`users/${userId}/labelPurchases`).doc(labelPurchaseId);
+  const labelSnap = await labelRef.get();
+  if (!labelSnap.exists) throw new Error("Label purchase not found.");
+  const label = labelSnap.data() as LabelPurchase;
+  if (!label.shippoTransactionId) throw new Error("This label has no Shippo transaction to void.");
+
+  const claimed = await transitionLabelPurchaseAdmin(userId, labelPurchaseId, "refund_pending", {
+    refundRequestedAt: new Date(),
+    refundRequestedBy: requestedBy,
+    refundError: adminFieldValue().delete(),
+  });
+  if (!claimed) throw new Error("Only purchased labels can be voided.");
+
+  let refund: { object_id: string; status: ShippoRefundStatus };
+  try {
+    if (!process.env.SHIPPO_API_KEY) {
+      throw new Error("Shippo API key not configured");
+    }
+    const refundResponse = await fetch(`${SHIPPO_API_BASE}/refunds/`, {
+      method: "POST",
+      headers: {
+        Authorization: `ShippoToken ${process.env.SHIPPO_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        transaction: label.shippoTransactionId,
+        async: false,
+      }),
+    });
+    if (!refundResponse.ok) {
+      const errorData = await refundResponse.json().catch(() => ({}));
+      console.error("Shippo refund error:", errorData);
+      throw new Error(errorData.detail || errorData.message || "Shippo could not void this label");
+    }
+    refund = await refundResponse.json();
+  } catch (error: any) {
+    await transitionLabelPurchaseAdmin(userId, labelPurchaseId, "label_purchased", {
+      refundError: error.message || "Error voiding label",
+    });
+    throw error;
+  }
+
+  await labelRef.update({ shippoRefundId: refund.object_id, refundStatus: refund.status });
+  return applyShippoRefundStatusAdmin(userId, labelPurchaseId, refund.status);
+}
+
+/** Check a pending label refund with Shippo and settle it once the carrier has decided. */
+export async function syncLabelRefundAdmin(userId: string, labelPurchaseId: string): Promise<LabelPurchaseStatus> {
+  const labelSnap = await adminDb().collection(`users/${userId}/labelPurchases`).doc(labelPurchaseId).get();
+  const label = (labelSnap.data() || {}) as LabelPurchase;
+  if (label.status !== "refund_pending" || !label.shippoRefundId) return label.status;
+  if (!process.env.SHIPPO_API_KEY) {
+    throw new Error("Shippo API key not configured");
+  }
+
+  const refundResponse = await fetch(`${SHIPPO_API_BASE}/refunds/${label.shippoRefundId}`, {
+    headers: { Authorization: `ShippoToken ${process.env.SHIPPO_API_KEY}` },
+  });
+  if (!refundResponse.ok) {
+    throw new Error(`Shippo refund lookup failed (${refundResponse.status})`);
+  }
+  const refund = await refundResponse.json();
+  return applyShippoRefundStatusAdmin(userId, labelPurchaseId, refund.status);
+}
+
+/** Check every label refund still waiting on a carrier. */
+export async function syncPendingLabelRefundsAdmin(): Promise<
+  Array<{ userId: string; labelPurchaseId: string; status?: LabelPurchaseStatus; error?: string }>
+> {
+  const snapshot = await adminDb().collectionGroup("labelPurchases").where("status", "==", "refund_pending").get();
+  const results: Array<{ userId: string; labelPurchaseId: string; status?: LabelPurchaseStatus; error?: string }> = [];
+  for (const labelDoc of snapshot.docs) {
+    const userId = labelDoc.ref.parent.parent?.id;
+    if (!userId) continue;
+    try {
+      const status = await syncLabelRefundAdmin(userId, labelDoc.id);
+      results.push({ userId, labelPurchaseId: labelDoc.id, status });
+    } catch (error: any) {
+      console.error(`Label refund sync failed for ${labelDoc.id}:`, error);
+      results.push({ userId, labelPurchaseId: labelDoc.id, error: error?.message || "Unknown error" });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,67 @@
+import nodemailer from "nodemailer";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  secure: boolean;
+  from: string;
+  fromName: string;
+}
+
+/** SMTP settings from the environment, or null when host/user/password are not set. */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const user = process.env.SMTP_USER;
+  const password = process.env.SMTP_PASSWORD;
+  if (!host || !user || !password) return null;
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT || 587),
+    user,
+    password,
+    secure: process.env.SMTP_SECURE === "true",
+    from: process.env.SMTP_FROM || user,
+    fromName: process.env.SMTP_FROM_NAME || "Prep Services FBA",
+  };
+}
+
+/** Send a plain-text email through the configured SMTP server. Throws when SMTP is not configured. */
+export async function sendSmtpMail(message: {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: { filename: string; content: Buffer }[];
+}): Promise<void> {
+  const config = getSmtpConfig();
+  if (!config) {
+    throw new Error("SMTP credentials are not configured.");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure, // true for 465, false for other ports
+    requireTLS: !config.secure, // require TLS for non-SSL ports
+    auth: {
+      user: config.user,
+      pass: config.password,
+    },
+    tls: {
+      // Do not fail on invalid certs
+      rejectUnauthorized: false,
+    },
+  });
+
+  // Verify connection configuration
+  await transporter.verify();
+
+  await transporter.sendMail({
+    from: config.fromName ? `${config.fromName} <${config.from}>` : config.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    attachments: message.attachments ?? [],
+  });
+}
@@ -0,0 +1,71 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { buildStockMovement, stockMovementsPath, type StockMovementInput } from "@/lib/stock-ledger";
+import type { StockMovementType } from "@/types";
+
+/** Queue a ledger entry on an Admin SDK transaction or batch (no-op when quantity is unchanged). */
+export function recordStockMovementAdmin(
+  writer: { set(ref: any, data: any): unknown },
+  userId: string,
+  input: StockMovementInput
+): void {
+  if (Number(input.quantityBefore) === Number(input.quantityAfter)) return;
+  const movementRef = adminDb().collection(stockMovementsPath(userId)).doc();
+  writer.set(movementRef, buildStockMovement(input, new Date()));
+}
+
+/**
+ * Set an inventory doc's quantity (server side) and append the matching ledger entry in one transaction.
+ * inventoryPath must be users/{uid}/inventory/{productId}. Extra fields are merged into the inventory doc
+ * (and may override the derived status); without them the doc must already exist, so a stale lookup
+ * never recreates a deleted item. Returns the item's name and reorder point for low-stock alerts.
+ */
+export async function setInventoryQuantityWithLedger(
+  inventoryPath: string,
+  quantity: number,
+  movement: {
+    type: StockMovementType;
+    createdBy: string;
+    createdByName?: string;
+    reason?: string;
+    referencePath?: string;
+  },
+  extraFields: Record<string, unknown> = {}
+): Promise<{ quantityBefore: number; quantityAfter: number; productName: string; reorderPoint: number | null }> {
+  const segments = inventoryPath.split("/");
+  if (segments.length !== 4 || segments[0] !== "users" || segments[2] !== "inventory") {
+    throw new Error(`Not an inventory path: ${inventoryPath}`);
+  }
+  const [, userId, , productId] = segments;
+  const db = adminDb();
+  const ref = db.doc(inventoryPath);
+  const quantityAfter = Math.max(0, Math.floor(Number(quantity) || 0));
+
+  return db.runTransaction(async (tx: any) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists && Object.keys(extraFields).length === 0) {
+      throw new Error(`Inventory item not found: ${inventoryPath}`);
+    }
+    const current = snap.exists ? snap.data() ?? {} : {};
+    const quantityBefore = Number(current.quantity) || 0;
+    const productName = String(extraFields.productName ?? current.productName ?? "Unknown Item");
+
+    tx.set(
+      ref,
+      { quantity: quantityAfter, status: quantityAfter > 0 ? "In Stock" : "Out of Stock", ...extraFields },
+      { merge: true }
+    );
+    recordStockMovementAdmin(tx, userId, {
+      productId,
+      productName,
+      type: movement.type,
+      quantityBefore,
+      quantityAfter,
+      reason: movement.reason,
+      referencePath: movement.referencePath,
+      createdBy: movement.createdBy,
+      createdByName: movement.createdByName,
+    });
+    const reorderPoint = Number(current.reorderPoint) || null;
+    return { quantityBefore, quantityAfter, productName, reorderPoint };
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Shared helpers for the per-user stock movement ledger (client + server).
+ *
+ * Every change to an InventoryItem quantity appends one StockMovement to
+ * users/{uid}/stockMovements. The stored `quantity` on the inventory doc is
+ * kept as a cache; the ledger is the source of truth used for reconciliation.
+ */
+import { collection, doc, Timestamp, type DocumentData, type DocumentReference, type Firestore } from "firebase/firestore";
+import type { InventoryItem, StockMovement, StockMovementType } from "@/types";
+
+export function stockMovementsPath(userId: string): string {
+  return `users/${userId}/stockMovements`;
+}
+
+export interface StockMovementInput {
+  productId: string;
+  productName: string;
+  type: StockMovementType;
+  quantityBefore: number;
+  quantityAfter: number;
+  reason?: string;
+  referencePath?: string;
+  createdBy: string;
+  createdByName?: string;
+}
+
+/** Anything with a Firestore-style `set` (client Transaction/WriteBatch, admin Transaction/WriteBatch). */
+export interface StockLedgerWriter {
+  set(ref: DocumentReference<DocumentData, DocumentData>, data: DocumentData): unknown;
+}
+
+/** Build the Firestore payload for a movement (undefined fields omitted). */
+export function buildStockMovement(input: StockMovementInput, createdAt: unknown): Omit<StockMovement, "id" | "createdAt"> & { createdAt: unknown } {
+  const quantityBefore = Number(input.quantityBefore) || 0;
+  const quantityAfter = Number(input.quantityAfter) || 0;
+  const movement: Omit<StockMovement, "id" | "createdAt"> & { createdAt: unknown } = {
+    productId: input.productId,
+    productName: input.productName || "Unknown Item",
+    type: input.type,
+    quantityDelta: quantityAfter - quantityBefore,
+    quantityBefore,
+    quantityAfter,
+    createdBy: input.createdBy,
+    createdAt,
+  };
+  if (input.reason) movement.reason = input.reason;
+  if (input.referencePath) movement.referencePath = input.referencePath;
+  if (input.createdByName) movement.createdByName = input.createdByName;
+  return movement;
+}
+
+/**
+ * Queue a ledger entry on a client-side transaction or batch. Movements that do
+ * not change the quantity are skipped so the ledger only holds real changes.
+ */
+export function recordStockMovement(
+  writer: StockLedgerWriter,
+  firestore: Firestore,
+  userId: string,
+  input: StockMovementInput
+): void {
+  if (Number(input.quantityBefore) === Number(input.quantityAfter)) return;
+  const movementRef = doc(collection(firestore, stockMovementsPath(userId)));
+  writer.set(movementRef, buildStockMovement(input, Timestamp.now()));
+}
+
+/** Sum movement deltas per product: the quantity the ledger says each item should hold. */
+export function deriveLedgerQuantities(movements: Pick<StockMovement, "productId" | "quantityDelta">[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const movement of movements) {
+    if (!movement.productId) continue;
+    totals.set(movement.productId, (totals.get(movement.productId) ?? 0) + (Number(movement.quantityDelta) || 0));
+  }
+  return totals;
+}
+
+export interface StockLedgerDrift {
+  productId: string;
+  productName: string;
+  storedQuantity: number;
+  ledgerQuantity: number;
+  /** storedQuantity - ledgerQuantity; non-zero means the inventory doc was changed outside the ledger. */
+  drift: number;
+  movementCount: number;
+  /** True when the ledger has movements for a product that no longer exists in inventory. */
+  missingFromInventory: boolean;
+}
+
+/** Compare stored inventory quantities with the ledger and return every product that disagrees. */
+export function findStockLedgerDrift(
+  inventory: Pick<InventoryItem, "id" | "productName" | "quantity">[],
+  movements: Pick<StockMovement, "productId" | "productName" | "quantityDelta">[]
+): StockLedgerDrift[] {
+  const ledger = deriveLedgerQuantities(movements);
+  const counts = new Map<string, number>();
+  const names = new Map<string, string>();
+  for (const movement of movements) {
+    counts.set(movement.productId, (counts.get(movement.productId) ?? 0) + 1);
+    names.set(movement.productId, movement.productName);
+  }
+
+  const rows: StockLedgerDrift[] = [];
+  const seen = new Set<string>();
+  for (const item of inventory) {
+    seen.add(item.id);
+    const storedQuantity = Number(item.quantity) || 0;
+    const ledgerQuantity = ledger.get(item.id) ?? 0;
+    if (storedQuantity === ledgerQuantity) continue;
+    rows.push({
+      productId: item.id,
+      productName: item.productName,
+      storedQuantity,
+      ledgerQuantity,
+      drift: storedQuantity - ledgerQuantity,
+      movementCount: counts.get(item.id) ?? 0,
+      missingFromInventory: false,
+    });
+  }
+  for (const [productId, ledgerQuantity] of Array.from(ledger.entries())) {
+    if (seen.has(productId) || ledgerQuantity === 0) continue;
+    rows.push({
+      productId,
+      productName: names.get(productId) || "Unknown Item",
+      storedQuantity: 0,
+      ledgerQuantity,
+      drift: -ledgerQuantity,
+      movementCount: counts.get(productId) ?? 0,
+      missingFromInventory: true,
+    });
+  }
+  return rows.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+}
@@ -0,0 +1,228 @@
+/**
+ * Storage billing modes (client + server).
+ *
+ * `product_base` and `pallet_base` storage charge a flat price per item / pallet held when the
+ * invoice is generated. The volume modes, `cubic_feet` and `pallet_positions`, charge the monthly
+ * price for the average cubic feet / pallet positions each item occupied over the month: its
+ * quantity at the end of every day is rebuilt from the stock movement ledger, so stock that left
+ * mid-month is only billed for the days it was stored.
+ */
+import { eachDayOfInterval, endOfDay } from "date-fns";
+import { getUnitsPerPallet } from "@/lib/packaging";
+import { toDate } from "@/lib/date-utils";
+import type { InventoryItem, Invoice, ProductDimensions, StockMovement, StorageType } from "@/types";
+
+export const STORAGE_TYPE_LABELS: Record<StorageType, string> = {
+  product_base: "Product Base Storage",
+  pallet_base: "Pallet Base Storage",
+  cubic_feet: "Cubic Feet Storage",
+  pallet_positions: "Pallet Position Storage",
+};
+
+const STORAGE_PRICE_LABELS: Record<StorageType, string> = {
+  product_base: "Price per Item",
+  pallet_base: "Price per Pallet",
+  cubic_feet: "Price per Cu Ft",
+  pallet_positions: "Price per Position",
+};
+
+export function storageTypeLabel(storageType: string | undefined): string {
+  return STORAGE_TYPE_LABELS[storageType as StorageType] ?? (storageType || "-");
+}
+
+/** Invoice column label for a storage type's price; unknown types read as pallet pricing. */
+export function storagePriceLabel(storageType: string | undefined): string {
+  return STORAGE_PRICE_LABELS[storageType as StorageType] ?? STORAGE_PRICE_LABELS.pallet_base;
+}
+
+export type VolumeStorageType = Extract<StorageType, "cubic_feet" | "pallet_positions">;
+
+export function isVolumeStorageType(storageType: unknown): storageType is VolumeStorageType {
+  return storageType === "cubic_feet" || storageType === "pallet_positions";
+}
+
+const CUBIC_UNITS_PER_CUBIC_FOOT: Record<ProductDimensions["unit"], number> = {
+  in: 1728,
+  cm: 28316.846592,
+};
+
+/** Cubic feet of one unit, or null when the item has no complete dimensions. */
+export function getUnitCubicFeet(item: Pick<InventoryItem, "dimensions">): number | null {
+  const dims = item.dimensions;
+  if (!dims) return null;
+  const volume = Number(dims.length) * Number(dims.width) * Number(dims.height);
+  if (!Number.isFinite(volume) || volume <= 0) return null;
+  return volume / (CUBIC_UNITS_PER_CUBIC_FOOT[dims.unit] ?? CUBIC_UNITS_PER_CUBIC_FOOT.in);
+}
+
+/** Cleans form input into dimensions; null unless length, width and height are all positive. */
+export function normalizeDimensions(input: {
+  length?: unknown;
+  width?: unknown;
+  height?: unknown;
+  unit?: unknown;
+}): ProductDimensions | null {
+  const length = Number(input.length);
+  const width = Number(input.width);
+  const height = Number(input.height);
+  if (![length, width, height].every((v) => Number.isFinite(v) && v > 0)) return null;
+  return { length, width, height, unit: input.unit === "cm" ? "cm" : "in" };
+}
+
+type MeasurableItem = Pick<InventoryItem, "packaging" | "dimensions"> & { inventoryType?: string };
+
+/**
+ * Cubic feet / pallet positions taken by `quantity` units of an item, or null when the item
+ * cannot be measured (no dimensions, or no pallet configuration for a non-pallet item).
+ */
+export function volumeUsageOf(storageType: VolumeStorageType, item: MeasurableItem, quantity: number): number | null {
+  if (storageType === "cubic_feet") {
+    const cubicFeet = getUnitCubicFeet(item);
+    return cubicFeet ? quantity * cubicFeet : null;
+  }
+  if (item.inventoryType === "pallet") return quantity;
+  const unitsPerPallet = getUnitsPerPallet(item);
+  return unitsPerPallet ? Math.ceil(quantity / unitsPerPallet) : null;
+}
+
+type LedgerMovement = Pick<StockMovement, "productId" | "quantityBefore" | "quantityAfter"> & {
+  productName?: string;
+  createdAt: unknown;
+};
+
+function movementTime(movement: LedgerMovement): number {
+  return toDate(movement.createdAt)?.getTime() ?? 0;
+}
+
+/**
+ * Quantity an item held at `at`, from its movements sorted oldest first: the quantity after the
+ * last movement by then, before the first one after it, or the current quantity without any.
+ */
+export function quantityAt(movements: LedgerMovement[], currentQuantity: number, at: Date): number {
+  const atMs = at.getTime();
+  let last: LedgerMovement | null = null;
+  for (const movement of movements) {
+    if (movementTime(movement) > atMs) return Math.max(0, Number(last ? last.quantityAfter : movement.quantityBefore) || 0);
+    last = movement;
+  }
+  return Math.max(0, Number(last ? last.quantityAfter : currentQuantity) || 0);
+}
+
+export interface VolumeStorageLine {
+  productId: string;
+  productName: string;
+  sku?: string;
+  /** Average cubic feet / pallet positions over the billed days. */
+  averageUsage: number;
+  /** Sum of the daily usage (cubic-foot-days / position-days). */
+  usageDays: number;
+  /** Days the item had stock. */
+  daysStored: number;
+}
+
+export interface VolumeStorageUsage {
+  lines: VolumeStorageLine[];
+  /** Days in the billed period. */
+  days: number;
+  /** Items with stock that could not be measured (no dimensions / pallet configuration, or deleted). */
+  unmeasured: string[];
+}
+
+/**
+ * Daily usage of every item over `[firstDay, lastDay]`. Pass the movements since `firstDay`
+ * (any order); earlier ones do not change the result. Items never stored in the period are left out.
+ */
+export function calculateVolumeStorageUsage(
+  storageType: VolumeStorageType,
+  items: (Pick<InventoryItem, "id" | "productName" | "quantity" | "sku"> & MeasurableItem)[],
+  movements: LedgerMovement[],
+  firstDay: Date,
+  lastDay: Date
+): VolumeStorageUsage {
+  const dayEnds = eachDayOfInterval({ start: firstDay, end: lastDay }).map((day) => endOfDay(day));
+  const byProduct = new Map<string, LedgerMovement[]>();
+  for (const movement of movements) {
+    if (!movement.productId) continue;
+    byProduct.set(movement.productId, [...(byProduct.get(movement.productId) || []), movement]);
+  }
+  byProduct.forEach((list) => list.sort((a, b) => movementTime(a) - movementTime(b)));
+
+  const lines: VolumeStorageLine[] = [];
+  const unmeasured: string[] = [];
+  const known = new Set<string>();
+  for (const item of items) {
+    known.add(item.id);
+    const itemMovements = byProduct.get(item.id) || [];
+    const quantities = dayEnds.map((at) => quantityAt(itemMovements, Number(item.quantity) || 0, at));
+    const daysStored = quantities.filter((q) => q > 0).length;
+    if (daysStored === 0) continue;
+
+    if (volumeUsageOf(storageType, item, 1) === null) {
+      unmeasured.push(item.productName || "Unknown Item");
+      continue;
+    }
+
+    const usageDays = quantities.reduce((sum, q) => sum + (volumeUsageOf(storageType, item, q) ?? 0), 0);
+    lines.push({
+      productId: item.id,
+      productName: item.productName || "Unknown Item",
+      ...(item.sku ? { sku: item.sku } : {}),
+      averageUsage: usageDays / dayEnds.length,
+      usageDays,
+      daysStored,
+    });
+  }
+
+  // Stock of deleted items still shows in the ledger but can no longer be measured
+  byProduct.forEach((list, productId) => {
+    if (known.has(productId)) return;
+    if (dayEnds.some((at) => quantityAt(list, 0, at) > 0)) {
+      unmeasured.push(list[0].productName || productId);
+    }
+  });
+
+  return { lines, days: dayEnds.length, unmeasured };
+}
+
+/** Invoice line for one stored product, with the usage it was billed from. */
+export type VolumeStorageLineItem = Invoice["items"][number] & {
+  productId: string;
+  sku?: string;
+  usageDays: number;
+  daysStored: number;
+};
+
+export interface VolumeStorageCharge extends VolumeStorageUsage {
+  /** Invoice line items, one per stored product. */
+  items: VolumeStorageLineItem[];
+  totalAmount: number;
+  /** Average cubic feet / pallet positions of all products together. */
+  totalAverageUsage: number;
+}
+
+/** Bills each product's average usage at the monthly `price`; `periodLabel` is shown as the line date. */
+export function priceVolumeStorage(usage: VolumeStorageUsage, price: number, periodLabel: string): VolumeStorageCharge {
+  const items = usage.lines.map((line): VolumeStorageLineItem => {
+    const quantity = Math.round(line.averageUsage * 100) / 100;
+    return {
+      quantity,
+      productName: `${line.productName} (${line.daysStored}/${usage.days} days)`,
+      ...(line.sku ? { sku: line.sku } : {}),
+      productId: line.productId,
+      shipDate: periodLabel,
+      shipTo: "N/A",
+      packaging: "Storage",
+      unitPrice: price,
+      amount: Math.round(quantity * price * 100) / 100,
+      usageDays: Math.round(line.usageDays * 100) / 100,
+      daysStored: line.daysStored,
+    };
+  });
+
+  return {
+    ...usage,
+    items,
+    totalAmount: Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100,
+    totalAverageUsage: Math.round(usage.lines.reduce((sum, line) => sum + line.averageUsage, 0) * 100) / 100,
+  };
+}
@@ -0,0 +1,83 @@
+import { buildStorageSnapshot, snapshotDay, storageSnapshotsPath, todaySnapshotDay } from "@/lib/storage-snapshots";
+import type { StorageSnapshot, StorageType } from "@/types";
+
+async function loadInventory(db: any, userId: string): Promise<any[]> {
+  const snapshot = await db.collection(`users/${userId}/inventory`).get();
+  return snapshot.docs.map((d: any) => ({ id: d.id, ...d.data() }));
+}
+
+/**
+ * Saves today's snapshot of a client's inventory. An existing snapshot for today is kept, so
+ * the job can run more than once a day; `force` replaces it.
+ */
+export async function captureStorageSnapshotAdmin(
+  db: any,
+  userId: string,
+  options: { storageType?: StorageType; force?: boolean } = {}
+): Promise<{ snapshot: Omit<StorageSnapshot, "capturedAt">; created: boolean }> {
+  const day = todaySnapshotDay();
+  const ref = db.collection(storageSnapshotsPath(userId)).doc(day);
+  const existing = await ref.get();
+  if (existing.exists && !options.force) {
+    return { snapshot: { id: existing.id, ...existing.data() }, created: false };
+  }
+
+  const data = { ...buildStorageSnapshot(await loadInventory(db, userId), day, options.storageType), capturedAt: new Date() };
+  await ref.set(data);
+  return { snapshot: { id: day, ...data }, created: true };
+}
+
+/**
+ * Snapshots covering `[firstDay, lastDay]`, oldest first: those inside the range plus the latest
+ * one before it, which stands in for the days before the first snapshot of the range. Today's
+ * snapshot is captured first when the range includes today.
+ */
+export async function loadStorageSnapshotsAdmin(
+  db: any,
+  userId: string,
+  firstDay: Date,
+  lastDay: Date,
+  storageType?: StorageType
+): Promise<StorageSnapshot[]> {
+  const first = snapshotDay(firstDay);
+  const last = snapshotDay(lastDay);
+  const today = todaySnapshotDay();
+  if (today >= first && today <= last) {
+    await captureStorageSnapshotAdmin(db, userId, { storageType });
+  }
+
+  const collection = db.collection(storageSnapshotsPath(userId));
+  const [before, inRange] = await Promise.all([
+    collection.where("date", "<", first).orderBy("date", "desc").limit(1).get(),
+    collection.where("date", ">=", first).where("date", "<=", last).orderBy("date").get(),
+  ]);
+  return [...before.docs, ...inRange.docs].map((d: any) => ({ id: d.id, ...d.data() }));
+}
+
+/**
+ * The snapshot to bill a day from: the day's own snapshot (captured now when the day is today),
+ * else the latest earlier one. Without any, the live inventory is used and nothing is saved.
+ */
+export async function getBillingSnapshotAdmin(
+  db: any,
+  userId: string,
+  day: Date,
+  storageType?: StorageType
+): Promise<{ snapshot: Omit<StorageSnapshot, "id" | "capturedAt">; source: "snapshots" | "live" }> {
+  const dayKey = snapshotDay(day);
+  if (dayKey === todaySnapshotDay()) {
+    const { snapshot } = await captureStorageSnapshotAdmin(db, userId, { storageType });
+    return { snapshot, source: "snapshots" };
+  }
+
+  const latest = await db
+    .collection(storageSnapshotsPath(userId))
+    .where("date", "<=", dayKey)
+    .orderBy("date", "desc")
+    .limit(1)
+    .get();
+  if (!latest.empty) {
+    return { snapshot: { id: latest.docs[0].id, ...latest.docs[0].data() }, source: "snapshots" };
+  }
+  return { snapshot: buildStorageSnapshot(await loadInventory(db, userId), todaySnapshotDay(), storageType), source: "live" };
+}
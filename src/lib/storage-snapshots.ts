@@ -0,0 +1,168 @@
+/**
+ * Daily storage snapshots (client + server).
+ *
+ * A scheduled job records each client's billable storage footprint once a day. Storage invoices
+ * are billed from these snapshots rather than the live inventory, so regenerating a month gives
+ * the same numbers and clients can check what they were billed for.
+ */
+import { eachDayOfInterval, format } from "date-fns";
+import { countStoredPallets } from "@/lib/packaging";
+import { toDate } from "@/lib/date-utils";
+import { volumeUsageOf, type VolumeStorageType, type VolumeStorageUsage } from "@/lib/storage-billing";
+import type { InventoryItem, StorageSnapshot, StorageSnapshotItem, StorageType } from "@/types";
+
+export const STORAGE_SNAPSHOTS_COLLECTION = "storageSnapshots";
+
+/**
+ * What a storage invoice was billed from: stored snapshots, the stock movement ledger (volume
+ * storage for a month the snapshots do not cover) or the live inventory (no snapshot yet).
+ */
+export type StorageUsageSource = "snapshots" | "ledger" | "live";
+
+export function storageSnapshotsPath(userId: string): string {
+  return `users/${userId}/${STORAGE_SNAPSHOTS_COLLECTION}`;
+}
+
+/** Snapshot document id and `date` for a day. */
+export function snapshotDay(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/** Today's snapshot day in New Jersey (America/New_York) time, whatever the server's timezone. */
+export function todaySnapshotDay(now: Date = new Date()): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/** The footprint of the given inventory, to be saved as the snapshot of `date`. */
+export function buildStorageSnapshot(
+  inventory: (Pick<InventoryItem, "id" | "productName" | "quantity" | "status" | "sku" | "packaging" | "dimensions"> & {
+    dateAdded?: unknown;
+    inventoryType?: string;
+  })[],
+  date: string,
+  storageType?: StorageType
+): Omit<StorageSnapshot, "id" | "capturedAt"> {
+  const items: StorageSnapshotItem[] = [];
+  for (const item of inventory) {
+    const quantity = Math.max(0, Number(item.quantity) || 0);
+    if (quantity === 0) continue;
+    const dateAdded = toDate(item.dateAdded);
+    const cubicFeet = volumeUsageOf("cubic_feet", item, quantity);
+    const palletPositions = volumeUsageOf("pallet_positions", item, quantity);
+    items.push({
+      productId: item.id,
+      productName: item.productName || "Unknown Item",
+      ...(item.sku ? { sku: item.sku } : {}),
+      quantity,
+      ...(item.status ? { status: item.status } : {}),
+      ...(dateAdded ? { dateAdded: snapshotDay(dateAdded) } : {}),
+      ...(cubicFeet !== null ? { cubicFeet: round(cubicFeet, 4) } : {}),
+      ...(palletPositions !== null ? { palletPositions } : {}),
+    });
+  }
+
+  const { pallets, unconverted } = countStoredPallets(inventory.filter((item) => item.status === "In Stock"));
+  return {
+    date,
+    ...(storageType ? { storageType } : {}),
+    items,
+    totalUnits: items.reduce((sum, item) => sum + item.quantity, 0),
+    pallets: pallets > 0 && unconverted.length === 0 ? pallets : null,
+    totalCubicFeet: round(items.reduce((sum, item) => sum + (item.cubicFeet ?? 0), 0), 4),
+    totalPalletPositions: items.reduce((sum, item) => sum + (item.palletPositions ?? 0), 0),
+  };
+}
+
+/**
+ * Units billed for product-base storage: in-stock units, leaving out items added during the
+ * billed month (their first month is free). Items without an added date count as added on the
+ * snapshot day.
+ */
+export function countProductBaseUnits(
+  snapshot: Pick<StorageSnapshot, "date" | "items">,
+  firstDayOfMonth: Date,
+  lastDayOfMonth: Date
+): number {
+  const first = snapshotDay(firstDayOfMonth);
+  const last = snapshotDay(lastDayOfMonth);
+  return snapshot.items
+    .filter((item) => item.status === "In Stock")
+    .filter((item) => {
+      const added = item.dateAdded ?? snapshot.date;
+      return added < first || added > last;
+    })
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * Pallets billed for pallet-base storage: counted in the snapshot when every stocked item could
+ * be converted to pallets, otherwise the admin-entered pallet count from the storage pricing.
+ */
+export function billablePallets(snapshot: Pick<StorageSnapshot, "pallets">, manualPalletCount: unknown): number {
+  return snapshot.pallets ?? (Number(manualPalletCount) || 1);
+}
+
+/** The latest snapshot on or before `day` (yyyy-MM-dd), from snapshots sorted oldest first. */
+export function snapshotOnOrBefore<T extends Pick<StorageSnapshot, "date">>(snapshots: T[], day: string): T | null {
+  let found: T | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.date > day) break;
+    found = snapshot;
+  }
+  return found;
+}
+
+/**
+ * Daily usage over `[firstDay, lastDay]` from snapshots sorted oldest first. A day without its own
+ * snapshot uses the latest earlier one. Null when the first day has no snapshot to fall back on.
+ */
+export function volumeUsageFromSnapshots(
+  storageType: VolumeStorageType,
+  snapshots: Pick<StorageSnapshot, "date" | "items">[],
+  firstDay: Date,
+  lastDay: Date
+): VolumeStorageUsage | null {
+  const days = eachDayOfInterval({ start: firstDay, end: lastDay }).map(snapshotDay);
+  const daily = days.map((day) => snapshotOnOrBefore(snapshots, day));
+  if (daily.some((snapshot) => !snapshot)) return null;
+
+  const byProduct = new Map<string, { productName: string; sku?: string; usageDays: number; daysStored: number }>();
+  const unmeasured = new Set<string>();
+  for (const snapshot of daily) {
+    for (const item of snapshot!.items) {
+      const usage = storageType === "cubic_feet" ? item.cubicFeet : item.palletPositions;
+      if (usage === undefined) {
+        unmeasured.add(item.productName);
+        continue;
+      }
+      const line = byProduct.get(item.productId) ?? { productName: item.productName, sku: item.sku, usageDays: 0, daysStored: 0 };
+      line.usageDays += usage;
+      line.daysStored += 1;
+      byProduct.set(item.productId, line);
+    }
+  }
+
+  return {
+    lines: Array.from(byProduct.entries()).map(([productId, line]) => ({
+      productId,
+      productName: line.productName,
+      ...(line.sku ? { sku: line.sku } : {}),
+      averageUsage: line.usageDays / days.length,
+      usageDays: line.usageDays,
+      daysStored: line.daysStored,
+    })),
+    days: days.length,
+    unmeasured: Array.from(unmeasured),
+  };
+}
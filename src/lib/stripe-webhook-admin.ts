@@ -0,0 +1,286 @@
+import type Stripe from "stripe";
+import { recordAutopayFailureAdmin } from "@/lib/autopay-admin";
+import { adminDb, adminFieldValue } from "@/lib/firebase-admin";
+import {
+  INVOICE_PAYMENT_PURPOSE,
+  recordInvoicePaymentAdmin,
+  updateInvoicePaymentAttemptAdmin,
+} from "@/lib/invoice-payments-admin";
+import { purchaseLabelFromShippo, transitionLabelPurchaseAdmin } from "@/lib/shippo-labels-admin";
+import { getStripe } from "@/lib/stripe";
+import { STRIPE_WEBHOOK_EVENTS_COLLECTION, isReplayableWebhookEvent } from "@/lib/stripe-webhook-events";
+import { creditWalletTopUpAdmin, WALLET_TOP_UP_PURPOSE } from "@/lib/wallet-admin";
+import type { StripeWebhookEvent } from "@/types";
+
+export type StripeWebhookOutcome = "processed" | "duplicate" | "in_progress" | "failed";
+
+function isInvoicePayment(paymentIntent: Stripe.PaymentIntent): boolean {
+  return paymentIntent.metadata?.purpose === INVOICE_PAYMENT_PURPOSE;
+}
+
+// Bank debits can fail days after an autopay charge was submitted; schedule the retry
+async function handleAutopayFailure(paymentIntent: Stripe.PaymentIntent, message: string) {
+  const { autopay, userId, invoiceId } = paymentIntent.metadata || {};
+  if (!autopay || !userId || !invoiceId) return;
+  await recordAutopayFailureAdmin(userId, invoiceId, message);
+}
+
+// Recorded on the invoice as "ACH" for bank debits, "Card" otherwise
+async function invoicePaymentMethod(paymentIntent: Stripe.PaymentIntent): Promise<"ACH" | "Card"> {
+  const paymentMethod = paymentIntent.payment_method;
+  if (!paymentMethod) return "Card";
+  try {
+    const resolved =
+      typeof paymentMethod === "string" ? await getStripe().paymentMethods.retrieve(paymentMethod) : paymentMethod;
+    return resolved.type === "us_bank_account" ? "ACH" : "Card";
+  } catch (error: any) {
+    console.error("Error retrieving payment method:", error);
+    return "Card";
+  }
+}
+
+/** The label purchase a card-paid PaymentIntent was created for. */
+async function findLabelPurchase(paymentIntent: Stripe.PaymentIntent) {
+  const userId = paymentIntent.metadata?.userId;
+  if (!userId) {
+    console.error("No userId in payment intent metadata");
+    return null;
+  }
+
+  const snapshot = await adminDb()
+    .collection(`users/${userId}/labelPurchases`)
+    .where("stripePaymentIntentId", "==", paymentIntent.id)
+    .get();
+  if (snapshot.empty) {
+    console.error(`No label purchase found for payment intent: ${paymentIntent.id}`);
+    return null;
+  }
+  return { userId, doc: snapshot.docs[0] };
+}
+
+// No label was bought for a card payment, so the payment goes back to the client
+async function refundFailedLabelPayment(
+  paymentIntent: Stripe.PaymentIntent,
+  userId: string,
+  doc: { id: string; ref: any }
+) {
+  try {
+    const refund = await getStripe().refunds.create(
+      { payment_intent: paymentIntent.id, metadata: { userId, labelPurchaseId: doc.id } },
+      { idempotencyKey: `label-failed-refund-${doc.id}` }
+    );
+    await doc.ref.update({ stripeRefundId: refund.id, refundedAt: new Date() });
+  } catch (error: any) {
+    console.error(`Error refunding failed label ${doc.id}:`, error);
+    await doc.ref.update({ refundError: error?.message || "Payment refund failed" });
+  }
+}
+
+async function handleLabelPaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
+  const found = await findLabelPurchase(paymentIntent);
+  if (!found) return;
+  const { userId, doc } = found;
+
+  // Only the first delivery moves the purchase on; any other leaves the label to it
+  const claimed = await transitionLabelPurchaseAdmin(userId, doc.id, "payment_succeeded", {
+    paymentStatus: "succeeded",
+    stripeChargeId: paymentIntent.latest_charge as string,
+    paymentCompletedAt: new Date(),
+  });
+  if (!claimed) {
+    console.log(`Label purchase ${doc.id} is past payment; skipping`);
+    return;
+  }
+
+  const failLabel = async (errorMessage: string) => {
+    await transitionLabelPurchaseAdmin(userId, doc.id, "label_failed", { errorMessage });
+    await refundFailedLabelPayment(paymentIntent, userId, doc);
+  };
+
+  // The label's price was set by the server when the payment was created
+  const label = doc.data();
+  if (paymentIntent.amount_received !== Number(label.paymentAmount)) {
+    console.error(
+      `Label purchase ${doc.id} received ${paymentIntent.amount_received} cents but costs ${label.paymentAmount}`
+    );
+    await failLabel("The amount paid does not match the label price");
+    return;
+  }
+
+  const selectedRate = label.selectedRate;
+  if (!selectedRate?.objectId) {
+    console.error("No rate ID found in label purchase data");
+    await failLabel("Rate ID not found");
+    return;
+  }
+
+  // Get shipment ID from metadata or from the rate
+  const shipmentId = paymentIntent.metadata?.shipmentId || selectedRate.shipmentId;
+  if (!shipmentId) {
+    console.error("No shipment ID found for label purchase");
+    await failLabel("Shipment ID not found");
+    return;
+  }
+
+  const purchased = await purchaseLabelFromShippo({
+    rateId: selectedRate.objectId,
+    shipmentId,
+    labelPurchaseId: doc.id,
+    userId,
+  });
+  if (!purchased) {
+    await refundFailedLabelPayment(paymentIntent, userId, doc);
+  }
+}
+
+// A failed or canceled payment is only recorded while the label is still unpaid
+async function handleLabelPaymentFailure(
+  paymentIntent: Stripe.PaymentIntent,
+  paymentStatus: "failed" | "canceled",
+  errorMessage: string
+) {
+  const found = await findLabelPurchase(paymentIntent);
+  if (!found) return;
+  const updated = await transitionLabelPurchaseAdmin(found.userId, found.doc.id, "payment_pending", {
+    paymentStatus,
+    errorMessage,
+  });
+  if (updated) {
+    console.log(`Payment ${paymentStatus} for label purchase: ${found.doc.id}`);
+  }
+}
+
+/** Handle one verified Stripe event. Throws when it could not be handled, so it can be retried. */
+export async function handleStripeEventAdmin(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "payment_intent.succeeded": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      if (isInvoicePayment(paymentIntent)) {
+        await recordInvoicePaymentAdmin(paymentIntent, await invoicePaymentMethod(paymentIntent));
+      } else if (paymentIntent.metadata?.purpose === WALLET_TOP_UP_PURPOSE) {
+        await creditWalletTopUpAdmin(paymentIntent);
+      } else {
+        await handleLabelPaymentSuccess(paymentIntent);
+      }
+      break;
+    }
+
+    case "payment_intent.processing": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      // ACH debits take a few days to clear; only invoice payments accept them
+      if (isInvoicePayment(paymentIntent)) {
+        await updateInvoicePaymentAttemptAdmin(paymentIntent, "processing");
+      }
+      break;
+    }
+
+    case "payment_intent.payment_failed": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      const message = paymentIntent.last_payment_error?.message || "Payment failed";
+      if (isInvoicePayment(paymentIntent)) {
+        await updateInvoicePaymentAttemptAdmin(paymentIntent, "failed");
+        await handleAutopayFailure(paymentIntent, message);
+      } else if (paymentIntent.metadata?.purpose !== WALLET_TOP_UP_PURPOSE) {
+        await handleLabelPaymentFailure(paymentIntent, "failed", message);
+      }
+      break;
+    }
+
+    case "payment_intent.canceled": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      if (isInvoicePayment(paymentIntent)) {
+        await updateInvoicePaymentAttemptAdmin(paymentIntent, "canceled");
+        await handleAutopayFailure(paymentIntent, "Payment was canceled");
+      } else if (paymentIntent.metadata?.purpose !== WALLET_TOP_UP_PURPOSE) {
+        await handleLabelPaymentFailure(paymentIntent, "canceled", "Payment was canceled");
+      }
+      break;
+    }
+
+    // charge.* events only confirm what the payment_intent.* events already handled
+    case "charge.succeeded":
+    case "charge.failed":
+      break;
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+function eventSummary(event: Stripe.Event): Pick<StripeWebhookEvent, "objectId" | "purpose" | "userId"> {
+  const object = event.data.object as { id?: string; metadata?: Record<string, string> | null };
+  return {
+    objectId: object?.id || "",
+    purpose: object?.metadata?.purpose || "",
+    userId: object?.metadata?.userId || "",
+  };
+}
+
+/**
+ * Claim an event for handling. A processed event is a duplicate; one claimed by a handler that is
+ * still within its lease is in progress. Anything else (new, failed, abandoned) is claimed.
+ */
+async function claimStripeEventAdmin(
+  event: Stripe.Event,
+  replayedBy?: string
+): Promise<"claimed" | "duplicate" | "in_progress"> {
+  const db = adminDb();
+  const eventRef = db.collection(STRIPE_WEBHOOK_EVENTS_COLLECTION).doc(event.id);
+  return db.runTransaction(async (transaction: any) => {
+    const snap = await transaction.get(eventRef);
+    const now = new Date();
+    if (snap.exists) {
+      const stored = snap.data() as StripeWebhookEvent;
+      if (stored.status === "processed") return "duplicate";
+      if (!isReplayableWebhookEvent(stored, now)) return "in_progress";
+      transaction.update(eventRef, {
+        status: "processing",
+        attempts: adminFieldValue().increment(1),
+        lastAttemptAt: now,
+        ...(replayedBy ? { replayedBy } : {}),
+      });
+      return "claimed";
+    }
+
+    transaction.set(eventRef, {
+      type: event.type,
+      livemode: event.livemode,
+      status: "processing",
+      attempts: 1,
+      ...eventSummary(event),
+      eventCreatedAt: new Date(event.created * 1000),
+      receivedAt: now,
+      lastAttemptAt: now,
+    });
+    return "claimed";
+  });
+}
+
+/**
+ * Handle a Stripe event at most once, recording the outcome at stripeWebhookEvents/{eventId}.
+ * `replayedBy` is the admin replaying a failed delivery.
+ */
+export async function processStripeEventOnceAdmin(
+  event: Stripe.Event,
+  replayedBy?: string
+): Promise<{ outcome: StripeWebhookOutcome; error?: string }> {
+  const claim = await claimStripeEventAdmin(event, replayedBy);
+  if (claim !== "claimed") return { outcome: claim };
+
+  const eventRef = adminDb().collection(STRIPE_WEBHOOK_EVENTS_COLLECTION).doc(event.id);
+  try {
+    await handleStripeEventAdmin(event);
+  } catch (error: any) {
+    const message = error?.message || "Unknown error";
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    await eventRef.update({ status: "failed", error: message });
+    return { outcome: "failed", error: message };
+  }
+
+  await eventRef.update({
+    status: "processed",
+    processedAt: new Date(),
+    error: adminFieldValue().delete(),
+  });
+  return { outcome: "processed" };
+}
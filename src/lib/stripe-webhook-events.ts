@@ -0,0 +1,24 @@
+/**
+ * Stripe webhook delivery log (client + server).
+ *
+ * Every event the webhook receives gets a doc at stripeWebhookEvents/{eventId}. The handler claims
+ * it before doing anything, so a redelivered event is acknowledged without being handled twice.
+ */
+import { toDate } from "@/lib/date-utils";
+import type { StripeWebhookEvent } from "@/types";
+
+export const STRIPE_WEBHOOK_EVENTS_COLLECTION = "stripeWebhookEvents";
+
+/** How long a claimed event is left to its handler before it counts as abandoned. */
+export const WEBHOOK_PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+/** Whether an admin may replay the event: it failed, or its handler died without finishing. */
+export function isReplayableWebhookEvent(
+  event: Pick<StripeWebhookEvent, "status" | "lastAttemptAt">,
+  now: Date = new Date()
+): boolean {
+  if (event.status === "failed") return true;
+  if (event.status !== "processing") return false;
+  const lastAttemptAt = toDate(event.lastAttemptAt);
+  return !lastAttemptAt || now.getTime() - lastAttemptAt.getTime() > WEBHOOK_PROCESSING_LEASE_MS;
+}
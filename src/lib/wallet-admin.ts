@@ -0,0 +1,125 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { buildWalletTransaction, walletBalance, walletTransactionsPath, type WalletTransactionInput } from "@/lib/wallet";
+import type { UserProfile } from "@/types";
+
+/** PaymentIntent metadata `purpose` for wallet top-ups. */
+export const WALLET_TOP_UP_PURPOSE = "wallet_top_up";
+
+/**
+ * Queue a wallet change on an Admin SDK transaction. `user` must be the user doc as read in the
+ * same transaction; pass `transactionId` to make the entry idempotent (e.g. one per PaymentIntent):
+ * the entry is created, never overwritten, so the transaction fails if that id was already used.
+ * Returns the new balance. Throws when a debit is more than the wallet holds.
+ */
+export function recordWalletTransactionAdmin(
+  transaction: { create(ref: any, data: any): unknown; update(ref: any, data: any): unknown },
+  userId: string,
+  user: Pick<UserProfile, "walletBalance">,
+  input: WalletTransactionInput,
+  transactionId?: string
+): { transactionId: string; balanceAfter: number } {
+  const db = adminDb();
+  const collection = db.collection(walletTransactionsPath(userId));
+  const entryRef = transactionId ? collection.doc(transactionId) : collection.doc();
+  const { entry, balanceAfter } = buildWalletTransaction(walletBalance(user), input, new Date());
+  transaction.create(entryRef, entry);
+  transaction.update(db.collection("users").doc(userId), { walletBalance: balanceAfter });
+  return { transactionId: entryRef.id, balanceAfter };
+}
+
+/** Credit a succeeded top-up PaymentIntent to the client's wallet, once per PaymentIntent. */
+export async function creditWalletTopUpAdmin(paymentIntent: {
+  id: string;
+  amount_received: number; // Cents
+  metadata: Record<string, string>;
+}): Promise<void> {
+  const userId = paymentIntent.metadata?.userId;
+  if (!userId) {
+    console.error(`Wallet top-up ${paymentIntent.id} is missing userId metadata`);
+    return;
+  }
+
+  const db = adminDb();
+  const userRef = db.collection("users").doc(userId);
+  const entryId = `top-up-${paymentIntent.id}`;
+  const entryRef = db.collection(walletTransactionsPath(userId)).doc(entryId);
+  await db.runTransaction(async (transaction: any) => {
+    const [userSnap, entrySnap] = await Promise.all([transaction.get(userRef), transaction.get(entryRef)]);
+    if (entrySnap.exists) return;
+    if (!userSnap.exists) throw new Error(`User ${userId} not found for wallet top-up ${paymentIntent.id}`);
+    recordWalletTransactionAdmin(
+      transaction,
+      userId,
+      userSnap.data() || {},
+      {
+        type: "top_up",
+        amount: paymentIntent.amount_received / 100,
+        description: "Wallet top-up",
+        stripePaymentIntentId: paymentIntent.id,
+        createdBy: "system",
+      },
+      entryId
+    );
+  });
+}
+
+/**
+ * Read in `transaction` what a wallet-paid label took from the wallet, in dollars. The amount
+ * comes from the label's debit entry in the ledger, never from the label doc. Throws when the
+ * entry is missing or does not pay for this label. Call it before the transaction writes.
+ */
+export async function getLabelWalletDebitAdmin(
+  transaction: { get(ref: any): Promise<any> },
+  userId: string,
+  labelPurchaseId: string,
+  walletTransactionId: string | undefined
+): Promise<number> {
+  const entrySnap = walletTransactionId
+    ? await transaction.get(adminDb().collection(walletTransactionsPath(userId)).doc(walletTransactionId))
+    : null;
+  const entry = entrySnap?.exists ? entrySnap.data() || {} : null;
+  const amount = Number(entry?.amount);
+  if (!entry || entry.type !== "label_purchase" || entry.labelPurchaseId !== labelPurchaseId || !(amount < 0)) {
+    throw new Error(`No wallet payment found for label purchase ${labelPurchaseId}.`);
+  }
+  return -amount;
+}
+
+/**
+ * Give a wallet-paid label's price back when the label could not be bought. Idempotent per label
+ * purchase; labels paid by card, or bought after all, are left alone.
+ */
+export async function refundLabelToWalletAdmin(userId: string, labelPurchaseId: string): Promise<boolean> {
+  const db = adminDb();
+  const userRef = db.collection("users").doc(userId);
+  const labelRef = db.collection(`users/${userId}/labelPurchases`).doc(labelPurchaseId);
+  const entryId = `label-refund-${labelPurchaseId}`;
+  const entryRef = db.collection(walletTransactionsPath(userId)).doc(entryId);
+
+  return db.runTransaction(async (transaction: any) => {
+    const [userSnap, labelSnap, entrySnap] = await Promise.all([
+      transaction.get(userRef),
+      transaction.get(labelRef),
+      transaction.get(entryRef),
+    ]);
+    if (entrySnap.exists || !labelSnap.exists) return false;
+    const label = labelSnap.data() || {};
+    if (label.paymentMethod !== "wallet" || label.status !== "label_failed") return false;
+    const paid = await getLabelWalletDebitAdmin(transaction, userId, labelPurchaseId, label.walletTransactionId);
+
+    recordWalletTransactionAdmin(
+      transaction,
+      userId,
+      userSnap.data() || {},
+      {
+        type: "label_refund",
+        amount: paid,
+        description: `Refund for ${label.selectedRate?.provider ? `${label.selectedRate.provider} ` : ""}label that could not be purchased`,
+        labelPurchaseId,
+        createdBy: "system",
+      },
+      entryId
+    );
+    return true;
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Client wallets (client + server).
+ *
+ * A wallet is a prepaid balance kept on the user doc (`walletBalance`) with a ledger entry at
+ * users/{uid}/walletTransactions for every change. The balance and its ledger entry are always
+ * written in the same transaction, so the ledger's last `balanceAfter` is the balance.
+ */
+import { roundMoney } from "@/lib/invoice-utils";
+import type { UserProfile, WalletTransaction, WalletTransactionType } from "@/types";
+
+export const WALLET_TRANSACTIONS_COLLECTION = "walletTransactions";
+
+/** Smallest top-up; Stripe's card fees make anything less pointless. */
+export const MIN_WALLET_TOP_UP = 5;
+
+export function walletTransactionsPath(userId: string): string {
+  return `users/${userId}/${WALLET_TRANSACTIONS_COLLECTION}`;
+}
+
+export type WalletTransactionInput = Omit<WalletTransaction, "id" | "balanceAfter" | "createdAt">;
+
+export function walletBalance(user: Pick<UserProfile, "walletBalance"> | null | undefined): number {
+  return roundMoney(Number(user?.walletBalance) || 0);
+}
+
+/**
+ * The ledger entry and new balance for `input` against a wallet holding `balance`. Throws when a
+ * debit is more than the wallet holds.
+ */
+export function buildWalletTransaction(
+  balance: number,
+  input: WalletTransactionInput,
+  createdAt: Date
+): { entry: Omit<WalletTransaction, "id" | "createdAt"> & { createdAt: Date }; balanceAfter: number } {
+  const amount = roundMoney(input.amount);
+  const balanceAfter = roundMoney(balance + amount);
+  if (balanceAfter < 0) {
+    throw new Error(`Insufficient wallet balance: $${roundMoney(balance).toFixed(2)} available.`);
+  }
+  const entry = Object.fromEntries(
+    Object.entries({ ...input, amount, balanceAfter, createdAt }).filter(([, value]) => value !== undefined)
+  ) as Omit<WalletTransaction, "id" | "createdAt"> & { createdAt: Date };
+  return { entry, balanceAfter };
+}
+
+const TYPE_LABELS: Record<WalletTransactionType, string> = {
+  top_up: "Top-up",
+  label_purchase: "Label Purchase",
+  label_refund: "Label Refund",
+  invoice_payment: "Invoice Payment",
+  overpayment: "Overpayment",
+  credit_note: "Credit Note",
+};
+
+export function walletTransactionTypeLabel(type: WalletTransactionType): string {
+  return TYPE_LABELS[type] || type;
+}
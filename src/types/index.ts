@@ -11,6 +11,28 @@ export interface Location {
   createdAt?: Date;
 }
 
+/** A storage bin inside a Location, addressed by zone/aisle/shelf/bin. */
+export interface BinLocation {
+  id: string;
+  locationId: string;
+  zone?: string;
+  aisle?: string;
+  shelf?: string;
+  bin: string;
+  /** Display code built from the parts, e.g. "A-03-2-B05". */
+  code: string;
+  active: boolean;
+  createdAt?: Date;
+}
+
+/** Units of an inventory item stored in one bin. */
+export interface InventoryBinQuantity {
+  binId: string;
+  locationId: string;
+  code: string;
+  quantity: number;
+}
+
 export type UserFeature =
   | "view_dashboard"
   | "view_inventory"
@@ -89,6 +111,23 @@ export interface UserProfile {
   } | null;
   /** MSA effective date (ISO string). */
   msaEffectiveDate?: string | null;
+  /** Stripe customer holding the client's saved payment method. */
+  stripeCustomerId?: string | null;
+  defaultPaymentMethod?: SavedPaymentMethod | null;
+  /** Charge generated storage and service invoices to `defaultPaymentMethod`. */
+  autopayEnabled?: boolean;
+  /** Prepaid balance in dollars; every change is in users/{uid}/walletTransactions. */
+  walletBalance?: number;
+}
+
+/** Display details of a Stripe PaymentMethod saved for autopay. */
+export interface SavedPaymentMethod {
+  id: string; // Stripe PaymentMethod ID
+  type: "card" | "us_bank_account";
+  brand?: string; // Card brand, or bank name for bank accounts
+  last4: string;
+  expMonth?: number;
+  expYear?: number;
 }
 
 export interface InventoryItem {
@@ -108,6 +147,62 @@ export interface InventoryItem {
   shopifyInventoryItemId?: string;
   shop?: string;
   sku?: string;
+  /** UPC-A / EAN-8 / EAN-13 / GTIN-14 digits. */
+  upc?: string;
+  asin?: string;
+  /** Amazon fulfillment network SKU printed on the unit label. */
+  fnsku?: string;
+  /** Units held by pending shipment requests; available = quantity - reservedQuantity. */
+  reservedQuantity?: number;
+  /** Lots/batches received for this item; units not covered by a lot are untracked. */
+  lots?: InventoryLot[];
+  /** Where the units are stored; units not in any bin are unassigned. */
+  bins?: InventoryBinQuantity[];
+  /** Client-set low-stock threshold; the item is low when quantity is at or below it. */
+  reorderPoint?: number;
+  /** Case pack and pallet configuration; quantity is always stored in units. */
+  packaging?: ProductPackaging;
+  /** Size of one unit, needed for cubic-feet storage billing. */
+  dimensions?: ProductDimensions;
+}
+
+/** Packaging levels an item can be counted in. */
+export type PackagingUnit = "unit" | "case" | "pallet";
+
+/** How an item is packed: units per case and cases per pallet (a pallet needs a case pack). */
+export interface ProductPackaging {
+  unitsPerCase?: number;
+  casesPerPallet?: number;
+}
+
+/** Outer dimensions of one unit. */
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+  unit: "in" | "cm";
+}
+
+/** A received lot/batch of an inventory item. */
+export interface InventoryLot {
+  lotNumber?: string;
+  /** Expiration date as yyyy-MM-dd; omitted for non-expiring stock. */
+  expirationDate?: string;
+  quantity: number;
+}
+
+/** Units a pending shipment request holds against one inventory item. */
+export interface ShipmentReservation {
+  productId: string;
+  quantity: number;
+}
+
+/** Units a confirmed shipment request took from one inventory item, and where they were picked. */
+export interface ShipmentAllocation {
+  productId: string;
+  quantity: number;
+  lots?: InventoryLot[];
+  bins?: InventoryBinQuantity[];
 }
 
 /** User request to add inventory (pending/approved/rejected). */
@@ -131,6 +226,77 @@ export interface InventoryRequest {
   remarks?: string;
   imageUrl?: string;
   imageUrls?: string[];
+  lotNumber?: string;
+  /** yyyy-MM-dd */
+  expirationDate?: string;
+}
+
+export type InboundShipmentStatus = "submitted" | "receiving" | "received" | "closed" | "cancelled";
+
+/** Units of one product the client expects in a carton, and what was actually received. */
+export interface InboundCartonLine {
+  /** Inventory item being restocked; omitted for products not in inventory yet. */
+  productId?: string;
+  productName: string;
+  sku?: string;
+  expectedQuantity: number;
+  /** Units counted on receipt, damaged ones included. */
+  receivedQuantity?: number;
+  damagedQuantity?: number;
+}
+
+export interface InboundCarton {
+  trackingNumber?: string;
+  lines: InboundCartonLine[];
+  status: "expected" | "received" | "missing";
+  receivedAt?: { seconds: number; nanoseconds: number } | string;
+  receivedByName?: string;
+  notes?: string;
+}
+
+/** Advance shipping notice for a client delivery (users/{uid}/inboundShipments). */
+export interface InboundShipment {
+  id: string;
+  /** Human-readable ASN number, e.g. ASN-20260115-4821. */
+  reference: string;
+  carrier: string;
+  /** yyyy-MM-dd */
+  expectedArrivalDate?: string;
+  cartons: InboundCarton[];
+  status: InboundShipmentStatus;
+  remarks?: string;
+  requestedBy: string;
+  createdAt: { seconds: number; nanoseconds: number } | string;
+  receivedAt?: { seconds: number; nanoseconds: number } | string;
+  /** Set when the client has seen the receiving discrepancies. */
+  clientAcknowledgedAt?: { seconds: number; nanoseconds: number } | string;
+  closedAt?: { seconds: number; nanoseconds: number } | string;
+  closedByName?: string;
+}
+
+/** `quantity` units of an inventory item that go into one bundle. */
+export interface BundleComponent {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+/** Kit/bundle SKU stored in users/{uid}/bundles; it holds no stock of its own, only component items do. */
+export interface ProductBundle {
+  id: string;
+  name: string;
+  sku: string;
+  components: BundleComponent[];
+  createdAt: { seconds: number; nanoseconds: number } | string;
+  updatedAt?: { seconds: number; nanoseconds: number } | string;
+}
+
+/** Copy of a bundle kept on a shipment request line, so later edits to the bundle do not change the request. */
+export interface ShipmentBundle {
+  bundleId: string;
+  name: string;
+  sku: string;
+  components: BundleComponent[];
 }
 
 export interface ShipmentProductItem {
@@ -141,6 +307,12 @@ export interface ShipmentProductItem {
   packOf: number;
   unitPrice?: number;
   remainingQty?: number;
+  /** Lots the units were picked from (FEFO), when the item tracks lots. */
+  lots?: InventoryLot[];
+  /** Bins the units were picked from. */
+  bins?: InventoryBinQuantity[];
+  /** Set when the line shipped a bundle; the units were taken from these components. */
+  bundle?: ShipmentBundle;
 }
 
 export interface LabelProductDetail {
@@ -368,6 +540,211 @@ export interface EditLog {
   } | string;
   editedBy: string; // Admin name who edited
   reason: string; // Reason for editing
+  /** Cycle count session whose approved variance produced this edit. */
+  cycleCountId?: string;
+}
+
+/** Why an inventory quantity changed. */
+export type StockMovementType = "receive" | "ship" | "adjust" | "cycle_count" | "dispose" | "return" | "integration_sync";
+
+/** Append-only ledger entry stored in users/{uid}/stockMovements (never updated or deleted). */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productName: string;
+  type: StockMovementType;
+  /** Signed change in units: positive adds stock, negative removes it. */
+  quantityDelta: number;
+  /** Stored inventory quantity immediately before and after this movement. */
+  quantityBefore: number;
+  quantityAfter: number;
+  reason?: string;
+  /** Firestore path of the document that caused the movement (e.g. users/{uid}/shipmentRequests/{id}). */
+  referencePath?: string;
+  createdBy: string; // Admin/user UID, or "system:shopify" / "system:ebay" for integration syncs
+  createdByName?: string;
+  createdAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+}
+
+export type CycleCountStatus = "counting" | "review" | "completed" | "cancelled";
+
+/** One inventory item in a cycle count, with the system quantity captured when the session was created. */
+export interface CycleCountLine {
+  userId: string;
+  userName?: string;
+  productId: string;
+  productName: string;
+  sku?: string;
+  /** Bins holding the item when the session was created, to guide the counter. */
+  binCodes?: string[];
+  systemQuantity: number;
+  /** null until the line has been counted. */
+  countedQuantity: number | null;
+  /** Set on completion: "approved" variances were adjusted into inventory, "dismissed" ones were not. */
+  resolution?: "approved" | "dismissed";
+}
+
+/** Physical count of one client's inventory or of every client at a location (top-level cycleCounts). */
+export interface CycleCountSession {
+  id: string;
+  name: string;
+  scope: "client" | "location";
+  userId?: string;
+  locationId?: string;
+  /** Hide system quantities from counters until the session is submitted for review. */
+  blind: boolean;
+  status: CycleCountStatus;
+  lines: CycleCountLine[];
+  createdBy: string;
+  createdByName?: string;
+  createdAt: { seconds: number; nanoseconds: number } | string;
+  submittedAt?: { seconds: number; nanoseconds: number } | string;
+  completedAt?: { seconds: number; nanoseconds: number } | string;
+  completedByName?: string;
+}
+
+/** In-app notification for a client (users/{uid}/notifications). */
+export interface UserNotification {
+  id: string;
+  type: "low_stock";
+  title: string;
+  message: string;
+  productId?: string;
+  read: boolean;
+  createdAt: { seconds: number; nanoseconds: number } | string;
+}
+
+/** Prep service a product shipment is sent for. */
+export type ServiceType = "FBA/WFS/TFS" | "FBM";
+
+export type ProductType = "Standard" | "Large" | "Custom";
+
+export type ContainerSize = "20 feet" | "40 feet";
+
+/**
+ * Fields every client pricing document carries. Documents are never overwritten by a rate
+ * change: a new one starts on its `effectiveFrom` day (see `pricing-history`).
+ */
+interface PricingEntryBase {
+  id: string;
+  userId: string;
+  /** Start of the day the price applies from; absent on entries saved before effective dates. */
+  effectiveFrom?: { seconds: number; nanoseconds: number } | string;
+  createdAt?: { seconds: number; nanoseconds: number } | string;
+  updatedAt?: { seconds: number; nanoseconds: number } | string;
+}
+
+/** Prep rate for one service, product type and quantity tier (users/{uid}/pricing). */
+export interface UserPricing extends PricingEntryBase {
+  service: ServiceType;
+  productType: ProductType;
+  /** Quantity tier the rate applies to; older rules only have `package` / `quantityRange`. */
+  tierId?: string;
+  package?: string;
+  quantityRange?: string;
+  /** Per unit. */
+  rate: number;
+  /** Charged once for every unit in a pack after the first. */
+  packOf: number;
+}
+
+/** Monthly storage price (users/{uid}/storagePricing). */
+export interface UserStoragePricing extends PricingEntryBase {
+  storageType: StorageType;
+  price: number;
+  /** Pallets the price covers, for pallet-base storage. */
+  palletCount?: number;
+}
+
+/** Price per forwarded box (users/{uid}/boxForwardingPricing). */
+export interface UserBoxForwardingPricing extends PricingEntryBase {
+  price: number;
+}
+
+/** Price per forwarded pallet (users/{uid}/palletForwardingPricing). */
+export interface UserPalletForwardingPricing extends PricingEntryBase {
+  price: number;
+}
+
+/** Price per pallet shipped out of existing inventory (users/{uid}/palletExistingInventoryPricing). */
+export interface UserPalletExistingInventoryPricing extends PricingEntryBase {
+  price: number;
+}
+
+/** Price per received container of one size (users/{uid}/containerHandlingPricing). */
+export interface UserContainerHandlingPricing extends PricingEntryBase {
+  containerSize: ContainerSize;
+  price: number;
+}
+
+/** Prices of the extras an admin can add when confirming a shipment (users/{uid}/additionalServicesPricing). */
+export interface UserAdditionalServicesPricing extends PricingEntryBase {
+  /** Per foot. */
+  bubbleWrapPrice: number;
+  /** Per item. */
+  stickerRemovalPrice: number;
+  /** Per label. */
+  warningLabelPrice: number;
+}
+
+/** Prep services whose rates are tiered by shipment quantity. */
+export type TieredService = "FBA/WFS/TFS" | "FBM";
+
+/** One quantity tier; it runs from `minQuantity` up to the next tier's minimum. */
+export interface PricingTier {
+  id: string;
+  name: string;
+  minQuantity: number;
+}
+
+/**
+ * Tier table for a service. Global defaults live in `pricingTiers/{id}`; a client override in
+ * `users/{uid}/pricingTiers/{id}` replaces the whole table for that client.
+ */
+export interface PricingTierTable {
+  id: string;
+  service: TieredService;
+  tiers: PricingTier[];
+  updatedAt?: { seconds: number; nanoseconds: number } | string;
+  updatedBy?: string;
+}
+
+/**
+ * How a client's storage is billed each month: per item in stock, per pallet, by average cubic
+ * feet occupied, or by average pallet positions occupied (the last two prorated daily).
+ */
+export type StorageType = "product_base" | "pallet_base" | "cubic_feet" | "pallet_positions";
+
+/** One stocked product in a daily storage snapshot. */
+export interface StorageSnapshotItem {
+  productId: string;
+  productName: string;
+  sku?: string;
+  quantity: number;
+  status?: string;
+  /** yyyy-MM-dd; product-base storage skips items added in the billed month. */
+  dateAdded?: string;
+  /** Set only when the item has dimensions. */
+  cubicFeet?: number;
+  /** Set only when the item is a pallet or has a pallet configuration. */
+  palletPositions?: number;
+}
+
+/** A client's billable storage footprint on one day, stored at users/{uid}/storageSnapshots/{date}. */
+export interface StorageSnapshot {
+  id: string;
+  date: string; // yyyy-MM-dd
+  storageType?: StorageType;
+  items: StorageSnapshotItem[];
+  totalUnits: number;
+  /** Pallets for pallet-base storage; null when some stocked items cannot be converted to pallets. */
+  pallets: number | null;
+  totalCubicFeet: number;
+  totalPalletPositions: number;
+  capturedAt: { seconds: number; nanoseconds: number } | string;
 }
 
 export interface Invoice {
@@ -394,7 +771,7 @@ export interface Invoice {
   }>;
   subtotal: number;
   grandTotal: number;
-  status: 'pending' | 'paid';
+  status: 'pending' | 'partially_paid' | 'paid';
   createdAt: {
     seconds: number;
     nanoseconds: number;
@@ -432,6 +809,150 @@ export interface Invoice {
   discountAmount?: number;
   type?: string;
   isContainerHandling?: boolean;
+  creditedAmount?: number; // Total of credit notes issued against this invoice
+  settledByCredit?: boolean; // Marked paid because credit notes cleared the balance
+  amountPaid?: number; // Sum of `payments`
+  payments?: InvoicePayment[];
+  autopayStatus?: InvoiceAutopayStatus;
+  autopayAttempts?: number; // Charges tried against the saved payment method
+  autopayLastError?: string;
+  autopayNextAttemptAt?: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  dunningNotifiedAttempts?: number; // Failed attempts the client was emailed about
+  paidAt?: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+}
+
+/** `exhausted` once every retry failed; the client has to pay by hand. */
+export type InvoiceAutopayStatus = "processing" | "failed" | "succeeded" | "exhausted";
+
+export type InvoicePaymentMethod = "Zelle" | "ACH" | "Wire" | "Card" | "Wallet" | "Other";
+
+/** A payment recorded on an invoice, shaped like the external invoice portal's payment entries. */
+export interface InvoicePayment {
+  id: string;
+  amount: number;
+  date: string; // yyyy-MM-dd
+  method: InvoicePaymentMethod;
+  reference?: string;
+  notes?: string;
+  stripePaymentIntentId?: string;
+  createdAt?: string;
+}
+
+/** A Stripe payment started against an invoice, stored at users/{uid}/invoicePayments/{paymentIntentId}. */
+export interface InvoicePaymentAttempt {
+  id: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  amount: number; // Dollars
+  status: "pending" | "processing" | "succeeded" | "failed" | "canceled";
+  stripePaymentIntentId: string;
+  autopay?: boolean; // Charged to the saved payment method rather than by the client
+  errorMessage?: string;
+  createdAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  completedAt?: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+}
+
+export type WalletTransactionType =
+  | "top_up"
+  | "label_purchase"
+  | "label_refund"
+  | "invoice_payment"
+  | "overpayment"
+  | "credit_note";
+
+export type StripeWebhookEventStatus = "processing" | "processed" | "failed";
+
+/** A Stripe webhook delivery, stored at stripeWebhookEvents/{eventId} so each event is handled once. */
+export interface StripeWebhookEvent {
+  id: string; // Stripe event ID
+  type: string;
+  livemode: boolean;
+  status: StripeWebhookEventStatus;
+  attempts: number; // Deliveries and replays that tried to handle it
+  objectId?: string; // The PaymentIntent or charge the event is about
+  purpose?: string; // PaymentIntent metadata purpose; empty for label payments
+  userId?: string;
+  error?: string; // Last failure
+  eventCreatedAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  receivedAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  lastAttemptAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  processedAt?: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  replayedBy?: string; // Admin user ID of the last replay
+}
+
+/** A change to a client's wallet balance, stored at users/{uid}/walletTransactions. */
+export interface WalletTransaction {
+  id: string;
+  type: WalletTransactionType;
+  amount: number; // Dollars; positive adds to the balance, negative spends from it
+  balanceAfter: number;
+  description: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  labelPurchaseId?: string;
+  creditNoteId?: string;
+  stripePaymentIntentId?: string;
+  createdAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  createdBy: string; // User ID, or "system" for Stripe events
+}
+
+export interface CreditNoteLine {
+  lineKey: string; // Invoice line credited: "item-<index>", "additional-services" or "discount"
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+}
+
+/** Stored at users/{uid}/creditNotes; reduces what the client owes on the original invoice. */
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  date: string; // yyyy-MM-dd
+  userId: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  soldTo: Invoice["soldTo"];
+  kind: "full" | "partial";
+  reason: string;
+  lines: CreditNoteLine[];
+  total: number;
+  appliedAmount: number; // Taken off the invoice's balance due
+  unappliedAmount: number; // Left as account credit (the invoice was already paid)
+  walletTransactionId?: string; // Set when the account credit went to the client's wallet
+  createdAt: {
+    seconds: number;
+    nanoseconds: number;
+  } | string;
+  createdBy: string;
+  createdByName?: string;
 }
 
 export interface UploadedPDF {
@@ -532,12 +1053,14 @@ export interface LabelPurchase {
     serviceLevel: string;
     shipmentId?: string;
   };
-  stripePaymentIntentId: string;
+  stripePaymentIntentId: string; // Empty when paid from the wallet
+  paymentMethod?: 'card' | 'wallet';
+  walletTransactionId?: string;
   stripeChargeId?: string;
   paymentStatus: 'pending' | 'succeeded' | 'failed' | 'canceled';
   paymentAmount: number;
   paymentCurrency: string;
-  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed';
+  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed' | 'refund_pending' | 'refunded';
   shippoTransactionId?: string;
   trackingNumber?: string;
   labelUrl?: string;
@@ -546,6 +1069,15 @@ export interface LabelPurchase {
   paymentCompletedAt?: Date;
   labelPurchasedAt?: Date;
   shippedItemId?: string;
+  // Voiding a purchased label: Shippo refunds it once the carrier approves, then so do we
+  shippoRefundId?: string;
+  refundStatus?: 'QUEUED' | 'PENDING' | 'SUCCESS' | 'ERROR'; // As reported by Shippo
+  refundRequestedAt?: Date;
+  refundRequestedBy?: string;
+  refundError?: string;
+  refundedAt?: Date;
+  stripeRefundId?: string; // Card-paid labels
+  refundWalletTransactionId?: string; // Wallet-paid labels
 }
 
   paidAt?: Date | {
@@ -617,7 +1149,7 @@ export interface LabelPurchase {
   paymentStatus: 'pending' | 'succeeded' | 'failed' | 'canceled';
   paymentAmount: number;
   paymentCurrency: string;
-  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed';
+  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed' | 'refund_pending' | 'refunded';
   shippoTransactionId?: string;
   trackingNumber?: string;
   labelUrl?: string;
@@ -697,7 +1229,7 @@ export interface LabelPurchase {
   paymentStatus: 'pending' | 'succeeded' | 'failed' | 'canceled';
   paymentAmount: number;
   paymentCurrency: string;
-  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed';
+  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed' | 'refund_pending' | 'refunded';
   shippoTransactionId?: string;
   trackingNumber?: string;
   labelUrl?: string;
@@ -777,7 +1309,7 @@ export interface LabelPurchase {
   paymentStatus: 'pending' | 'succeeded' | 'failed' | 'canceled';
   paymentAmount: number;
   paymentCurrency: string;
-  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed';
+  status: 'payment_pending' | 'payment_succeeded' | 'label_purchased' | 'label_failed' | 'completed' | 'refund_pending' | 'refunded';
   shippoTransactionId?: string;
   trackingNumber?: string;
   labelUrl?: string;